@@ -2,6 +2,13 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  BASELINE_FILE,
+  ConstitutionalBaseline,
+  emptyBaseline,
+  parseBaseline,
+  serializeBaseline,
+} from '../src/constitutional/metrics/suppressions';
 
 interface ConstitutionalRule {
   id: string;
@@ -63,6 +70,8 @@ interface RuleCheckResult {
   passed: boolean;
   filesChecked: number;
   filesMatched: number;
+  /** Failing, but accepted by the baseline: counted towards the CRS and reported */
+  suppressed: boolean;
 }
 
 interface CRSReport {
@@ -70,12 +79,25 @@ interface CRSReport {
   totalRules: number;
   passedRules: number;
   failedRules: number;
+  suppressedRules: number;
   crs: number;
   ruleResults: RuleCheckResult[];
   passed: boolean;
 }
 
-function checkRule(files: string[], rule: ConstitutionalRule): RuleCheckResult {
+const baselinePath = path.join(process.cwd(), BASELINE_FILE);
+
+function loadBaseline(): ConstitutionalBaseline {
+  return fs.existsSync(baselinePath)
+    ? parseBaseline(fs.readFileSync(baselinePath, 'utf-8'))
+    : emptyBaseline();
+}
+
+function checkRule(
+  files: string[],
+  rule: ConstitutionalRule,
+  baseline: ConstitutionalBaseline,
+): RuleCheckResult {
   let filesMatched = 0;
 
   files.forEach((file) => {
@@ -99,6 +121,7 @@ function checkRule(files: string[], rule: ConstitutionalRule): RuleCheckResult {
     passed,
     filesChecked: files.length,
     filesMatched,
+    suppressed: !passed && baseline.crs.includes(rule.id),
   };
 }
 
@@ -140,7 +163,7 @@ function calculateCRS(results: RuleCheckResult[]): number {
 
   results.forEach((result) => {
     totalWeight += result.rule.weight;
-    if (result.passed) {
+    if (result.passed || result.suppressed) {
       satisfiedWeight += result.rule.weight;
     }
   });
@@ -149,7 +172,11 @@ function calculateCRS(results: RuleCheckResult[]): number {
   return (satisfiedWeight / totalWeight) * 100;
 }
 
-function generateReport(srcDir: string, threshold: number): CRSReport {
+function generateReport(
+  srcDir: string,
+  threshold: number,
+  baseline: ConstitutionalBaseline,
+): CRSReport {
   console.log('🔍 Checking Constitutional Rule Satisfaction (CRS)...\n');
 
   const files = walkDirectory(srcDir, ['.ts', '.js', '.json']);
@@ -160,6 +187,7 @@ function generateReport(srcDir: string, threshold: number): CRSReport {
       totalRules: CONSTITUTIONAL_RULES.length,
       passedRules: 0,
       failedRules: 0,
+      suppressedRules: 0,
       crs: 0,
       ruleResults: [],
       passed: false,
@@ -169,12 +197,13 @@ function generateReport(srcDir: string, threshold: number): CRSReport {
   const ruleResults: RuleCheckResult[] = [];
 
   CONSTITUTIONAL_RULES.forEach((rule) => {
-    const result = checkRule(files, rule);
+    const result = checkRule(files, rule, baseline);
     ruleResults.push(result);
   });
 
   const passedRules = ruleResults.filter((r) => r.passed).length;
-  const failedRules = ruleResults.length - passedRules;
+  const suppressedRules = ruleResults.filter((r) => r.suppressed).length;
+  const failedRules = ruleResults.length - passedRules - suppressedRules;
   const crs = calculateCRS(ruleResults);
 
   return {
@@ -182,6 +211,7 @@ function generateReport(srcDir: string, threshold: number): CRSReport {
     totalRules: CONSTITUTIONAL_RULES.length,
     passedRules,
     failedRules,
+    suppressedRules,
     crs: parseFloat(crs.toFixed(2)),
     ruleResults,
     passed: crs >= threshold,
@@ -194,12 +224,13 @@ function printReport(report: CRSReport, threshold: number): void {
   console.log(`Total Rules: ${report.totalRules}`);
   console.log(`Passed Rules: ${report.passedRules}`);
   console.log(`Failed Rules: ${report.failedRules}`);
+  console.log(`Suppressed Rules (${BASELINE_FILE}): ${report.suppressedRules}`);
   console.log(`CRS Score: ${report.crs}% (threshold: ≥ ${threshold}%)\n`);
 
   console.log('📋 Rule Results:\n');
 
   report.ruleResults.forEach((result) => {
-    const status = result.passed ? '✅' : '❌';
+    const status = result.passed ? '✅' : result.suppressed ? '🔕' : '❌';
     const required = result.rule.required ? '[REQUIRED]' : '[OPTIONAL]';
     const coverage =
       result.filesChecked > 0
@@ -209,7 +240,9 @@ function printReport(report: CRSReport, threshold: number): void {
     console.log(
       `${status} ${result.rule.id} ${required} ${coverage}`,
     );
-    console.log(`   ${result.rule.name}`);
+    console.log(
+      `   ${result.rule.name}${result.suppressed ? ' (failing, accepted by baseline)' : ''}`,
+    );
   });
 
   console.log('\n');
@@ -234,7 +267,18 @@ function main(): void {
     process.exit(0);
   }
 
-  const report = generateReport(srcDir, threshold);
+  const baseline = loadBaseline();
+
+  if (process.argv.includes('--write-baseline')) {
+    const { ruleResults } = generateReport(srcDir, threshold, { ...baseline, crs: [] });
+    const failing = ruleResults.filter((r) => !r.passed).map((r) => r.rule.id);
+
+    fs.writeFileSync(baselinePath, serializeBaseline({ ...baseline, crs: failing }));
+    console.log(`📝 ${BASELINE_FILE} written: ${failing.length} failing CRS rules accepted\n`);
+    process.exit(0);
+  }
+
+  const report = generateReport(srcDir, threshold, baseline);
   printReport(report, threshold);
 
   process.exit(report.passed ? 0 : 1);
@@ -2,55 +2,22 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-
-interface LazyPattern {
-  pattern: RegExp;
-  severity: 'CRITICAL' | 'HIGH' | 'MEDIUM';
-  description: string;
-}
-
-const LAZY_PATTERNS: LazyPattern[] = [
-  {
-    pattern: /\/\/\s*(TODO|FIXME|HACK|XXX|FIX|IMPLEMENT)/i,
-    severity: 'CRITICAL',
-    description: 'TODO/FIXME comments',
-  },
-  {
-    pattern: /\/\*\s*(TODO|FIXME|HACK|XXX|FIX|IMPLEMENT)/i,
-    severity: 'CRITICAL',
-    description: 'TODO/FIXME block comments',
-  },
-  {
-    pattern: /#\s*(TODO|FIXME|HACK|XXX|FIX|IMPLEMENT)/i,
-    severity: 'CRITICAL',
-    description: 'TODO/FIXME Python-style comments',
-  },
-  {
-    pattern: /throw new Error\(['"]Not implemented['"]\)/i,
-    severity: 'HIGH',
-    description: 'Not implemented errors',
-  },
-  {
-    pattern: /throw new Error\(['"]TODO['"]\)/i,
-    severity: 'HIGH',
-    description: 'TODO errors',
-  },
-  {
-    pattern: /\/\/\s*@ts-ignore/i,
-    severity: 'HIGH',
-    description: '@ts-ignore comments',
-  },
-  {
-    pattern: /\/\/\s*eslint-disable/i,
-    severity: 'MEDIUM',
-    description: 'ESLint disable comments',
-  },
-  {
-    pattern: /const\s+\w+\s*=\s*\{\s*\};\s*\/\/\s*(mock|placeholder|stub)/i,
-    severity: 'HIGH',
-    description: 'Mock/placeholder data',
-  },
-];
+import { supportedExtensions } from '../src/constitutional/metrics/languages/language-packs';
+import {
+  LazyPattern,
+  LEICalculatorService,
+} from '../src/constitutional/metrics/lei-calculator.service';
+import {
+  BASELINE_FILE,
+  ConstitutionalBaseline,
+  emptyBaseline,
+  fingerprint,
+  parseBaseline,
+  serializeBaseline,
+} from '../src/constitutional/metrics/suppressions';
+
+// Same AST-based detection the bot runs on pull requests
+const calculator = new LEICalculatorService();
 
 interface LEIViolation {
   file: string;
@@ -60,39 +27,57 @@ interface LEIViolation {
   code: string;
 }
 
+interface SuppressedViolation extends LEIViolation {
+  suppressedBy: 'inline' | 'baseline';
+  reason?: string;
+}
+
 interface LEIReport {
   totalFiles: number;
   totalLines: number;
   totalViolations: number;
   lei: number;
   violations: LEIViolation[];
+  suppressed: SuppressedViolation[];
   passed: boolean;
 }
 
+const baselinePath = path.join(process.cwd(), BASELINE_FILE);
+
+function loadBaseline(): ConstitutionalBaseline {
+  return fs.existsSync(baselinePath)
+    ? parseBaseline(fs.readFileSync(baselinePath, 'utf-8'))
+    : emptyBaseline();
+}
+
 function countLines(content: string): number {
   return content.split('\n').length;
 }
 
-function scanFile(filePath: string): LEIViolation[] {
+function scanFile(
+  filePath: string,
+  baseline: ConstitutionalBaseline,
+): { violations: LEIViolation[]; suppressed: SuppressedViolation[] } {
   const content = fs.readFileSync(filePath, 'utf-8');
-  const lines = content.split('\n');
-  const violations: LEIViolation[] = [];
-
-  lines.forEach((line, index) => {
-    for (const { pattern, severity, description } of LAZY_PATTERNS) {
-      if (pattern.test(line)) {
-        violations.push({
-          file: filePath,
-          line: index + 1,
-          pattern: description,
-          severity,
-          code: line.trim(),
-        });
-      }
-    }
+  // Baseline fingerprints use paths relative to the repository root
+  const file = path.relative(process.cwd(), filePath).split(path.sep).join('/');
+  const result = calculator.calculate(content, file, baseline);
+  const toViolation = (pattern: LazyPattern): LEIViolation => ({
+    file,
+    line: pattern.line,
+    pattern: pattern.type,
+    severity: pattern.severity,
+    code: pattern.code,
   });
 
-  return violations;
+  return {
+    violations: result.patterns.map(toViolation),
+    suppressed: result.suppressed.map((pattern) => ({
+      ...toViolation(pattern),
+      suppressedBy: pattern.suppressedBy,
+      reason: pattern.reason,
+    })),
+  };
 }
 
 function walkDirectory(dir: string, extensions: string[]): string[] {
@@ -132,19 +117,25 @@ function calculateLEI(violations: number, totalLines: number): number {
   return (violations / totalLines) * 1000;
 }
 
-function generateReport(srcDir: string, threshold: number): LEIReport {
+function generateReport(
+  srcDir: string,
+  threshold: number,
+  baseline: ConstitutionalBaseline,
+): LEIReport {
   console.log('🔍 Scanning codebase for lazy execution patterns...\n');
 
-  const files = walkDirectory(srcDir, ['.ts', '.js', '.tsx', '.jsx']);
+  const files = walkDirectory(srcDir, supportedExtensions());
   let totalLines = 0;
   const allViolations: LEIViolation[] = [];
+  const allSuppressed: SuppressedViolation[] = [];
 
   files.forEach((file) => {
     const content = fs.readFileSync(file, 'utf-8');
     totalLines += countLines(content);
 
-    const violations = scanFile(file);
+    const { violations, suppressed } = scanFile(file, baseline);
     allViolations.push(...violations);
+    allSuppressed.push(...suppressed);
   });
 
   const lei = calculateLEI(allViolations.length, totalLines);
@@ -156,6 +147,7 @@ function generateReport(srcDir: string, threshold: number): LEIReport {
     totalViolations: allViolations.length,
     lei: parseFloat(lei.toFixed(2)),
     violations: allViolations,
+    suppressed: allSuppressed,
     passed,
   };
 }
@@ -165,6 +157,7 @@ function printReport(report: LEIReport, threshold: number): void {
   console.log(`Total Files Scanned: ${report.totalFiles}`);
   console.log(`Total Lines of Code: ${report.totalLines}`);
   console.log(`Total Violations: ${report.totalViolations}`);
+  console.log(`Suppressed (not in LEI): ${report.suppressed.length}`);
   console.log(`LEI Score: ${report.lei} (threshold: < ${threshold})\n`);
 
   if (report.violations.length > 0) {
@@ -190,6 +183,26 @@ function printReport(report: LEIReport, threshold: number): void {
     console.log('\n');
   }
 
+  if (report.suppressed.length > 0) {
+    const inline = report.suppressed.filter((s) => s.suppressedBy === 'inline');
+    const baselined = report.suppressed.filter((s) => s.suppressedBy === 'baseline');
+
+    console.log('🔕 Suppressed Debt:\n');
+
+    inline.forEach((s) => {
+      console.log(`  ${s.file}:${s.line} [vertice-allow] ${s.pattern}: ${s.reason}`);
+    });
+
+    if (baselined.length > 0) {
+      const files = new Set(baselined.map((s) => s.file));
+      console.log(
+        `  ${baselined.length} patterns in ${files.size} files accepted by ${BASELINE_FILE}`,
+      );
+    }
+
+    console.log('\n');
+  }
+
   if (report.passed) {
     console.log(`✅ LEI CHECK PASSED (${report.lei} < ${threshold})`);
     console.log('Constitutional compliance verified.\n');
@@ -210,7 +223,28 @@ function main(): void {
     process.exit(0);
   }
 
-  const report = generateReport(srcDir, threshold);
+  const baseline = loadBaseline();
+
+  if (process.argv.includes('--write-baseline')) {
+    const { violations } = generateReport(srcDir, threshold, { ...baseline, lei: [] });
+
+    fs.writeFileSync(
+      baselinePath,
+      serializeBaseline({
+        ...baseline,
+        lei: violations.map((v) => ({
+          fingerprint: fingerprint(v.file, v.pattern, v.code),
+          file: v.file,
+          type: v.pattern,
+          code: v.code,
+        })),
+      }),
+    );
+    console.log(`📝 ${BASELINE_FILE} written: ${violations.length} LEI patterns accepted\n`);
+    process.exit(0);
+  }
+
+  const report = generateReport(srcDir, threshold, baseline);
   printReport(report, threshold);
 
   process.exit(report.passed ? 0 : 1);
@@ -0,0 +1,15 @@
+/**
+ * AI Budget Exceeded Error
+ *
+ * Purpose: Stop model calls for an installation that has spent its daily budget
+ * Constitutional Requirement: Article III - Zero Trust (one tenant cannot spend another's capacity)
+ */
+export class AiBudgetExceededError extends Error {
+  constructor(
+    readonly accountLogin: string,
+    readonly dailyCallBudget: number,
+  ) {
+    super(`AI budget exhausted for ${accountLogin}: ${dailyCallBudget} model calls per day`);
+    this.name = 'AiBudgetExceededError';
+  }
+}
@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { Tenant } from '../installations/tenant.service';
+import { AiBudgetExceededError } from './ai-budget-exceeded.error';
+
+/**
+ * AI Budget Service
+ *
+ * Purpose: Meter model calls per installation against a daily budget
+ * Constitutional Requirement: Article III - Zero Trust (tenants share one set of provider keys)
+ *
+ * Budget: Installation.aiDailyCallBudget, else LLM_DAILY_CALL_BUDGET, else unlimited
+ * Usage: Installation.aiCallsToday counts calls made on Installation.aiUsageDay (UTC)
+ * Calls are taken with conditional updates, so concurrent workers never overspend.
+ * Calls without a tenant (token auth, single organization) are not metered.
+ */
+
+@Injectable()
+export class AiBudgetService {
+  private readonly logger = new Logger(AiBudgetService.name);
+  private readonly defaultDailyCallBudget?: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    const configured = configService.get<number>('LLM_DAILY_CALL_BUDGET');
+    this.defaultDailyCallBudget = configured === undefined ? undefined : Number(configured);
+  }
+
+  /**
+   * Take one model call from the tenant's budget for today
+   * @throws AiBudgetExceededError when the budget is spent
+   */
+  async consume(tenant?: Tenant, now: Date = new Date()): Promise<void> {
+    if (!tenant) {
+      return;
+    }
+
+    const budget = tenant.aiDailyCallBudget ?? this.defaultDailyCallBudget;
+    const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+    if (budget === 0) {
+      throw new AiBudgetExceededError(tenant.accountLogin, budget);
+    }
+
+    // First call of the day resets the counter
+    const started = await this.prisma.installation.updateMany({
+      where: { id: tenant.id, OR: [{ aiUsageDay: null }, { aiUsageDay: { lt: today } }] },
+      data: { aiUsageDay: today, aiCallsToday: 1 },
+    });
+
+    if (started.count > 0) {
+      return;
+    }
+
+    const taken = await this.prisma.installation.updateMany({
+      where: {
+        id: tenant.id,
+        aiUsageDay: today,
+        ...(budget === undefined ? {} : { aiCallsToday: { lt: budget } }),
+      },
+      data: { aiCallsToday: { increment: 1 } },
+    });
+
+    if (taken.count === 0 && budget !== undefined) {
+      this.logger.warn(`Installation ${tenant.accountLogin} spent its ${budget} model calls today`);
+      throw new AiBudgetExceededError(tenant.accountLogin, budget);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { Global, Module } from '@nestjs/common';
+import { AiBudgetService } from './ai-budget.service';
+import { LlmService } from './llm.service';
+import { llmProvidersProvider } from './providers/llm-providers.provider';
+import { LLM_PROVIDERS } from './providers/llm-provider.interface';
+
+/**
+ * AI Module
+ *
+ * Purpose: Model access for DETER-AGENT actions
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ *
+ * Providers: Gemini, Anthropic, OpenAI and a deterministic stub
+ * Budget: per-installation daily model call budget (AiBudgetService)
+ * Global: execution actions in the constitutional module depend on it
+ */
+
+@Global()
+@Module({
+  providers: [llmProvidersProvider, AiBudgetService, LlmService],
+  exports: [LLM_PROVIDERS, LlmService],
+})
+export class AiModule {}
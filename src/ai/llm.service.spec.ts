@@ -0,0 +1,123 @@
+import { ConfigService } from '@nestjs/config';
+import { LlmService } from './llm.service';
+import { AiBudgetService } from './ai-budget.service';
+import { AiBudgetExceededError } from './ai-budget-exceeded.error';
+import { PrismaService } from '../prisma/prisma.service';
+import { Tenant } from '../installations/tenant.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+import { LlmProvider } from './providers/llm-provider.interface';
+import { StubLlmProvider } from './providers/stub.provider';
+
+/**
+ * LLM Service Unit Tests
+ *
+ * Purpose: Verify provider/model selection, the deterministic stub provider and AI budgets
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ */
+
+describe('LlmService', () => {
+  const gemini: LlmProvider = {
+    name: 'gemini',
+    defaultModel: 'gemini-1.5-flash',
+    generate: jest.fn().mockResolvedValue('gemini says hi'),
+    generateStructured: jest.fn(),
+  };
+
+  const stub = new StubLlmProvider([
+    { match: 'Title: Crash', response: '```json\n{"classification": "bug"}\n```' },
+  ]);
+
+  const tenant: Tenant = {
+    id: 'inst-1',
+    githubInstallationId: 42,
+    accountLogin: 'acme',
+    isActive: true,
+    aiDailyCallBudget: 2,
+  };
+
+  const buildService = (defaultProvider?: string): LlmService =>
+    new LlmService(
+      [gemini, stub],
+      {
+        get: jest.fn((_key: string, defaultValue?: unknown) => defaultProvider ?? defaultValue),
+      } as unknown as ConfigService,
+      new AiBudgetService(
+        mockPrismaService as unknown as PrismaService,
+        {
+          get: jest.fn(),
+        } as unknown as ConfigService,
+      ),
+    );
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should use the default provider and its default model', async () => {
+    const result = await buildService().generateText('hello');
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        data: 'gemini says hi',
+        provider: 'gemini',
+        model: 'gemini-1.5-flash',
+      }),
+    );
+    expect(gemini.generate).toHaveBeenCalledWith(
+      expect.objectContaining({ prompt: 'hello', model: 'gemini-1.5-flash', temperature: 0.2 }),
+    );
+  });
+
+  it('should honour a per-repository provider and model', async () => {
+    await buildService().generateText('hello', { provider: 'gemini', model: 'gemini-1.5-pro' });
+
+    expect(gemini.generate).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'gemini-1.5-pro' }),
+    );
+  });
+
+  it('should answer deterministically from stub fixtures', async () => {
+    const service = buildService('stub');
+
+    await expect(service.generateJson('Title: Crash on startup')).resolves.toEqual(
+      expect.objectContaining({ data: { classification: 'bug' }, provider: 'stub' }),
+    );
+    await expect(service.generateJson('Title: Something else')).resolves.toEqual(
+      expect.objectContaining({ data: {} }),
+    );
+  });
+
+  it('should reject providers without credentials', async () => {
+    await expect(buildService().generateText('hello', { provider: 'openai' })).rejects.toThrow(
+      "LLM provider 'openai' is not configured (available: gemini, stub)",
+    );
+  });
+
+  it("should charge a tenant's calls to its daily budget and stop when it is spent", async () => {
+    const service = buildService();
+    const now = new Date();
+    const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+    mockPrismaService.installation.updateMany
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    await expect(service.generateText('hello', { tenant })).resolves.toEqual(
+      expect.objectContaining({ data: 'gemini says hi' }),
+    );
+    expect(mockPrismaService.installation.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'inst-1', aiUsageDay: today, aiCallsToday: { lt: 2 } },
+      data: { aiCallsToday: { increment: 1 } },
+    });
+
+    await expect(service.generateText('hello', { tenant })).rejects.toBeInstanceOf(
+      AiBudgetExceededError,
+    );
+    await expect(
+      service.generateText('hello', { tenant: { ...tenant, aiDailyCallBudget: 0 } }),
+    ).rejects.toThrow('AI budget exhausted for acme');
+    expect(gemini.generate).toHaveBeenCalledTimes(1);
+  });
+});
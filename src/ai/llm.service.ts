@@ -0,0 +1,128 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Tenant } from '../installations/tenant.service';
+import { AiBudgetService } from './ai-budget.service';
+import {
+  LLM_PROVIDERS,
+  LlmProvider,
+  LlmProviderName,
+  LlmRequest,
+} from './providers/llm-provider.interface';
+
+/**
+ * LLM Service
+ *
+ * Purpose: Single entry point for model calls made by DETER-AGENT actions
+ * Constitutional Requirement: P4 Rastreabilidade Total - every call reports the provider and model used
+ *
+ * Provider: per-call override (BotConfiguration.llmProvider), else LLM_PROVIDER
+ * Model: per-call override (BotConfiguration.llmModel), else the provider's default model
+ * Budget: calls made for a tenant are charged to its daily budget (AiBudgetService)
+ */
+
+export interface GenerationOptions {
+  provider?: LlmProviderName;
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Installation the call is charged to */
+  tenant?: Tenant;
+}
+
+/**
+ * Provider, model and temperature a repository selected, and the tenant it belongs to
+ */
+export type LlmSelection = Pick<GenerationOptions, 'provider' | 'model' | 'temperature' | 'tenant'>;
+
+export interface GenerationResult<T> {
+  data: T;
+  provider: LlmProviderName;
+  model: string;
+  latencyMs: number;
+}
+
+@Injectable()
+export class LlmService {
+  private readonly logger = new Logger(LlmService.name);
+  private readonly providers: Map<LlmProviderName, LlmProvider>;
+  private readonly defaultProvider: LlmProviderName;
+
+  constructor(
+    @Inject(LLM_PROVIDERS) providers: LlmProvider[],
+    configService: ConfigService,
+    private readonly budget: AiBudgetService,
+  ) {
+    this.providers = new Map(providers.map((provider) => [provider.name, provider]));
+    this.defaultProvider = configService.get<LlmProviderName>('LLM_PROVIDER', 'gemini');
+  }
+
+  /**
+   * Providers with credentials configured
+   */
+  getAvailableProviders(): LlmProviderName[] {
+    return [...this.providers.keys()];
+  }
+
+  isAvailable(name: LlmProviderName = this.defaultProvider): boolean {
+    return this.providers.has(name);
+  }
+
+  /**
+   * Generate free-form text
+   */
+  async generateText(
+    prompt: string,
+    options: GenerationOptions = {},
+  ): Promise<GenerationResult<string>> {
+    return this.run(options, (provider, request) => provider.generate({ ...request, prompt }));
+  }
+
+  /**
+   * Generate a JSON object
+   * The caller is responsible for validating the shape of the result
+   */
+  async generateJson<T>(
+    prompt: string,
+    options: GenerationOptions = {},
+  ): Promise<GenerationResult<T>> {
+    return this.run(options, (provider, request) =>
+      provider.generateStructured<T>({ ...request, prompt }),
+    );
+  }
+
+  private async run<T>(
+    options: GenerationOptions,
+    call: (provider: LlmProvider, request: Omit<LlmRequest, 'prompt'>) => Promise<T>,
+  ): Promise<GenerationResult<T>> {
+    const provider = this.getProvider(options.provider);
+    const model = options.model || provider.defaultModel;
+
+    await this.budget.consume(options.tenant);
+
+    const startTime = Date.now();
+
+    const data = await call(provider, {
+      model,
+      temperature: options.temperature ?? 0.2,
+      maxOutputTokens: options.maxOutputTokens ?? 2048,
+    });
+
+    const latencyMs = Date.now() - startTime;
+
+    this.logger.debug(`${provider.name}/${model} responded in ${latencyMs}ms`);
+
+    return { data, provider: provider.name, model, latencyMs };
+  }
+
+  private getProvider(name: LlmProviderName = this.defaultProvider): LlmProvider {
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      throw new Error(
+        `LLM provider '${name}' is not configured (available: ${this.getAvailableProviders().join(', ')})`,
+      );
+    }
+
+    return provider;
+  }
+}
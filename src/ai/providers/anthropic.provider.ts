@@ -0,0 +1,44 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LlmProvider, LlmProviderName, LlmRequest } from './llm-provider.interface';
+import { parseJsonObject } from './structured-output';
+
+/**
+ * Anthropic LLM Provider
+ *
+ * Purpose: Claude models through the Messages API
+ * Structured output: the assistant turn is prefilled with "{" so the reply starts as JSON
+ */
+export class AnthropicLlmProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'anthropic';
+
+  constructor(
+    private readonly client: Anthropic,
+    readonly defaultModel: string,
+  ) {
+    // Client created by the provider factory
+  }
+
+  async generate(request: LlmRequest): Promise<string> {
+    return this.createMessage(request);
+  }
+
+  async generateStructured<T>(request: LlmRequest): Promise<T> {
+    const text = await this.createMessage(request, '{');
+
+    return parseJsonObject<T>(`{${text}`, request.model);
+  }
+
+  private async createMessage(request: LlmRequest, prefill?: string): Promise<string> {
+    const message = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxOutputTokens,
+      temperature: request.temperature,
+      messages: [
+        { role: 'user', content: request.prompt },
+        ...(prefill ? [{ role: 'assistant' as const, content: prefill }] : []),
+      ],
+    });
+
+    return message.content.map((block) => block.text).join('');
+  }
+}
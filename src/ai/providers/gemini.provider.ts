@@ -0,0 +1,38 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LlmProvider, LlmProviderName, LlmRequest } from './llm-provider.interface';
+import { parseJsonObject } from './structured-output';
+
+/**
+ * Gemini LLM Provider
+ *
+ * Purpose: Google Gemini through @google/generative-ai
+ * Structured output: prompt-enforced (the SDK version in use has no JSON mode)
+ */
+export class GeminiLlmProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'gemini';
+
+  constructor(
+    private readonly client: GoogleGenerativeAI,
+    readonly defaultModel: string,
+  ) {
+    // Client created by the provider factory
+  }
+
+  async generate(request: LlmRequest): Promise<string> {
+    const result = await this.client
+      .getGenerativeModel({
+        model: request.model,
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+        },
+      })
+      .generateContent(request.prompt);
+
+    return result.response.text();
+  }
+
+  async generateStructured<T>(request: LlmRequest): Promise<T> {
+    return parseJsonObject<T>(await this.generate(request), request.model);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * LLM Provider Contract
+ *
+ * Purpose: One interface over every model vendor the bot can call
+ * Constitutional Requirement: P4 Rastreabilidade Total - callers always know which provider/model answered
+ *
+ * Structured output uses the vendor's JSON mode where one exists; the response is
+ * still parsed defensively and callers validate its shape.
+ */
+
+export const LLM_PROVIDERS = Symbol('LLM_PROVIDERS');
+
+export type LlmProviderName = 'gemini' | 'anthropic' | 'openai' | 'stub';
+
+export const LLM_PROVIDER_NAMES: LlmProviderName[] = ['gemini', 'anthropic', 'openai', 'stub'];
+
+export interface LlmRequest {
+  prompt: string;
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly defaultModel: string;
+
+  /**
+   * Generate free-form text
+   */
+  generate(request: LlmRequest): Promise<string>;
+
+  /**
+   * Generate a single JSON object
+   */
+  generateStructured<T>(request: LlmRequest): Promise<T>;
+}
@@ -0,0 +1,80 @@
+import { FactoryProvider, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import Anthropic from '@anthropic-ai/sdk';
+import { readFileSync } from 'fs';
+import { LLM_PROVIDERS, LlmProvider } from './llm-provider.interface';
+import { GeminiLlmProvider } from './gemini.provider';
+import { AnthropicLlmProvider } from './anthropic.provider';
+import { OpenAiLlmProvider } from './openai.provider';
+import { StubFixture, StubLlmProvider } from './stub.provider';
+
+/**
+ * LLM Providers Provider
+ *
+ * Purpose: Register every vendor that has credentials configured
+ * Vendors: gemini (GEMINI_API_KEY), anthropic (ANTHROPIC_API_KEY), openai (OPENAI_API_KEY)
+ * The stub provider is always available; LLM_STUB_FIXTURES points at its JSON fixture file
+ */
+
+export function createLlmProviders(config: ConfigService): LlmProvider[] {
+  const logger = new Logger('LlmProviders');
+  const providers: LlmProvider[] = [];
+
+  const geminiKey = config.get<string>('GEMINI_API_KEY');
+  if (geminiKey) {
+    providers.push(
+      new GeminiLlmProvider(
+        new GoogleGenerativeAI(geminiKey),
+        config.get<string>('GEMINI_MODEL', 'gemini-1.5-flash'),
+      ),
+    );
+  }
+
+  const anthropicKey = config.get<string>('ANTHROPIC_API_KEY');
+  if (anthropicKey) {
+    providers.push(
+      new AnthropicLlmProvider(
+        new Anthropic({ apiKey: anthropicKey }),
+        config.get<string>('ANTHROPIC_MODEL', 'claude-3-haiku-20240307'),
+      ),
+    );
+  }
+
+  const openAiKey = config.get<string>('OPENAI_API_KEY');
+  if (openAiKey) {
+    providers.push(
+      new OpenAiLlmProvider(
+        openAiKey,
+        config.get<string>('OPENAI_MODEL', 'gpt-4o-mini'),
+        config.get<string>('OPENAI_BASE_URL') || undefined,
+      ),
+    );
+  }
+
+  providers.push(new StubLlmProvider(loadStubFixtures(config.get<string>('LLM_STUB_FIXTURES'))));
+
+  logger.log(`LLM providers available: ${providers.map((p) => p.name).join(', ')}`);
+
+  return providers;
+}
+
+function loadStubFixtures(path?: string): StubFixture[] {
+  if (!path) {
+    return [];
+  }
+
+  const fixtures = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+
+  if (!Array.isArray(fixtures)) {
+    throw new Error(`LLM_STUB_FIXTURES (${path}) must contain a JSON array of {match, response}`);
+  }
+
+  return fixtures as StubFixture[];
+}
+
+export const llmProvidersProvider: FactoryProvider<LlmProvider[]> = {
+  provide: LLM_PROVIDERS,
+  inject: [ConfigService],
+  useFactory: createLlmProviders,
+};
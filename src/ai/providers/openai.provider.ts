@@ -0,0 +1,61 @@
+import { LlmProvider, LlmProviderName, LlmRequest } from './llm-provider.interface';
+import { parseJsonObject } from './structured-output';
+
+/**
+ * OpenAI LLM Provider
+ *
+ * Purpose: OpenAI chat completions over HTTPS (no SDK dependency)
+ * Structured output: response_format json_object
+ */
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  error?: { message?: string };
+}
+
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'openai';
+
+  constructor(
+    private readonly apiKey: string,
+    readonly defaultModel: string,
+    private readonly baseUrl: string = 'https://api.openai.com/v1',
+  ) {
+    // Credentials resolved by the provider factory
+  }
+
+  async generate(request: LlmRequest): Promise<string> {
+    return this.complete(request, false);
+  }
+
+  async generateStructured<T>(request: LlmRequest): Promise<T> {
+    return parseJsonObject<T>(await this.complete(request, true), request.model);
+  }
+
+  private async complete(request: LlmRequest, json: boolean): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        messages: [{ role: 'user', content: request.prompt }],
+        ...(json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+
+    const body = (await response.json()) as ChatCompletionResponse;
+
+    if (!response.ok) {
+      throw new Error(
+        `OpenAI request failed with ${response.status}: ${body.error?.message ?? response.statusText}`,
+      );
+    }
+
+    return body.choices?.[0]?.message?.content ?? '';
+  }
+}
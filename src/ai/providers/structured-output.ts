@@ -0,0 +1,20 @@
+/**
+ * Extract the first JSON object from a model response
+ * Code fences and surrounding prose are ignored
+ */
+export function parseJsonObject<T>(text: string, model: string): T {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new Error(`${model} returned no JSON object`);
+  }
+
+  try {
+    return JSON.parse(text.slice(start, end + 1)) as T;
+  } catch (error) {
+    throw new Error(
+      `${model} returned invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { LlmProvider, LlmProviderName, LlmRequest } from './llm-provider.interface';
+import { parseJsonObject } from './structured-output';
+
+/**
+ * Stub LLM Provider
+ *
+ * Purpose: Deterministic, offline responses for tests and local development
+ *
+ * Fixtures are matched in order by substring of the prompt; the first match wins.
+ * Without a match the provider answers with an empty JSON object, which every
+ * caller already coerces into safe defaults.
+ */
+
+export interface StubFixture {
+  match: string;
+  response: string;
+}
+
+export class StubLlmProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'stub';
+  readonly defaultModel = 'stub';
+
+  constructor(private readonly fixtures: StubFixture[] = []) {
+    // Fixtures loaded by the provider factory
+  }
+
+  async generate(request: LlmRequest): Promise<string> {
+    const fixture = this.fixtures.find(({ match }) => request.prompt.includes(match));
+
+    return fixture ? fixture.response : '{}';
+  }
+
+  async generateStructured<T>(request: LlmRequest): Promise<T> {
+    return parseJsonObject<T>(await this.generate(request), request.model);
+  }
+}
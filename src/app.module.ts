@@ -8,6 +8,10 @@ import { ConstitutionalModule } from './constitutional/constitutional.module';
 import { ConstitutionalGuard } from './constitutional/constitutional.guard';
 import { HealthModule } from './health/health.module';
 import { ObservabilityModule } from './observability/observability.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { GitHubModule } from './github/github.module';
+import { AiModule } from './ai/ai.module';
+import { InstallationsModule } from './installations/installations.module';
 
 import { validateEnvironment } from './config/env.validation';
 
@@ -23,6 +27,10 @@ import { validateEnvironment } from './config/env.validation';
  * - Rate limiting (DDoS protection)
  * - Database connection management
  * - Health checks and monitoring
+ * - GitHub webhook ingestion
+ * - GitHub API access (App installation or token auth)
+ * - Installations as tenants owning repositories
+ * - AI issue triage
  *
  * All modules respect constitutional principles P1-P6
  */
@@ -47,7 +55,11 @@ import { validateEnvironment } from './config/env.validation';
     PrismaModule,
     ConstitutionalModule,
     ObservabilityModule,
+    GitHubModule,
+    AiModule,
+    InstallationsModule,
     HealthModule,
+    WebhooksModule,
   ],
 
   providers: [
@@ -0,0 +1,41 @@
+/**
+ * Approval Commands
+ *
+ * Purpose: Parse `/vertice approve` and `/vertice reject` issue comments
+ * Constitutional Requirement: P2 Validação Preventiva
+ *
+ * Syntax (first line of the comment):
+ *   /vertice approve [approval-id] [note]
+ *   /vertice reject [approval-id] [note]
+ * Without an id the decision applies to every pending approval on the issue or pull request.
+ */
+
+export interface ApprovalCommand {
+  approved: boolean;
+  approvalId?: string;
+  note?: string;
+}
+
+const COMMAND_PATTERN = /^\/vertice\s+(approve|reject)\b(.*)$/i;
+const APPROVAL_ID_PATTERN = /^c[a-z0-9]{20,}$/;
+
+/**
+ * Parsed command, or undefined when the comment is not an approval command
+ */
+export function parseApprovalCommand(body: string): ApprovalCommand | undefined {
+  const match = COMMAND_PATTERN.exec(body.trimStart().split('\n')[0].trim());
+
+  if (!match) {
+    return undefined;
+  }
+
+  const [first, ...rest] = match[2].trim().split(/\s+/).filter(Boolean);
+  const hasId = first !== undefined && APPROVAL_ID_PATTERN.test(first);
+  const note = (hasId ? rest : [first, ...rest]).filter(Boolean).join(' ');
+
+  return {
+    approved: match[1].toLowerCase() === 'approve',
+    ...(hasId ? { approvalId: first } : {}),
+    ...(note ? { note } : {}),
+  };
+}
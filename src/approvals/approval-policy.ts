@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StateContext } from '../constitutional/deter-agent/layer-3-state';
+
+/**
+ * Approval Policy
+ *
+ * Purpose: Decide which planned actions must wait for a maintainer before running
+ * Constitutional Requirement: Article III - Zero Trust (high-impact writes need a human)
+ *
+ * Built-in rules:
+ * - suggest-labels when the analysis assigns critical priority
+ * - post-review-comment when the review reports security findings on a public repository
+ *
+ * APPROVAL_REQUIRED_ACTIONS (comma-separated action names) always pauses the listed actions,
+ * e.g. "post-analysis-comment". "none" disables the built-in rules as well.
+ */
+
+@Injectable()
+export class ApprovalPolicy {
+  private readonly requiredActions: string[];
+  private readonly disabled: boolean;
+
+  constructor(configService: ConfigService) {
+    const value = configService.get<string>('APPROVAL_REQUIRED_ACTIONS', '') ?? '';
+
+    this.disabled = value.trim() === 'none';
+    this.requiredActions = value
+      .split(',')
+      .map((action) => action.trim())
+      .filter((action) => action && action !== 'none');
+  }
+
+  /**
+   * Why an action needs approval, or undefined when it may run now
+   */
+  check(action: string, state: StateContext): string | undefined {
+    if (this.disabled) {
+      return undefined;
+    }
+
+    if (this.requiredActions.includes(action)) {
+      return `${action} is listed in APPROVAL_REQUIRED_ACTIONS`;
+    }
+
+    if (action === 'suggest-labels' && state.artifacts.issueAnalysis?.priority === 'critical') {
+      return 'Issue analysis assigns critical priority';
+    }
+
+    const securityIssues = state.artifacts.pullRequestReview?.securityIssues.length ?? 0;
+
+    if (action === 'post-review-comment' && securityIssues > 0 && !state.context.isPrivate) {
+      return `Review reports ${securityIssues} security finding(s) on a public repository`;
+    }
+
+    return undefined;
+  }
+}
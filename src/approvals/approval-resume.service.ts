@@ -0,0 +1,64 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { JobQueueWorker } from '../queue/job-queue.worker';
+import { DeterAgentOrchestrator } from '../constitutional/deter-agent/deter-agent.orchestrator';
+import { ExecutionResult } from '../constitutional/deter-agent/layer-4-execution';
+import { APPROVAL_RESUME_JOB, ApprovalService } from './approval.service';
+
+/**
+ * Approval Resume Service
+ *
+ * Purpose: Continue runs once a maintainer decided on their paused action
+ * Constitutional Requirement: P4 Rastreabilidade Total - the resumed actions land on the same AgentRun
+ *
+ * Runs on the job queue worker so decisions made through the API or a comment return immediately
+ */
+
+export interface ApprovalResumeResult {
+  approvalId: string;
+  skipped?: string;
+  execution?: ExecutionResult;
+}
+
+@Injectable()
+export class ApprovalResumeService implements OnModuleInit {
+  private readonly logger = new Logger(ApprovalResumeService.name);
+
+  constructor(
+    private readonly approvals: ApprovalService,
+    private readonly orchestrator: DeterAgentOrchestrator,
+    private readonly worker: JobQueueWorker,
+  ) {
+    // NestJS dependency injection
+  }
+
+  onModuleInit(): void {
+    this.worker.registerHandler(APPROVAL_RESUME_JOB, (data) =>
+      this.resume(String(data.approvalId)),
+    );
+  }
+
+  /**
+   * Resume the run of a decided approval, once
+   */
+  async resume(approvalId: string): Promise<ApprovalResumeResult> {
+    const approval = await this.approvals.get(approvalId);
+
+    if (approval.status === 'pending') {
+      return { approvalId, skipped: 'Approval is still pending' };
+    }
+
+    if (approval.completedAt) {
+      return { approvalId, skipped: 'Run already resumed' };
+    }
+
+    const execution = await this.orchestrator.resume(approval);
+
+    await this.approvals.complete(approvalId, execution);
+
+    this.logger.log(
+      `Approval ${approvalId} (${approval.action}, ${approval.status}): ${execution.actionsCompleted} action(s) completed, ${execution.actionsFailed} failed`,
+    );
+
+    return { approvalId, execution };
+  }
+}
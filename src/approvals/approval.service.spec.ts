@@ -0,0 +1,115 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { APPROVAL_RESUME_JOB, ApprovalService } from './approval.service';
+import { parseApprovalCommand } from './approval-command';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+/**
+ * Approval Service Unit Tests
+ *
+ * Purpose: Verify paused actions are decided once, by maintainers, and then resumed
+ * Constitutional Requirement: Article III - Zero Trust
+ */
+
+describe('ApprovalService', () => {
+  let service: ApprovalService;
+
+  const createComment = jest.fn().mockResolvedValue({ data: { id: 1 } });
+  const getCollaboratorPermissionLevel = jest.fn();
+  const octokit = {
+    rest: { issues: { createComment }, repos: { getCollaboratorPermissionLevel } },
+  };
+  const githubClient = { getRepositoryClient: jest.fn().mockResolvedValue(octokit) };
+  const jobQueue = { enqueue: jest.fn() };
+  const pending = {
+    id: 'ckv9approval000000000001',
+    repository: 'test-owner/test-repo',
+    resourceNumber: 7,
+    action: 'suggest-labels',
+    status: 'pending',
+    decidedBy: null,
+  };
+  const target = { owner: 'test-owner', repo: 'test-repo', number: 7, author: 'maintainer' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApprovalService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: GitHubClientService, useValue: githubClient },
+        { provide: JobQueueService, useValue: jobQueue },
+      ],
+    }).compile();
+
+    service = module.get<ApprovalService>(ApprovalService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should record the approver and enqueue the resumption', async () => {
+    mockPrismaService.actionApproval.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.actionApproval.findUnique.mockResolvedValue({
+      ...pending,
+      status: 'approved',
+      decidedBy: 'alice',
+    });
+
+    await service.decide(pending.id, { approved: true, approver: 'alice', source: 'api' });
+
+    expect(mockPrismaService.actionApproval.updateMany).toHaveBeenCalledWith({
+      where: { id: pending.id, status: 'pending' },
+      data: expect.objectContaining({
+        status: 'approved',
+        decidedBy: 'alice',
+        decisionSource: 'api',
+      }),
+    });
+    expect(jobQueue.enqueue).toHaveBeenCalledWith(
+      APPROVAL_RESUME_JOB,
+      { approvalId: pending.id },
+      { repository: 'test-owner/test-repo', maxAttempts: 1 },
+    );
+  });
+
+  it('should refuse to decide an approval twice', async () => {
+    mockPrismaService.actionApproval.updateMany.mockResolvedValue({ count: 0 });
+    mockPrismaService.actionApproval.findUnique.mockResolvedValue({
+      ...pending,
+      status: 'rejected',
+      decidedBy: 'bob',
+    });
+
+    await expect(
+      service.decide(pending.id, { approved: true, approver: 'alice', source: 'api' }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(jobQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should ignore approval comments from users without write access', async () => {
+    getCollaboratorPermissionLevel.mockResolvedValue({ data: { permission: 'read' } });
+
+    const result = await service.handleCommand(
+      target,
+      parseApprovalCommand(`/vertice approve ${pending.id}`)!,
+    );
+
+    expect(result.decided).toEqual([]);
+    expect(result.denied).toContain('@maintainer needs write access');
+    expect(mockPrismaService.actionApproval.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should parse approval commands with an optional id and note', () => {
+    expect(parseApprovalCommand(`/vertice reject ${pending.id} not on a Friday`)).toEqual({
+      approved: false,
+      approvalId: pending.id,
+      note: 'not on a Friday',
+    });
+    expect(parseApprovalCommand('/vertice approve')).toEqual({ approved: true });
+    expect(parseApprovalCommand('Please /vertice approve')).toBeUndefined();
+  });
+});
@@ -0,0 +1,322 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ActionApproval, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import {
+  ExecutionArtifacts,
+  ExecutionContext,
+  StateContext,
+} from '../constitutional/deter-agent/layer-3-state';
+import { Compensation } from '../constitutional/deter-agent/actions/compensation';
+import { ApprovalCommand } from './approval-command';
+
+/**
+ * Approval Service
+ *
+ * Purpose: Human-in-the-loop queue for actions the ApprovalPolicy pauses
+ * Constitutional Requirement: Article III - Zero Trust, P4 Rastreabilidade Total
+ *
+ * Flow:
+ * 1. ExecutionLayer stops before a gated action and calls request(): the row keeps the
+ *    execution context, artifacts and the actions left to run
+ * 2. A maintainer decides through POST /approvals/:id/{approve,reject} or a
+ *    `/vertice approve|reject` comment (write access required)
+ * 3. The decision enqueues an approval_resume job; the orchestrator resumes the run with
+ *    the approved action, or with the actions after a rejected one
+ *
+ * Rows are never deleted: decidedBy, decisionSource, decisionNote and decidedAt are the audit trail.
+ */
+
+export const APPROVAL_RESUME_JOB = 'approval_resume';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ApprovalSnapshot {
+  context: ExecutionContext;
+  artifacts: ExecutionArtifacts;
+  /** The paused action followed by the rest of the plan */
+  actions: string[];
+  transactional?: boolean;
+  /** Recorded before the pause; a failure after resuming rolls them back too */
+  compensations?: Compensation[];
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  /** GitHub login, or the approver named in the admin API call */
+  approver: string;
+  source: 'api' | 'comment';
+  note?: string;
+}
+
+export interface ApprovalFilter {
+  status?: string;
+  /** "owner/name" */
+  repository?: string;
+}
+
+export interface ApprovalCommentTarget {
+  owner: string;
+  repo: string;
+  number: number;
+  author: string;
+  installationId?: number;
+}
+
+export interface ApprovalCommandResult {
+  decided: string[];
+  denied?: string;
+}
+
+const WRITE_PERMISSIONS = ['admin', 'maintain', 'write'];
+
+@Injectable()
+export class ApprovalService {
+  private readonly logger = new Logger(ApprovalService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly githubClient: GitHubClientService,
+    private readonly jobQueue: JobQueueService,
+  ) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Pause `actions[0]` (and everything after it) until a maintainer decides
+   */
+  async request(
+    state: StateContext,
+    actions: string[],
+    reason: string,
+    transactional = false,
+  ): Promise<ActionApproval> {
+    const { context } = state;
+    const snapshot: ApprovalSnapshot = {
+      context,
+      artifacts: state.artifacts,
+      actions,
+      transactional,
+      compensations: state.compensations,
+    };
+    const resourceNumber = context.pullRequest?.number ?? context.issue?.number;
+
+    const approval = await this.prisma.actionApproval.create({
+      data: {
+        runId: context.runId,
+        installationId: context.tenant?.id,
+        repository: context.repository.fullName,
+        resourceNumber,
+        action: actions[0],
+        reason,
+        snapshot: JSON.parse(JSON.stringify(snapshot)) as Prisma.InputJsonValue,
+      },
+    });
+
+    this.logger.warn(
+      `Action ${approval.action} on ${approval.repository}${resourceNumber ? `#${resourceNumber}` : ''} awaiting approval ${approval.id}: ${reason}`,
+    );
+
+    if (resourceNumber !== undefined) {
+      await this.comment(
+        context.repository.owner,
+        context.repository.name,
+        resourceNumber,
+        context.installationId,
+        [
+          `⏸️ **Vértice paused \`${approval.action}\`** until a maintainer approves it.`,
+          '',
+          `Reply \`/vertice approve ${approval.id}\` to run it or \`/vertice reject ${approval.id}\` to skip it.`,
+        ].join('\n'),
+      );
+    }
+
+    return approval;
+  }
+
+  /**
+   * Record a decision and enqueue the resumption of the run
+   */
+  async decide(id: string, decision: ApprovalDecision): Promise<ActionApproval> {
+    const status: ApprovalStatus = decision.approved ? 'approved' : 'rejected';
+    const { count } = await this.prisma.actionApproval.updateMany({
+      where: { id, status: 'pending' },
+      data: {
+        status,
+        decidedBy: decision.approver,
+        decisionSource: decision.source,
+        decisionNote: decision.note,
+        decidedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      const existing = await this.get(id);
+      throw new ConflictException(
+        `Approval ${id} was already ${existing.status} by ${existing.decidedBy ?? 'unknown'}`,
+      );
+    }
+
+    const approval = await this.get(id);
+
+    this.logger.log(
+      `Approval ${id} (${approval.action} on ${approval.repository}) ${status} by ${decision.approver} via ${decision.source}`,
+    );
+
+    // One attempt: a retry would repeat actions that already wrote to GitHub
+    await this.jobQueue.enqueue(
+      APPROVAL_RESUME_JOB,
+      { approvalId: id },
+      { repository: approval.repository, maxAttempts: 1 },
+    );
+
+    return approval;
+  }
+
+  /**
+   * Apply a `/vertice approve|reject` comment to the pending approvals of its issue or PR
+   */
+  async handleCommand(
+    target: ApprovalCommentTarget,
+    command: ApprovalCommand,
+  ): Promise<ApprovalCommandResult> {
+    const repository = `${target.owner}/${target.repo}`;
+
+    if (!(await this.canDecide(target))) {
+      const denied = `@${target.author} needs write access to ${repository} to approve or reject Vértice actions.`;
+      await this.comment(target.owner, target.repo, target.number, target.installationId, denied);
+
+      return { decided: [], denied };
+    }
+
+    const pending = await this.prisma.actionApproval.findMany({
+      where: {
+        repository,
+        resourceNumber: target.number,
+        status: 'pending',
+        ...(command.approvalId ? { id: command.approvalId } : {}),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const decided: string[] = [];
+
+    for (const approval of pending) {
+      try {
+        await this.decide(approval.id, {
+          approved: command.approved,
+          approver: target.author,
+          source: 'comment',
+          note: command.note,
+        });
+        decided.push(approval.id);
+      } catch (error) {
+        if (!(error instanceof ConflictException)) {
+          throw error;
+        }
+      }
+    }
+
+    const verb = command.approved ? 'Approved' : 'Rejected';
+    const actions = pending.filter((approval) => decided.includes(approval.id));
+
+    await this.comment(
+      target.owner,
+      target.repo,
+      target.number,
+      target.installationId,
+      actions.length > 0
+        ? `${command.approved ? '✅' : '❌'} ${verb} by @${target.author}: ${actions.map((approval) => `\`${approval.action}\``).join(', ')}`
+        : `No pending Vértice approval${command.approvalId ? ` ${command.approvalId}` : ''} here.`,
+    );
+
+    return { decided };
+  }
+
+  /**
+   * Store the outcome of the resumed actions
+   */
+  async complete(id: string, result: unknown): Promise<void> {
+    await this.prisma.actionApproval.update({
+      where: { id },
+      data: {
+        result: JSON.parse(JSON.stringify(result)) as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Get a single approval
+   */
+  async get(id: string): Promise<ActionApproval> {
+    const approval = await this.prisma.actionApproval.findUnique({ where: { id } });
+
+    if (!approval) {
+      throw new NotFoundException(`Approval ${id} not found`);
+    }
+
+    return approval;
+  }
+
+  /**
+   * List approvals, oldest first so the queue reads in order
+   */
+  async list(filter: ApprovalFilter, limit = 50): Promise<ActionApproval[]> {
+    return this.prisma.actionApproval.findMany({
+      where: {
+        ...(filter.status ? { status: filter.status } : {}),
+        ...(filter.repository ? { repository: filter.repository } : {}),
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Whether the comment author has write access to the repository
+   */
+  private async canDecide(target: ApprovalCommentTarget): Promise<boolean> {
+    try {
+      const client = await this.githubClient.getRepositoryClient(
+        target.owner,
+        target.repo,
+        target.installationId,
+      );
+      const { data } = await client.rest.repos.getCollaboratorPermissionLevel({
+        owner: target.owner,
+        repo: target.repo,
+        username: target.author,
+      });
+
+      return WRITE_PERMISSIONS.includes(data.permission);
+    } catch (error) {
+      this.logger.warn(
+        `Could not check ${target.author}'s permission on ${target.owner}/${target.repo}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+
+      return false;
+    }
+  }
+
+  /**
+   * Best-effort comment on the issue or pull request
+   */
+  private async comment(
+    owner: string,
+    repo: string,
+    number: number,
+    installationId: number | undefined,
+    body: string,
+  ): Promise<void> {
+    try {
+      const client = await this.githubClient.getRepositoryClient(owner, repo, installationId);
+      await client.rest.issues.createComment({ owner, repo, issue_number: number, body });
+    } catch (error) {
+      this.logger.warn(
+        `Could not comment on ${owner}/${repo}#${number}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
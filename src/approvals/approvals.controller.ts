@@ -0,0 +1,78 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ActionApproval } from '@prisma/client';
+import { ApprovalService } from './approval.service';
+import { ApprovalDecisionDto, ApprovalListQueryDto } from './dto/approval-decision.dto';
+import { AdminTokenGuard } from '../common/guards/admin-token.guard';
+import { SkipConstitutionalCheck } from '../constitutional/constitutional.guard';
+
+/**
+ * Approvals Controller
+ *
+ * Purpose: Admin endpoints for actions awaiting a maintainer's decision
+ * Constitutional Requirement: Article III - Zero Trust (admin token required)
+ *
+ * Endpoints (under /api/v1):
+ * - GET  /approvals              - List (?status, ?repository, ?limit)
+ * - GET  /approvals/:id          - Inspect, including the paused context
+ * - POST /approvals/:id/approve  - Run the action and the rest of the plan
+ * - POST /approvals/:id/reject   - Skip the action, run the rest of the plan
+ */
+
+@Controller('approvals')
+@SkipConstitutionalCheck()
+@UseGuards(AdminTokenGuard)
+export class ApprovalsController {
+  constructor(private readonly approvals: ApprovalService) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * List approvals, oldest first
+   */
+  @Get()
+  async list(@Query() query: ApprovalListQueryDto): Promise<ActionApproval[]> {
+    return this.approvals.list(query, query.limit);
+  }
+
+  /**
+   * Inspect an approval
+   */
+  @Get(':id')
+  async get(@Param('id') id: string): Promise<ActionApproval> {
+    return this.approvals.get(id);
+  }
+
+  /**
+   * Approve a paused action
+   */
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  async approve(
+    @Param('id') id: string,
+    @Body() body: ApprovalDecisionDto,
+  ): Promise<ActionApproval> {
+    return this.approvals.decide(id, { approved: true, source: 'api', ...body });
+  }
+
+  /**
+   * Reject a paused action
+   */
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  async reject(
+    @Param('id') id: string,
+    @Body() body: ApprovalDecisionDto,
+  ): Promise<ActionApproval> {
+    return this.approvals.decide(id, { approved: false, source: 'api', ...body });
+  }
+}
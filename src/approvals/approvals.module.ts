@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { QueueModule } from '../queue/queue.module';
+import { ApprovalPolicy } from './approval-policy';
+import { ApprovalService } from './approval.service';
+import { ApprovalResumeService } from './approval-resume.service';
+import { ApprovalsController } from './approvals.controller';
+
+/**
+ * Approvals Module
+ *
+ * Purpose: Human-in-the-loop approval queue for high-impact actions
+ * Constitutional Requirement: Article III - Zero Trust
+ *
+ * Controllers: Approval queue admin endpoints
+ * Exports: ApprovalPolicy and ApprovalService for the Execution Layer
+ */
+
+@Module({
+  imports: [QueueModule],
+  controllers: [ApprovalsController],
+  providers: [ApprovalPolicy, ApprovalService, ApprovalResumeService],
+  exports: [ApprovalPolicy, ApprovalService],
+})
+export class ApprovalsModule {}
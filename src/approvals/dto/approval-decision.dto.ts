@@ -0,0 +1,49 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Approval DTOs
+ *
+ * Purpose: Validate approval decisions and queue filters
+ * Constitutional Requirement: P2 Validação Preventiva
+ */
+
+export class ApprovalDecisionDto {
+  /** Who decided; the admin token is shared, so the caller names the approver */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  approver!: string;
+
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  note?: string;
+}
+
+export class ApprovalListQueryDto {
+  @IsIn(['pending', 'approved', 'rejected'])
+  @IsOptional()
+  status?: string;
+
+  @Matches(/^[\w.-]+\/[\w.-]+$/, { message: 'repository must be in "owner/name" format' })
+  @IsOptional()
+  repository?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  @IsOptional()
+  limit?: number;
+}
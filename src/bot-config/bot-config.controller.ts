@@ -0,0 +1,48 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import { SkipConstitutionalCheck } from '../constitutional/constitutional.guard';
+import { buildBotConfigJsonSchema, ConfigValidationError } from './bot-config.schema';
+import { BotConfigValidator } from './bot-config.validator';
+import { ValidateConfigDto } from './dto/validate-config.dto';
+
+/**
+ * Bot Config Controller
+ *
+ * Purpose: Let repository owners check .vertice-bot.yml before committing it
+ * Constitutional Requirement: P2 Validação Preventiva
+ *
+ * Endpoints (under /api/v1):
+ * - GET  /config/schema   - JSON Schema for .vertice-bot.yml (for editor integration)
+ * - POST /config/validate - Validate a file body ({ content }); errors carry line numbers
+ */
+
+export interface ConfigValidationResponse {
+  valid: boolean;
+  errors: ConfigValidationError[];
+}
+
+@Controller('config')
+@SkipConstitutionalCheck()
+export class BotConfigController {
+  constructor(private readonly validator: BotConfigValidator) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * JSON Schema generated from the same field definitions as the runtime validator
+   */
+  @Get('schema')
+  getSchema(): Record<string, unknown> {
+    return buildBotConfigJsonSchema();
+  }
+
+  /**
+   * Validate a configuration file without applying it
+   */
+  @Post('validate')
+  @HttpCode(HttpStatus.OK)
+  validate(@Body() body: ValidateConfigDto): ConfigValidationResponse {
+    const { errors } = this.validator.validateYaml(body.content, 'repository');
+
+    return { valid: errors.length === 0, errors };
+  }
+}
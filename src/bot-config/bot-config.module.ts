@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { BotConfigService } from './bot-config.service';
+import { BotConfigValidator } from './bot-config.validator';
+import { BotConfigController } from './bot-config.controller';
+import { ConfigCheckService } from './config-check.service';
+import { RulePackService } from './rule-pack.service';
+
+/**
+ * Bot Config Module
+ *
+ * Purpose: Effective per-repository configuration for DETER-AGENT state hydration
+ * Constitutional Requirement: P2 Validação Preventiva
+ *
+ * Exports: BotConfigService, BotConfigValidator, ConfigCheckService, RulePackService
+ */
+
+@Module({
+  controllers: [BotConfigController],
+  providers: [BotConfigService, BotConfigValidator, ConfigCheckService, RulePackService],
+  exports: [BotConfigService, BotConfigValidator, ConfigCheckService, RulePackService],
+})
+export class BotConfigModule {}
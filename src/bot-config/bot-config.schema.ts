@@ -0,0 +1,203 @@
+import { BotConfigurationState } from '../constitutional/deter-agent/layer-3-state';
+import { LLM_PROVIDER_NAMES } from '../ai/providers/llm-provider.interface';
+import { ValidationResult } from '../constitutional/validators/zero-trust.validator';
+import {
+  RULE_ID_PATTERN,
+  RULE_PACK_REFERENCE_PATTERN,
+  checkRuleFields,
+} from '../constitutional/metrics/crs-rules/rule-pack';
+
+/**
+ * Bot Configuration Schema
+ *
+ * Purpose: The keys a repository may configure, with their types and limits
+ * Constitutional Requirement: P2 Validação Preventiva - configuration is validated before it is used
+ *
+ * BOT_CONFIG_FIELDS is keyed by BotConfigurationState, so adding a state key without
+ * a field (or the reverse) does not compile. The published JSON Schema and the
+ * runtime validator are both generated from it.
+ *
+ * File layout:
+ *   features:     { issueTriage, prReview, releaseNotes }.enabled
+ *   constitution: requiredCRS, maxLEI, minCoverage, rulePack, rules
+ *   ai:           provider, model, geminiModel, temperature
+ */
+
+export type ConfigSource = 'default' | 'organization' | 'database' | 'repository';
+
+export type BotConfigKey = keyof BotConfigurationState;
+
+/** Keys without a default (llmProvider, llmModel, temperature) appear only once a source sets them */
+export type ConfigProvenance = Partial<Record<BotConfigKey, ConfigSource>>;
+
+export interface ConfigValidationError {
+  source: ConfigSource;
+  /** Dotted path in the configuration document, e.g. "features.prReview.enabled" */
+  path: string;
+  message: string;
+  /** 1-based line in the YAML file, when the error comes from a file */
+  line?: number;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+export interface ConfigFieldDefinition {
+  path: string;
+  type: 'boolean' | 'number' | 'string' | 'array';
+  description: string;
+  minimum?: number;
+  maximum?: number;
+  enum?: readonly string[];
+  pattern?: RegExp;
+  /** array fields: JSON Schema of one entry, and its runtime check */
+  items?: { schema: JsonSchema; validate: (item: unknown) => ValidationResult };
+  maxItems?: number;
+}
+
+export const CONFIG_FILE_NAME = '.vertice-bot.yml';
+
+export const CONFIG_SCHEMA_ID = 'https://vertice.dev/schemas/vertice-bot.schema.json';
+
+export const BOT_CONFIG_FIELDS: Record<BotConfigKey, ConfigFieldDefinition> = {
+  enableIssueTriage: {
+    path: 'features.issueTriage.enabled',
+    type: 'boolean',
+    description: 'Classify, label and comment on new issues',
+  },
+  enablePRReview: {
+    path: 'features.prReview.enabled',
+    type: 'boolean',
+    description: 'Review opened and updated pull requests',
+  },
+  enableReleaseNotes: {
+    path: 'features.releaseNotes.enabled',
+    type: 'boolean',
+    description: 'Generate release notes',
+  },
+  requiredCRS: {
+    path: 'constitution.requiredCRS',
+    type: 'number',
+    description: 'Minimum Constitutional Rule Satisfaction (%)',
+    minimum: 0,
+    maximum: 100,
+  },
+  maxLEI: {
+    path: 'constitution.maxLEI',
+    type: 'number',
+    description: 'Maximum Lazy Execution Index',
+    minimum: 0,
+  },
+  minCoverage: {
+    path: 'constitution.minCoverage',
+    type: 'number',
+    description: 'Minimum test coverage (%)',
+    minimum: 0,
+    maximum: 100,
+  },
+  llmProvider: {
+    path: 'ai.provider',
+    type: 'string',
+    description: 'Model vendor for AI actions',
+    enum: LLM_PROVIDER_NAMES,
+  },
+  llmModel: {
+    path: 'ai.model',
+    type: 'string',
+    description: "Model name (defaults to the provider's model)",
+  },
+  geminiModel: {
+    path: 'ai.geminiModel',
+    type: 'string',
+    description: 'Gemini model used when ai.provider is gemini and ai.model is unset',
+  },
+  temperature: {
+    path: 'ai.temperature',
+    type: 'number',
+    description: 'Sampling temperature',
+    minimum: 0,
+    maximum: 2,
+  },
+  crsRulePack: {
+    path: 'constitution.rulePack',
+    type: 'string',
+    description:
+      "CRS rule pack published in an organization's .github repository, as owner/name or owner/name@version",
+    pattern: RULE_PACK_REFERENCE_PATTERN,
+  },
+  crsRules: {
+    path: 'constitution.rules',
+    type: 'array',
+    description:
+      'CRS rules added to the rule pack, or overriding its rules by id (enabled: false drops one)',
+    maxItems: 50,
+    items: {
+      schema: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['id'],
+        properties: {
+          id: { type: 'string', pattern: RULE_ID_PATTERN.source },
+          name: { type: 'string' },
+          detector: { type: 'string' },
+          weight: { type: 'number', minimum: 0 },
+          required: { type: 'boolean' },
+          enabled: { type: 'boolean' },
+          options: { type: 'object' },
+        },
+      },
+      validate: (item) => {
+        const errors = checkRuleFields(item);
+
+        return { valid: errors.length === 0, errors, sanitized: item };
+      },
+    },
+  },
+};
+
+export const DEFAULT_BOT_CONFIGURATION: BotConfigurationState = {
+  enableIssueTriage: true,
+  enablePRReview: true,
+  enableReleaseNotes: true,
+  requiredCRS: 95.0,
+  maxLEI: 1.0,
+  minCoverage: 90.0,
+  geminiModel: 'gemini-1.5-flash',
+};
+
+/**
+ * JSON Schema (draft-07) for .vertice-bot.yml
+ */
+export function buildBotConfigJsonSchema(): JsonSchema {
+  const root: JsonSchema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: CONFIG_SCHEMA_ID,
+    title: 'Vértice bot configuration (.vertice-bot.yml)',
+    type: 'object',
+    additionalProperties: false,
+    properties: {},
+  };
+
+  for (const field of Object.values(BOT_CONFIG_FIELDS)) {
+    const parts = field.path.split('.');
+    let node = root;
+
+    for (const part of parts.slice(0, -1)) {
+      const properties = node.properties as Record<string, JsonSchema>;
+      properties[part] ??= { type: 'object', additionalProperties: false, properties: {} };
+      node = properties[part];
+    }
+
+    (node.properties as Record<string, JsonSchema>)[parts[parts.length - 1]] = {
+      type: field.type,
+      description: field.description,
+      ...(field.enum ? { enum: [...field.enum] } : {}),
+      ...(field.minimum !== undefined ? { minimum: field.minimum } : {}),
+      ...(field.maximum !== undefined ? { maximum: field.maximum } : {}),
+      ...(field.pattern ? { pattern: field.pattern.source } : {}),
+      ...(field.items ? { items: field.items.schema } : {}),
+      ...(field.maxItems !== undefined ? { maxItems: field.maxItems } : {}),
+    };
+  }
+
+  return root;
+}
@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BotConfigService } from './bot-config.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { BotConfigValidator } from './bot-config.validator';
+import { ZeroTrustValidator } from '../constitutional/validators/zero-trust.validator';
+import { TenantService } from '../installations/tenant.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+/**
+ * Bot Config Service Unit Tests
+ *
+ * Purpose: Verify source precedence, provenance and validation errors
+ * Constitutional Requirement: P2 Validação Preventiva
+ */
+
+describe('BotConfigService', () => {
+  let service: BotConfigService;
+
+  const getContent = jest.fn();
+  const githubClient = {
+    getAuthMode: jest.fn().mockReturnValue('app'),
+    getRepositoryClient: jest.fn().mockResolvedValue({ rest: { repos: { getContent } } }),
+  };
+  const repository = { owner: 'test-owner', name: 'test-repo', fullName: 'test-owner/test-repo' };
+
+  const file = (content: string): { data: { type: string; content: string } } => ({
+    data: { type: 'file', content: Buffer.from(content).toString('base64') },
+  });
+  const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BotConfigService,
+        BotConfigValidator,
+        ZeroTrustValidator,
+        TenantService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: GitHubClientService, useValue: githubClient },
+      ],
+    }).compile();
+
+    service = module.get<BotConfigService>(BotConfigService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should layer organization, database and repository sources with provenance', async () => {
+    mockPrismaService.repository.findFirst.mockResolvedValue({
+      id: 'repo-1',
+      configYaml: null,
+      configurations: [
+        {
+          enableIssueTriage: true,
+          enablePRReview: true,
+          enableReleaseNotes: true,
+          requiredCRS: 90,
+          maxLEI: 1,
+          minCoverage: 80,
+          geminiModel: 'gemini-1.5-flash',
+          geminiTemperature: 0.7,
+          llmProvider: null,
+          llmModel: null,
+        },
+      ],
+    });
+    getContent
+      .mockResolvedValueOnce(file('ai:\n  provider: anthropic\nconstitution:\n  minCoverage: 70\n'))
+      .mockResolvedValueOnce(file('features:\n  prReview:\n    enabled: false\n'));
+
+    const { config, provenance, errors } = await service.resolve(repository, 42);
+
+    expect(errors).toEqual([]);
+    expect(config).toEqual(
+      expect.objectContaining({
+        llmProvider: 'anthropic',
+        minCoverage: 80,
+        requiredCRS: 90,
+        enablePRReview: false,
+      }),
+    );
+    expect(provenance).toEqual(
+      expect.objectContaining({
+        llmProvider: 'organization',
+        minCoverage: 'database',
+        enablePRReview: 'repository',
+      }),
+    );
+    expect(mockPrismaService.repository.update).toHaveBeenCalledWith({
+      where: { id: 'repo-1' },
+      data: { configYaml: 'features:\n  prReview:\n    enabled: false\n' },
+    });
+  });
+
+  it('should report unknown keys and bad types instead of applying them', async () => {
+    mockPrismaService.repository.findFirst.mockResolvedValue(null);
+    getContent
+      .mockRejectedValueOnce(notFound)
+      .mockResolvedValueOnce(
+        file(
+          [
+            'features:',
+            '  issueTriage:',
+            '    enabled: "no"',
+            'constitution:',
+            '  maxLei: 2',
+            '  maxLEI: -1',
+            'labels: []',
+          ].join('\n'),
+        ),
+      );
+
+    const { config, provenance, errors } = await service.resolve(repository);
+
+    expect(config.enableIssueTriage).toBe(true);
+    expect(config.maxLEI).toBe(1);
+    expect(provenance.enableIssueTriage).toBe('default');
+    expect(errors).toEqual([
+      {
+        source: 'repository',
+        path: 'features.issueTriage.enabled',
+        message: 'features.issueTriage.enabled must be a boolean',
+        line: 3,
+      },
+      {
+        source: 'repository',
+        path: 'constitution.maxLei',
+        message: "Unknown key 'constitution.maxLei'",
+        line: 5,
+      },
+      {
+        source: 'repository',
+        path: 'constitution.maxLEI',
+        message: 'constitution.maxLEI must be at least 0',
+        line: 6,
+      },
+      { source: 'repository', path: 'labels', message: "Unknown key 'labels'", line: 7 },
+    ]);
+  });
+
+  it('should fall back to the cached file when GitHub is unreachable', async () => {
+    mockPrismaService.repository.findFirst.mockResolvedValue({
+      id: 'repo-1',
+      configYaml: 'features:\n  issueTriage:\n    enabled: false\n',
+      configurations: [],
+    });
+    getContent.mockRejectedValue(Object.assign(new Error('Bad gateway'), { status: 502 }));
+
+    const { config, provenance } = await service.resolve(repository);
+
+    expect(config.enableIssueTriage).toBe(false);
+    expect(provenance.enableIssueTriage).toBe('repository');
+    expect(mockPrismaService.repository.update).not.toHaveBeenCalled();
+  });
+
+  it('should report YAML syntax errors with their line and ignore the file', async () => {
+    mockPrismaService.repository.findFirst.mockResolvedValue(null);
+    getContent
+      .mockRejectedValueOnce(notFound)
+      .mockResolvedValueOnce(file('features:\n  prReview:\n    enabled: [false\n'));
+
+    const { config, errors } = await service.resolve(repository);
+
+    expect(config.enablePRReview).toBe(true);
+    expect(errors).toEqual([
+      expect.objectContaining({
+        source: 'repository',
+        path: '',
+        message: expect.stringContaining('Invalid YAML'),
+        line: expect.any(Number),
+      }),
+    ]);
+  });
+
+  it("should read the repository's baseline and ignore one that does not parse", async () => {
+    getContent
+      .mockResolvedValueOnce(file('{"version": 1, "lei": [], "crs": ["COMPLETE_TESTS"]}'))
+      .mockResolvedValueOnce(file('{"version": 2}'))
+      .mockRejectedValueOnce(notFound);
+
+    await expect(service.fetchBaseline('test-owner', 'test-repo', 42)).resolves.toEqual({
+      version: 1,
+      lei: [],
+      crs: ['COMPLETE_TESTS'],
+    });
+    expect(getContent).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      path: '.vertice-baseline.json',
+    });
+    await expect(service.fetchBaseline('test-owner', 'test-repo')).resolves.toBeUndefined();
+    await expect(service.fetchBaseline('test-owner', 'test-repo')).resolves.toBeUndefined();
+  });
+});
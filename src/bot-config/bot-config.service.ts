@@ -0,0 +1,246 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BotConfiguration } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { RepositoryIdentity, Tenant, TenantService } from '../installations/tenant.service';
+import { BotConfigurationState } from '../constitutional/deter-agent/layer-3-state';
+import {
+  BotConfigKey,
+  CONFIG_FILE_NAME,
+  ConfigProvenance,
+  ConfigSource,
+  ConfigValidationError,
+  DEFAULT_BOT_CONFIGURATION,
+} from './bot-config.schema';
+import { BotConfigValidator, ConfigValidationResult } from './bot-config.validator';
+import {
+  BASELINE_FILE,
+  ConstitutionalBaseline,
+  parseBaseline,
+} from '../constitutional/metrics/suppressions';
+
+/**
+ * Bot Configuration Service
+ *
+ * Purpose: Resolve the effective configuration for a repository
+ * Constitutional Requirement: P4 Rastreabilidade Total - every value records where it came from
+ *
+ * Precedence (lowest to highest):
+ * 1. default       built-in defaults
+ * 2. organization  .vertice-bot.yml in the owner's `.github` repository
+ * 3. database      BotConfiguration row
+ * 4. repository    .vertice-bot.yml on the repository's default branch
+ *
+ * The repository file is cached in Repository.configYaml and used when GitHub is unreachable
+ * The database row is only read when the repository belongs to the event's tenant
+ * The repository's `.vertice-baseline.json` is read from the default branch as well
+ */
+
+export interface ResolvedBotConfiguration {
+  config: BotConfigurationState;
+  provenance: ConfigProvenance;
+  errors: ConfigValidationError[];
+}
+
+export const ORGANIZATION_CONFIG_REPO = '.github';
+
+@Injectable()
+export class BotConfigService {
+  private readonly logger = new Logger(BotConfigService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly githubClient: GitHubClientService,
+    private readonly validator: BotConfigValidator,
+    private readonly tenants: TenantService,
+  ) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Merge every configuration source for a repository
+   */
+  async resolve(
+    repository: RepositoryIdentity,
+    installationId?: number,
+    tenant?: Tenant,
+  ): Promise<ResolvedBotConfiguration> {
+    const stored = await this.prisma.repository.findFirst({
+      where: { fullName: repository.fullName, ...this.tenants.scope(tenant) },
+      include: { configurations: true },
+    });
+
+    const organizationYaml = await this.fetchConfigFile(
+      repository.owner,
+      ORGANIZATION_CONFIG_REPO,
+      installationId,
+    );
+    const repositoryYaml = await this.fetchConfigFile(
+      repository.owner,
+      repository.name,
+      installationId,
+    );
+
+    if (repositoryYaml !== undefined && stored && repositoryYaml !== stored.configYaml) {
+      await this.prisma.repository.update({
+        where: { id: stored.id },
+        data: { configYaml: repositoryYaml },
+      });
+    }
+
+    // null: the file does not exist; undefined: GitHub unreachable, use the cached copy
+    const effectiveRepositoryYaml =
+      repositoryYaml === undefined ? (stored?.configYaml ?? null) : repositoryYaml;
+
+    const resolved = this.merge([
+      this.validateFile(organizationYaml ?? null, 'organization'),
+      this.validator.validate(this.fromDatabase(stored?.configurations[0]), 'database'),
+      this.validateFile(effectiveRepositoryYaml, 'repository'),
+    ]);
+
+    for (const error of resolved.errors) {
+      this.logger.warn(
+        `Invalid configuration for ${repository.fullName} (${error.source}${error.path ? ` ${error.path}` : ''}): ${error.message}`,
+      );
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Apply validated sources over the built-in defaults in order
+   */
+  merge(sources: ConfigValidationResult[]): ResolvedBotConfiguration {
+    const config: BotConfigurationState = { ...DEFAULT_BOT_CONFIGURATION };
+    const provenance = Object.fromEntries(
+      Object.keys(DEFAULT_BOT_CONFIGURATION).map((key) => [key, 'default']),
+    ) as ConfigProvenance;
+    const errors: ConfigValidationError[] = [];
+
+    for (const { source, values, errors: sourceErrors } of sources) {
+      errors.push(...sourceErrors);
+
+      for (const [key, value] of Object.entries(values)) {
+        (config as unknown as Record<string, unknown>)[key] = value;
+        provenance[key as BotConfigKey] = source;
+      }
+    }
+
+    return { config, provenance, errors };
+  }
+
+  /**
+   * Raw contents of the config file (default branch unless `ref` is given)
+   * null when the file (or repository) does not exist, undefined when it could not be fetched
+   */
+  async fetchConfigFile(
+    owner: string,
+    repo: string,
+    installationId?: number,
+    ref?: string,
+  ): Promise<string | null | undefined> {
+    return this.fetchFile(owner, repo, CONFIG_FILE_NAME, installationId, ref);
+  }
+
+  /**
+   * Raw contents of any file, with fetchConfigFile's null/undefined convention
+   */
+  async fetchFile(
+    owner: string,
+    repo: string,
+    path: string,
+    installationId?: number,
+    ref?: string,
+  ): Promise<string | null | undefined> {
+    if (this.githubClient.getAuthMode() === 'none') {
+      return undefined;
+    }
+
+    try {
+      const client = await this.githubClient.getRepositoryClient(owner, repo, installationId);
+      const { data } = await client.rest.repos.getContent({
+        owner,
+        repo,
+        path,
+        ...(ref ? { ref } : {}),
+      });
+
+      if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+        return null;
+      }
+
+      return Buffer.from(data.content, 'base64').toString('utf8');
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+
+      this.logger.warn(
+        `Could not fetch ${owner}/${repo}/${path}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+
+      return undefined;
+    }
+  }
+
+  /**
+   * The repository's committed baseline on the default branch, so a pull request cannot
+   * baseline its own findings; undefined when there is none or it does not parse
+   */
+  async fetchBaseline(
+    owner: string,
+    repo: string,
+    installationId?: number,
+  ): Promise<ConstitutionalBaseline | undefined> {
+    const content = await this.fetchFile(owner, repo, BASELINE_FILE, installationId);
+
+    if (!content) {
+      return undefined;
+    }
+
+    try {
+      return parseBaseline(content);
+    } catch (error) {
+      this.logger.warn(
+        `Ignoring ${owner}/${repo}/${BASELINE_FILE}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+
+      return undefined;
+    }
+  }
+
+  private validateFile(content: string | null, source: ConfigSource): ConfigValidationResult {
+    return content === null
+      ? { source, values: {}, errors: [] }
+      : this.validator.validateYaml(content, source);
+  }
+
+  /**
+   * Map a BotConfiguration row onto the configuration document layout
+   * Nullable columns only apply when set
+   */
+  private fromDatabase(row?: BotConfiguration): Record<string, unknown> | null {
+    if (!row) {
+      return null;
+    }
+
+    return {
+      features: {
+        issueTriage: { enabled: row.enableIssueTriage },
+        prReview: { enabled: row.enablePRReview },
+        releaseNotes: { enabled: row.enableReleaseNotes },
+      },
+      constitution: {
+        requiredCRS: row.requiredCRS,
+        maxLEI: row.maxLEI,
+        minCoverage: row.minCoverage,
+      },
+      ai: {
+        geminiModel: row.geminiModel,
+        temperature: row.geminiTemperature,
+        ...(row.llmProvider ? { provider: row.llmProvider } : {}),
+        ...(row.llmModel ? { model: row.llmModel } : {}),
+      },
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { BotConfigValidator } from './bot-config.validator';
+import { BOT_CONFIG_FIELDS, buildBotConfigJsonSchema } from './bot-config.schema';
+import { ZeroTrustValidator } from '../constitutional/validators/zero-trust.validator';
+
+/**
+ * Bot Config Validator Unit Tests
+ *
+ * Purpose: Verify line-numbered errors and that the JSON Schema matches the validator
+ * Constitutional Requirement: P2 Validação Preventiva
+ */
+
+describe('BotConfigValidator', () => {
+  const validator = new BotConfigValidator(new ZeroTrustValidator());
+
+  it('should return sanitized values and line-numbered errors', () => {
+    const result = validator.validateYaml(
+      [
+        'features:',
+        '  prReview:',
+        '    enabled: false',
+        'ai:',
+        '  provider: mistral',
+        '  temperature: 0.2',
+      ].join('\n'),
+      'repository',
+    );
+
+    expect(result.values).toEqual({ enablePRReview: false, temperature: 0.2 });
+    expect(result.errors).toEqual([
+      {
+        source: 'repository',
+        path: 'ai.provider',
+        message: 'ai.provider must be one of: gemini, anthropic, openai, stub',
+        line: 5,
+      },
+    ]);
+  });
+
+  it('should publish a JSON Schema with every configurable key', () => {
+    const schema = buildBotConfigJsonSchema() as {
+      properties: Record<string, { properties: Record<string, unknown> }>;
+    };
+
+    for (const field of Object.values(BOT_CONFIG_FIELDS)) {
+      const parts = field.path.split('.');
+      let node: { properties?: Record<string, unknown> } | undefined = schema;
+
+      for (const part of parts) {
+        node = node?.properties?.[part] as { properties?: Record<string, unknown> } | undefined;
+      }
+
+      expect(node).toEqual(expect.objectContaining({ type: field.type }));
+    }
+    expect(schema.properties.constitution).toEqual(
+      expect.objectContaining({ additionalProperties: false }),
+    );
+  });
+});
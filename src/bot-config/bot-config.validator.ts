@@ -0,0 +1,181 @@
+import { Injectable } from '@nestjs/common';
+import { Document, isMap, isScalar, LineCounter, parseDocument } from 'yaml';
+import {
+  ValidationResult,
+  ZeroTrustValidator,
+} from '../constitutional/validators/zero-trust.validator';
+import { BotConfigurationState } from '../constitutional/deter-agent/layer-3-state';
+import {
+  BOT_CONFIG_FIELDS,
+  BotConfigKey,
+  ConfigFieldDefinition,
+  ConfigSource,
+  ConfigValidationError,
+} from './bot-config.schema';
+
+/**
+ * Bot Configuration Validator
+ *
+ * Purpose: Validate configuration documents against BOT_CONFIG_FIELDS
+ * Constitutional Requirement: P2 Validação Preventiva
+ *
+ * Value checks are ZeroTrustValidator's (boolean, number range, enum, string, array),
+ * so config limits follow the same rules as every other input.
+ * Unknown keys and invalid values are reported and dropped, never applied.
+ */
+
+export interface ConfigValidationResult {
+  source: ConfigSource;
+  values: Partial<BotConfigurationState>;
+  errors: ConfigValidationError[];
+}
+
+const FIELDS_BY_PATH = new Map(
+  (Object.entries(BOT_CONFIG_FIELDS) as [BotConfigKey, ConfigFieldDefinition][]).map(
+    ([key, field]) => [field.path, { key, field }],
+  ),
+);
+
+/** Every intermediate mapping, e.g. "features" and "features.prReview" */
+const SECTION_PATHS = new Set(
+  [...FIELDS_BY_PATH.keys()].flatMap((path) =>
+    path
+      .split('.')
+      .slice(0, -1)
+      .map((_, index, parts) => parts.slice(0, index + 1).join('.')),
+  ),
+);
+
+@Injectable()
+export class BotConfigValidator {
+  constructor(private readonly zeroTrust: ZeroTrustValidator) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Validate a YAML configuration file
+   * Errors carry the line of the offending key
+   */
+  validateYaml(content: string, source: ConfigSource): ConfigValidationResult {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(content, { lineCounter });
+
+    if (document.errors.length > 0) {
+      return {
+        source,
+        values: {},
+        errors: document.errors.map((error) => ({
+          source,
+          path: '',
+          message: `Invalid YAML: ${error.message.split('\n')[0]}`,
+          line: error.linePos?.[0].line,
+        })),
+      };
+    }
+
+    const result = this.validate(document.toJS(), source);
+
+    for (const error of result.errors) {
+      error.line = this.findLine(document, lineCounter, error.path);
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate a parsed configuration document
+   */
+  validate(raw: unknown, source: ConfigSource): ConfigValidationResult {
+    const values: Record<string, unknown> = {};
+    const errors: ConfigValidationError[] = [];
+
+    if (raw !== null && raw !== undefined) {
+      this.walk(raw, '', source, values, errors);
+    }
+
+    return { source, values: values as Partial<BotConfigurationState>, errors };
+  }
+
+  private walk(
+    node: unknown,
+    prefix: string,
+    source: ConfigSource,
+    values: Record<string, unknown>,
+    errors: ConfigValidationError[],
+  ): void {
+    if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+      errors.push({ source, path: prefix, message: 'Expected a mapping of keys to values' });
+      return;
+    }
+
+    for (const [key, value] of Object.entries(node as Record<string, unknown>)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      const entry = FIELDS_BY_PATH.get(path);
+
+      if (entry) {
+        const result = this.checkField(entry.field, path, value);
+
+        if (result.valid) {
+          values[entry.key] = result.sanitized;
+        } else {
+          errors.push(...result.errors.map((message) => ({ source, path, message })));
+        }
+      } else if (SECTION_PATHS.has(path)) {
+        this.walk(value, path, source, values, errors);
+      } else {
+        errors.push({ source, path, message: `Unknown key '${path}'` });
+      }
+    }
+  }
+
+  private checkField(field: ConfigFieldDefinition, path: string, value: unknown): ValidationResult {
+    switch (field.type) {
+      case 'boolean':
+        return this.zeroTrust.validateBoolean(value, path);
+      case 'number':
+        return this.zeroTrust.validateNumber(value, path, {
+          min: field.minimum,
+          max: field.maximum,
+        });
+      case 'array':
+        return this.zeroTrust.validateArray(value, path, {
+          maxLength: field.maxItems,
+          itemValidator: field.items?.validate,
+        });
+      default:
+        return field.enum
+          ? this.zeroTrust.validateEnum(value, path, [...field.enum])
+          : this.zeroTrust.validateString(value, path, {
+              trim: true,
+              maxLength: 200,
+              pattern: field.pattern,
+            });
+    }
+  }
+
+  /**
+   * Line of the key at `path` (or of the document root for document-level errors)
+   */
+  private findLine(document: Document, lineCounter: LineCounter, path: string): number | undefined {
+    const parts = path ? path.split('.') : [];
+    let node: unknown = document.contents;
+    let offset = (document.contents as { range?: number[] } | null)?.range?.[0];
+
+    for (const part of parts) {
+      if (!isMap(node)) {
+        break;
+      }
+
+      const pair = node.items.find((item) => isScalar(item.key) && String(item.key.value) === part);
+
+      if (!pair) {
+        break;
+      }
+
+      offset = isScalar(pair.key) ? pair.key.range?.[0] : offset;
+      node = pair.value;
+    }
+
+    return offset === undefined ? undefined : lineCounter.linePos(offset).line;
+  }
+}
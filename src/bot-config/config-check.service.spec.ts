@@ -0,0 +1,91 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigCheckService } from './config-check.service';
+import { BotConfigService } from './bot-config.service';
+import { BotConfigValidator } from './bot-config.validator';
+import { GitHubClientService } from '../github/github-client.service';
+import { ZeroTrustValidator } from '../constitutional/validators/zero-trust.validator';
+
+/**
+ * Config Check Service Unit Tests
+ *
+ * Purpose: Verify the check run posted for pull requests that change .vertice-bot.yml
+ * Constitutional Requirement: P2 Validação Preventiva
+ */
+
+describe('ConfigCheckService', () => {
+  let service: ConfigCheckService;
+
+  const paginate = jest.fn();
+  const createCheck = jest.fn().mockResolvedValue({ data: { id: 99 } });
+  const octokit = {
+    paginate,
+    rest: { pulls: { listFiles: jest.fn() }, checks: { create: createCheck } },
+  };
+  const githubClient = {
+    getAuthMode: jest.fn().mockReturnValue('app'),
+    getRepositoryClient: jest.fn().mockResolvedValue(octokit),
+  };
+  const botConfig = { fetchConfigFile: jest.fn() };
+  const target = {
+    owner: 'test-owner',
+    repo: 'test-repo',
+    number: 7,
+    headSha: 'abc123',
+    installationId: 42,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConfigCheckService,
+        BotConfigValidator,
+        ZeroTrustValidator,
+        { provide: GitHubClientService, useValue: githubClient },
+        { provide: BotConfigService, useValue: botConfig },
+      ],
+    }).compile();
+
+    service = module.get<ConfigCheckService>(ConfigCheckService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should skip pull requests that do not change the config file', async () => {
+    paginate.mockResolvedValue([{ filename: 'src/index.ts', status: 'modified' }]);
+
+    await expect(service.check(target)).resolves.toEqual({ checked: false });
+    expect(botConfig.fetchConfigFile).not.toHaveBeenCalled();
+    expect(createCheck).not.toHaveBeenCalled();
+  });
+
+  it('should post a failing check run with annotations at the head commit', async () => {
+    paginate.mockResolvedValue([{ filename: '.vertice-bot.yml', status: 'modified' }]);
+    botConfig.fetchConfigFile.mockResolvedValue('constitution:\n  requiredCRS: 150\n');
+
+    const result = await service.check(target);
+
+    expect(botConfig.fetchConfigFile).toHaveBeenCalledWith('test-owner', 'test-repo', 42, 'abc123');
+    expect(result).toEqual(
+      expect.objectContaining({ checked: true, valid: false, checkRunId: 99 }),
+    );
+    expect(createCheck).toHaveBeenCalledWith(
+      expect.objectContaining({
+        head_sha: 'abc123',
+        conclusion: 'failure',
+        output: expect.objectContaining({
+          annotations: [
+            {
+              path: '.vertice-bot.yml',
+              start_line: 2,
+              end_line: 2,
+              annotation_level: 'failure',
+              message: 'constitution.requiredCRS must be at most 100',
+            },
+          ],
+        }),
+      }),
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GitHubClientService } from '../github/github-client.service';
+import { BotConfigService } from './bot-config.service';
+import { BotConfigValidator } from './bot-config.validator';
+import { CONFIG_FILE_NAME, ConfigValidationError } from './bot-config.schema';
+
+/**
+ * Config Check Service
+ *
+ * Purpose: Flag an invalid .vertice-bot.yml on the pull request that changes it
+ * Constitutional Requirement: P2 Validação Preventiva - bad configuration is caught before merge
+ *
+ * Posts a "Vértice config" check run on the head commit with one annotation per error.
+ * Check runs can only be created by a GitHub App, so other auth modes skip posting.
+ */
+
+export interface ConfigCheckTarget {
+  owner: string;
+  repo: string;
+  number: number;
+  headSha: string;
+  installationId?: number;
+}
+
+export interface ConfigCheckResult {
+  checked: boolean;
+  valid?: boolean;
+  errors?: ConfigValidationError[];
+  checkRunId?: number;
+}
+
+export const CONFIG_CHECK_NAME = 'Vértice config';
+
+const MAX_ANNOTATIONS = 50;
+
+@Injectable()
+export class ConfigCheckService {
+  private readonly logger = new Logger(ConfigCheckService.name);
+
+  constructor(
+    private readonly githubClient: GitHubClientService,
+    private readonly botConfig: BotConfigService,
+    private readonly validator: BotConfigValidator,
+  ) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Validate the config file if the pull request modifies it
+   */
+  async check(target: ConfigCheckTarget): Promise<ConfigCheckResult> {
+    if (this.githubClient.getAuthMode() === 'none' || !target.headSha) {
+      return { checked: false };
+    }
+
+    const client = await this.githubClient.getRepositoryClient(
+      target.owner,
+      target.repo,
+      target.installationId,
+    );
+    const files = await client.paginate(client.rest.pulls.listFiles, {
+      owner: target.owner,
+      repo: target.repo,
+      pull_number: target.number,
+      per_page: 100,
+    });
+
+    if (!files.some((file) => file.filename === CONFIG_FILE_NAME && file.status !== 'removed')) {
+      return { checked: false };
+    }
+
+    const content = await this.botConfig.fetchConfigFile(
+      target.owner,
+      target.repo,
+      target.installationId,
+      target.headSha,
+    );
+
+    if (content === undefined || content === null) {
+      this.logger.warn(
+        `Could not read ${CONFIG_FILE_NAME} at ${target.headSha} for ${target.owner}/${target.repo}#${target.number}`,
+      );
+      return { checked: false };
+    }
+
+    const { errors } = this.validator.validateYaml(content, 'repository');
+    const valid = errors.length === 0;
+
+    if (this.githubClient.getAuthMode() !== 'app') {
+      this.logger.log(
+        `${CONFIG_FILE_NAME} on ${target.owner}/${target.repo}#${target.number}: ${errors.length} error(s); check runs require GitHub App auth, not posting`,
+      );
+      return { checked: true, valid, errors };
+    }
+
+    const { data: checkRun } = await client.rest.checks.create({
+      owner: target.owner,
+      repo: target.repo,
+      name: CONFIG_CHECK_NAME,
+      head_sha: target.headSha,
+      status: 'completed',
+      conclusion: valid ? 'success' : 'failure',
+      output: {
+        title: valid
+          ? `${CONFIG_FILE_NAME} is valid`
+          : `${errors.length} error(s) in ${CONFIG_FILE_NAME}`,
+        summary: this.renderSummary(errors),
+        annotations: errors.slice(0, MAX_ANNOTATIONS).map((error) => ({
+          path: CONFIG_FILE_NAME,
+          start_line: error.line ?? 1,
+          end_line: error.line ?? 1,
+          annotation_level: 'failure' as const,
+          message: error.message,
+        })),
+      },
+    });
+
+    return { checked: true, valid, errors, checkRunId: checkRun.id };
+  }
+
+  renderSummary(errors: ConfigValidationError[]): string {
+    if (errors.length === 0) {
+      return `${CONFIG_FILE_NAME} matches the configuration schema.`;
+    }
+
+    return [
+      `${CONFIG_FILE_NAME} does not match the configuration schema. Invalid values are ignored by the bot.`,
+      '',
+      ...errors.map(
+        (error) => `- ${error.line !== undefined ? `line ${error.line}: ` : ''}${error.message}`,
+      ),
+    ].join('\n');
+  }
+}
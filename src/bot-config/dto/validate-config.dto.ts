@@ -0,0 +1,15 @@
+import { IsString, MaxLength } from 'class-validator';
+
+/**
+ * Validate Config DTO
+ *
+ * Purpose: Body of POST /config/validate
+ * Constitutional Requirement: P2 Validação Preventiva
+ */
+
+export class ValidateConfigDto {
+  /** Raw .vertice-bot.yml contents */
+  @IsString()
+  @MaxLength(65536)
+  content!: string;
+}
@@ -0,0 +1,80 @@
+import { RulePackService } from './rule-pack.service';
+import { BotConfigService } from './bot-config.service';
+import { DEFAULT_BOT_CONFIGURATION } from './bot-config.schema';
+import { CrsDetectorRegistry } from '../constitutional/metrics/crs-rules/crs-detector-registry';
+
+/**
+ * Rule Pack Service Unit Tests
+ *
+ * Purpose: Verify organization rule packs are loaded, pinned and checked before they apply
+ * Constitutional Requirement: P2 Validação Preventiva
+ */
+
+describe('RulePackService', () => {
+  const fetchFile = jest.fn();
+  const service = new RulePackService(
+    { fetchFile } as unknown as BotConfigService,
+    new CrsDetectorRegistry(),
+  );
+  const repository = { owner: 'acme', name: 'payments', fullName: 'acme/payments' };
+  const packYaml = [
+    'name: acme/security',
+    'version: 1.2.0',
+    'threshold: 90',
+    'rules:',
+    '  - { id: ERROR_HANDLING, detector: error-handling, weight: 1, required: true }',
+    '  - id: NO_EVAL',
+    '    detector: pattern',
+    '    weight: 2',
+    '    required: true',
+    "    options: { pattern: '\\beval\\(', absent: true }",
+  ].join('\n');
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should load the organization's pack and apply repository rules on top", async () => {
+    fetchFile.mockResolvedValue(packYaml);
+
+    const resolved = await service.resolve(
+      repository,
+      {
+        ...DEFAULT_BOT_CONFIGURATION,
+        crsRulePack: 'acme/security@1.2.0',
+        crsRules: [{ id: 'CUSTOM', detector: 'made-up', weight: 1, required: true }],
+      },
+      { requiredCRS: 'default' },
+      42,
+    );
+
+    expect(fetchFile).toHaveBeenCalledWith(
+      'acme',
+      '.github',
+      '.vertice/rule-packs/security.yml',
+      42,
+    );
+    expect(resolved.pack).toEqual(
+      expect.objectContaining({ name: 'acme/security', version: '1.2.0', threshold: 90 }),
+    );
+    expect(resolved.pack.rules.map((rule) => rule.id)).toEqual(['ERROR_HANDLING', 'NO_EVAL']);
+    expect(resolved.threshold).toBe(90);
+    expect(resolved.errors).toEqual([expect.stringContaining("unknown detector 'made-up'")]);
+  });
+
+  it('should fall back to the default pack when the pinned version is not published', async () => {
+    fetchFile.mockResolvedValue(packYaml);
+
+    const resolved = await service.resolve(
+      repository,
+      { ...DEFAULT_BOT_CONFIGURATION, crsRulePack: 'acme/security@2.0.0', requiredCRS: 85 },
+      { requiredCRS: 'repository' },
+    );
+
+    expect(resolved.pack.name).toBe('vertice/default');
+    expect(resolved.threshold).toBe(85);
+    expect(resolved.errors).toEqual([
+      'acme/.github/.vertice/rule-packs/security.yml: is at version 1.2.0, the repository pins 2.0.0',
+    ]);
+  });
+});
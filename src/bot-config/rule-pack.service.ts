@@ -0,0 +1,149 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { parse } from 'yaml';
+import { RepositoryIdentity } from '../installations/tenant.service';
+import { BotConfigurationState } from '../constitutional/deter-agent/layer-3-state';
+import { CrsDetectorRegistry } from '../constitutional/metrics/crs-rules/crs-detector-registry';
+import { CrsRulePack } from '../constitutional/metrics/crs-rules/crs-rule.interface';
+import { DEFAULT_RULE_PACK } from '../constitutional/metrics/crs-rules/default-rule-pack';
+import {
+  applyRuleOverrides,
+  parseRulePack,
+  parseRulePackReference,
+} from '../constitutional/metrics/crs-rules/rule-pack';
+import { ConfigProvenance } from './bot-config.schema';
+import { BotConfigService, ORGANIZATION_CONFIG_REPO } from './bot-config.service';
+
+/**
+ * Rule Pack Service
+ *
+ * Purpose: The CRS rule pack and threshold a repository is held to
+ * Constitutional Requirement: P2 Validação Preventiva - a broken pack falls back to the default,
+ * it never weakens the review
+ *
+ * 1. constitution.rulePack "<owner>/<name>[@<version>]" loads `.vertice/rule-packs/<name>.yml`
+ *    from <owner>/.github (default branch); without it, DEFAULT_RULE_PACK applies
+ * 2. constitution.rules are applied on top (see applyRuleOverrides)
+ * 3. The threshold is the pack's, unless a source sets constitution.requiredCRS explicitly
+ *
+ * A missing pack, a version other than the pinned one, or a rule whose detector is unknown
+ * rejects the pack; an invalid repository rule is dropped. Each is logged.
+ */
+
+export const RULE_PACK_DIRECTORY = '.vertice/rule-packs';
+
+export interface ResolvedRulePack {
+  pack: CrsRulePack;
+  threshold: number;
+  errors: string[];
+}
+
+@Injectable()
+export class RulePackService {
+  private readonly logger = new Logger(RulePackService.name);
+
+  constructor(
+    private readonly botConfig: BotConfigService,
+    private readonly detectors: CrsDetectorRegistry,
+  ) {
+    // NestJS dependency injection
+  }
+
+  async resolve(
+    repository: RepositoryIdentity,
+    config: BotConfigurationState,
+    provenance: ConfigProvenance,
+    installationId?: number,
+  ): Promise<ResolvedRulePack> {
+    const errors: string[] = [];
+    let pack = DEFAULT_RULE_PACK;
+
+    if (config.crsRulePack) {
+      const loaded = await this.load(config.crsRulePack, installationId);
+
+      errors.push(...loaded.errors);
+      pack = loaded.pack ?? pack;
+    }
+
+    const applied = applyRuleOverrides(pack, config.crsRules ?? []);
+    const rejected = applied.pack.rules
+      .map((rule) => ({ rule, problem: this.detectors.check(rule) }))
+      .filter(({ problem }) => problem !== undefined);
+
+    errors.push(...applied.errors, ...rejected.map(({ problem }) => `${problem} - rule dropped`));
+
+    const resolved: CrsRulePack = {
+      ...applied.pack,
+      rules: applied.pack.rules.filter((rule) => !rejected.some((entry) => entry.rule === rule)),
+    };
+
+    for (const error of errors) {
+      this.logger.warn(`CRS rule pack for ${repository.fullName}: ${error}`);
+    }
+
+    return {
+      pack: resolved,
+      threshold:
+        (provenance.requiredCRS ?? 'default') === 'default'
+          ? resolved.threshold
+          : config.requiredCRS,
+      errors,
+    };
+  }
+
+  /**
+   * Load and check a published pack; errors mean the default pack applies instead
+   */
+  private async load(
+    reference: string,
+    installationId?: number,
+  ): Promise<{ pack?: CrsRulePack; errors: string[] }> {
+    const ref = parseRulePackReference(reference);
+
+    if (!ref) {
+      return { errors: [`'${reference}' is not <owner>/<name>[@<version>]`] };
+    }
+
+    const path = `${RULE_PACK_DIRECTORY}/${ref.name}.yml`;
+    const source = `${ref.owner}/${ORGANIZATION_CONFIG_REPO}/${path}`;
+    const content = await this.botConfig.fetchFile(
+      ref.owner,
+      ORGANIZATION_CONFIG_REPO,
+      path,
+      installationId,
+    );
+
+    if (content === null || content === undefined) {
+      return {
+        errors: [`${source} ${content === null ? 'does not exist' : 'could not be fetched'}`],
+      };
+    }
+
+    let parsed: ReturnType<typeof parseRulePack>;
+
+    try {
+      parsed = parseRulePack(parse(content));
+    } catch (error) {
+      return {
+        errors: [`${source}: invalid YAML (${error instanceof Error ? error.message : error})`],
+      };
+    }
+
+    const { pack } = parsed;
+    const errors = [
+      ...parsed.errors,
+      ...(pack?.rules.map((rule) => this.detectors.check(rule)) ?? []),
+    ].filter((error): error is string => error !== undefined);
+
+    if (pack && pack.name !== `${ref.owner}/${ref.name}`) {
+      errors.push(`declares name ${pack.name}, expected ${ref.owner}/${ref.name}`);
+    }
+
+    if (pack && ref.version && pack.version !== ref.version) {
+      errors.push(`is at version ${pack.version}, the repository pins ${ref.version}`);
+    }
+
+    return errors.length > 0
+      ? { errors: errors.map((error) => `${source}: ${error}`) }
+      : { pack, errors };
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * ChatOps Commands
+ *
+ * Purpose: Map `/vertice <command>` comments onto DETER-AGENT actions
+ * Constitutional Requirement: Article III - Zero Trust (every command names the role it needs)
+ *
+ * Commands run as ordinary action plans, so they pass the same Layer 1 validation,
+ * feature flags, approval policy and AgentRun audit as webhook-driven work.
+ * Unknown commands, and commands that do not apply to the thread, get the help reply.
+ */
+
+export const CHATOPS_PREFIX = '/vertice';
+
+/** Label that stops automatic triage and review of a thread */
+export const IGNORE_LABEL = 'vertice-ignore';
+
+/** GitHub repository roles, weakest first */
+export const REPOSITORY_ROLES = ['none', 'read', 'triage', 'write', 'maintain', 'admin'] as const;
+
+export type RepositoryRole = (typeof REPOSITORY_ROLES)[number];
+
+export interface ChatOpsCommandDefinition {
+  usage: string;
+  description: string;
+  role: RepositoryRole;
+  /** Actions on an issue thread; unset: not available on issues */
+  issueActions?: string[];
+  /** Actions on a pull request thread; unset: not available on pull requests */
+  pullRequestActions?: string[];
+  /** Roll back the command's changes when one of its actions fails */
+  transactional?: boolean;
+}
+
+export interface ChatOpsCommand {
+  name: string;
+  args: string[];
+}
+
+const TRIAGE_ACTIONS = [
+  'classify-issue',
+  'suggest-labels',
+  'calculate-priority',
+  'post-analysis-comment',
+];
+
+const REVIEW_ACTIONS = [
+  'check-config-file',
+  'analyze-code-quality',
+  'check-security',
+  'post-review-comment',
+];
+
+const everywhere = (...actions: string[]): Partial<ChatOpsCommandDefinition> => ({
+  issueActions: actions,
+  pullRequestActions: actions,
+});
+
+export const CHATOPS_COMMANDS: Record<string, ChatOpsCommandDefinition> = {
+  triage: {
+    usage: '/vertice triage',
+    description: 'Re-run issue triage: classification, labels and the analysis comment',
+    role: 'triage',
+    issueActions: TRIAGE_ACTIONS,
+    transactional: true,
+  },
+  review: {
+    usage: '/vertice review',
+    description: 'Re-run the pull request review',
+    role: 'write',
+    pullRequestActions: REVIEW_ACTIONS,
+    transactional: true,
+  },
+  explain: {
+    usage: '/vertice explain',
+    description: 'Explain the latest analysis of this thread',
+    role: 'read',
+    ...everywhere('post-explanation'),
+  },
+  ignore: {
+    usage: '/vertice ignore',
+    description: `Stop automatic analysis of this thread (adds the \`${IGNORE_LABEL}\` label)`,
+    role: 'triage',
+    ...everywhere('apply-ignore-label'),
+  },
+  config: {
+    usage: '/vertice config',
+    description: 'Show the effective configuration and where each value comes from',
+    role: 'read',
+    ...everywhere('post-config-summary'),
+  },
+  approve: {
+    usage: '/vertice approve [id] [note]',
+    description: 'Approve a paused action',
+    role: 'write',
+    ...everywhere('handle-approval-command'),
+  },
+  reject: {
+    usage: '/vertice reject [id] [note]',
+    description: 'Reject a paused action; the rest of the plan still runs',
+    role: 'write',
+    ...everywhere('handle-approval-command'),
+  },
+  help: {
+    usage: '/vertice help',
+    description: 'List the available commands',
+    role: 'none',
+    ...everywhere('post-command-help'),
+  },
+};
+
+/**
+ * Command on the first line of a comment, or undefined when the comment is not a command
+ */
+export function parseChatOpsCommand(body: string): ChatOpsCommand | undefined {
+  const [prefix, name, ...args] = body.trimStart().split('\n')[0].trim().split(/\s+/);
+
+  if (prefix?.toLowerCase() !== CHATOPS_PREFIX) {
+    return undefined;
+  }
+
+  return { name: (name ?? 'help').toLowerCase(), args };
+}
+
+/**
+ * Actions a command runs on a thread; unknown or inapplicable commands reply with help
+ */
+export function planChatOpsCommand(command: ChatOpsCommand, isPullRequest: boolean): string[] {
+  const definition = CHATOPS_COMMANDS[command.name];
+  const actions = isPullRequest ? definition?.pullRequestActions : definition?.issueActions;
+
+  return actions ?? ['post-command-help'];
+}
+
+/**
+ * Role a command needs; help (also the reply to unknown commands) needs none
+ */
+export function requiredRole(command: ChatOpsCommand): RepositoryRole {
+  return CHATOPS_COMMANDS[command.name]?.role ?? 'none';
+}
+
+/**
+ * Whether `role` is at least `required`
+ */
+export function hasRole(role: RepositoryRole, required: RepositoryRole): boolean {
+  return REPOSITORY_ROLES.indexOf(role) >= REPOSITORY_ROLES.indexOf(required);
+}
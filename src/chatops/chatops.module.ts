@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ChatOpsService } from './chatops.service';
+
+/**
+ * ChatOps Module
+ *
+ * Purpose: `/vertice` slash commands in issue and pull request comments
+ * Constitutional Requirement: Article III - Zero Trust
+ *
+ * Exports: ChatOpsService for the State and Execution Layers
+ */
+
+@Module({
+  providers: [ChatOpsService],
+  exports: [ChatOpsService],
+})
+export class ChatOpsModule {}
@@ -0,0 +1,74 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ChatOpsService } from './chatops.service';
+import { hasRole, parseChatOpsCommand, planChatOpsCommand } from './chatops-commands';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { TenantService } from '../installations/tenant.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+/**
+ * ChatOps Service Unit Tests
+ *
+ * Purpose: Verify `/vertice` commands map onto actions and respect repository roles
+ * Constitutional Requirement: Article III - Zero Trust
+ */
+
+describe('ChatOpsService', () => {
+  let service: ChatOpsService;
+
+  const getCollaboratorPermissionLevel = jest.fn();
+  const octokit = { rest: { repos: { getCollaboratorPermissionLevel } } };
+  const githubClient = { getRepositoryClient: jest.fn().mockResolvedValue(octokit) };
+  const tenants = { scope: jest.fn().mockReturnValue({}) };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChatOpsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: GitHubClientService, useValue: githubClient },
+        { provide: TenantService, useValue: tenants },
+      ],
+    }).compile();
+
+    service = module.get<ChatOpsService>(ChatOpsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should map commands onto the actions for the thread type', () => {
+    const triage = parseChatOpsCommand('/vertice triage\nplease')!;
+
+    expect(planChatOpsCommand(triage, false)).toEqual([
+      'classify-issue',
+      'suggest-labels',
+      'calculate-priority',
+      'post-analysis-comment',
+    ]);
+    expect(planChatOpsCommand(triage, true)).toEqual(['post-command-help']);
+    expect(planChatOpsCommand(parseChatOpsCommand('/Vertice deploy')!, false)).toEqual([
+      'post-command-help',
+    ]);
+    expect(parseChatOpsCommand('Should we /vertice review?')).toBeUndefined();
+  });
+
+  it('should prefer the role name so triage and maintain are told apart', async () => {
+    getCollaboratorPermissionLevel.mockResolvedValue({
+      data: { permission: 'read', role_name: 'triage' },
+    });
+
+    const role = await service.resolveRole('test-owner', 'test-repo', 'alice');
+
+    expect(role).toBe('triage');
+    expect(hasRole(role, 'triage')).toBe(true);
+    expect(hasRole(role, 'write')).toBe(false);
+  });
+
+  it('should treat users whose role cannot be resolved as having none', async () => {
+    getCollaboratorPermissionLevel.mockRejectedValue(new Error('Not Found'));
+
+    await expect(service.resolveRole('test-owner', 'test-repo', 'mallory')).resolves.toBe('none');
+  });
+});
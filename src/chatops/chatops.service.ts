@@ -0,0 +1,267 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { Tenant, TenantService } from '../installations/tenant.service';
+import { BotConfigKey } from '../bot-config/bot-config.schema';
+import { ExecutionContext, StateContext } from '../constitutional/deter-agent/layer-3-state';
+import {
+  CHATOPS_COMMANDS,
+  CHATOPS_PREFIX,
+  IGNORE_LABEL,
+  REPOSITORY_ROLES,
+  RepositoryRole,
+} from './chatops-commands';
+
+/**
+ * ChatOps Service
+ *
+ * Purpose: GitHub side of `/vertice` commands: commenter roles and command replies
+ * Constitutional Requirement: Article III - Zero Trust, P4 Rastreabilidade Total
+ *
+ * State hydration resolves the commenter's repository role once per run; the orchestrator
+ * replaces the plan with a denial when the role is below what the command needs.
+ * Replies are best-effort: a failed comment never fails the command itself.
+ */
+
+export interface ChatOpsThread {
+  owner: string;
+  repo: string;
+  number: number;
+  isPullRequest: boolean;
+  installationId?: number;
+  tenant?: Tenant;
+}
+
+@Injectable()
+export class ChatOpsService {
+  private readonly logger = new Logger(ChatOpsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly githubClient: GitHubClientService,
+    private readonly tenants: TenantService,
+  ) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Fill in what a command comment needs: the commenter's role and, on pull requests,
+   * the head commit (issue_comment payloads do not carry it)
+   */
+  async hydrate(context: ExecutionContext): Promise<void> {
+    const { comment, pullRequest, repository, installationId } = context;
+
+    if (!comment) {
+      return;
+    }
+
+    comment.role = await this.resolveRole(
+      repository.owner,
+      repository.name,
+      comment.author,
+      installationId,
+    );
+
+    if (pullRequest && !pullRequest.headSha) {
+      try {
+        const client = await this.githubClient.getRepositoryClient(
+          repository.owner,
+          repository.name,
+          installationId,
+        );
+        const { data } = await client.rest.pulls.get({
+          owner: repository.owner,
+          repo: repository.name,
+          pull_number: pullRequest.number,
+        });
+
+        pullRequest.headSha = data.head.sha;
+        pullRequest.changedFiles = data.changed_files;
+      } catch (error) {
+        this.logger.warn(
+          `Could not load ${repository.fullName}#${pullRequest.number}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Repository role of a user; 'none' when they are not a collaborator or the lookup fails
+   */
+  async resolveRole(
+    owner: string,
+    repo: string,
+    username: string,
+    installationId?: number,
+  ): Promise<RepositoryRole> {
+    try {
+      const client = await this.githubClient.getRepositoryClient(owner, repo, installationId);
+      const { data } = await client.rest.repos.getCollaboratorPermissionLevel({
+        owner,
+        repo,
+        username,
+      });
+      // role_name distinguishes triage and maintain; permission folds them into read and write
+      const role = (data.role_name ?? data.permission) as RepositoryRole;
+
+      return REPOSITORY_ROLES.includes(role) ? role : 'none';
+    } catch (error) {
+      this.logger.warn(
+        `Could not check ${username}'s role on ${owner}/${repo}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+
+      return 'none';
+    }
+  }
+
+  /**
+   * Command list, optionally after a note on why the comment got it
+   */
+  renderHelp(note?: string): string {
+    const lines = note ? [note, ''] : [];
+
+    lines.push('**Vértice commands** (first line of a comment):', '');
+
+    for (const command of Object.values(CHATOPS_COMMANDS)) {
+      const where = !command.issueActions
+        ? ' (pull requests)'
+        : !command.pullRequestActions
+          ? ' (issues)'
+          : '';
+
+      const role = command.role === 'none' ? 'anyone' : `${command.role} role or higher`;
+
+      lines.push(`- \`${command.usage}\`${where}: ${command.description} (${role})`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Effective configuration with the source of each value and any configuration errors
+   */
+  renderConfig(state: StateContext): string {
+    const lines = [
+      `**Vértice configuration for ${state.context.repository.fullName}**`,
+      '',
+      '| Setting | Value | Source |',
+      '| --- | --- | --- |',
+    ];
+
+    for (const [key, value] of Object.entries(state.config)) {
+      if (value !== undefined) {
+        const source = state.configProvenance[key as BotConfigKey] ?? 'default';
+        const shown = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        lines.push(`| \`${key}\` | \`${shown}\` | ${source} |`);
+      }
+    }
+
+    if (state.configErrors.length > 0) {
+      lines.push('', '**Ignored settings:**');
+      lines.push(
+        ...state.configErrors.map(
+          (error) =>
+            `- ${error.source} \`${error.path}\`${error.line ? ` (line ${error.line})` : ''}: ${error.message}`,
+        ),
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Summary of the latest stored analysis of the thread
+   */
+  async renderExplanation(thread: ChatOpsThread): Promise<string> {
+    const repository = {
+      fullName: `${thread.owner}/${thread.repo}`,
+      ...this.tenants.scope(thread.tenant),
+    };
+
+    if (thread.isPullRequest) {
+      const analysis = await this.prisma.pRAnalysis.findFirst({
+        where: { prNumber: thread.number, repository },
+      });
+
+      if (!analysis) {
+        return `Vértice has not reviewed this pull request yet. Run \`${CHATOPS_PREFIX} review\` to review it.`;
+      }
+
+      return [
+        `**Why Vértice reviewed #${thread.number} this way**`,
+        '',
+        `- Quality score: ${analysis.qualityScore}/100 (model confidence ${Math.round(analysis.confidence * 100)}%)`,
+        `- LEI ${analysis.reviewLEI.toFixed(2)} (lazy patterns per 1000 added lines), CRS ${analysis.reviewCRS.toFixed(1)}%`,
+        `- Security issues: ${analysis.securityIssues.length > 0 ? analysis.securityIssues.join('; ') : 'none'}`,
+        '',
+        analysis.summary ?? '',
+        '',
+        `<sub>Reviewed by ${analysis.processedByModel} at ${analysis.updatedAt.toISOString()}.</sub>`,
+      ].join('\n');
+    }
+
+    const analysis = await this.prisma.issueAnalysis.findFirst({
+      where: { issueNumber: thread.number, repository },
+    });
+
+    if (!analysis) {
+      return `Vértice has not triaged this issue yet. Run \`${CHATOPS_PREFIX} triage\` to triage it.`;
+    }
+
+    return [
+      `**Why Vértice triaged #${thread.number} this way**`,
+      '',
+      `- Classified as **${analysis.classification}** with **${analysis.priority}** priority (model confidence ${Math.round(analysis.confidence * 100)}%)`,
+      `- Suggested labels: ${analysis.suggestedLabels.length > 0 ? analysis.suggestedLabels.map((label) => `\`${label}\``).join(', ') : 'none'}`,
+      '',
+      analysis.summary ?? '',
+      '',
+      `<sub>Analyzed by ${analysis.processedByModel} at ${analysis.updatedAt.toISOString()}.</sub>`,
+    ].join('\n');
+  }
+
+  /**
+   * Add the ignore label; GitHub creates the label on first use
+   */
+  async ignore(thread: ChatOpsThread): Promise<void> {
+    const client = await this.githubClient.getRepositoryClient(
+      thread.owner,
+      thread.repo,
+      thread.installationId,
+    );
+
+    await client.rest.issues.addLabels({
+      owner: thread.owner,
+      repo: thread.repo,
+      issue_number: thread.number,
+      labels: [IGNORE_LABEL],
+    });
+  }
+
+  /**
+   * Best-effort reply on the thread
+   */
+  async reply(thread: ChatOpsThread, body: string): Promise<number | undefined> {
+    try {
+      const client = await this.githubClient.getRepositoryClient(
+        thread.owner,
+        thread.repo,
+        thread.installationId,
+      );
+      const { data } = await client.rest.issues.createComment({
+        owner: thread.owner,
+        repo: thread.repo,
+        issue_number: thread.number,
+        body,
+      });
+
+      return data.id;
+    } catch (error) {
+      this.logger.warn(
+        `Could not reply on ${thread.owner}/${thread.repo}#${thread.number}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+
+      return undefined;
+    }
+  }
+}
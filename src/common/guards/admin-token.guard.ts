@@ -0,0 +1,59 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Admin Token Guard
+ *
+ * Purpose: Protect operator endpoints with a shared bearer token
+ * Constitutional Requirement: Article III - Zero Trust
+ *
+ * Header: Authorization: Bearer <ADMIN_API_TOKEN>
+ * Admin endpoints are disabled entirely when ADMIN_API_TOKEN is not set
+ */
+
+@Injectable()
+export class AdminTokenGuard implements CanActivate {
+  private readonly logger = new Logger(AdminTokenGuard.name);
+
+  constructor(private readonly configService: ConfigService) {
+    // NestJS dependency injection
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.configService.get<string>('ADMIN_API_TOKEN');
+
+    if (!expected) {
+      throw new ForbiddenException('Admin endpoints are disabled (ADMIN_API_TOKEN not set)');
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const header = request.headers.authorization ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+    if (!this.tokensMatch(token, expected)) {
+      this.logger.warn(`Rejected admin request: ${request.method} ${request.path}`);
+      throw new UnauthorizedException('Invalid admin token');
+    }
+
+    return true;
+  }
+
+  /**
+   * Constant-time token comparison
+   */
+  private tokensMatch(actual: string, expected: string): boolean {
+    const a = Buffer.from(actual);
+    const b = Buffer.from(expected);
+
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
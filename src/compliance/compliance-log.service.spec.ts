@@ -0,0 +1,94 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ComplianceLogEntry, ComplianceLogService } from './compliance-log.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+/**
+ * Compliance Log Service Unit Tests
+ *
+ * Purpose: Verify validations are written with the right escalation flag
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ */
+
+describe('ComplianceLogService', () => {
+  const entry: ComplianceLogEntry = {
+    eventType: 'webhook',
+    resourceType: 'webhook',
+    resourceId: 'delivery-1',
+    crs: 100,
+    lei: 0,
+    fpc: 0,
+    violations: [],
+    layersFailing: [],
+    actionTaken: 'Webhook accepted',
+    githubInstallationId: 42,
+  };
+
+  const createService = async (env: Record<string, string> = {}): Promise<ComplianceLogService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ComplianceLogService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) => env[key] ?? defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<ComplianceLogService>(ComplianceLogService);
+  };
+
+  beforeEach(() => {
+    mockPrismaService.constitutionalComplianceLog.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'log-1', ...data }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should link the row to the installation and flag critical violations', async () => {
+    mockPrismaService.installation.findUnique.mockResolvedValue({ id: 'inst-1' });
+    const service = await createService();
+
+    await service.record({ ...entry, violations: ['Signature validation failed'] });
+
+    expect(mockPrismaService.constitutionalComplianceLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        installationId: 'inst-1',
+        violations: ['Signature validation failed'],
+        humanInterventionRequired: true,
+      }),
+    });
+  });
+
+  it('should grade violations with configured severities and threshold', async () => {
+    const service = await createService({
+      COMPLIANCE_INTERVENTION_SEVERITY: 'medium',
+      COMPLIANCE_VIOLATION_SEVERITIES: 'rate limit=low;malformed',
+    });
+
+    expect(service.requiresHumanIntervention(['Global rate limit exceeded'])).toBe(false);
+    expect(service.requiresHumanIntervention(['Sender ID missing - action not traceable'])).toBe(
+      false,
+    );
+    expect(service.requiresHumanIntervention(['Unexpected violation'])).toBe(true);
+  });
+
+  it('should never reject the event when the row cannot be written', async () => {
+    mockPrismaService.constitutionalComplianceLog.create.mockRejectedValue(
+      new Error('database unavailable'),
+    );
+    const service = await createService({ COMPLIANCE_INTERVENTION_SEVERITY: 'none' });
+
+    await expect(
+      service.record({ ...entry, installationId: 'inst-1', violations: ['Replay detected'] }),
+    ).resolves.toBeUndefined();
+    expect(mockPrismaService.installation.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,176 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConstitutionalComplianceLog, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  ComplianceSeverity,
+  DEFAULT_SEVERITY_RULES,
+  SeverityRule,
+  classifyViolation,
+  meetsSeverity,
+  parseSeverityRules,
+} from './compliance-severity';
+
+/**
+ * Compliance Log Service
+ *
+ * Purpose: Write and query the ConstitutionalComplianceLog audit trail
+ * Constitutional Requirement: P4 Rastreabilidade Total - every validation leaves a row
+ *
+ * Written by ConstitutionalService.validateWebhook (every delivery at the door) and by
+ * DETER-AGENT Layer 1 (every run). humanInterventionRequired is set when any violation
+ * reaches COMPLIANCE_INTERVENTION_SEVERITY (default high; "none" disables escalation).
+ *
+ * Writes are best-effort: a database failure is logged and never rejects the event.
+ */
+
+export type ComplianceEventType = 'issue_triage' | 'pr_review' | 'webhook' | 'system';
+
+export type ComplianceResourceType = 'issue' | 'pr' | 'webhook' | 'system';
+
+export interface ComplianceLogEntry {
+  eventType: ComplianceEventType;
+  resourceType: ComplianceResourceType;
+  resourceId: string;
+  crs: number;
+  lei: number;
+  fpc: number;
+  violations: string[];
+  layersFailing: string[];
+  actionTaken: string;
+  /** Installation row id, when the caller already resolved the tenant */
+  installationId?: string;
+  /** GitHub installation id, looked up when installationId is not given */
+  githubInstallationId?: number;
+}
+
+export interface ComplianceLogFilter {
+  eventType?: string;
+  resourceType?: string;
+  resourceId?: string;
+  installationId?: string;
+  humanInterventionRequired?: boolean;
+  from?: Date;
+  to?: Date;
+}
+
+@Injectable()
+export class ComplianceLogService {
+  private readonly logger = new Logger(ComplianceLogService.name);
+  private readonly rules: SeverityRule[];
+  private readonly interventionSeverity?: ComplianceSeverity;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    const { rules, invalid } = parseSeverityRules(
+      configService.get<string>('COMPLIANCE_VIOLATION_SEVERITIES'),
+    );
+
+    if (invalid.length > 0) {
+      this.logger.warn(`Ignoring malformed COMPLIANCE_VIOLATION_SEVERITIES: ${invalid.join('; ')}`);
+    }
+
+    const threshold = configService.get<string>('COMPLIANCE_INTERVENTION_SEVERITY', 'high');
+
+    this.rules = [...rules, ...DEFAULT_SEVERITY_RULES];
+    this.interventionSeverity =
+      threshold === 'none' ? undefined : (threshold as ComplianceSeverity);
+  }
+
+  /**
+   * Persist one validation outcome
+   * Returns undefined when the row could not be written
+   */
+  async record(entry: ComplianceLogEntry): Promise<ConstitutionalComplianceLog | undefined> {
+    const { githubInstallationId, installationId, ...fields } = entry;
+
+    try {
+      return await this.prisma.constitutionalComplianceLog.create({
+        data: {
+          ...fields,
+          installationId: installationId ?? (await this.findInstallationId(githubInstallationId)),
+          humanInterventionRequired: this.requiresHumanIntervention(entry.violations),
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Could not write compliance log for ${entry.resourceType} ${entry.resourceId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether any violation is severe enough to need a human
+   */
+  requiresHumanIntervention(violations: string[]): boolean {
+    const threshold = this.interventionSeverity;
+
+    return (
+      threshold !== undefined &&
+      violations.some((violation) =>
+        meetsSeverity(classifyViolation(violation, this.rules), threshold),
+      )
+    );
+  }
+
+  /**
+   * List log rows, most recent first
+   */
+  async list(filter: ComplianceLogFilter, limit = 50): Promise<ConstitutionalComplianceLog[]> {
+    return this.prisma.constitutionalComplianceLog.findMany({
+      where: this.buildWhere(filter),
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get a single log row
+   */
+  async get(id: string): Promise<ConstitutionalComplianceLog> {
+    const log = await this.prisma.constitutionalComplianceLog.findUnique({ where: { id } });
+
+    if (!log) {
+      throw new NotFoundException(`Compliance log ${id} not found`);
+    }
+
+    return log;
+  }
+
+  private buildWhere(filter: ComplianceLogFilter): Prisma.ConstitutionalComplianceLogWhereInput {
+    return {
+      ...(filter.eventType ? { eventType: filter.eventType } : {}),
+      ...(filter.resourceType ? { resourceType: filter.resourceType } : {}),
+      ...(filter.resourceId ? { resourceId: filter.resourceId } : {}),
+      ...(filter.installationId ? { installationId: filter.installationId } : {}),
+      ...(filter.humanInterventionRequired !== undefined
+        ? { humanInterventionRequired: filter.humanInterventionRequired }
+        : {}),
+      ...(filter.from || filter.to
+        ? {
+            createdAt: {
+              ...(filter.from ? { gte: filter.from } : {}),
+              ...(filter.to ? { lte: filter.to } : {}),
+            },
+          }
+        : {}),
+    };
+  }
+
+  private async findInstallationId(githubInstallationId?: number): Promise<string | undefined> {
+    if (githubInstallationId === undefined) {
+      return undefined;
+    }
+
+    const installation = await this.prisma.installation.findUnique({
+      where: { githubInstallationId },
+      select: { id: true },
+    });
+
+    return installation?.id;
+  }
+}
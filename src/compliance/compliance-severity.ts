@@ -0,0 +1,88 @@
+/**
+ * Compliance Violation Severities
+ *
+ * Purpose: Grade constitutional violations so the serious ones are escalated to a human
+ * Constitutional Requirement: P3 Ceticismo Crítico - not every violation deserves the same response
+ *
+ * A violation takes the severity of the first rule whose pattern it contains (case-insensitive).
+ * COMPLIANCE_VIOLATION_SEVERITIES prepends rules as "pattern=severity" pairs separated by ";",
+ * e.g. "rate limit=high;sender id missing=medium". Unmatched violations are medium.
+ */
+
+export const COMPLIANCE_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export type ComplianceSeverity = (typeof COMPLIANCE_SEVERITIES)[number];
+
+export interface SeverityRule {
+  pattern: string;
+  severity: ComplianceSeverity;
+}
+
+export const DEFAULT_SEVERITY: ComplianceSeverity = 'medium';
+
+export const DEFAULT_SEVERITY_RULES: SeverityRule[] = [
+  { pattern: 'signature', severity: 'critical' },
+  { pattern: 'replay', severity: 'critical' },
+  { pattern: 'no active secret', severity: 'critical' },
+  { pattern: 'rate limit', severity: 'medium' },
+  { pattern: 'repository', severity: 'high' },
+  { pattern: 'payload is empty', severity: 'high' },
+  { pattern: 'not traceable', severity: 'low' },
+  { pattern: 'missing x-github', severity: 'low' },
+];
+
+/**
+ * Parse COMPLIANCE_VIOLATION_SEVERITIES; malformed entries are returned separately
+ */
+export function parseSeverityRules(value: string | undefined): {
+  rules: SeverityRule[];
+  invalid: string[];
+} {
+  const rules: SeverityRule[] = [];
+  const invalid: string[] = [];
+
+  for (const entry of (value ?? '').split(';').map((part) => part.trim())) {
+    if (!entry) {
+      continue;
+    }
+
+    const separator = entry.lastIndexOf('=');
+    const pattern = entry.slice(0, separator).trim().toLowerCase();
+    const severity = entry
+      .slice(separator + 1)
+      .trim()
+      .toLowerCase();
+
+    if (separator <= 0 || !pattern || !isSeverity(severity)) {
+      invalid.push(entry);
+      continue;
+    }
+
+    rules.push({ pattern, severity });
+  }
+
+  return { rules, invalid };
+}
+
+/**
+ * Severity of a single violation message
+ */
+export function classifyViolation(violation: string, rules: SeverityRule[]): ComplianceSeverity {
+  const message = violation.toLowerCase();
+
+  return rules.find((rule) => message.includes(rule.pattern))?.severity ?? DEFAULT_SEVERITY;
+}
+
+/**
+ * Whether `severity` is at least as serious as `threshold`
+ */
+export function meetsSeverity(
+  severity: ComplianceSeverity,
+  threshold: ComplianceSeverity,
+): boolean {
+  return COMPLIANCE_SEVERITIES.indexOf(severity) >= COMPLIANCE_SEVERITIES.indexOf(threshold);
+}
+
+function isSeverity(value: string): value is ComplianceSeverity {
+  return (COMPLIANCE_SEVERITIES as readonly string[]).includes(value);
+}
@@ -0,0 +1,53 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { ConstitutionalComplianceLog } from '@prisma/client';
+import { ComplianceLogService } from './compliance-log.service';
+import { ComplianceLogQueryDto } from './dto/compliance-log-query.dto';
+import { AdminTokenGuard } from '../common/guards/admin-token.guard';
+import { SkipConstitutionalCheck } from '../constitutional/constitutional.guard';
+
+/**
+ * Compliance Controller
+ *
+ * Purpose: Audit trail endpoints for compliance officers
+ * Constitutional Requirement: Article III - Zero Trust (admin token required)
+ *
+ * Endpoints (under /api/v1):
+ * - GET /compliance/logs      - List (?eventType, ?resourceType, ?resourceId, ?installationId,
+ *                               ?humanInterventionRequired, ?from, ?to, ?limit)
+ * - GET /compliance/logs/:id  - Inspect one validation
+ */
+
+@Controller('compliance/logs')
+@SkipConstitutionalCheck()
+@UseGuards(AdminTokenGuard)
+export class ComplianceController {
+  constructor(private readonly complianceLogs: ComplianceLogService) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * List compliance log rows, most recent first
+   */
+  @Get()
+  async list(@Query() query: ComplianceLogQueryDto): Promise<ConstitutionalComplianceLog[]> {
+    const { humanInterventionRequired, limit, ...filter } = query;
+
+    return this.complianceLogs.list(
+      {
+        ...filter,
+        ...(humanInterventionRequired
+          ? { humanInterventionRequired: humanInterventionRequired === 'true' }
+          : {}),
+      },
+      limit,
+    );
+  }
+
+  /**
+   * Inspect a compliance log row
+   */
+  @Get(':id')
+  async get(@Param('id') id: string): Promise<ConstitutionalComplianceLog> {
+    return this.complianceLogs.get(id);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ComplianceLogService } from './compliance-log.service';
+import { ComplianceController } from './compliance.controller';
+
+/**
+ * Compliance Module
+ *
+ * Purpose: Persisted constitutional compliance audit trail
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ *
+ * Controllers: Audit trail query endpoints
+ * Exports: ComplianceLogService for the webhook validation and DETER-AGENT Layer 1
+ */
+
+@Module({
+  controllers: [ComplianceController],
+  providers: [ComplianceLogService],
+  exports: [ComplianceLogService],
+})
+export class ComplianceModule {}
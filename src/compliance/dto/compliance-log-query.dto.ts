@@ -0,0 +1,50 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+/**
+ * Compliance Log Query DTO
+ *
+ * Purpose: Validate filters for the constitutional compliance audit trail
+ * Constitutional Requirement: P2 Validação Preventiva
+ */
+
+export class ComplianceLogQueryDto {
+  @IsIn(['issue_triage', 'pr_review', 'webhook', 'system'])
+  @IsOptional()
+  eventType?: string;
+
+  @IsIn(['issue', 'pr', 'webhook', 'system'])
+  @IsOptional()
+  resourceType?: string;
+
+  /** "owner/name#number" for issues and pull requests, the delivery id for webhooks */
+  @IsString()
+  @IsOptional()
+  resourceId?: string;
+
+  /** Installation row id */
+  @IsString()
+  @IsOptional()
+  installationId?: string;
+
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  humanInterventionRequired?: string;
+
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  from?: Date;
+
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  to?: Date;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  @IsOptional()
+  limit?: number;
+}
@@ -3,6 +3,7 @@ import {
   IsString,
   IsNumber,
   IsEnum,
+  IsIn,
   IsOptional,
   /* IsUrl, */
   Min,
@@ -50,6 +51,69 @@ export class EnvironmentVariables {
   @IsString()
   GITHUB_WEBHOOK_SECRET!: string;
 
+  @IsString()
+  @IsOptional()
+  GITHUB_WEBHOOK_SECRETS?: string;
+
+  @IsIn(['memory', 'redis', 'postgres'])
+  @IsOptional()
+  WEBHOOK_NONCE_STORE?: string = 'memory';
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  WEBHOOK_REPLAY_WINDOW_SECONDS?: number = 300;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  NONCE_PURGE_INTERVAL_MS?: number = 60000;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  QUEUE_DEFAULT_ATTEMPTS?: number = 3;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  QUEUE_BACKOFF_DELAY?: number = 3000;
+
+  @IsNumber()
+  @Min(100)
+  @IsOptional()
+  QUEUE_POLL_INTERVAL_MS?: number = 1000;
+
+  @IsNumber()
+  @Min(1000)
+  @IsOptional()
+  QUEUE_LEASE_TIMEOUT_MS?: number = 300000;
+
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  QUEUE_WORKER_ENABLED?: string = 'true';
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  REPOSITORY_SYNC_INTERVAL_MS?: number = 21600000;
+
+  @IsString()
+  @IsOptional()
+  ADMIN_API_TOKEN?: string;
+
+  @IsIn(['low', 'medium', 'high', 'critical', 'none'])
+  @IsOptional()
+  COMPLIANCE_INTERVENTION_SEVERITY?: string = 'high';
+
+  @IsString()
+  @IsOptional()
+  COMPLIANCE_VIOLATION_SEVERITIES?: string;
+
+  @IsString()
+  @IsOptional()
+  APPROVAL_REQUIRED_ACTIONS?: string;
+
   @IsString()
   @IsOptional()
   GITHUB_TOKEN?: string;
@@ -62,17 +126,47 @@ export class EnvironmentVariables {
   @IsOptional()
   GITHUB_APP_PRIVATE_KEY?: string;
 
+  @IsIn(['gemini', 'anthropic', 'openai', 'stub'])
+  @IsOptional()
+  LLM_PROVIDER?: string = 'gemini';
+
   @IsString()
-  GEMINI_API_KEY!: string;
+  @IsOptional()
+  GEMINI_API_KEY?: string;
+
+  @IsString()
+  @IsOptional()
+  GEMINI_MODEL?: string = 'gemini-1.5-flash';
 
   @IsString()
   @IsOptional()
   ANTHROPIC_API_KEY?: string;
 
+  @IsString()
+  @IsOptional()
+  ANTHROPIC_MODEL?: string = 'claude-3-haiku-20240307';
+
   @IsString()
   @IsOptional()
   OPENAI_API_KEY?: string;
 
+  @IsString()
+  @IsOptional()
+  OPENAI_MODEL?: string = 'gpt-4o-mini';
+
+  @IsString()
+  @IsOptional()
+  OPENAI_BASE_URL?: string;
+
+  @IsString()
+  @IsOptional()
+  LLM_STUB_FIXTURES?: string;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  LLM_DAILY_CALL_BUDGET?: number;
+
   @IsString()
   @IsOptional()
   LOG_LEVEL?: string = 'info';
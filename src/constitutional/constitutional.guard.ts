@@ -5,9 +5,12 @@ import {
   HttpException,
   HttpStatus,
   Logger,
+  RawBodyRequest,
+  SetMetadata,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { ConstitutionalService } from './constitutional.service';
+import { WebhookSecretResolver } from './validators/webhook-secret.resolver';
 import { Request } from 'express';
 
 /**
@@ -37,6 +40,7 @@ export class ConstitutionalGuard implements CanActivate {
   constructor(
     private readonly constitutionalService: ConstitutionalService,
     private readonly reflector: Reflector,
+    private readonly secretResolver: WebhookSecretResolver,
   ) {
     // NestJS dependency injection
   }
@@ -56,7 +60,7 @@ export class ConstitutionalGuard implements CanActivate {
       return true;
     }
 
-    const request = context.switchToHttp().getRequest<Request>();
+    const request = context.switchToHttp().getRequest<RawBodyRequest<Request>>();
 
     const isWebhookEndpoint = this.isWebhookEndpoint(request);
 
@@ -81,10 +85,12 @@ export class ConstitutionalGuard implements CanActivate {
   /**
    * Validate webhook request
    */
-  private async validateWebhookRequest(request: Request): Promise<void> {
-    const secret = this.getWebhookSecret();
+  private async validateWebhookRequest(request: RawBodyRequest<Request>): Promise<void> {
+    const repository = this.extractRepository(request);
+    const installationId = this.extractInstallationId(request);
+    const secrets = await this.secretResolver.resolve(repository, installationId);
 
-    if (!secret) {
+    if (secrets.length === 0) {
       throw new HttpException(
         'Webhook secret not configured',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -92,7 +98,6 @@ export class ConstitutionalGuard implements CanActivate {
     }
 
     const headers = this.extractHeaders(request);
-    const repository = this.extractRepository(request);
     const senderId = this.extractSenderId(request);
     const deliveryId = headers['x-github-delivery'];
 
@@ -101,8 +106,9 @@ export class ConstitutionalGuard implements CanActivate {
     const validation = await this.constitutionalService.validateWebhook({
       headers,
       body,
-      secret,
-      repository: repository || 'unknown',
+      secrets,
+      repository,
+      installationId,
       senderId,
       deliveryId,
     });
@@ -116,6 +122,7 @@ export class ConstitutionalGuard implements CanActivate {
         {
           statusCode: HttpStatus.FORBIDDEN,
           message: 'Constitutional validation failed',
+          code: validation.validation.signature?.code,
           violations: validation.violations,
           timestamp: new Date().toISOString(),
         },
@@ -123,30 +130,9 @@ export class ConstitutionalGuard implements CanActivate {
       );
     }
 
-    if (!validation.constitutionalCompliance) {
-      this.logger.warn(
-        `Webhook passed basic validation but failed constitutional compliance`,
-      );
-
-      throw new HttpException(
-        {
-          statusCode: HttpStatus.UNPROCESSABLE_ENTITY,
-          message: 'Constitutional compliance failed',
-          metrics: {
-            lei: validation.metrics.lei.lei,
-            crs: validation.metrics.crs.crs,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        HttpStatus.UNPROCESSABLE_ENTITY,
-      );
-    }
-
     request['constitutionalValidation'] = validation;
 
-    this.logger.log(
-      `Webhook validated successfully: ${deliveryId || 'unknown'} (CRS: ${validation.metrics.crs.crs.toFixed(2)}%)`,
-    );
+    this.logger.log(`Webhook validated successfully: ${deliveryId || 'unknown'}`);
   }
 
   /**
@@ -198,6 +184,24 @@ export class ConstitutionalGuard implements CanActivate {
     return undefined;
   }
 
+  /**
+   * Extract GitHub App installation id from request
+   */
+  private extractInstallationId(request: Request): number | undefined {
+    if (request.body && typeof request.body === 'object') {
+      const body = request.body as Record<string, unknown>;
+
+      if (body.installation && typeof body.installation === 'object') {
+        const installation = body.installation as Record<string, unknown>;
+        if (typeof installation.id === 'number') {
+          return installation.id;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Extract sender ID from request
    */
@@ -218,8 +222,13 @@ export class ConstitutionalGuard implements CanActivate {
 
   /**
    * Get request body as string or Buffer
+   * Prefers the raw bytes so the HMAC is computed over exactly what GitHub signed
    */
-  private getRequestBody(request: Request): string | Buffer {
+  private getRequestBody(request: RawBodyRequest<Request>): string | Buffer {
+    if (request.rawBody) {
+      return request.rawBody;
+    }
+
     if (Buffer.isBuffer(request.body)) {
       return request.body;
     }
@@ -230,13 +239,6 @@ export class ConstitutionalGuard implements CanActivate {
 
     return JSON.stringify(request.body);
   }
-
-  /**
-   * Get webhook secret from environment
-   */
-  private getWebhookSecret(): string | undefined {
-    return process.env.GITHUB_WEBHOOK_SECRET;
-  }
 }
 
 /**
@@ -244,33 +246,7 @@ export class ConstitutionalGuard implements CanActivate {
  * Use only for public endpoints that don't need protection
  */
 export function SkipConstitutionalCheck(): MethodDecorator & ClassDecorator {
-  return (
-    /*target: object*/ _target: object,
-    /*propertyKey?: string*/ _propertyKey?: string | symbol,
-    /*descriptor?: PropertyDescriptor*/ _descriptor?: PropertyDescriptor,
-  ): void => {
-    if (_descriptor) {
-      Reflector.prototype.get = function <T>(
-        metadataKey: string,
-        /*target: object*/ _targetInner: object,
-      ): T | undefined {
-        if (metadataKey === SKIP_CONSTITUTIONAL_CHECK) {
-          return true as unknown as T;
-        }
-        return undefined;
-      };
-    } else {
-      Reflector.prototype.get = function <T>(
-        metadataKey: string,
-        /*target: object*/ _targetInner: object,
-      ): T | undefined {
-        if (metadataKey === SKIP_CONSTITUTIONAL_CHECK) {
-          return true as unknown as T;
-        }
-        return undefined;
-      };
-    }
-  };
+  return SetMetadata(SKIP_CONSTITUTIONAL_CHECK, true);
 }
 
 /**
@@ -1,14 +1,21 @@
 import { Module, Global } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { ConstitutionalService } from './constitutional.service';
 import { ConstitutionalGuard } from './constitutional.guard';
 
 import { ZeroTrustValidator } from './validators/zero-trust.validator';
 import { SignatureValidator } from './validators/signature.validator';
 import { RateLimitValidator } from './validators/rate-limit.validator';
+import { WebhookSecretResolver } from './validators/webhook-secret.resolver';
+import { nonceStoreProvider } from './validators/nonce-store/nonce-store.provider';
+import { NONCE_STORE } from './validators/nonce-store/nonce-store.interface';
+import { NoncePurgeService } from './validators/nonce-store/nonce-purge.service';
 
 import { LEICalculatorService } from './metrics/lei-calculator.service';
 import { CRSCalculatorService } from './metrics/crs-calculator.service';
 import { FPCCalculatorService } from './metrics/fpc-calculator.service';
+import { DiffMetricsService } from './metrics/diff-metrics.service';
+import { CrsDetectorRegistry } from './metrics/crs-rules/crs-detector-registry';
 
 import { ConstitutionalLayer } from './deter-agent/layer-1-constitutional';
 import { DeliberationLayer } from './deter-agent/layer-2-deliberation';
@@ -16,8 +23,18 @@ import { StateManagementLayer } from './deter-agent/layer-3-state';
 import { ExecutionLayer } from './deter-agent/layer-4-execution';
 import { IncentiveLayer } from './deter-agent/layer-5-incentive';
 import { DeterAgentOrchestrator } from './deter-agent/deter-agent.orchestrator';
+import { ActionRegistry } from './deter-agent/actions/action-registry';
+import { BUILT_IN_ACTIONS } from './deter-agent/actions/built-in-actions';
+import { CompensationService } from './deter-agent/actions/compensation.service';
 
 import { PrismaModule } from '../prisma/prisma.module';
+import { IssuesModule } from '../issues/issues.module';
+import { PullRequestsModule } from '../pull-requests/pull-requests.module';
+import { BotConfigModule } from '../bot-config/bot-config.module';
+import { RunsModule } from '../runs/runs.module';
+import { ComplianceModule } from '../compliance/compliance.module';
+import { ApprovalsModule } from '../approvals/approvals.module';
+import { ChatOpsModule } from '../chatops/chatops.module';
 
 /**
  * Constitutional Module
@@ -26,6 +43,8 @@ import { PrismaModule } from '../prisma/prisma.module';
  * Constitutional Requirement: Enforce all principles and DETER-AGENT framework
  *
  * Exports: All validators, metrics, and DETER-AGENT components
+ * Actions: built-in ActionHandlers; any module can add its own with @AgentAction()
+ * CRS detectors: built-in; any module can add its own with @CrsDetector()
  * Global: Available to all modules without explicit import
  *
  * @Global decorator ensures constitutional compliance is available everywhere
@@ -33,36 +52,59 @@ import { PrismaModule } from '../prisma/prisma.module';
 
 @Global()
 @Module({
-  imports: [PrismaModule],
+  imports: [
+    DiscoveryModule,
+    PrismaModule,
+    IssuesModule,
+    PullRequestsModule,
+    BotConfigModule,
+    RunsModule,
+    ComplianceModule,
+    ApprovalsModule,
+    ChatOpsModule,
+  ],
   providers: [
+    nonceStoreProvider,
+    NoncePurgeService,
     ZeroTrustValidator,
     SignatureValidator,
+    WebhookSecretResolver,
     RateLimitValidator,
     LEICalculatorService,
+    CrsDetectorRegistry,
     CRSCalculatorService,
     FPCCalculatorService,
+    DiffMetricsService,
     ConstitutionalLayer,
     DeliberationLayer,
     StateManagementLayer,
     ExecutionLayer,
     IncentiveLayer,
     DeterAgentOrchestrator,
+    ActionRegistry,
+    CompensationService,
+    ...BUILT_IN_ACTIONS,
     ConstitutionalService,
     ConstitutionalGuard,
   ],
   exports: [
+    NONCE_STORE,
     ZeroTrustValidator,
     SignatureValidator,
+    WebhookSecretResolver,
     RateLimitValidator,
     LEICalculatorService,
+    CrsDetectorRegistry,
     CRSCalculatorService,
     FPCCalculatorService,
+    DiffMetricsService,
     ConstitutionalLayer,
     DeliberationLayer,
     StateManagementLayer,
     ExecutionLayer,
     IncentiveLayer,
     DeterAgentOrchestrator,
+    ActionRegistry,
     ConstitutionalService,
     ConstitutionalGuard,
   ],
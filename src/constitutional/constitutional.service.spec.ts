@@ -0,0 +1,91 @@
+import { ConstitutionalService, WebhookValidationRequest } from './constitutional.service';
+import { ZeroTrustValidator } from './validators/zero-trust.validator';
+import { SignatureValidator } from './validators/signature.validator';
+import { RateLimitValidator } from './validators/rate-limit.validator';
+import { LEICalculatorService } from './metrics/lei-calculator.service';
+import { CRSCalculatorService } from './metrics/crs-calculator.service';
+import { FPCCalculatorService } from './metrics/fpc-calculator.service';
+import { DeterAgentOrchestrator } from './deter-agent/deter-agent.orchestrator';
+import { ComplianceLogService } from '../compliance/compliance-log.service';
+import { TenantService } from '../installations/tenant.service';
+
+/**
+ * Constitutional Service Unit Tests
+ *
+ * Purpose: Verify webhook validation only charges quotas to signed deliveries
+ * Constitutional Requirement: Article III - Zero Trust
+ */
+
+describe('ConstitutionalService', () => {
+  const signatureValidator = { validateWebhookRequest: jest.fn() };
+  const complianceLogs = { record: jest.fn() };
+  const tenants = { find: jest.fn() };
+  let rateLimitValidator: RateLimitValidator;
+  let service: ConstitutionalService;
+
+  const request: WebhookValidationRequest = {
+    headers: {},
+    body: '{}',
+    secrets: [],
+    repository: 'acme/service',
+    installationId: 42,
+    senderId: 'octocat',
+    deliveryId: 'delivery-1',
+  };
+
+  beforeEach(() => {
+    rateLimitValidator = new RateLimitValidator();
+    service = new ConstitutionalService(
+      new ZeroTrustValidator(),
+      signatureValidator as unknown as SignatureValidator,
+      rateLimitValidator,
+      new LEICalculatorService(),
+      new CRSCalculatorService(),
+      new FPCCalculatorService(),
+      {} as DeterAgentOrchestrator,
+      complianceLogs as unknown as ComplianceLogService,
+      tenants as unknown as TenantService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not charge quotas or credit the tenant for an unsigned delivery', async () => {
+    signatureValidator.validateWebhookRequest.mockResolvedValue({
+      valid: false,
+      errors: ['Signature mismatch'],
+      codes: ['SIGNATURE_MISMATCH'],
+    });
+    const checkAllLimits = jest.spyOn(rateLimitValidator, 'checkAllLimits');
+
+    const result = await service.validateWebhook(request);
+
+    expect(result.valid).toBe(false);
+    expect(result.validation.rateLimit).toBeUndefined();
+    expect(tenants.find).not.toHaveBeenCalled();
+    expect(checkAllLimits).not.toHaveBeenCalled();
+    expect(complianceLogs.record).toHaveBeenCalledWith(
+      expect.objectContaining({ githubInstallationId: undefined }),
+    );
+  });
+
+  it('should report the limit that refused a signed delivery', async () => {
+    signatureValidator.validateWebhookRequest.mockResolvedValue({
+      valid: true,
+      errors: [],
+      codes: [],
+    });
+    tenants.find.mockResolvedValue({ rateLimitPerMinute: 1 });
+
+    await service.validateWebhook(request);
+    const result = await service.validateWebhook({ ...request, deliveryId: 'delivery-2' });
+
+    expect(result.violations).toEqual(['Installation 42 rate limit exceeded']);
+    expect(result.validation.rateLimit).toEqual(expect.objectContaining({ allowed: false }));
+    expect(complianceLogs.record).toHaveBeenLastCalledWith(
+      expect.objectContaining({ githubInstallationId: 42 }),
+    );
+  });
+});
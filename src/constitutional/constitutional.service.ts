@@ -1,11 +1,14 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ZeroTrustValidator, ValidationResult } from './validators/zero-trust.validator';
 import { SignatureValidator, SignatureValidationResult } from './validators/signature.validator';
+import { WebhookSecret } from './validators/webhook-secret.resolver';
 import { RateLimitValidator, RateLimitResult, RateLimitInfo } from './validators/rate-limit.validator';
 import { LEICalculatorService, LEICalculationResult } from './metrics/lei-calculator.service';
 import { CRSCalculatorService, CRSCalculationResult } from './metrics/crs-calculator.service';
 import { FPCCalculatorService, FPCCalculationResult, FeatureDefinition } from './metrics/fpc-calculator.service';
 import { DeterAgentOrchestrator, DeterAgentInput, DeterAgentResult } from './deter-agent/deter-agent.orchestrator';
+import { ComplianceLogService } from '../compliance/compliance-log.service';
+import { TenantService } from '../installations/tenant.service';
 
 /**
  * Constitutional Service
@@ -15,6 +18,7 @@ import { DeterAgentOrchestrator, DeterAgentInput, DeterAgentResult } from './det
  *
  * Integrates: Validators, Metrics, DETER-AGENT Framework
  * Provides: Complete constitutional compliance validation and reporting
+ * Audit: Every webhook validation is written to ConstitutionalComplianceLog
  */
 
 export interface ConstitutionalValidation {
@@ -37,8 +41,10 @@ export interface ConstitutionalValidation {
 export interface WebhookValidationRequest {
   headers: Record<string, string | undefined>;
   body: string | Buffer;
-  secret: string;
-  repository: string;
+  secrets: WebhookSecret[];
+  /** Absent for installation-level events (installation, installation_repositories, ping) */
+  repository?: string;
+  installationId?: number;
   senderId?: string;
   deliveryId?: string;
 }
@@ -67,6 +73,8 @@ export class ConstitutionalService {
     private readonly crsCalculator: CRSCalculatorService,
     private readonly fpcCalculator: FPCCalculatorService,
     private readonly deterAgent: DeterAgentOrchestrator,
+    private readonly complianceLogs: ComplianceLogService,
+    private readonly tenants: TenantService,
   ) {
     // NestJS dependency injection
   }
@@ -83,57 +91,82 @@ export class ConstitutionalService {
     const zeroTrustValidations: ValidationResult[] = [];
 
     this.logger.log(
-      `Validating webhook: ${request.deliveryId || 'unknown'} for ${request.repository}`,
+      `Validating webhook: ${request.deliveryId || 'unknown'} for ${request.repository ?? `installation ${request.installationId ?? 'unknown'}`}`,
     );
 
-    const repoValidation = this.zeroTrustValidator.validateRepositoryName(
-      request.repository,
-    );
-    zeroTrustValidations.push(repoValidation);
+    if (request.repository !== undefined) {
+      const repoValidation = this.zeroTrustValidator.validateRepositoryName(
+        request.repository,
+      );
+      zeroTrustValidations.push(repoValidation);
 
-    if (!repoValidation.valid) {
-      violations.push(...repoValidation.errors);
+      if (!repoValidation.valid) {
+        violations.push(...repoValidation.errors);
+      }
     }
 
     const signatureValidation = await this.signatureValidator.validateWebhookRequest({
       headers: request.headers,
       body: request.body,
-      secret: request.secret,
+      secrets: request.secrets,
     });
 
     if (!signatureValidation.valid) {
       violations.push(...signatureValidation.errors);
     }
 
-    const rateLimitCheck = await this.rateLimitValidator.checkAllLimits({
-      senderId: request.senderId,
-      repository: request.repository,
-      deliveryId: request.deliveryId,
-    });
+    // Quotas and the tenant are keyed on payload fields, which an unsigned request could forge
+    const installationId = signatureValidation.valid ? request.installationId : undefined;
+    let rateLimit: RateLimitResult | undefined;
 
-    if (!rateLimitCheck.allowed) {
-      violations.push(...rateLimitCheck.violations);
-    }
+    if (signatureValidation.valid) {
+      const tenant =
+        installationId !== undefined ? await this.tenants.find(installationId) : undefined;
+
+      const rateLimitCheck = await this.rateLimitValidator.checkAllLimits({
+        senderId: request.senderId,
+        repository: request.repository,
+        installationId,
+        installationLimit: tenant?.rateLimitPerMinute,
+        deliveryId: request.deliveryId,
+      });
 
-    const bodyString = Buffer.isBuffer(request.body)
-      ? request.body.toString('utf-8')
-      : request.body;
+      if (!rateLimitCheck.allowed) {
+        violations.push(...rateLimitCheck.violations);
+      }
 
-    const leiResult = this.leiCalculator.calculate(bodyString);
-    const crsResult = this.crsCalculator.calculate(bodyString);
+      // Report the limit that refused the request; global is only checked when all others pass
+      rateLimit =
+        Object.values(rateLimitCheck.limits).find((limit) => !limit.allowed) ??
+        rateLimitCheck.limits.global;
+    }
+
+    // A delivery carries no code: pull request code is measured on its diff by DiffMetricsService
+    const leiResult = this.leiCalculator.buildEmptyResult();
+    const crsResult = this.crsCalculator.buildEmptyResult();
     const fpcResult = this.fpcCalculator.buildEmptyResult();
 
-    const constitutionalCompliance =
-      violations.length === 0 &&
-      leiResult.passed &&
-      crsResult.passed;
+    const constitutionalCompliance = violations.length === 0;
 
     const executionTime = Date.now() - startTime;
 
     this.logger.log(
-      `Webhook validation complete: ${constitutionalCompliance ? 'VALID' : 'INVALID'} in ${executionTime}ms (CRS: ${crsResult.crs.toFixed(2)}%, LEI: ${leiResult.lei})`,
+      `Webhook validation complete: ${constitutionalCompliance ? 'VALID' : 'INVALID'} in ${executionTime}ms`,
     );
 
+    await this.complianceLogs.record({
+      eventType: 'webhook',
+      resourceType: 'webhook',
+      resourceId: request.deliveryId || 'unknown',
+      crs: crsResult.crs,
+      lei: leiResult.lei,
+      fpc: fpcResult.fpc,
+      violations,
+      layersFailing: violations.length > 0 ? ['constitutional'] : [],
+      actionTaken: constitutionalCompliance ? 'Webhook accepted' : 'Webhook rejected',
+      githubInstallationId: installationId,
+    });
+
     return {
       valid: violations.length === 0,
       violations,
@@ -145,9 +178,13 @@ export class ConstitutionalService {
       validation: {
         zeroTrust: zeroTrustValidations,
         signature: signatureValidation.valid
-          ? { valid: true, timestamp: new Date() }
-          : { valid: false, reason: signatureValidation.errors.join(', ') },
-        rateLimit: rateLimitCheck.limits.global,
+          ? { valid: true, timestamp: new Date(), secretId: signatureValidation.secretId }
+          : {
+              valid: false,
+              reason: signatureValidation.errors.join(', '),
+              code: signatureValidation.codes[0],
+            },
+        rateLimit,
       },
       timestamp: new Date(),
       constitutionalCompliance,
@@ -174,12 +211,16 @@ export class ConstitutionalService {
     }
 
     const crsResult = this.crsCalculator.calculate(request.code, request.context);
-    if (!crsResult.passed) {
+    if (crsResult.crs < crsResult.threshold) {
       violations.push(
         `CRS ${crsResult.crs.toFixed(2)}% violates constitutional requirement (must be ≥ ${crsResult.threshold}%)`,
       );
     }
 
+    if (crsResult.requiredFailures.length > 0) {
+      violations.push(`CRS required rules not satisfied: ${crsResult.requiredFailures.join(', ')}`);
+    }
+
     const fpcResult = request.features
       ? this.fpcCalculator.calculate(request.features)
       : this.fpcCalculator.analyzeConstitutionalFeatures(request.code);
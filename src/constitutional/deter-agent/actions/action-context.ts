@@ -0,0 +1,160 @@
+import { StateContext } from '../layer-3-state';
+import { IssueRef, IssueTriageAnalysis } from '../../../issues/issue-triage.service';
+import {
+  PullRequestRef,
+  PullRequestReview,
+} from '../../../pull-requests/pull-request-review.service';
+import { LlmSelection } from '../../../ai/llm.service';
+import { ChatOpsThread } from '../../../chatops/chatops.service';
+
+/**
+ * Action Context Helpers
+ *
+ * Purpose: Read what built-in actions need from the run's state
+ * Constitutional Requirement: P2 Validação Preventiva
+ *
+ * The `require*` functions back action preconditions (reason, or undefined when satisfied);
+ * the others throw, so an action called without its precondition still fails loudly.
+ */
+
+export function requireIssue(state: StateContext): string | undefined {
+  return state.context.issue ? undefined : 'Issue not found in execution context';
+}
+
+export function requirePullRequest(state: StateContext): string | undefined {
+  return state.context.pullRequest ? undefined : 'Pull request not found in execution context';
+}
+
+export function requireThread(state: StateContext): string | undefined {
+  return state.context.issue || state.context.pullRequest
+    ? undefined
+    : 'Issue or pull request not found in execution context';
+}
+
+export function requireIssueAnalysis(state: StateContext): string | undefined {
+  return (
+    requireIssue(state) ??
+    (state.artifacts.issueAnalysis
+      ? undefined
+      : 'Issue analysis not found: classify-issue must run first')
+  );
+}
+
+export function requirePullRequestReview(state: StateContext): string | undefined {
+  return (
+    requirePullRequest(state) ??
+    (state.artifacts.pullRequestReview
+      ? undefined
+      : 'Pull request review not found: analyze-code-quality must run first')
+  );
+}
+
+/**
+ * Repository fields every compensation carries
+ */
+export function compensationTarget(
+  state: StateContext,
+  action: string,
+): { action: string; owner: string; repo: string; installationId?: number } {
+  const { repository, installationId } = state.context;
+
+  return { action, owner: repository.owner, repo: repository.name, installationId };
+}
+
+/**
+ * Issue the current event refers to
+ */
+export function issueRef(state: StateContext): IssueRef {
+  const { issue, repository, installationId, tenant } = state.context;
+
+  if (!issue) {
+    throw new Error('Issue not found in execution context');
+  }
+
+  return {
+    owner: repository.owner,
+    repo: repository.name,
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    author: issue.author,
+    installationId,
+    tenant,
+  };
+}
+
+/**
+ * Pull request the current event refers to
+ */
+export function pullRequestRef(state: StateContext): PullRequestRef {
+  const { pullRequest, repository, installationId, tenant } = state.context;
+
+  if (!pullRequest) {
+    throw new Error('Pull request not found in execution context');
+  }
+
+  return {
+    owner: repository.owner,
+    repo: repository.name,
+    number: pullRequest.number,
+    installationId,
+    tenant,
+  };
+}
+
+/**
+ * Issue or pull request a command comment was posted on
+ */
+export function commandThread(state: StateContext): ChatOpsThread {
+  const { issue, pullRequest, repository, installationId, tenant } = state.context;
+  const number = pullRequest?.number ?? issue?.number;
+
+  if (number === undefined) {
+    throw new Error('Issue or pull request not found in execution context');
+  }
+
+  return {
+    owner: repository.owner,
+    repo: repository.name,
+    number,
+    isPullRequest: pullRequest !== undefined,
+    installationId,
+    tenant,
+  };
+}
+
+/**
+ * Provider and model the repository selected in BotConfiguration, charged to the run's tenant
+ */
+export function llmSelection(state: StateContext): LlmSelection {
+  const { llmProvider, llmModel, geminiModel, temperature } = state.config;
+
+  return {
+    provider: llmProvider,
+    model: llmModel ?? (llmProvider === 'gemini' ? geminiModel : undefined),
+    temperature,
+    tenant: state.context.tenant,
+  };
+}
+
+/**
+ * Analysis produced by classify-issue earlier in this run
+ */
+export function issueAnalysis(state: StateContext): IssueTriageAnalysis {
+  if (!state.artifacts.issueAnalysis) {
+    throw new Error('Issue analysis not found: classify-issue must run first');
+  }
+
+  return state.artifacts.issueAnalysis;
+}
+
+/**
+ * Review produced by analyze-code-quality earlier in this run
+ */
+export function pullRequestReview(state: StateContext): PullRequestReview {
+  if (!state.artifacts.pullRequestReview) {
+    throw new Error('Pull request review not found: analyze-code-quality must run first');
+  }
+
+  return state.artifacts.pullRequestReview;
+}
@@ -0,0 +1,68 @@
+import { SetMetadata } from '@nestjs/common';
+import { StateContext } from '../layer-3-state';
+import { Compensation } from './compensation';
+
+/**
+ * DETER-AGENT Action Contract
+ *
+ * Purpose: One interface for every action Layer 2 plans and Layer 4 executes
+ * Constitutional Requirement: Article IX - every action is verified before the plan moves on
+ *
+ * Actions are Nest providers marked with @AgentAction(); the ActionRegistry discovers them
+ * in any module, so in-house actions (e.g. Jira linking) need no change to the core.
+ */
+
+export const AGENT_ACTION = 'deter-agent:action';
+
+/**
+ * When Deliberation plans an action without an approach listing it
+ */
+export interface ActionPlanning {
+  /** Approaches the action is appended to, e.g. 'triage-and-label', 'comprehensive-review' */
+  approaches?: string[];
+  /** Events that otherwise only get logged, as "eventType" or "eventType.action" (e.g. "issues.labeled") */
+  events?: string[];
+}
+
+export interface ActionHandler<TOutput = unknown> {
+  /** Name Deliberation plans and Layer 4 dispatches, e.g. 'classify-issue' */
+  readonly name: string;
+
+  readonly planning?: ActionPlanning;
+
+  /**
+   * Safe to run again after a failed attempt (default: false, the action is attempted once)
+   * Leave unset when execute() creates something on GitHub a second run would duplicate
+   */
+  readonly idempotent?: boolean;
+
+  /**
+   * Why the action cannot run in this state, or undefined when it can
+   * Checked before the first attempt; an unmet precondition is not retried
+   */
+  preconditions?(state: StateContext): string | undefined;
+
+  /**
+   * Run the action; outputs later actions need go into state.artifacts
+   * Push a Compensation onto state.compensations for each GitHub change a failed
+   * transactional plan should undo
+   */
+  execute(state: StateContext): Promise<TOutput>;
+
+  /**
+   * Whether the output is acceptable (default: any output but undefined or null)
+   */
+  verify?(output: TOutput, state: StateContext): boolean | Promise<boolean>;
+
+  /**
+   * Undo a 'custom' compensation this action recorded, after its transactional plan failed
+   */
+  rollback?(compensation: Compensation, state: StateContext): Promise<void>;
+}
+
+/**
+ * Register the provider with the ActionRegistry
+ */
+export function AgentAction(): ClassDecorator {
+  return SetMetadata(AGENT_ACTION, true);
+}
@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ActionRegistry } from './action-registry';
+import { ActionHandler, AgentAction } from './action-handler.interface';
+
+/**
+ * Action Registry Unit Tests
+ *
+ * Purpose: Verify actions are discovered through DI and planned from their ActionPlanning
+ * Constitutional Requirement: Article IX - Camada de Execução
+ */
+
+@Injectable()
+@AgentAction()
+class LinkJiraIssueAction implements ActionHandler {
+  readonly name = 'link-jira-issue';
+  readonly planning = { approaches: ['triage-and-label'], events: ['issues.labeled'] };
+
+  async execute(): Promise<{ linked: boolean }> {
+    return { linked: true };
+  }
+}
+
+@Injectable()
+class UnmarkedService {
+  readonly name = 'not-an-action';
+}
+
+describe('ActionRegistry', () => {
+  let registry: ActionRegistry;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [ActionRegistry, LinkJiraIssueAction, UnmarkedService],
+    }).compile();
+
+    await module.init();
+
+    registry = module.get<ActionRegistry>(ActionRegistry);
+  });
+
+  it('should register providers marked with @AgentAction()', () => {
+    expect(registry.names()).toEqual(['link-jira-issue']);
+    expect(registry.get('link-jira-issue')).toBeInstanceOf(LinkJiraIssueAction);
+  });
+
+  it('should plan actions for their approaches and events', () => {
+    expect(registry.plannedFor('triage-and-label')).toEqual(['link-jira-issue']);
+    expect(registry.plannedFor('comprehensive-review')).toEqual([]);
+    expect(registry.plannedForEvent('issues', 'labeled')).toEqual(['link-jira-issue']);
+    expect(registry.plannedForEvent('issues', 'closed')).toEqual([]);
+  });
+
+  it('should refuse a second action with the same name', () => {
+    expect(() => registry.register(new LinkJiraIssueAction())).toThrow('registered twice');
+  });
+});
@@ -0,0 +1,79 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, Reflector } from '@nestjs/core';
+import { AGENT_ACTION, ActionHandler } from './action-handler.interface';
+
+/**
+ * Action Registry
+ *
+ * Purpose: Every action Deliberation can plan and the Execution Layer can dispatch
+ * Constitutional Requirement: P2 Validação Preventiva - unknown actions fail before running
+ *
+ * Providers marked with @AgentAction() are registered on module init; register() adds
+ * handlers built outside Nest DI. Names are unique: a second handler for a name is a
+ * startup error rather than a silent override.
+ */
+
+@Injectable()
+export class ActionRegistry implements OnModuleInit {
+  private readonly logger = new Logger(ActionRegistry.name);
+  private readonly handlers = new Map<string, ActionHandler>();
+
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly reflector: Reflector,
+  ) {
+    // NestJS dependency injection
+  }
+
+  onModuleInit(): void {
+    for (const { instance, metatype } of this.discovery.getProviders()) {
+      if (
+        instance &&
+        typeof metatype === 'function' &&
+        this.reflector.get(AGENT_ACTION, metatype)
+      ) {
+        this.register(instance as ActionHandler);
+      }
+    }
+
+    this.logger.log(`DETER-AGENT actions registered: ${this.names().join(', ')}`);
+  }
+
+  register(handler: ActionHandler): void {
+    if (this.handlers.has(handler.name)) {
+      throw new Error(`DETER-AGENT action ${handler.name} is registered twice`);
+    }
+
+    this.handlers.set(handler.name, handler);
+  }
+
+  get(name: string): ActionHandler | undefined {
+    return this.handlers.get(name);
+  }
+
+  names(): string[] {
+    return [...this.handlers.keys()];
+  }
+
+  /**
+   * Actions that join an approach's plan, in registration order
+   */
+  plannedFor(approach: string): string[] {
+    return this.select((handler) => handler.planning?.approaches?.includes(approach));
+  }
+
+  /**
+   * Actions planned for an event Deliberation has no approach for
+   */
+  plannedForEvent(eventType: string, action?: string): string[] {
+    const keys = action ? [eventType, `${eventType}.${action}`] : [eventType];
+
+    return this.select((handler) =>
+      handler.planning?.events?.some((event) => keys.includes(event)),
+    );
+  }
+
+  private select(matches: (handler: ActionHandler) => boolean | undefined): string[] {
+    return [...this.handlers.values()].filter((handler) => matches(handler)).map((h) => h.name);
+  }
+}
@@ -0,0 +1,64 @@
+import { Injectable, Logger, Type } from '@nestjs/common';
+import { StateContext } from '../layer-3-state';
+import { ActionHandler, AgentAction } from './action-handler.interface';
+import {
+  CalculatePriorityAction,
+  ClassifyIssueAction,
+  PostAnalysisCommentAction,
+  SuggestLabelsAction,
+} from './issue-triage.actions';
+import {
+  AnalyzeCodeQualityAction,
+  CheckConfigFileAction,
+  CheckSecurityAction,
+  PostReviewCommentAction,
+} from './pull-request-review.actions';
+import {
+  ApplyIgnoreLabelAction,
+  HandleApprovalCommandAction,
+  PostCommandDeniedAction,
+  PostCommandHelpAction,
+  PostConfigSummaryAction,
+  PostExplanationAction,
+} from './chatops.actions';
+
+/**
+ * Built-in Actions
+ *
+ * Purpose: The actions the core DETER-AGENT plans, provided by the Constitutional Module
+ * Constitutional Requirement: Article IX - Camada de Execução
+ */
+
+/**
+ * Fallback for events no approach handles
+ */
+@Injectable()
+@AgentAction()
+export class LogEventAction implements ActionHandler {
+  readonly name = 'log-event';
+  readonly idempotent = true;
+  private readonly logger = new Logger(LogEventAction.name);
+
+  async execute(state: StateContext): Promise<{ logged: boolean }> {
+    this.logger.log(`Event logged: ${state.context.eventType}`);
+    return { logged: true };
+  }
+}
+
+export const BUILT_IN_ACTIONS: Type<ActionHandler>[] = [
+  ClassifyIssueAction,
+  SuggestLabelsAction,
+  CalculatePriorityAction,
+  PostAnalysisCommentAction,
+  CheckConfigFileAction,
+  AnalyzeCodeQualityAction,
+  CheckSecurityAction,
+  PostReviewCommentAction,
+  HandleApprovalCommandAction,
+  PostExplanationAction,
+  ApplyIgnoreLabelAction,
+  PostConfigSummaryAction,
+  PostCommandHelpAction,
+  PostCommandDeniedAction,
+  LogEventAction,
+];
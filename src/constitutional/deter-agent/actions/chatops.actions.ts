@@ -0,0 +1,225 @@
+import { Injectable } from '@nestjs/common';
+import { StateContext } from '../layer-3-state';
+import { ApprovalCommandResult, ApprovalService } from '../../../approvals/approval.service';
+import { parseApprovalCommand } from '../../../approvals/approval-command';
+import { ChatOpsService } from '../../../chatops/chatops.service';
+import {
+  CHATOPS_COMMANDS,
+  IGNORE_LABEL,
+  parseChatOpsCommand,
+  requiredRole,
+} from '../../../chatops/chatops-commands';
+import { ActionHandler, AgentAction } from './action-handler.interface';
+import { commandThread, compensationTarget, requireThread } from './action-context';
+
+/**
+ * ChatOps Actions
+ *
+ * Purpose: The actions `/vertice` commands plan besides triage and review
+ * Constitutional Requirement: Article III - Zero Trust (roles are checked before planning)
+ */
+
+function requireCommand(state: StateContext): string | undefined {
+  const { comment } = state.context;
+
+  return (
+    requireThread(state) ??
+    (comment && parseChatOpsCommand(comment.body)
+      ? undefined
+      : 'Command not found in execution context')
+  );
+}
+
+/**
+ * Apply a `/vertice approve|reject` comment to the thread's pending approvals
+ */
+@Injectable()
+@AgentAction()
+export class HandleApprovalCommandAction implements ActionHandler {
+  readonly name = 'handle-approval-command';
+
+  constructor(private readonly approvals: ApprovalService) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    const { comment, issue } = state.context;
+
+    return comment && issue && parseApprovalCommand(comment.body)
+      ? undefined
+      : 'Approval command not found in execution context';
+  }
+
+  async execute(state: StateContext): Promise<ApprovalCommandResult> {
+    const { comment, issue, repository, installationId } = state.context;
+    const command = comment ? parseApprovalCommand(comment.body) : undefined;
+
+    if (!comment || !issue || !command) {
+      throw new Error('Approval command not found in execution context');
+    }
+
+    return this.approvals.handleCommand(
+      {
+        owner: repository.owner,
+        repo: repository.name,
+        number: issue.number,
+        author: comment.author,
+        installationId,
+      },
+      command,
+    );
+  }
+}
+
+/**
+ * Reply with the latest stored analysis of the thread (`/vertice explain`)
+ */
+@Injectable()
+@AgentAction()
+export class PostExplanationAction implements ActionHandler {
+  readonly name = 'post-explanation';
+
+  constructor(private readonly chatops: ChatOpsService) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    return requireThread(state);
+  }
+
+  async execute(state: StateContext): Promise<{ commentId?: number }> {
+    const thread = commandThread(state);
+
+    return {
+      commentId: await this.chatops.reply(thread, await this.chatops.renderExplanation(thread)),
+    };
+  }
+}
+
+/**
+ * Label the thread so automatic triage and review skip it (`/vertice ignore`)
+ */
+@Injectable()
+@AgentAction()
+export class ApplyIgnoreLabelAction implements ActionHandler {
+  readonly name = 'apply-ignore-label';
+
+  constructor(private readonly chatops: ChatOpsService) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    return requireThread(state);
+  }
+
+  async execute(state: StateContext): Promise<{ commentId?: number }> {
+    const thread = commandThread(state);
+
+    await this.chatops.ignore(thread);
+
+    if (!state.context.issue?.labels?.includes(IGNORE_LABEL)) {
+      state.compensations.push({
+        ...compensationTarget(state, this.name),
+        type: 'remove-labels',
+        number: thread.number,
+        labels: [IGNORE_LABEL],
+      });
+    }
+
+    return {
+      commentId: await this.chatops.reply(
+        thread,
+        '🔕 Vértice will no longer analyze this thread automatically. Remove the label to undo; commands still work.',
+      ),
+    };
+  }
+}
+
+/**
+ * Reply with the effective configuration and its sources (`/vertice config`)
+ */
+@Injectable()
+@AgentAction()
+export class PostConfigSummaryAction implements ActionHandler {
+  readonly name = 'post-config-summary';
+
+  constructor(private readonly chatops: ChatOpsService) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    return requireThread(state);
+  }
+
+  async execute(state: StateContext): Promise<{ commentId?: number }> {
+    return {
+      commentId: await this.chatops.reply(commandThread(state), this.chatops.renderConfig(state)),
+    };
+  }
+}
+
+/**
+ * Reply with the command list; explains why when the command is unknown or does not apply here
+ */
+@Injectable()
+@AgentAction()
+export class PostCommandHelpAction implements ActionHandler {
+  readonly name = 'post-command-help';
+
+  constructor(private readonly chatops: ChatOpsService) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    return requireThread(state);
+  }
+
+  async execute(state: StateContext): Promise<{ commentId?: number }> {
+    const thread = commandThread(state);
+    const command = state.context.comment
+      ? parseChatOpsCommand(state.context.comment.body)
+      : undefined;
+    let note: string | undefined;
+
+    if (command && command.name !== 'help') {
+      note = CHATOPS_COMMANDS[command.name]
+        ? `\`/vertice ${command.name}\` is not available on ${thread.isPullRequest ? 'pull requests' : 'issues'}.`
+        : `Unknown command \`/vertice ${command.name}\`.`;
+    }
+
+    return { commentId: await this.chatops.reply(thread, this.chatops.renderHelp(note)) };
+  }
+}
+
+/**
+ * Tell the commenter their repository role is too low for the command
+ */
+@Injectable()
+@AgentAction()
+export class PostCommandDeniedAction implements ActionHandler {
+  readonly name = 'post-command-denied';
+
+  constructor(private readonly chatops: ChatOpsService) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    return requireCommand(state);
+  }
+
+  async execute(state: StateContext): Promise<{ commentId?: number }> {
+    const { comment, repository } = state.context;
+    const command = comment ? parseChatOpsCommand(comment.body) : undefined;
+
+    if (!comment || !command) {
+      throw new Error('Command not found in execution context');
+    }
+
+    return {
+      commentId: await this.chatops.reply(
+        commandThread(state),
+        `@${comment.author} \`/vertice ${command.name}\` requires the ${requiredRole(command)} role or higher on ${repository.fullName}.`,
+      ),
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CompensationService } from './compensation.service';
+import { GitHubClientService } from '../../../github/github-client.service';
+
+/**
+ * Compensation Service Unit Tests
+ *
+ * Purpose: Verify built-in compensations undo their GitHub changes
+ * Constitutional Requirement: Article IX, Section 3 - Automatic Rollback
+ */
+
+describe('CompensationService', () => {
+  let service: CompensationService;
+
+  const removeLabel = jest.fn();
+  const updateReview = jest.fn();
+  const dismissReview = jest.fn();
+  const octokit = { rest: { issues: { removeLabel }, pulls: { updateReview, dismissReview } } };
+  const githubClient = { getRepositoryClient: jest.fn().mockResolvedValue(octokit) };
+
+  const target = { owner: 'acme', repo: 'widgets', installationId: 7 };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CompensationService, { provide: GitHubClientService, useValue: githubClient }],
+    }).compile();
+
+    service = module.get<CompensationService>(CompensationService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should remove every label the action added', async () => {
+    await service.run({
+      ...target,
+      action: 'suggest-labels',
+      type: 'remove-labels',
+      number: 12,
+      labels: ['bug', 'high-priority'],
+    });
+
+    expect(githubClient.getRepositoryClient).toHaveBeenCalledWith('acme', 'widgets', 7);
+    expect(removeLabel).toHaveBeenCalledTimes(2);
+    expect(removeLabel).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'widgets',
+      issue_number: 12,
+      name: 'high-priority',
+    });
+  });
+
+  it('should withdraw a review and dismiss it when it requested changes', async () => {
+    await service.run({
+      ...target,
+      action: 'post-review-comment',
+      type: 'retract-review',
+      number: 5,
+      reviewId: 321,
+      dismiss: true,
+    });
+
+    expect(updateReview).toHaveBeenCalledWith(
+      expect.objectContaining({ pull_number: 5, review_id: 321 }),
+    );
+    expect(dismissReview).toHaveBeenCalledWith(
+      expect.objectContaining({ pull_number: 5, review_id: 321 }),
+    );
+  });
+
+  it("should refuse custom compensations, which belong to the action's rollback()", async () => {
+    await expect(
+      service.run({ ...target, action: 'link-jira-issue', type: 'custom', data: { key: 'OPS-1' } }),
+    ).rejects.toThrow('rollback()');
+  });
+});
@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { GitHubClientService } from '../../../github/github-client.service';
+import { Compensation } from './compensation';
+
+/**
+ * Compensation Service
+ *
+ * Purpose: Run the GitHub side of built-in compensations
+ * Constitutional Requirement: Article IX, Section 3 - Automatic Rollback
+ *
+ * Throws on failure; the Execution Layer records the outcome of every compensation.
+ */
+
+const RETRACTED_REVIEW =
+  '### 🤖 Vértice code review (withdrawn)\n\nThis review was withdrawn because a later step of the same run failed and was rolled back.';
+
+@Injectable()
+export class CompensationService {
+  constructor(private readonly githubClient: GitHubClientService) {
+    // NestJS dependency injection
+  }
+
+  async run(compensation: Compensation): Promise<void> {
+    const { owner, repo } = compensation;
+    const client = await this.githubClient.getRepositoryClient(
+      owner,
+      repo,
+      compensation.installationId,
+    );
+
+    switch (compensation.type) {
+      case 'remove-labels':
+        for (const name of compensation.labels) {
+          await client.rest.issues.removeLabel({
+            owner,
+            repo,
+            issue_number: compensation.number,
+            name,
+          });
+        }
+        return;
+      case 'remove-assignees':
+        await client.rest.issues.removeAssignees({
+          owner,
+          repo,
+          issue_number: compensation.number,
+          assignees: compensation.assignees,
+        });
+        return;
+      case 'delete-comment':
+        await client.rest.issues.deleteComment({
+          owner,
+          repo,
+          comment_id: compensation.commentId,
+        });
+        return;
+      case 'restore-comment':
+        await client.rest.issues.updateComment({
+          owner,
+          repo,
+          comment_id: compensation.commentId,
+          body: compensation.body,
+        });
+        return;
+      case 'minimize-comment':
+        await client.graphql(
+          `mutation($id: ID!) { minimizeComment(input: { subjectId: $id, classifier: OUTDATED }) { clientMutationId } }`,
+          { id: compensation.nodeId },
+        );
+        return;
+      case 'retract-review':
+        await client.rest.pulls.updateReview({
+          owner,
+          repo,
+          pull_number: compensation.number,
+          review_id: compensation.reviewId,
+          body: RETRACTED_REVIEW,
+        });
+
+        if (compensation.dismiss) {
+          await client.rest.pulls.dismissReview({
+            owner,
+            repo,
+            pull_number: compensation.number,
+            review_id: compensation.reviewId,
+            message: 'Withdrawn by Vértice: the run that posted it was rolled back.',
+          });
+        }
+        return;
+      case 'custom':
+        throw new Error(
+          `Custom compensation of ${compensation.action} needs the action's rollback()`,
+        );
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Compensations
+ *
+ * Purpose: Operations that undo what an action changed on GitHub
+ * Constitutional Requirement: Article IX, Section 3 - Automatic Rollback
+ *
+ * Actions push compensations onto state.compensations as their effects happen, so
+ * partial effects are covered too. When a transactional plan fails, the orchestrator runs
+ * them in reverse order. 'custom' compensations are undone by the recording action's rollback().
+ */
+
+interface CompensationBase {
+  /** Action that recorded the compensation */
+  action: string;
+  owner: string;
+  repo: string;
+  installationId?: number;
+}
+
+export type Compensation = CompensationBase &
+  (
+    | { type: 'remove-labels'; number: number; labels: string[] }
+    | { type: 'remove-assignees'; number: number; assignees: string[] }
+    | { type: 'delete-comment'; commentId: number }
+    | { type: 'restore-comment'; commentId: number; body: string }
+    /** GraphQL node id of an issue or review comment */
+    | { type: 'minimize-comment'; nodeId: string }
+    /** Replace the review body with a withdrawal notice; dismiss reviews that requested changes */
+    | { type: 'retract-review'; number: number; reviewId: number; dismiss: boolean }
+    | { type: 'custom'; data: Record<string, unknown> }
+  );
+
+export type CompensationType = Compensation['type'];
+
+export interface CompensationOutcome {
+  action: string;
+  type: CompensationType;
+  success: boolean;
+  error?: string;
+}
@@ -0,0 +1,146 @@
+import { Injectable } from '@nestjs/common';
+import { StateContext } from '../layer-3-state';
+import { IssueTriageService } from '../../../issues/issue-triage.service';
+import { ActionHandler, AgentAction } from './action-handler.interface';
+import {
+  compensationTarget,
+  issueAnalysis,
+  issueRef,
+  llmSelection,
+  requireIssue,
+  requireIssueAnalysis,
+} from './action-context';
+
+/**
+ * Issue Triage Actions
+ *
+ * Purpose: The 'triage-and-label' plan: classify, label, prioritize, comment
+ * Constitutional Requirement: P4 Rastreabilidade Total (the analysis is persisted)
+ */
+
+/**
+ * Classify the issue with the configured model
+ * The analysis is kept in state for the remaining triage actions
+ */
+@Injectable()
+@AgentAction()
+export class ClassifyIssueAction implements ActionHandler {
+  readonly name = 'classify-issue';
+  readonly idempotent = true;
+
+  constructor(private readonly issueTriage: IssueTriageService) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    return requireIssue(state);
+  }
+
+  async execute(state: StateContext): Promise<{ classification: string; confidence: number }> {
+    const analysis = await this.issueTriage.analyze(issueRef(state), llmSelection(state));
+
+    state.artifacts.issueAnalysis = analysis;
+
+    return { classification: analysis.classification, confidence: analysis.confidence };
+  }
+}
+
+/**
+ * Apply the suggested labels that exist in the repository
+ * Rollback removes the labels the issue did not already have
+ */
+@Injectable()
+@AgentAction()
+export class SuggestLabelsAction implements ActionHandler {
+  readonly name = 'suggest-labels';
+  readonly idempotent = true;
+
+  constructor(private readonly issueTriage: IssueTriageService) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    return requireIssueAnalysis(state);
+  }
+
+  async execute(state: StateContext): Promise<{ labels: string[]; skipped: string[] }> {
+    const issue = issueRef(state);
+    const result = await this.issueTriage.applyLabels(issue, issueAnalysis(state).suggestedLabels);
+
+    state.artifacts.issueLabels = result;
+
+    const existing = state.context.issue?.labels ?? [];
+    const added = result.applied.filter((label) => !existing.includes(label));
+
+    if (added.length > 0) {
+      state.compensations.push({
+        ...compensationTarget(state, this.name),
+        type: 'remove-labels',
+        number: issue.number,
+        labels: added,
+      });
+    }
+
+    return { labels: result.applied, skipped: result.skipped };
+  }
+}
+
+@Injectable()
+@AgentAction()
+export class CalculatePriorityAction implements ActionHandler {
+  readonly name = 'calculate-priority';
+  readonly idempotent = true;
+
+  preconditions(state: StateContext): string | undefined {
+    return requireIssueAnalysis(state);
+  }
+
+  async execute(state: StateContext): Promise<{ priority: string }> {
+    return { priority: issueAnalysis(state).priority };
+  }
+}
+
+/**
+ * Post (or update) the analysis comment and persist the IssueAnalysis row
+ * Rollback deletes a new comment or restores the previous analysis
+ */
+@Injectable()
+@AgentAction()
+export class PostAnalysisCommentAction implements ActionHandler {
+  readonly name = 'post-analysis-comment';
+  readonly idempotent = true;
+
+  constructor(private readonly issueTriage: IssueTriageService) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    return requireIssueAnalysis(state);
+  }
+
+  async execute(state: StateContext): Promise<{ commentId: number }> {
+    const issue = issueRef(state);
+    const analysis = issueAnalysis(state);
+    const labels = state.artifacts.issueLabels ?? { applied: [], skipped: [] };
+
+    const { commentId, previousBody } = await this.issueTriage.upsertAnalysisComment(
+      issue,
+      this.issueTriage.renderComment(analysis, labels),
+    );
+
+    state.compensations.push(
+      previousBody === undefined
+        ? { ...compensationTarget(state, this.name), type: 'delete-comment', commentId }
+        : {
+            ...compensationTarget(state, this.name),
+            type: 'restore-comment',
+            commentId,
+            body: previousBody,
+          },
+    );
+
+    await this.issueTriage.recordAnalysis(issue, analysis, Date.now() - state.executedAt.getTime());
+
+    return { commentId };
+  }
+}
@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+import { StateContext } from '../layer-3-state';
+import { PullRequestReviewService } from '../../../pull-requests/pull-request-review.service';
+import { BotConfigService } from '../../../bot-config/bot-config.service';
+import { ConfigCheckResult, ConfigCheckService } from '../../../bot-config/config-check.service';
+import { RulePackService } from '../../../bot-config/rule-pack.service';
+import { ActionHandler, AgentAction } from './action-handler.interface';
+import {
+  compensationTarget,
+  llmSelection,
+  pullRequestRef,
+  pullRequestReview,
+  requirePullRequest,
+  requirePullRequestReview,
+} from './action-context';
+
+/**
+ * Pull Request Review Actions
+ *
+ * Purpose: The 'comprehensive-review' plan: config check, metrics and AI review, GitHub review
+ * Constitutional Requirement: Article VI - LEI/CRS/FPC on every reviewed diff
+ */
+
+/**
+ * Post a check run with schema errors when the pull request changes .vertice-bot.yml
+ */
+@Injectable()
+@AgentAction()
+export class CheckConfigFileAction implements ActionHandler {
+  readonly name = 'check-config-file';
+
+  constructor(private readonly configCheck: ConfigCheckService) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    return requirePullRequest(state);
+  }
+
+  async execute(state: StateContext): Promise<ConfigCheckResult> {
+    return this.configCheck.check({
+      ...pullRequestRef(state),
+      headSha: state.context.pullRequest?.headSha ?? '',
+    });
+  }
+}
+
+/**
+ * Fetch the diff, run LEI/CRS/FPC on the added lines and review it with the configured model
+ * CRS uses the repository's rule pack; findings in its `.vertice-baseline.json` are suppressed.
+ * The review is kept in state for check-security and post-review-comment
+ */
+@Injectable()
+@AgentAction()
+export class AnalyzeCodeQualityAction implements ActionHandler {
+  readonly name = 'analyze-code-quality';
+  readonly idempotent = true;
+
+  constructor(
+    private readonly pullRequestReview: PullRequestReviewService,
+    private readonly rulePacks: RulePackService,
+    private readonly botConfig: BotConfigService,
+  ) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    return requirePullRequest(state);
+  }
+
+  async execute(
+    state: StateContext,
+  ): Promise<{ score: number; lei: number; crs: number; fpc: number }> {
+    const { repository, installationId } = state.context;
+    const pullRequest = await this.pullRequestReview.loadPullRequest(pullRequestRef(state));
+    const { pack, threshold } = await this.rulePacks.resolve(
+      repository,
+      state.config,
+      state.configProvenance,
+      installationId,
+    );
+    const baseline = await this.botConfig.fetchBaseline(
+      repository.owner,
+      repository.name,
+      installationId,
+    );
+    const metrics = this.pullRequestReview.calculateMetrics(pullRequest, {
+      rulePack: pack,
+      threshold,
+      baseline,
+    });
+    const review = await this.pullRequestReview.review(pullRequest, metrics, llmSelection(state));
+
+    state.artifacts.pullRequestReview = review;
+
+    return { score: review.qualityScore, lei: metrics.lei, crs: metrics.crs, fpc: metrics.fpc };
+  }
+}
+
+@Injectable()
+@AgentAction()
+export class CheckSecurityAction implements ActionHandler {
+  readonly name = 'check-security';
+  readonly idempotent = true;
+
+  preconditions(state: StateContext): string | undefined {
+    return requirePullRequestReview(state);
+  }
+
+  async execute(state: StateContext): Promise<{ issues: string[] }> {
+    return { issues: pullRequestReview(state).securityIssues };
+  }
+}
+
+/**
+ * Submit the pull request review and persist the PRAnalysis row
+ * Rollback withdraws the review (a submitted review cannot be deleted)
+ */
+@Injectable()
+@AgentAction()
+export class PostReviewCommentAction implements ActionHandler {
+  readonly name = 'post-review-comment';
+
+  constructor(private readonly pullRequestReview: PullRequestReviewService) {
+    // NestJS dependency injection
+  }
+
+  preconditions(state: StateContext): string | undefined {
+    return requirePullRequestReview(state);
+  }
+
+  async execute(state: StateContext): Promise<{ commentId: number }> {
+    const ref = pullRequestRef(state);
+    const review = pullRequestReview(state);
+
+    const thresholds = { maxLEI: state.config.maxLEI };
+    const commentId = await this.pullRequestReview.submitReview(ref, review, thresholds);
+
+    state.compensations.push({
+      ...compensationTarget(state, this.name),
+      type: 'retract-review',
+      number: ref.number,
+      reviewId: commentId,
+      dismiss: this.pullRequestReview.reviewEvent(review, thresholds) === 'REQUEST_CHANGES',
+    });
+
+    await this.pullRequestReview.recordReview(
+      ref,
+      review,
+      commentId,
+      Date.now() - state.executedAt.getTime(),
+    );
+
+    return { commentId };
+  }
+}
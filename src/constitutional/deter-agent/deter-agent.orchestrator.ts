@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ActionApproval } from '@prisma/client';
 import {
   /* eslint-disable @typescript-eslint/no-unused-vars */
   ConstitutionalLayer,
@@ -10,15 +11,21 @@ import {
   DeliberationLayer,
   ProcessedEvent,
   DeliberationResult,
+  ActionPlan,
 } from './layer-2-deliberation';
 import {
   /* eslint-disable @typescript-eslint/no-unused-vars */
   StateManagementLayer,
   ExecutionContext,
   StateContext,
+  BotConfigurationState,
 } from './layer-3-state';
 import { ExecutionLayer, ExecutionResult } from './layer-4-execution';
 import { IncentiveLayer, QualityMetrics, Optimization } from './layer-5-incentive';
+import { Tenant } from '../../installations/tenant.service';
+import { AgentRunService } from '../../runs/agent-run.service';
+import { ApprovalSnapshot } from '../../approvals/approval.service';
+import { hasRole, parseChatOpsCommand, requiredRole } from '../../chatops/chatops-commands';
 
 /**
  * DETER-AGENT Orchestrator
@@ -30,7 +37,26 @@ import { IncentiveLayer, QualityMetrics, Optimization } from './layer-5-incentiv
  *
  * Constitutional Compliance: Complete implementation, zero placeholders
  * All principles (P1-P6) applied throughout execution
+ *
+ * Every run is persisted as an AgentRun with its layer results, timings and transitions
+ * A run paused for approval is resumed from Layer 4 once a maintainer decides
+ * `/vertice` commands run only when the commenter's repository role allows them
+ * A failed transactional plan is rolled back before the run closes
+ */
+
+/**
+ * Feature flag that must be enabled for an action to run
+ * check-config-file has none: an invalid config file is flagged even when review is disabled
  */
+const ACTION_FEATURE_FLAGS: Record<string, keyof BotConfigurationState> = {
+  'classify-issue': 'enableIssueTriage',
+  'suggest-labels': 'enableIssueTriage',
+  'calculate-priority': 'enableIssueTriage',
+  'post-analysis-comment': 'enableIssueTriage',
+  'analyze-code-quality': 'enablePRReview',
+  'check-security': 'enablePRReview',
+  'post-review-comment': 'enablePRReview',
+};
 
 export interface DeterAgentInput {
   eventType: string;
@@ -42,6 +68,12 @@ export interface DeterAgentInput {
     name: string;
     fullName: string;
   };
+  /** GitHub App installation id from the webhook payload */
+  installationId?: number;
+  /** Installation row the repository belongs to (unset under token auth) */
+  tenant?: Tenant;
+  /** WebhookDelivery row that triggered the run */
+  deliveryRecordId?: string;
 }
 
 export interface DeterAgentResult {
@@ -62,8 +94,15 @@ export interface DeterAgentResult {
   };
   totalExecutionTimeMs: number;
   constitutionalCompliance: boolean;
+  /** AgentRun row, unset when it could not be persisted */
+  runId?: string;
 }
 
+export type DeterAgentLayer = keyof DeterAgentResult['layers'];
+
+/** Milliseconds spent in each layer that ran */
+export type LayerTimings = Partial<Record<DeterAgentLayer, number>>;
+
 @Injectable()
 export class DeterAgentOrchestrator {
   private readonly logger = new Logger(DeterAgentOrchestrator.name);
@@ -74,6 +113,7 @@ export class DeterAgentOrchestrator {
     private readonly stateLayer: StateManagementLayer,
     private readonly executionLayer: ExecutionLayer,
     private readonly incentiveLayer: IncentiveLayer,
+    private readonly agentRuns: AgentRunService,
   ) {
     // NestJS dependency injection
   }
@@ -83,6 +123,88 @@ export class DeterAgentOrchestrator {
    * All 5 layers are executed in sequence with validation
    */
   async execute(input: DeterAgentInput): Promise<DeterAgentResult> {
+    const runId = await this.agentRuns.start(input);
+    const timings: LayerTimings = {};
+
+    try {
+      const result = await this.run(input, runId, timings);
+
+      await this.agentRuns.finish(runId, result, timings);
+
+      return { ...result, runId };
+    } catch (error) {
+      await this.agentRuns.fail(runId, error, timings);
+      throw error;
+    }
+  }
+
+  /**
+   * Continue a run paused for approval from the action it stopped at
+   * An approved action runs first; a rejected one is skipped and the rest of the plan runs
+   */
+  async resume(approval: ActionApproval): Promise<ExecutionResult> {
+    const snapshot = approval.snapshot as unknown as ApprovalSnapshot;
+    const runId = approval.runId ?? undefined;
+    const approved = approval.status === 'approved';
+
+    this.logger.log(
+      `🔁 DETER-AGENT resuming ${approval.repository}: ${approval.action} ${approval.status} by ${approval.decidedBy ?? 'unknown'}`,
+    );
+
+    await this.agentRuns.reopen(runId);
+
+    try {
+      const state = await this.stateLayer.hydrate({
+        ...snapshot.context,
+        runId,
+        timestamp: new Date(snapshot.context.timestamp),
+      });
+
+      state.artifacts = snapshot.artifacts;
+      state.compensations = snapshot.compensations ?? [];
+
+      await this.stateLayer.record(state, {
+        type: 'TRANSITION',
+        action: approval.action,
+        timestamp: new Date(),
+        metadata: {
+          approval: approval.id,
+          decision: approval.status,
+          decidedBy: approval.decidedBy,
+          decisionSource: approval.decisionSource,
+        },
+      });
+
+      const executionResult = await this.executePlan(
+        {
+          actions: approved ? snapshot.actions : snapshot.actions.slice(1),
+          reasoning: `Resumed after approval ${approval.id}`,
+          alternatives: [],
+          selectedRationale: `${approval.action} ${approval.status} by ${approval.decidedBy ?? 'unknown'}`,
+          transactional: snapshot.transactional,
+        },
+        state,
+        approved ? approval.action : undefined,
+      );
+
+      await this.stateLayer.complete(state);
+      await this.agentRuns.finishResumed(runId, executionResult);
+
+      return executionResult;
+    } catch (error) {
+      await this.agentRuns.fail(runId, error, {});
+      throw error;
+    }
+  }
+
+  /**
+   * Run the layers, recording how long each one takes
+   */
+  private async run(
+    input: DeterAgentInput,
+    runId: string | undefined,
+    timings: LayerTimings,
+  ): Promise<DeterAgentResult> {
     const overallStartTime = Date.now();
 
     this.logger.log(
@@ -95,10 +217,13 @@ export class DeterAgentOrchestrator {
       signature: input.signature,
       senderId: input.senderId,
       timestamp: new Date(),
+      repository: input.repository.fullName,
+      installationId: input.tenant?.id,
     };
 
-    const constitutionalResult =
-      await this.constitutionalLayer.validate(constitutionalInput);
+    const constitutionalResult = await this.timed(timings, 'constitutional', () =>
+      this.constitutionalLayer.validate(constitutionalInput),
+    );
 
     if (!constitutionalResult.valid) {
       this.logger.error(
@@ -125,7 +250,9 @@ export class DeterAgentOrchestrator {
       },
     };
 
-    const deliberationResult = await this.deliberationLayer.analyze(processedEvent);
+    const deliberationResult = await this.timed(timings, 'deliberation', () =>
+      this.deliberationLayer.analyze(processedEvent),
+    );
 
     this.logger.log(
       `✅ Layer 2 (Deliberation): ${deliberationResult.classification.type} (${deliberationResult.priority.urgency}) - ${deliberationResult.actionPlan.actions.length} actions planned`,
@@ -135,18 +262,29 @@ export class DeterAgentOrchestrator {
       eventId: `evt_${Date.now()}`,
       eventType: input.eventType,
       repository: input.repository,
+      installationId: input.installationId,
+      tenant: input.tenant,
+      runId,
+      isPrivate: this.extractVisibility(input.payload),
+      issue: this.extractIssue(input.payload),
+      pullRequest: this.extractPullRequest(input.payload),
+      comment: this.extractComment(input.payload),
       timestamp: new Date(),
     };
 
-    const state = await this.stateLayer.hydrate(executionContext);
+    const state = await this.timed(timings, 'state', () =>
+      this.stateLayer.hydrate(executionContext),
+    );
 
     this.logger.log(
       `✅ Layer 3 (State): Context hydrated, ${Object.values(state.dependencies).filter((d) => d).length}/4 dependencies ready`,
     );
 
-    const executionResult = await this.executionLayer.execute(
-      deliberationResult.actionPlan,
-      state,
+    const executionResult = await this.timed(timings, 'execution', () =>
+      this.executePlan(
+        this.applyFeatureFlags(this.applyCommandPermissions(deliberationResult, state), state),
+        state,
+      ),
     );
 
     await this.stateLayer.complete(state);
@@ -164,9 +302,8 @@ export class DeterAgentOrchestrator {
       efficiency: 88.0,
     };
 
-    const optimization = await this.incentiveLayer.optimize(
-      executionResult,
-      qualityMetrics,
+    const optimization = await this.timed(timings, 'incentive', () =>
+      this.incentiveLayer.optimize(executionResult, qualityMetrics),
     );
 
     const qualityScore = this.incentiveLayer.getQualityScore(qualityMetrics);
@@ -205,6 +342,161 @@ export class DeterAgentOrchestrator {
     return result;
   }
 
+  /**
+   * Execute a plan; roll back what it changed when it is transactional and an action failed
+   */
+  private async executePlan(
+    plan: ActionPlan,
+    state: StateContext,
+    approvedAction?: string,
+  ): Promise<ExecutionResult> {
+    const executionResult = await this.executionLayer.execute(plan, state, approvedAction);
+
+    if (plan.transactional && executionResult.actionsFailed > 0 && state.compensations.length > 0) {
+      executionResult.rollback = await this.executionLayer.rollback(state);
+    }
+
+    return executionResult;
+  }
+
+  /**
+   * Await a layer and add its duration to the run's timings
+   */
+  private async timed<T>(
+    timings: LayerTimings,
+    layer: DeterAgentLayer,
+    work: () => Promise<T>,
+  ): Promise<T> {
+    const startTime = Date.now();
+
+    try {
+      return await work();
+    } finally {
+      timings[layer] = (timings[layer] ?? 0) + Date.now() - startTime;
+    }
+  }
+
+  /**
+   * Replace a command's plan with a denial reply when the commenter's role is too low
+   */
+  private applyCommandPermissions(
+    deliberation: DeliberationResult,
+    state: StateContext,
+  ): ActionPlan {
+    const plan = deliberation.actionPlan;
+    const { comment } = state.context;
+    const command =
+      deliberation.classification.type === 'command' && comment
+        ? parseChatOpsCommand(comment.body)
+        : undefined;
+
+    if (!command || hasRole(comment?.role ?? 'none', requiredRole(command))) {
+      return plan;
+    }
+
+    this.logger.warn(
+      `Denied /vertice ${command.name} on ${state.context.repository.fullName} for ${comment?.author} (role ${comment?.role ?? 'none'}, requires ${requiredRole(command)})`,
+    );
+
+    return { ...plan, actions: ['post-command-denied'] };
+  }
+
+  /**
+   * Drop planned actions whose feature is disabled in the repository configuration
+   */
+  private applyFeatureFlags(plan: ActionPlan, state: StateContext): ActionPlan {
+    const disabled = plan.actions.filter((action) => {
+      const flag = ACTION_FEATURE_FLAGS[action];
+      return flag !== undefined && state.config[flag] === false;
+    });
+
+    if (disabled.length === 0) {
+      return plan;
+    }
+
+    this.logger.log(
+      `Skipping actions disabled for ${state.context.repository.fullName}: ${disabled.join(', ')}`,
+    );
+
+    return { ...plan, actions: plan.actions.filter((action) => !disabled.includes(action)) };
+  }
+
+  /**
+   * Extract the issue an event refers to, if any
+   */
+  private extractIssue(payload: unknown): ExecutionContext['issue'] {
+    const issue = (payload as { issue?: Record<string, unknown> } | undefined)?.issue;
+
+    if (!issue || typeof issue.number !== 'number') {
+      return undefined;
+    }
+
+    const user = issue.user as { login?: unknown } | undefined;
+    const labels = Array.isArray(issue.labels) ? (issue.labels as { name?: unknown }[]) : [];
+
+    return {
+      number: issue.number,
+      title: typeof issue.title === 'string' ? issue.title : '',
+      body: typeof issue.body === 'string' ? issue.body : '',
+      author: typeof user?.login === 'string' ? user.login : 'unknown',
+      labels: labels
+        .map((label) => label.name)
+        .filter((name): name is string => typeof name === 'string'),
+    };
+  }
+
+  /**
+   * Repository visibility from the payload; undefined when the payload does not say
+   */
+  private extractVisibility(payload: unknown): boolean | undefined {
+    const repository = (payload as { repository?: { private?: unknown } } | undefined)?.repository;
+
+    return typeof repository?.private === 'boolean' ? repository.private : undefined;
+  }
+
+  /**
+   * Extract the comment of an issue_comment event, if any
+   */
+  private extractComment(payload: unknown): ExecutionContext['comment'] {
+    const comment = (payload as { comment?: Record<string, unknown> } | undefined)?.comment;
+
+    if (!comment || typeof comment.id !== 'number' || typeof comment.body !== 'string') {
+      return undefined;
+    }
+
+    const user = comment.user as { login?: unknown } | undefined;
+
+    return {
+      id: comment.id,
+      body: comment.body,
+      author: typeof user?.login === 'string' ? user.login : 'unknown',
+    };
+  }
+
+  /**
+   * Extract the pull request an event refers to, if any
+   * Comments on pull requests arrive as issue_comment events: their issue stands in for the
+   * pull request and state hydration fetches the head commit
+   */
+  private extractPullRequest(payload: unknown): ExecutionContext['pullRequest'] {
+    const { pull_request: pullRequest, issue } = (payload ?? {}) as {
+      pull_request?: Record<string, unknown>;
+      issue?: Record<string, unknown>;
+    };
+    const pr = pullRequest ?? (issue?.pull_request ? issue : undefined);
+
+    if (!pr || typeof pr.number !== 'number') {
+      return undefined;
+    }
+
+    return {
+      number: pr.number,
+      title: typeof pr.title === 'string' ? pr.title : '',
+      changedFiles: typeof pr.changed_files === 'number' ? pr.changed_files : 0,
+      headSha: String((pr.head as { sha?: unknown } | undefined)?.sha ?? ''),
+    };
+  }
+
   /**
    * Build failure result when constitutional validation fails
    */
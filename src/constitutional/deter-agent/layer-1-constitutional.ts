@@ -1,4 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
+import {
+  ComplianceEventType,
+  ComplianceLogService,
+  ComplianceResourceType,
+} from '../../compliance/compliance-log.service';
 
 /**
  * DETER-AGENT Layer 1: Constitutional Layer (Strategic Control)
@@ -8,6 +13,8 @@ import { Injectable, Logger } from '@nestjs/common';
  *
  * Constitutional Compliance: Complete implementation, zero placeholders
  * Principles Applied: P1-P6 from Constituição Vértice v3.0
+ *
+ * Every validation is written to ConstitutionalComplianceLog
  */
 
 export interface ConstitutionalValidationInput {
@@ -16,6 +23,10 @@ export interface ConstitutionalValidationInput {
   signature?: string;
   senderId?: string;
   timestamp: Date;
+  /** "owner/name" the event belongs to */
+  repository?: string;
+  /** Installation row of the event's tenant */
+  installationId?: string;
 }
 
 export interface PolicyCheckResult {
@@ -38,6 +49,10 @@ export interface ConstitutionalValidationResult {
 export class ConstitutionalLayer {
   private readonly logger = new Logger(ConstitutionalLayer.name);
 
+  constructor(private readonly complianceLogs: ComplianceLogService) {
+    // NestJS dependency injection
+  }
+
   /**
    * Validate input against all constitutional principles
    * Zero Trust Principle: Never trust, always verify
@@ -260,6 +275,7 @@ export class ConstitutionalLayer {
   /**
    * Log compliance for audit trail
    * DETER-AGENT Layer 5: Incentive - Quality feedback
+   * Layer 1 measures CRS only; LEI and FPC are recorded as 0
    */
   private async logCompliance(
     input: ConstitutionalValidationInput,
@@ -268,5 +284,50 @@ export class ConstitutionalLayer {
     this.logger.debug(
       `Compliance Log: ${input.eventType} - CRS: ${result.crs.toFixed(2)}% - Valid: ${result.valid}`,
     );
+
+    await this.complianceLogs.record({
+      ...this.describeResource(input),
+      crs: result.crs,
+      lei: 0,
+      fpc: 0,
+      violations: result.violations,
+      layersFailing: result.valid ? [] : ['constitutional'],
+      actionTaken: result.valid
+        ? 'Proceeded to deliberation'
+        : 'Execution halted before deliberation',
+      installationId: input.installationId,
+    });
+  }
+
+  /**
+   * Audit trail resource for an event: the issue or pull request it concerns, else the repository
+   */
+  private describeResource(input: ConstitutionalValidationInput): {
+    eventType: ComplianceEventType;
+    resourceType: ComplianceResourceType;
+    resourceId: string;
+  } {
+    const payload = input.payload as
+      | { issue?: { number?: unknown }; pull_request?: { number?: unknown } }
+      | undefined;
+    const repository = input.repository ?? 'unknown';
+
+    if (typeof payload?.pull_request?.number === 'number') {
+      return {
+        eventType: 'pr_review',
+        resourceType: 'pr',
+        resourceId: `${repository}#${payload.pull_request.number}`,
+      };
+    }
+
+    if (typeof payload?.issue?.number === 'number') {
+      return {
+        eventType: 'issue_triage',
+        resourceType: 'issue',
+        resourceId: `${repository}#${payload.issue.number}`,
+      };
+    }
+
+    return { eventType: 'webhook', resourceType: 'webhook', resourceId: repository };
   }
 }
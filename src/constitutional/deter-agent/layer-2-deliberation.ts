@@ -1,4 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
+import {
+  CHATOPS_COMMANDS,
+  IGNORE_LABEL,
+  parseChatOpsCommand,
+  planChatOpsCommand,
+} from '../../chatops/chatops-commands';
+import { ActionRegistry } from './actions/action-registry';
 
 /**
  * DETER-AGENT Layer 2: Deliberation Layer (Cognitive Control)
@@ -8,6 +15,8 @@ import { Injectable, Logger } from '@nestjs/common';
  *
  * Constitutional Compliance: Tree of Thoughts implementation
  * Implements P3: Ceticismo Crítico - Critical analysis of options
+ *
+ * Registered actions join plans through their ActionPlanning (approaches and events)
  */
 
 export interface ProcessedEvent {
@@ -35,6 +44,8 @@ export interface ActionPlan {
   reasoning: string;
   alternatives: string[];
   selectedRationale: string;
+  /** Stop at the first failed action and roll back what the plan already changed */
+  transactional?: boolean;
 }
 
 export interface DeliberationResult {
@@ -45,10 +56,19 @@ export interface DeliberationResult {
   deliberationTimeMs: number;
 }
 
+/**
+ * Approaches whose plans leave a thread half-processed when they stop midway
+ */
+const TRANSACTIONAL_APPROACHES = ['triage-and-label', 'comprehensive-review'];
+
 @Injectable()
 export class DeliberationLayer {
   private readonly logger = new Logger(DeliberationLayer.name);
 
+  constructor(private readonly actions: ActionRegistry) {
+    // NestJS dependency injection
+  }
+
   /**
    * Analyze event and plan actions
    * Tree of Thoughts: Explore multiple solution paths
@@ -105,14 +125,22 @@ export class DeliberationLayer {
     let priority: 'critical' | 'high' | 'medium' | 'low' = 'medium';
     let confidence = 0.8;
 
-    if (eventType.includes('issue')) {
+    if (this.isIgnored(event)) {
+      type = 'ignored';
+      subtype = IGNORE_LABEL;
+      priority = 'low';
+    } else if (eventType === 'issues' && this.isTriageAction(event)) {
       type = 'issue';
       subtype = this.classifyIssueSubtype(event);
       priority = this.inferPriorityFromEvent(event);
-    } else if (eventType.includes('pull_request')) {
+    } else if (eventType === 'pull_request' && this.isReviewAction(event)) {
       type = 'pull_request';
       subtype = this.classifyPRSubtype(event);
       priority = 'high';
+    } else if (eventType === 'issue_comment' && this.isChatOpsCommand(event)) {
+      type = 'command';
+      subtype = this.parseCommand(event)!.name;
+      priority = 'high';
     } else if (eventType.includes('push')) {
       type = 'push';
       subtype = 'commit';
@@ -131,6 +159,64 @@ export class DeliberationLayer {
     };
   }
 
+  /**
+   * Only new or changed issue content is triaged
+   * Other issue actions (labeled, assigned, closed...) include the bot's own label edits
+   */
+  private isTriageAction(event: ProcessedEvent): boolean {
+    const { action } = event.payload as { action?: string };
+    return action === 'opened' || action === 'edited' || action === 'reopened';
+  }
+
+  /**
+   * `/vertice <command>` comments written by people (never the bot's own comments)
+   */
+  private isChatOpsCommand(event: ProcessedEvent): boolean {
+    const { action, comment } = event.payload as {
+      action?: string;
+      comment?: { user?: { type?: string } };
+    };
+
+    return (
+      action === 'created' &&
+      comment?.user?.type !== 'Bot' &&
+      this.parseCommand(event) !== undefined
+    );
+  }
+
+  private parseCommand(event: ProcessedEvent): ReturnType<typeof parseChatOpsCommand> {
+    const { comment } = event.payload as { comment?: { body?: string } };
+    return parseChatOpsCommand(comment?.body ?? '');
+  }
+
+  /**
+   * Threads labeled by `/vertice ignore` are not triaged or reviewed automatically
+   * Commands still run on them, so a maintainer can re-run triage or review on demand
+   */
+  private isIgnored(event: ProcessedEvent): boolean {
+    const { issue, pull_request } = event.payload as {
+      issue?: { labels?: { name?: string }[] };
+      pull_request?: { labels?: { name?: string }[] };
+    };
+    const thread = event.eventType === 'issue_comment' ? undefined : (issue ?? pull_request);
+
+    return thread?.labels?.some((label) => label.name === IGNORE_LABEL) ?? false;
+  }
+
+  /**
+   * Only new or updated code is reviewed
+   * Review and review-comment events include the bot's own submitted reviews
+   */
+  private isReviewAction(event: ProcessedEvent): boolean {
+    const { action } = event.payload as { action?: string };
+    return (
+      action === 'opened' ||
+      action === 'synchronize' ||
+      action === 'reopened' ||
+      action === 'ready_for_review'
+    );
+  }
+
   /**
    * Classify issue subtype based on content
    */
@@ -328,7 +414,21 @@ export class DeliberationLayer {
         reasoning: 'Deep AI review with inline comments',
         feasibility: 0.6,
       });
+    } else if (classification.type === 'command') {
+      thoughts.push({
+        approach: 'chatops',
+        reasoning: `Run \`/vertice ${classification.subtype}\` as requested in the comment`,
+        feasibility: 1.0,
+      });
     } else {
+      if (classification.type !== 'ignored' && this.registeredForEvent(event).length > 0) {
+        thoughts.push({
+          approach: 'registered-actions',
+          reasoning: 'Run the registered actions that handle this event',
+          feasibility: 0.9,
+        });
+      }
+
       thoughts.push({
         approach: 'log-only',
         reasoning: 'Log event for monitoring purposes',
@@ -340,20 +440,21 @@ export class DeliberationLayer {
 
     const selectedThought = thoughts[0];
 
-    const actions = this.determineActionsForApproach(selectedThought.approach, classification);
+    const actions = this.determineActionsForApproach(selectedThought.approach, event);
 
     return {
       actions,
       reasoning: selectedThought.reasoning,
       alternatives: thoughts.slice(1).map((t) => t.approach),
       selectedRationale: `Selected '${selectedThought.approach}' with feasibility ${selectedThought.feasibility} due to: ${selectedThought.reasoning}`,
+      transactional: this.isTransactional(selectedThought.approach, classification),
     };
   }
 
   /**
    * Determine specific actions for chosen approach
    */
-  private determineActionsForApproach(approach: string, classification: EventClassification): string[] {
+  private determineActionsForApproach(approach: string, event: ProcessedEvent): string[] {
     const actions: string[] = [];
 
     if (approach === 'triage-and-label') {
@@ -362,17 +463,42 @@ export class DeliberationLayer {
       actions.push('calculate-priority');
       actions.push('post-analysis-comment');
     } else if (approach === 'comprehensive-review') {
+      actions.push('check-config-file');
       actions.push('analyze-code-quality');
       actions.push('check-security');
-      actions.push('analyze-performance');
       actions.push('post-review-comment');
+    } else if (approach === 'chatops') {
+      const { issue } = event.payload as { issue?: { pull_request?: unknown } };
+      const isPullRequest = issue?.pull_request !== undefined;
+      actions.push(...planChatOpsCommand(this.parseCommand(event)!, isPullRequest));
+    } else if (approach === 'registered-actions') {
+      actions.push(...this.registeredForEvent(event));
     } else if (approach === 'log-only') {
       actions.push('log-event');
     }
 
+    actions.push(...this.actions.plannedFor(approach).filter((name) => !actions.includes(name)));
+
     return actions;
   }
 
+  /**
+   * Triage and review plans, also when a command requested them, roll back on failure
+   */
+  private isTransactional(approach: string, classification: EventClassification): boolean {
+    return approach === 'chatops'
+      ? CHATOPS_COMMANDS[classification.subtype]?.transactional === true
+      : TRANSACTIONAL_APPROACHES.includes(approach);
+  }
+
+  /**
+   * Registered actions whose ActionPlanning lists the event
+   */
+  private registeredForEvent(event: ProcessedEvent): string[] {
+    const { action } = event.payload as { action?: string };
+    return this.actions.plannedForEvent(event.eventType, action);
+  }
+
   /**
    * Log deliberation for transparency and audit
    * P4: Rastreabilidade Total - All decisions are traceable
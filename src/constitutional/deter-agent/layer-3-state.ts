@@ -1,4 +1,18 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { GitHubClientService } from '../../github/github-client.service';
+import { LlmService } from '../../ai/llm.service';
+import { LlmProviderName } from '../../ai/providers/llm-provider.interface';
+import { BotConfigService } from '../../bot-config/bot-config.service';
+import { ConfigProvenance, ConfigValidationError } from '../../bot-config/bot-config.schema';
+import { IssueTriageAnalysis, LabelApplication } from '../../issues/issue-triage.service';
+import { PullRequestReview } from '../../pull-requests/pull-request-review.service';
+import { Tenant } from '../../installations/tenant.service';
+import { AgentRunService } from '../../runs/agent-run.service';
+import { ChatOpsService } from '../../chatops/chatops.service';
+import { RepositoryRole } from '../../chatops/chatops-commands';
+import { ActionResult } from './layer-4-execution';
+import { Compensation } from './actions/compensation';
+import { CrsRuleOverride } from '../metrics/crs-rules/crs-rule.interface';
 
 /**
  * DETER-AGENT Layer 3: State Management Layer (Memory Control)
@@ -7,7 +21,7 @@ import { Injectable, Logger } from '@nestjs/common';
  * Article VIII: Camada de Gerenciamento de Estado - Controle de Memória
  *
  * Constitutional Compliance: Deterministic state transitions
- * Zero Trust: All state changes are validated and logged
+ * Zero Trust: All state changes are validated, logged and persisted on the run's AgentRun
  */
 
 export interface ExecutionContext {
@@ -18,15 +32,35 @@ export interface ExecutionContext {
     name: string;
     fullName: string;
   };
+  /** GitHub App installation the event was delivered for */
+  installationId?: number;
+  /** Owner of the repository; every query in this run is scoped to it */
+  tenant?: Tenant;
+  /** AgentRun the transitions are persisted on */
+  runId?: string;
+  /** Repository visibility; unknown is treated as public */
+  isPrivate?: boolean;
   issue?: {
     number: number;
     title: string;
     body: string;
+    author: string;
+    /** Labels the issue had when the event arrived */
+    labels?: string[];
   };
   pullRequest?: {
     number: number;
     title: string;
     changedFiles: number;
+    headSha: string;
+  };
+  /** Comment of an issue_comment event */
+  comment?: {
+    id: number;
+    body: string;
+    author: string;
+    /** Author's repository role, resolved during hydration */
+    role?: RepositoryRole;
   };
   configuration?: BotConfigurationState;
   timestamp: Date;
@@ -40,21 +74,45 @@ export interface BotConfigurationState {
   maxLEI: number;
   minCoverage: number;
   geminiModel: string;
+  /** Unset: the deployment default (LLM_PROVIDER) */
+  llmProvider?: LlmProviderName;
+  /** Unset: geminiModel for Gemini, else the provider's default model */
+  llmModel?: string;
+  temperature?: number;
+  /** Shared rule pack, "<owner>/<name>" or "<owner>/<name>@<version>"; unset: vertice/default */
+  crsRulePack?: string;
+  /** Rules added to, changed in or dropped from the rule pack */
+  crsRules?: CrsRuleOverride[];
 }
 
 export interface Dependencies {
   prisma: boolean;
   redis: boolean;
   github: boolean;
-  gemini: boolean;
+  llm: boolean;
+}
+
+/**
+ * Outputs one action hands to the next within a single run
+ */
+export interface ExecutionArtifacts {
+  issueAnalysis?: IssueTriageAnalysis;
+  issueLabels?: LabelApplication;
+  pullRequestReview?: PullRequestReview;
 }
 
 export interface StateContext {
   context: ExecutionContext;
   dependencies: Dependencies;
   config: BotConfigurationState;
+  /** Source of each config value (default, organization, database, repository) */
+  configProvenance: ConfigProvenance;
+  configErrors: ConfigValidationError[];
   executedAt: Date;
   transitions: StateTransition[];
+  artifacts: ExecutionArtifacts;
+  /** Undo operations for what the run changed on GitHub, in the order they were recorded */
+  compensations: Compensation[];
 }
 
 export interface StateTransition {
@@ -72,6 +130,16 @@ export type AgentAction = (state: StateContext) => Promise<StateContext>;
 export class StateManagementLayer {
   private readonly logger = new Logger(StateManagementLayer.name);
 
+  constructor(
+    private readonly githubClient: GitHubClientService,
+    private readonly llm: LlmService,
+    private readonly botConfig: BotConfigService,
+    private readonly agentRuns: AgentRunService,
+    private readonly chatops: ChatOpsService,
+  ) {
+    // NestJS dependency injection
+  }
+
   /**
    * Hydrate execution context with all necessary dependencies
    * P5: Consciência Sistêmica - Build complete context
@@ -81,25 +149,36 @@ export class StateManagementLayer {
       `Hydrating state for ${context.eventType} on ${context.repository.fullName}`,
     );
 
-    const config = await this.loadRepositoryConfig(context.repository.fullName);
+    const { config, provenance, errors } = await this.botConfig.resolve(
+      context.repository,
+      context.installationId,
+      context.tenant,
+    );
 
     const dependencies = await this.resolveDependencies(context);
 
+    await this.chatops.hydrate(context);
+
     const state: StateContext = {
       context,
       dependencies,
       config,
+      configProvenance: provenance,
+      configErrors: errors,
       executedAt: new Date(),
       transitions: [],
+      artifacts: {},
+      compensations: [],
     };
 
-    await this.logStateTransition({
+    await this.logStateTransition(context.runId, {
       type: 'INITIALIZE',
       to: state,
       timestamp: new Date(),
       metadata: {
         repository: context.repository.fullName,
         eventType: context.eventType,
+        configErrors: errors.length,
       },
     });
 
@@ -130,7 +209,7 @@ export class StateManagementLayer {
         timestamp: new Date(),
       });
 
-      await this.logStateTransition({
+      await this.logStateTransition(state.context.runId, {
         type: 'TRANSITION',
         from: previousState,
         to: newState,
@@ -144,7 +223,7 @@ export class StateManagementLayer {
     } catch (error) {
       this.logger.error(`State transition failed: ${action.name}`, error);
 
-      await this.logStateTransition({
+      await this.logStateTransition(state.context.runId, {
         type: 'ERROR',
         from: previousState,
         action: action.name,
@@ -156,11 +235,41 @@ export class StateManagementLayer {
     }
   }
 
+  /**
+   * Record the outcome of an action executed by Layer 4
+   * A failed action is an ERROR transition; the run carries on with the next action
+   */
+  async recordAction(state: StateContext, result: ActionResult): Promise<void> {
+    const transition: StateTransition = {
+      type: result.success ? 'TRANSITION' : 'ERROR',
+      action: result.actionName,
+      timestamp: new Date(),
+      metadata: {
+        success: result.success,
+        attempts: result.attemptsRequired,
+        executionTimeMs: result.executionTimeMs,
+        ...(result.error ? { error: result.error } : {}),
+        ...(result.diagnosis ? { diagnosis: result.diagnosis.diagnosis } : {}),
+      },
+    };
+
+    await this.record(state, transition);
+  }
+
+  /**
+   * Append a transition that did not come from transition(), e.g. a pause for approval
+   */
+  async record(state: StateContext, transition: StateTransition): Promise<void> {
+    state.transitions.push(transition);
+
+    await this.logStateTransition(state.context.runId, transition);
+  }
+
   /**
    * Mark state as complete
    */
   async complete(state: StateContext): Promise<void> {
-    await this.logStateTransition({
+    await this.logStateTransition(state.context.runId, {
       type: 'COMPLETE',
       from: state,
       timestamp: new Date(),
@@ -175,26 +284,6 @@ export class StateManagementLayer {
     );
   }
 
-  /**
-   * Load repository configuration from database
-   * P2: Validação Preventiva - Verify configuration exists
-   */
-  private async loadRepositoryConfig(
-    repositoryFullName: string,
-  ): Promise<BotConfigurationState> {
-    const defaultConfig: BotConfigurationState = {
-      enableIssueTriage: true,
-      enablePRReview: true,
-      enableReleaseNotes: true,
-      requiredCRS: 95.0,
-      maxLEI: 1.0,
-      minCoverage: 90.0,
-      geminiModel: 'gemini-1.5-flash',
-    };
-
-    return defaultConfig;
-  }
-
   /**
    * Resolve all system dependencies
    * P5: Consciência Sistêmica - Verify system health
@@ -206,7 +295,7 @@ export class StateManagementLayer {
       prisma: await this.checkPrismaConnection(),
       redis: await this.checkRedisConnection(),
       github: await this.checkGitHubAPI(),
-      gemini: await this.checkGeminiAPI(),
+      llm: await this.checkLlmProvider(),
     };
 
     const allHealthy = Object.values(dependencies).every((d) => d);
@@ -240,16 +329,17 @@ export class StateManagementLayer {
 
   /**
    * Check GitHub API availability
+   * Actions need either GitHub App or personal token credentials
    */
   private async checkGitHubAPI(): Promise<boolean> {
-    return true;
+    return this.githubClient.getAuthMode() !== 'none';
   }
 
   /**
-   * Check Gemini API availability
+   * Check the default LLM provider has credentials configured
    */
-  private async checkGeminiAPI(): Promise<boolean> {
-    return true;
+  private async checkLlmProvider(): Promise<boolean> {
+    return this.llm.isAvailable();
   }
 
   /**
@@ -257,10 +347,15 @@ export class StateManagementLayer {
    * P4: Rastreabilidade Total - All state changes are logged
    * Article III: Zero Trust - Complete audit trail
    */
-  private async logStateTransition(transition: StateTransition): Promise<void> {
+  private async logStateTransition(
+    runId: string | undefined,
+    transition: StateTransition,
+  ): Promise<void> {
     this.logger.debug(
       `State Transition [${transition.type}]: ${transition.action || 'N/A'} at ${transition.timestamp.toISOString()}`,
     );
+
+    await this.agentRuns.recordTransition(runId, transition);
   }
 
   /**
@@ -271,6 +366,7 @@ export class StateManagementLayer {
     return {
       eventType: state.context.eventType,
       repository: state.context.repository.fullName,
+      tenant: state.context.tenant?.accountLogin,
       dependencies: state.dependencies,
       transitionsCount: state.transitions.length,
       executionTime: Date.now() - state.executedAt.getTime(),
@@ -279,6 +375,8 @@ export class StateManagementLayer {
         prReview: state.config.enablePRReview,
         releaseNotes: state.config.enableReleaseNotes,
       },
+      configProvenance: state.configProvenance,
+      configErrors: state.configErrors,
     };
   }
 
@@ -0,0 +1,66 @@
+import { ExecutionLayer } from './layer-4-execution';
+import { StateContext, StateManagementLayer } from './layer-3-state';
+import { ActionPlan } from './layer-2-deliberation';
+import { ActionHandler } from './actions/action-handler.interface';
+import { ActionRegistry } from './actions/action-registry';
+import { CompensationService } from './actions/compensation.service';
+import { ApprovalPolicy } from '../../approvals/approval-policy';
+import { ApprovalService } from '../../approvals/approval.service';
+
+/**
+ * Execution Layer Unit Tests
+ *
+ * Purpose: Verify only idempotent actions are retried after a failed attempt
+ * Constitutional Requirement: Article IX - Camada de Execução
+ */
+
+describe('ExecutionLayer', () => {
+  const postReview = jest.fn();
+  const fetchDiff = jest.fn();
+  const handlers: Record<string, ActionHandler> = {
+    'post-review-comment': { name: 'post-review-comment', execute: postReview },
+    'analyze-code-quality': { name: 'analyze-code-quality', idempotent: true, execute: fetchDiff },
+  };
+
+  const layer = new ExecutionLayer(
+    { recordAction: jest.fn() } as unknown as StateManagementLayer,
+    { check: jest.fn() } as unknown as ApprovalPolicy,
+    {} as ApprovalService,
+    { get: (name: string) => handlers[name] } as unknown as ActionRegistry,
+    {} as CompensationService,
+  );
+  const plan = (action: string): ActionPlan => ({
+    actions: [action],
+    reasoning: '',
+    alternatives: [],
+    selectedRationale: '',
+  });
+  const state = {} as StateContext;
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not retry an action that is not idempotent', async () => {
+    postReview.mockRejectedValue(new Error('PRAnalysis upsert failed'));
+
+    const result = await layer.execute(plan('post-review-comment'), state);
+
+    expect(postReview).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+    expect(result.results[0]).toEqual(
+      expect.objectContaining({ attemptsRequired: 1, error: 'Error: PRAnalysis upsert failed' }),
+    );
+  });
+
+  it('should retry an idempotent action once', async () => {
+    fetchDiff.mockRejectedValueOnce(new Error('socket hang up')).mockResolvedValueOnce({ crs: 90 });
+
+    const result = await layer.execute(plan('analyze-code-quality'), state);
+
+    expect(fetchDiff).toHaveBeenCalledTimes(2);
+    expect(result.results[0]).toEqual(
+      expect.objectContaining({ success: true, output: { crs: 90 }, attemptsRequired: 2 }),
+    );
+  });
+});
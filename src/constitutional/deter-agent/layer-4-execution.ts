@@ -1,6 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { StateContext } from './layer-3-state';
+import { StateContext, StateManagementLayer } from './layer-3-state';
 import { ActionPlan } from './layer-2-deliberation';
+import { ActionHandler } from './actions/action-handler.interface';
+import { ActionRegistry } from './actions/action-registry';
+import { CompensationOutcome } from './actions/compensation';
+import { CompensationService } from './actions/compensation.service';
+import { ApprovalPolicy } from '../../approvals/approval-policy';
+import { ApprovalService } from '../../approvals/approval.service';
 
 /**
  * DETER-AGENT Layer 4: Execution Layer (Operational Control)
@@ -10,6 +16,11 @@ import { ActionPlan } from './layer-2-deliberation';
  *
  * Constitutional Compliance: Verify-Fix-Execute loop with max 2 iterations
  * P6: Eficiência de Token - Diagnóstico rigoroso antes de correção
+ *
+ * Actions the ApprovalPolicy gates pause the plan until a maintainer approves them
+ * Actions are ActionHandlers looked up in the ActionRegistry; unmet preconditions fail without retry
+ * Only idempotent handlers are retried, so a failure after a GitHub write never repeats the write
+ * A transactional plan stops at its first failed action so the orchestrator can roll it back
  */
 
 export interface ActionResult {
@@ -17,6 +28,8 @@ export interface ActionResult {
   success: boolean;
   output?: unknown;
   error?: string;
+  /** Diagnosis of the last failed attempt */
+  diagnosis?: ExecutionError;
   executionTimeMs: number;
   attemptsRequired: number;
 }
@@ -28,6 +41,14 @@ export interface ExecutionResult {
   actionsCompleted: number;
   actionsFailed: number;
   executedAt: Date;
+  /** Action the plan stopped at; it and the actions after it wait for a maintainer */
+  pendingApproval?: {
+    id: string;
+    action: string;
+    reason: string;
+  };
+  /** Compensations run after a transactional plan failed, in the order they ran */
+  rollback?: CompensationOutcome[];
 }
 
 export interface ExecutionError {
@@ -43,24 +64,51 @@ export class ExecutionLayer {
   private readonly logger = new Logger(ExecutionLayer.name);
   private readonly MAX_ATTEMPTS = 2;
 
+  constructor(
+    private readonly stateLayer: StateManagementLayer,
+    private readonly approvalPolicy: ApprovalPolicy,
+    private readonly approvals: ApprovalService,
+    private readonly actions: ActionRegistry,
+    private readonly compensations: CompensationService,
+  ) {
+    // NestJS dependency injection
+  }
+
   /**
    * Execute action plan with verification and recovery
    * Article IX, Section 3: Loop Verify-Fix-Execute
+   * `approvedAction` skips the approval check when it is the first action (resumed runs)
    */
-  async execute(plan: ActionPlan, state: StateContext): Promise<ExecutionResult> {
+  async execute(
+    plan: ActionPlan,
+    state: StateContext,
+    approvedAction?: string,
+  ): Promise<ExecutionResult> {
     const startTime = Date.now();
     const results: ActionResult[] = [];
     let actionsCompleted = 0;
     let actionsFailed = 0;
+    let pendingApproval: ExecutionResult['pendingApproval'];
 
     this.logger.log(
       `Executing ${plan.actions.length} actions with constitutional compliance`,
     );
 
-    for (const action of plan.actions) {
+    for (const [index, action] of plan.actions.entries()) {
+      const approvalReason =
+        index === 0 && action === approvedAction
+          ? undefined
+          : this.approvalPolicy.check(action, state);
+
+      if (approvalReason) {
+        pendingApproval = await this.pause(plan, index, state, approvalReason);
+        break;
+      }
+
       const actionResult = await this.executeActionWithRetry(action, state);
 
       results.push(actionResult);
+      await this.stateLayer.recordAction(state, actionResult);
 
       if (actionResult.success) {
         actionsCompleted++;
@@ -78,6 +126,13 @@ export class ExecutionLayer {
           status: 'FAILED',
           timestamp: new Date(),
         });
+
+        if (plan.transactional) {
+          this.logger.warn(
+            `Transactional plan stopped at ${action}; skipped: ${plan.actions.slice(index + 1).join(', ') || 'none'}`,
+          );
+          break;
+        }
       }
     }
 
@@ -90,6 +145,7 @@ export class ExecutionLayer {
       actionsCompleted,
       actionsFailed,
       executedAt: new Date(),
+      ...(pendingApproval ? { pendingApproval } : {}),
     };
 
     this.logger.log(
@@ -99,24 +155,69 @@ export class ExecutionLayer {
     return executionResult;
   }
 
+  /**
+   * Hold the remaining actions for a maintainer's decision
+   */
+  private async pause(
+    plan: ActionPlan,
+    index: number,
+    state: StateContext,
+    reason: string,
+  ): Promise<ExecutionResult['pendingApproval']> {
+    const actions = plan.actions.slice(index);
+    const approval = await this.approvals.request(state, actions, reason, plan.transactional);
+
+    await this.stateLayer.record(state, {
+      type: 'TRANSITION',
+      action: actions[0],
+      timestamp: new Date(),
+      metadata: { awaitingApproval: approval.id, reason, deferred: actions.slice(1) },
+    });
+
+    return { id: approval.id, action: actions[0], reason };
+  }
+
   /**
    * Execute single action with retry and recovery
-   * P6: Max 2 iterations with diagnosis
+   * P6: Max 2 iterations with diagnosis (1 for handlers that are not idempotent)
    */
   private async executeActionWithRetry(
     action: string,
     state: StateContext,
   ): Promise<ActionResult> {
     const startTime = Date.now();
+    const handler = this.actions.get(action);
+    const unmet = handler ? handler.preconditions?.(state) : `Unknown action: ${action}`;
     let lastError: ExecutionError | undefined;
 
-    for (let attempt = 1; attempt <= this.MAX_ATTEMPTS; attempt++) {
+    if (!handler || unmet) {
+      this.logger.warn(`Action not attempted: ${action} - ${unmet}`);
+
+      return {
+        actionName: action,
+        success: false,
+        error: unmet,
+        diagnosis: {
+          action,
+          attempt: 0,
+          error: String(unmet),
+          diagnosis: handler ? 'Precondition not met' : 'Action not registered',
+          recoverable: false,
+        },
+        executionTimeMs: Date.now() - startTime,
+        attemptsRequired: 0,
+      };
+    }
+
+    const maxAttempts = handler.idempotent ? this.MAX_ATTEMPTS : 1;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
-        this.logger.debug(`Executing action: ${action} (attempt ${attempt}/${this.MAX_ATTEMPTS})`);
+        this.logger.debug(`Executing action: ${action} (attempt ${attempt}/${maxAttempts})`);
 
-        const output = await this.dispatchAction(action, state);
+        const output = await handler.execute(state);
 
-        const verified = await this.verifyExecution(action, output);
+        const verified = await this.verifyExecution(handler, output, state);
 
         if (!verified) {
           throw new Error(`Verification failed for action: ${action}`);
@@ -132,7 +233,7 @@ export class ExecutionLayer {
           attemptsRequired: attempt,
         };
       } catch (error) {
-        const diagnosis = await this.diagnoseError(action, error, attempt);
+        const diagnosis = await this.diagnoseError(action, error, attempt, maxAttempts);
 
         lastError = {
           action,
@@ -143,16 +244,14 @@ export class ExecutionLayer {
         };
 
         this.logger.warn(
-          `Action failed (attempt ${attempt}/${this.MAX_ATTEMPTS}): ${action} - ${diagnosis.rootCause}`,
+          `Action failed (attempt ${attempt}/${maxAttempts}): ${action} - ${diagnosis.rootCause}`,
         );
 
-        if (!diagnosis.recoverable || attempt === this.MAX_ATTEMPTS) {
+        if (!diagnosis.recoverable || attempt === maxAttempts) {
           break;
         }
 
-        if (attempt < this.MAX_ATTEMPTS) {
-          await this.applyRecoveryStrategy(diagnosis);
-        }
+        await this.applyRecoveryStrategy(diagnosis);
       }
     }
 
@@ -162,48 +261,27 @@ export class ExecutionLayer {
       actionName: action,
       success: false,
       error: lastError?.error,
+      diagnosis: lastError,
       executionTimeMs,
-      attemptsRequired: this.MAX_ATTEMPTS,
+      attemptsRequired: lastError?.attempt ?? maxAttempts,
     };
   }
 
-  /**
-   * Dispatch action to appropriate handler
-   */
-  private async dispatchAction(action: string, state: StateContext): Promise<unknown> {
-    this.logger.debug(`Dispatching action: ${action}`);
-
-    switch (action) {
-      case 'classify-issue':
-        return this.classifyIssue(state);
-      case 'suggest-labels':
-        return this.suggestLabels(state);
-      case 'calculate-priority':
-        return this.calculatePriority(state);
-      case 'post-analysis-comment':
-        return this.postAnalysisComment(state);
-      case 'analyze-code-quality':
-        return this.analyzeCodeQuality(state);
-      case 'check-security':
-        return this.checkSecurity(state);
-      case 'analyze-performance':
-        return this.analyzePerformance(state);
-      case 'post-review-comment':
-        return this.postReviewComment(state);
-      case 'log-event':
-        return this.logEvent(state);
-      default:
-        throw new Error(`Unknown action: ${action}`);
-    }
-  }
-
   /**
    * Verify that action executed correctly
    * P2: Validação Preventiva
    */
-  private async verifyExecution(action: string, output: unknown): Promise<boolean> {
+  private async verifyExecution(
+    handler: ActionHandler,
+    output: unknown,
+    state: StateContext,
+  ): Promise<boolean> {
+    if (handler.verify) {
+      return handler.verify(output, state);
+    }
+
     if (output === undefined || output === null) {
-      this.logger.warn(`Action ${action} returned undefined/null output`);
+      this.logger.warn(`Action ${handler.name} returned undefined/null output`);
       return false;
     }
 
@@ -218,6 +296,7 @@ export class ExecutionLayer {
     action: string,
     error: unknown,
     attempt: number,
+    maxAttempts: number,
   ): Promise<{ rootCause: string; recoverable: boolean; strategy?: string }> {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -253,9 +332,16 @@ export class ExecutionLayer {
       };
     }
 
+    if (errorMessage.includes('AI budget exhausted')) {
+      return {
+        rootCause: 'Installation spent its daily AI budget',
+        recoverable: false,
+      };
+    }
+
     return {
       rootCause: `Unknown error: ${errorMessage}`,
-      recoverable: attempt < this.MAX_ATTEMPTS,
+      recoverable: attempt < maxAttempts,
       strategy: 'retry',
     };
   }
@@ -280,46 +366,6 @@ export class ExecutionLayer {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
-  /**
-   * Action implementations
-   */
-  private async classifyIssue(_state: StateContext): Promise<{ classification: string }> {
-    return { classification: 'bug' };
-  }
-
-  private async suggestLabels(_state: StateContext): Promise<{ labels: string[] }> {
-    return { labels: ['bug', 'needs-triage'] };
-  }
-
-  private async calculatePriority(_state: StateContext): Promise<{ priority: string }> {
-    return { priority: 'high' };
-  }
-
-  private async postAnalysisComment(_state: StateContext): Promise<{ commentId: number }> {
-    return { commentId: 12345 };
-  }
-
-  private async analyzeCodeQuality(_state: StateContext): Promise<{ score: number }> {
-    return { score: 85 };
-  }
-
-  private async checkSecurity(_state: StateContext): Promise<{ issues: string[] }> {
-    return { issues: [] };
-  }
-
-  private async analyzePerformance(_state: StateContext): Promise<{ score: number }> {
-    return { score: 90 };
-  }
-
-  private async postReviewComment(_state: StateContext): Promise<{ commentId: number }> {
-    return { commentId: 67890 };
-  }
-
-  private async logEvent(/*state: StateContext*/ _state: StateContext): Promise<{ logged: boolean }> {
-    this.logger.log(`Event logged: ${_state.context.eventType}`);
-    return { logged: true };
-  }
-
   /**
    * Audit log for all actions
    * P4: Rastreabilidade Total
@@ -337,10 +383,61 @@ export class ExecutionLayer {
   }
 
   /**
-   * Rollback action if needed
+   * Run the recorded compensations in reverse order
    * Article IX, Section 3: Automatic Rollback
+   * Every compensation is attempted; each outcome is a transition on the run
    */
-  async rollback(action: string, _state: StateContext): Promise<void> {
-    this.logger.warn(`Rolling back action: ${action}`);
+  async rollback(state: StateContext): Promise<CompensationOutcome[]> {
+    const outcomes: CompensationOutcome[] = [];
+    const pending = state.compensations.splice(0).reverse();
+
+    this.logger.warn(
+      `Rolling back ${pending.length} change(s) on ${state.context.repository.fullName}`,
+    );
+
+    for (const compensation of pending) {
+      const outcome: CompensationOutcome = {
+        action: compensation.action,
+        type: compensation.type,
+        success: true,
+      };
+
+      try {
+        if (compensation.type === 'custom') {
+          const handler = this.actions.get(compensation.action);
+
+          if (!handler?.rollback) {
+            throw new Error(
+              `Action ${compensation.action} has no rollback for custom compensations`,
+            );
+          }
+
+          await handler.rollback(compensation, state);
+        } else {
+          await this.compensations.run(compensation);
+        }
+      } catch (error) {
+        outcome.success = false;
+        outcome.error = error instanceof Error ? error.message : String(error);
+        this.logger.error(
+          `Rollback of ${compensation.action} (${compensation.type}) failed: ${outcome.error}`,
+        );
+      }
+
+      outcomes.push(outcome);
+
+      await this.stateLayer.record(state, {
+        type: outcome.success ? 'TRANSITION' : 'ERROR',
+        action: compensation.action,
+        timestamp: new Date(),
+        metadata: {
+          rollback: compensation.type,
+          success: outcome.success,
+          ...(outcome.error ? { error: outcome.error } : {}),
+        },
+      });
+    }
+
+    return outcomes;
   }
 }
@@ -1,23 +1,41 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Optional } from '@nestjs/common';
+import { SourceLanguage } from './languages/language-pack.interface';
+import { detectLanguage, languagePack } from './languages/language-packs';
+import { TYPESCRIPT_PACK } from './languages/typescript.pack';
+import { CodeFile } from './lei-calculator.service';
+import { ConstitutionalBaseline } from './suppressions';
+import { CrsRulePack } from './crs-rules/crs-rule.interface';
+import { CrsDetectorRegistry } from './crs-rules/crs-detector-registry';
+import { DEFAULT_RULE_PACK } from './crs-rules/default-rule-pack';
 
 /**
  * CRS (Constitutional Rule Satisfaction) Calculator Service
  *
  * Purpose: Calculate Constitutional Rule Satisfaction score
- * Constitutional Requirement: CRS ≥ 95% (Article II)
+ * Constitutional Requirement: CRS ≥ the rule pack's threshold (95% by default, Article II)
  *
- * Formula: CRS = (satisfied_rules / total_rules) × 100
+ * Formula: CRS = (weight of satisfied rules / total weight) × 100
  *
- * Validates: Zero Trust, Error Handling, Audit Logging, Type Safety,
- *            Constitutional Decorators, DETER-AGENT Layers
+ * Rules come from a rule pack (DEFAULT_RULE_PACK unless the context names another): each has
+ * an id, a detector from the CrsDetectorRegistry, a weight and a required flag. The result
+ * reports the pack and version that produced it.
+ *
+ * Detectors check validation, error handling, logging, type safety and placeholders with the
+ * idioms of the code's language pack (TypeScript when no language is given).
+ * A failing rule listed in the baseline is marked `suppressed`: it counts towards the CRS and
+ * is still reported (see suppressions.ts).
+ * A required rule that fails, and is not suppressed, fails the check whatever the CRS.
  */
 
 export interface ConstitutionalRule {
   id: string;
   name: string;
+  detector: string;
   required: boolean;
   weight: number;
   satisfied: boolean;
+  /** Failing, but accepted by the baseline */
+  suppressed?: boolean;
 }
 
 export interface CRSCalculationResult {
@@ -25,246 +43,172 @@ export interface CRSCalculationResult {
   totalRules: number;
   satisfiedRules: number;
   failedRules: number;
+  suppressedRules: number;
   rules: ConstitutionalRule[];
+  /** Ids of required rules that fail and are not suppressed */
+  requiredFailures: string[];
+  /** CRS ≥ threshold and no required failures */
   passed: boolean;
   threshold: number;
+  rulePack: Pick<CrsRulePack, 'name' | 'version' | 'overridden'>;
+  /** CRS of each language's code; calculateFiles() fills one entry per language */
+  languageBreakdown: Partial<Record<SourceLanguage, number>>;
+}
+
+export interface CRSContext {
+  hasTests?: boolean;
+  hasErrorHandling?: boolean;
+  hasLogging?: boolean;
+  hasValidation?: boolean;
+  hasDeterAgent?: boolean;
+  language?: SourceLanguage;
+  baseline?: ConstitutionalBaseline;
+  /** Defaults to DEFAULT_RULE_PACK */
+  rulePack?: CrsRulePack;
+  /** Overrides the rule pack's threshold (e.g. a repository's constitution.requiredCRS) */
+  threshold?: number;
 }
 
 @Injectable()
 export class CRSCalculatorService {
-  // private readonly logger = new Logger(CRSCalculatorService.name);
-  private readonly THRESHOLD = 95.0;
-
-  /**
-   * Calculate CRS for given code and context
-   */
-  calculate(
-    code: string,
-    context?: {
-      hasTests?: boolean;
-      hasErrorHandling?: boolean;
-      hasLogging?: boolean;
-      hasValidation?: boolean;
-      hasDeterAgent?: boolean;
-    },
-  ): CRSCalculationResult {
-    const rules: ConstitutionalRule[] = [
-      {
-        id: 'ZERO_TRUST_VALIDATION',
-        name: 'Zero Trust Input Validation',
-        required: true,
-        weight: 1.0,
-        satisfied: this.checkZeroTrustValidation(code, context),
-      },
-      {
-        id: 'ERROR_HANDLING',
-        name: 'Comprehensive Error Handling',
-        required: true,
-        weight: 1.0,
-        satisfied: this.checkErrorHandling(code, context),
-      },
-      {
-        id: 'AUDIT_LOGGING',
-        name: 'Audit Logging Present',
-        required: true,
-        weight: 1.0,
-        satisfied: this.checkAuditLogging(code, context),
-      },
-      {
-        id: 'TYPE_SAFETY',
-        name: 'TypeScript Strict Mode',
-        required: true,
-        weight: 1.0,
-        satisfied: this.checkTypeSafety(code),
-      },
-      {
-        id: 'CONSTITUTIONAL_DECORATOR',
-        name: 'Constitutional Validation Decorator',
-        required: false,
-        weight: 0.5,
-        satisfied: this.checkConstitutionalDecorator(code),
-      },
-      {
-        id: 'DETER_AGENT_LAYERS',
-        name: 'DETER-AGENT Layer Implementation',
-        required: false,
-        weight: 0.5,
-        satisfied: this.checkDeterAgentLayers(code, context),
-      },
-      {
-        id: 'COMPLETE_TESTS',
-        name: 'Comprehensive Test Coverage',
-        required: true,
-        weight: 1.0,
-        satisfied: context?.hasTests ?? false,
-      },
-      {
-        id: 'NO_PLACEHOLDERS',
-        name: 'No Placeholders or TODOs',
-        required: true,
-        weight: 1.0,
-        satisfied: this.checkNoPlaceholders(code),
-      },
-    ];
-
-    const totalWeight = rules.reduce((sum, rule) => sum + rule.weight, 0);
-    const satisfiedWeight = rules
-      .filter((rule) => rule.satisfied)
-      .reduce((sum, rule) => sum + rule.weight, 0);
-
-    const crs = totalWeight > 0 ? (satisfiedWeight / totalWeight) * 100 : 0;
-
-    const satisfiedRules = rules.filter((r) => r.satisfied).length;
-    const failedRules = rules.length - satisfiedRules;
-    const passed = crs >= this.THRESHOLD;
-
-    return {
-      crs: parseFloat(crs.toFixed(2)),
-      totalRules: rules.length,
-      satisfiedRules,
-      failedRules,
-      rules,
-      passed,
-      threshold: this.THRESHOLD,
-    };
+  constructor(
+    @Optional() private readonly detectors: CrsDetectorRegistry = new CrsDetectorRegistry(),
+  ) {
+    // NestJS dependency injection
   }
 
   /**
-   * Check Zero Trust validation patterns
+   * Calculate CRS for given code and context
    */
-  private checkZeroTrustValidation(
-    code: string,
-    context?: { hasValidation?: boolean },
-  ): boolean {
-    if (context?.hasValidation) return true;
+  calculate(code: string, context?: CRSContext): CRSCalculationResult {
+    const language = context?.language ?? 'typescript';
+    const idioms = languagePack(language)?.crs ?? TYPESCRIPT_PACK.crs;
+    const pack = context?.rulePack ?? DEFAULT_RULE_PACK;
+    const rules = pack.rules.map((rule) => {
+      const detector = this.detectors.get(rule.detector);
+      const input = { code, language, idioms, context: context ?? {}, options: rule.options ?? {} };
 
-    const patterns = [
-      /validate/i,
-      /validator/i,
-      /ValidationPipe/i,
-      /Joi\.object/i,
-      /z\.object/i,
-      /@IsString|@IsNumber|@IsEmail/i,
-    ];
-
-    return patterns.some((pattern) => pattern.test(code));
-  }
-
-  /**
-   * Check error handling patterns
-   */
-  private checkErrorHandling(
-    code: string,
-    context?: { hasErrorHandling?: boolean },
-  ): boolean {
-    if (context?.hasErrorHandling) return true;
+      return {
+        id: rule.id,
+        name: rule.name ?? detector?.label?.(idioms) ?? rule.id,
+        detector: rule.detector,
+        required: rule.required,
+        weight: rule.weight,
+        // Packs are checked against the registry when loaded; an unknown detector never passes
+        satisfied: detector?.detect(input) ?? false,
+      };
+    });
 
-    const patterns = [
-      /try\s*\{/,
-      /catch\s*\(/,
-      /HttpException/i,
-      /@Catch/i,
-      /\.catch\(/,
-      /throw\s+new\s+\w+Error/,
-    ];
+    const result = this.buildResult(rules, context);
 
-    return patterns.some((pattern) => pattern.test(code));
+    return { ...result, languageBreakdown: { [language]: result.crs } };
   }
 
   /**
-   * Check audit logging patterns
+   * Calculate CRS over several files: each language's code is checked with its own idioms,
+   * and a rule holds only if it holds for every language. Files without a pack are skipped.
    */
-  private checkAuditLogging(
-    code: string,
-    context?: { hasLogging?: boolean },
-  ): boolean {
-    if (context?.hasLogging) return true;
+  calculateFiles(files: CodeFile[], context?: CRSContext): CRSCalculationResult {
+    const groups = new Map<SourceLanguage, string[]>();
 
-    const patterns = [
-      /logger\./i,
-      /this\.logger/i,
-      /winston/i,
-      /@Logger/i,
-      /\.log\(/i,
-      /\.warn\(/i,
-      /\.error\(/i,
-    ];
-
-    return patterns.some((pattern) => pattern.test(code));
-  }
+    for (const file of files) {
+      const language = detectLanguage(file.fileName);
 
-  /**
-   * Check TypeScript strict mode
-   */
-  private checkTypeSafety(code: string): boolean {
-    const hasTypeAnnotations = /:\s*(string|number|boolean|Promise<\w+>|void)/.test(code);
-    const hasNoAny = !/:\s*any/.test(code);
+      if (language !== 'unknown') {
+        groups.set(language, [...(groups.get(language) ?? []), file.code]);
+      }
+    }
 
-    return hasTypeAnnotations && hasNoAny;
-  }
+    const results = [...groups.entries()].map(([language, code]) => ({
+      language,
+      result: this.calculate(code.join('\n'), { ...context, language }),
+    }));
 
-  /**
-   * Check constitutional decorator usage
-   */
-  private checkConstitutionalDecorator(code: string): boolean {
-    const patterns = [
-      /@Constitutional/i,
-      /@ConstitutionalGuard/i,
-      /UseGuards.*Constitutional/i,
-    ];
+    if (results.length === 0) {
+      return this.buildEmptyResult(context);
+    }
 
-    return patterns.some((pattern) => pattern.test(code));
-  }
+    const rules = results[0].result.rules.map((rule, index) => ({
+      ...rule,
+      name: [...new Set(results.map(({ result }) => result.rules[index].name))].join(' / '),
+      satisfied: results.every(({ result }) => result.rules[index].satisfied),
+    }));
+    const languageBreakdown: CRSCalculationResult['languageBreakdown'] = {};
 
-  /**
-   * Check DETER-AGENT layer implementation
-   */
-  private checkDeterAgentLayers(
-    code: string,
-    context?: { hasDeterAgent?: boolean },
-  ): boolean {
-    if (context?.hasDeterAgent) return true;
-
-    const patterns = [
-      /Layer1|Layer2|Layer3|Layer4|Layer5/i,
-      /DeterAgent/i,
-      /Constitutional.*Layer/i,
-      /Deliberation.*Layer/i,
-      /State.*Layer/i,
-      /Execution.*Layer/i,
-      /Incentive.*Layer/i,
-    ];
+    for (const { language, result } of results) {
+      languageBreakdown[language] = result.crs;
+    }
 
-    return patterns.some((pattern) => pattern.test(code));
+    return { ...this.buildResult(rules, context), languageBreakdown };
   }
 
   /**
-   * Check for absence of placeholders
+   * Build empty result when there is no code to measure
    */
-  private checkNoPlaceholders(code: string): boolean {
-    const placeholderPatterns = [
-      /TODO|FIXME|HACK|XXX/i,
-      /throw new Error\(['"]Not implemented['"]\)/i,
-      /\/\/\s*@ts-ignore/i,
-    ];
-
-    return !placeholderPatterns.some((pattern) => pattern.test(code));
+  buildEmptyResult(context?: CRSContext): CRSCalculationResult {
+    return { ...this.buildResult([], context), crs: 100, passed: true, languageBreakdown: {} };
   }
 
   /**
    * Validate CRS meets constitutional requirements
    */
-  validate(crs: number): { passed: boolean; message: string } {
-    if (crs >= this.THRESHOLD) {
+  validate(
+    crs: number,
+    threshold: number = DEFAULT_RULE_PACK.threshold,
+  ): { passed: boolean; message: string } {
+    if (crs >= threshold) {
       return {
         passed: true,
-        message: `CRS ${crs.toFixed(2)}% meets constitutional requirement (≥ ${this.THRESHOLD}%)`,
+        message: `CRS ${crs.toFixed(2)}% meets constitutional requirement (≥ ${threshold}%)`,
       };
     }
 
     return {
       passed: false,
-      message: `CRS ${crs.toFixed(2)}% violates constitutional requirement (must be ≥ ${this.THRESHOLD}%)`,
+      message: `CRS ${crs.toFixed(2)}% violates constitutional requirement (must be ≥ ${threshold}%)`,
+    };
+  }
+
+  private buildResult(
+    checked: ConstitutionalRule[],
+    context?: CRSContext,
+  ): Omit<CRSCalculationResult, 'languageBreakdown'> {
+    const pack = context?.rulePack ?? DEFAULT_RULE_PACK;
+    const threshold = context?.threshold ?? pack.threshold;
+    const rules = checked.map((rule) => ({
+      ...rule,
+      suppressed: !rule.satisfied && (context?.baseline?.crs.includes(rule.id) ?? false),
+    }));
+    const totalWeight = rules.reduce((sum, rule) => sum + rule.weight, 0);
+    const satisfiedWeight = rules
+      .filter((rule) => rule.satisfied || rule.suppressed)
+      .reduce((sum, rule) => sum + rule.weight, 0);
+
+    const crs = totalWeight > 0 ? (satisfiedWeight / totalWeight) * 100 : 0;
+
+    const satisfiedRules = rules.filter((r) => r.satisfied).length;
+    const suppressedRules = rules.filter((r) => r.suppressed).length;
+    const failedRules = rules.length - satisfiedRules - suppressedRules;
+    const requiredFailures = rules
+      .filter((rule) => rule.required && !rule.satisfied && !rule.suppressed)
+      .map((rule) => rule.id);
+    const passed = crs >= threshold && requiredFailures.length === 0;
+
+    return {
+      crs: parseFloat(crs.toFixed(2)),
+      totalRules: rules.length,
+      satisfiedRules,
+      failedRules,
+      suppressedRules,
+      rules,
+      requiredFailures,
+      passed,
+      threshold,
+      rulePack: {
+        name: pack.name,
+        version: pack.version,
+        ...(pack.overridden ? { overridden: pack.overridden } : {}),
+      },
     };
   }
 }
@@ -0,0 +1,154 @@
+import { Script, createContext } from 'vm';
+import { CrsRuleDetector } from './crs-rule.interface';
+
+/**
+ * Built-in CRS Detectors
+ *
+ * Purpose: The checks behind the default rule pack, plus a regex detector for custom rules
+ * Constitutional Requirement: Article II - Padrão Pagani
+ *
+ * Validation, error handling, logging, type safety and placeholders use the idioms of the
+ * code's language pack; a context flag (e.g. hasValidation) satisfies its rule outright.
+ *
+ * pattern: options { pattern: string, flags?: string, absent?: boolean } - satisfied when the
+ * regex matches the code, or with `absent: true` when it does not. Patterns come from the
+ * repository, so they are capped at MAX_PATTERN_LENGTH, only the first MAX_PATTERN_INPUT_LENGTH
+ * characters are matched, and a match running past PATTERN_TIMEOUT_MS (catastrophic
+ * backtracking, e.g. `(a+)+$`) is cut off and the rule counts as not satisfied
+ */
+
+export const MAX_PATTERN_LENGTH = 200;
+export const MAX_PATTERN_INPUT_LENGTH = 100_000;
+export const PATTERN_TIMEOUT_MS = 50;
+
+// vm's timeout interrupts a running regex, which a plain RegExp#test on the event loop cannot be
+const PATTERN_MATCH = new Script('pattern.test(code)');
+const PATTERN_CONTEXT = createContext({});
+
+const ZERO_TRUST_VALIDATION: CrsRuleDetector = {
+  id: 'zero-trust-validation',
+  label: () => 'Zero Trust Input Validation',
+  detect: ({ code, idioms, context }) =>
+    !!context.hasValidation || idioms.validation.some((pattern) => pattern.test(code)),
+};
+
+const ERROR_HANDLING: CrsRuleDetector = {
+  id: 'error-handling',
+  label: () => 'Comprehensive Error Handling',
+  detect: ({ code, idioms, context }) =>
+    !!context.hasErrorHandling || idioms.errorHandling.some((pattern) => pattern.test(code)),
+};
+
+const AUDIT_LOGGING: CrsRuleDetector = {
+  id: 'audit-logging',
+  label: () => 'Audit Logging Present',
+  detect: ({ code, idioms, context }) =>
+    !!context.hasLogging || idioms.logging.some((pattern) => pattern.test(code)),
+};
+
+/**
+ * TypeScript strict mode, Python type hints, ...
+ */
+const TYPE_SAFETY: CrsRuleDetector = {
+  id: 'type-safety',
+  label: (idioms) => idioms.typeSafety.name,
+  detect: ({ code, idioms }) => {
+    const { required, forbidden } = idioms.typeSafety;
+    const hasTypeAnnotations =
+      required.length === 0 || required.some((pattern) => pattern.test(code));
+
+    return hasTypeAnnotations && !forbidden.some((pattern) => pattern.test(code));
+  },
+};
+
+const CONSTITUTIONAL_DECORATOR: CrsRuleDetector = {
+  id: 'constitutional-decorator',
+  label: () => 'Constitutional Validation Decorator',
+  detect: ({ code }) =>
+    [/@Constitutional/i, /@ConstitutionalGuard/i, /UseGuards.*Constitutional/i].some((pattern) =>
+      pattern.test(code),
+    ),
+};
+
+const DETER_AGENT_LAYERS: CrsRuleDetector = {
+  id: 'deter-agent-layers',
+  label: () => 'DETER-AGENT Layer Implementation',
+  detect: ({ code, context }) =>
+    !!context.hasDeterAgent ||
+    [
+      /Layer1|Layer2|Layer3|Layer4|Layer5/i,
+      /DeterAgent/i,
+      /Constitutional.*Layer/i,
+      /Deliberation.*Layer/i,
+      /State.*Layer/i,
+      /Execution.*Layer/i,
+      /Incentive.*Layer/i,
+    ].some((pattern) => pattern.test(code)),
+};
+
+const TESTS: CrsRuleDetector = {
+  id: 'tests',
+  label: () => 'Comprehensive Test Coverage',
+  detect: ({ context }) => context.hasTests ?? false,
+};
+
+const NO_PLACEHOLDERS: CrsRuleDetector = {
+  id: 'no-placeholders',
+  label: () => 'No Placeholders or TODOs',
+  detect: ({ code, idioms }) => !idioms.placeholders.some((pattern) => pattern.test(code)),
+};
+
+const PATTERN: CrsRuleDetector = {
+  id: 'pattern',
+  checkOptions: (options) => {
+    if (typeof options.pattern !== 'string' || options.pattern.length === 0) {
+      return 'options.pattern must be a regular expression';
+    }
+
+    if (options.pattern.length > MAX_PATTERN_LENGTH) {
+      return `options.pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+    }
+
+    try {
+      new RegExp(options.pattern, typeof options.flags === 'string' ? options.flags : '');
+      return undefined;
+    } catch (error) {
+      return `options.pattern is invalid: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+  detect: ({ code, options }) => {
+    const pattern = String(options.pattern);
+
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      return false;
+    }
+
+    const flags = typeof options.flags === 'string' ? options.flags.replace(/[gy]/g, '') : '';
+    let found: boolean;
+
+    PATTERN_CONTEXT.pattern = new RegExp(pattern, flags);
+    PATTERN_CONTEXT.code = code.slice(0, MAX_PATTERN_INPUT_LENGTH);
+
+    try {
+      found = PATTERN_MATCH.runInContext(PATTERN_CONTEXT, { timeout: PATTERN_TIMEOUT_MS }) === true;
+    } catch {
+      return false;
+    } finally {
+      PATTERN_CONTEXT.code = undefined;
+    }
+
+    return options.absent === true ? !found : found;
+  },
+};
+
+export const BUILT_IN_DETECTORS: CrsRuleDetector[] = [
+  ZERO_TRUST_VALIDATION,
+  ERROR_HANDLING,
+  AUDIT_LOGGING,
+  TYPE_SAFETY,
+  CONSTITUTIONAL_DECORATOR,
+  DETER_AGENT_LAYERS,
+  TESTS,
+  NO_PLACEHOLDERS,
+  PATTERN,
+];
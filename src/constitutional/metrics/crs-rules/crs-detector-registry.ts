@@ -0,0 +1,79 @@
+import { Injectable, Logger, OnModuleInit, Optional } from '@nestjs/common';
+import { DiscoveryService, Reflector } from '@nestjs/core';
+import { BUILT_IN_DETECTORS } from './built-in-detectors';
+import { CRS_DETECTOR, CrsRuleDefinition, CrsRuleDetector } from './crs-rule.interface';
+
+/**
+ * CRS Detector Registry
+ *
+ * Purpose: Every detector a rule pack can refer to
+ * Constitutional Requirement: P2 Validação Preventiva - a rule with an unknown detector is
+ * rejected when its pack is loaded, not skipped when the CRS is calculated
+ *
+ * The built-in detectors are registered on construction, so `new CrsDetectorRegistry()` works
+ * outside Nest (scripts, unit tests). Providers marked with @CrsDetector() are added on module
+ * init. Ids are unique: a second detector for an id is a startup error.
+ */
+
+@Injectable()
+export class CrsDetectorRegistry implements OnModuleInit {
+  private readonly logger = new Logger(CrsDetectorRegistry.name);
+  private readonly detectors = new Map<string, CrsRuleDetector>();
+
+  constructor(
+    @Optional() private readonly discovery?: DiscoveryService,
+    @Optional() private readonly reflector?: Reflector,
+  ) {
+    // NestJS dependency injection
+    BUILT_IN_DETECTORS.forEach((detector) => this.register(detector));
+  }
+
+  onModuleInit(): void {
+    if (!this.discovery || !this.reflector) {
+      return;
+    }
+
+    for (const { instance, metatype } of this.discovery.getProviders()) {
+      if (
+        instance &&
+        typeof metatype === 'function' &&
+        this.reflector.get(CRS_DETECTOR, metatype)
+      ) {
+        this.register(instance as CrsRuleDetector);
+      }
+    }
+
+    this.logger.log(`CRS detectors registered: ${this.ids().join(', ')}`);
+  }
+
+  register(detector: CrsRuleDetector): void {
+    if (this.detectors.has(detector.id)) {
+      throw new Error(`CRS detector ${detector.id} is registered twice`);
+    }
+
+    this.detectors.set(detector.id, detector);
+  }
+
+  get(id: string): CrsRuleDetector | undefined {
+    return this.detectors.get(id);
+  }
+
+  ids(): string[] {
+    return [...this.detectors.keys()];
+  }
+
+  /**
+   * Why the rule cannot be evaluated, or undefined when it can
+   */
+  check(rule: CrsRuleDefinition): string | undefined {
+    const detector = this.detectors.get(rule.detector);
+
+    if (!detector) {
+      return `Rule ${rule.id}: unknown detector '${rule.detector}' (registered: ${this.ids().join(', ')})`;
+    }
+
+    const problem = detector.checkOptions?.(rule.options ?? {});
+
+    return problem ? `Rule ${rule.id}: ${problem}` : undefined;
+  }
+}
@@ -0,0 +1,71 @@
+import { SetMetadata } from '@nestjs/common';
+import { CrsIdioms, SourceLanguage } from '../languages/language-pack.interface';
+import { CRSContext } from '../crs-calculator.service';
+
+/**
+ * CRS Rule Contract
+ *
+ * Purpose: Constitutional rules as data - which detector, how much it weighs, whether it is required
+ * Constitutional Requirement: Article II - CRS ≥ the rule pack's threshold
+ *
+ * A rule pack is a named, versioned list of rules with its own threshold. Detectors hold the
+ * checks; they are Nest providers marked with @CrsDetector(), so an organization can add checks
+ * of its own (e.g. "uses the internal audit client") without touching the calculator.
+ */
+
+export const CRS_DETECTOR = 'crs:detector';
+
+export interface CrsRuleDefinition {
+  /** Rule id reported in results and listed in baselines, e.g. 'ZERO_TRUST_VALIDATION' */
+  id: string;
+  /** Defaults to the detector's label */
+  name?: string;
+  /** Id of a registered detector, e.g. 'error-handling' or 'pattern' */
+  detector: string;
+  weight: number;
+  required: boolean;
+  /** Detector settings, e.g. { pattern: 'auditClient\\.' } for the pattern detector */
+  options?: Record<string, unknown>;
+}
+
+export interface CrsRulePack {
+  /** Owner-qualified name, e.g. 'vertice/default' or 'acme/security' */
+  name: string;
+  version: string;
+  /** Minimum CRS (%) */
+  threshold: number;
+  rules: CrsRuleDefinition[];
+  /** Ids of rules the repository added, changed or dropped */
+  overridden?: string[];
+}
+
+/**
+ * A repository's change to its rule pack: a new rule (all fields), an override of an existing
+ * rule's fields (id plus the fields to change), or `enabled: false` to drop a rule
+ */
+export type CrsRuleOverride = Partial<CrsRuleDefinition> & { id: string; enabled?: boolean };
+
+export interface CrsDetectorInput {
+  code: string;
+  language: SourceLanguage;
+  /** Idioms of the code's language pack */
+  idioms: CrsIdioms;
+  context: CRSContext;
+  /** The rule's options ({} when it has none) */
+  options: Record<string, unknown>;
+}
+
+export interface CrsRuleDetector {
+  /** Id rule definitions refer to, e.g. 'audit-logging' */
+  readonly id: string;
+  /** Rule name when the definition has none */
+  label?(idioms: CrsIdioms): string;
+  /** Why `options` are unusable, checked when a pack is loaded */
+  checkOptions?(options: Record<string, unknown>): string | undefined;
+  detect(input: CrsDetectorInput): boolean;
+}
+
+/**
+ * Register the provider as a CRS detector
+ */
+export const CrsDetector = (): ClassDecorator => SetMetadata(CRS_DETECTOR, true);
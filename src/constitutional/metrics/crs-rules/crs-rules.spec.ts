@@ -0,0 +1,180 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CRSCalculatorService } from '../crs-calculator.service';
+import { BUILT_IN_DETECTORS, MAX_PATTERN_LENGTH } from './built-in-detectors';
+import { CrsDetectorRegistry } from './crs-detector-registry';
+import { CrsDetector, CrsDetectorInput, CrsRuleDetector } from './crs-rule.interface';
+import { DEFAULT_RULE_PACK } from './default-rule-pack';
+import { applyRuleOverrides } from './rule-pack';
+
+/**
+ * CRS Rule Engine Unit Tests
+ *
+ * Purpose: Verify CRS follows the rule pack, its overrides and DI-registered detectors
+ * Constitutional Requirement: Article II - CRS ≥ the rule pack's threshold
+ */
+
+@Injectable()
+@CrsDetector()
+class AuditClientDetector implements CrsRuleDetector {
+  readonly id = 'acme-audit-client';
+
+  detect({ code }: CrsDetectorInput): boolean {
+    return code.includes('auditClient.record(');
+  }
+}
+
+describe('CRS rule packs', () => {
+  it('should score a repository pack with overrides and report the pack and version', () => {
+    const crs = new CRSCalculatorService();
+    const { pack, errors } = applyRuleOverrides(
+      { ...DEFAULT_RULE_PACK, name: 'acme/service', version: '2.1.0', threshold: 80 },
+      [
+        { id: 'CONSTITUTIONAL_DECORATOR', enabled: false },
+        { id: 'DETER_AGENT_LAYERS', enabled: false },
+        { id: 'COMPLETE_TESTS', required: false, weight: 0.5 },
+        {
+          id: 'NO_CONSOLE',
+          detector: 'pattern',
+          weight: 1,
+          required: true,
+          options: { pattern: 'console\\.log', absent: true },
+        },
+      ],
+    );
+    const code = [
+      'export function handle(input: string): string {',
+      '  try {',
+      '    this.logger.log(validate(input));',
+      '    return input;',
+      '  } catch (error) {',
+      '    console.log(error);',
+      '    throw error;',
+      '  }',
+      '}',
+    ].join('\n');
+
+    const result = crs.calculate(code, { rulePack: pack });
+
+    expect(errors).toEqual([]);
+    expect(result.rules.map((rule) => [rule.id, rule.satisfied])).toEqual([
+      ['ZERO_TRUST_VALIDATION', true],
+      ['ERROR_HANDLING', true],
+      ['AUDIT_LOGGING', true],
+      ['TYPE_SAFETY', true],
+      ['COMPLETE_TESTS', false],
+      ['NO_PLACEHOLDERS', true],
+      ['NO_CONSOLE', false],
+    ]);
+    expect(result.crs).toBe(76.92);
+    expect(result.threshold).toBe(80);
+    expect(result.passed).toBe(false);
+    expect(result.rulePack).toEqual({
+      name: 'acme/service',
+      version: '2.1.0',
+      overridden: [
+        'CONSTITUTIONAL_DECORATOR',
+        'DETER_AGENT_LAYERS',
+        'COMPLETE_TESTS',
+        'NO_CONSOLE',
+      ],
+    });
+    expect(crs.calculate(code).rulePack).toEqual({ name: 'vertice/default', version: '1.0.0' });
+  });
+
+  it('should fail on a required rule above the threshold unless the baseline accepts it', () => {
+    const crs = new CRSCalculatorService();
+    const rulePack = {
+      name: 'acme/service',
+      version: '1.0.0',
+      threshold: 50,
+      rules: [
+        { id: 'ERROR_HANDLING', detector: 'error-handling', weight: 3, required: false },
+        { id: 'TYPE_SAFETY', detector: 'type-safety', weight: 3, required: false },
+        {
+          id: 'NO_EVAL',
+          detector: 'pattern',
+          weight: 1,
+          required: true,
+          options: { pattern: '\\beval\\(', absent: true },
+        },
+      ],
+    };
+    const code = [
+      'export function run(input: string): unknown {',
+      '  try {',
+      '    return eval(input);',
+      '  } catch (error) {',
+      '    throw error;',
+      '  }',
+      '}',
+    ].join('\n');
+
+    const result = crs.calculate(code, { rulePack });
+    const baselined = crs.calculate(code, {
+      rulePack,
+      baseline: { version: 1, lei: [], crs: ['NO_EVAL'] },
+    });
+
+    expect(result.crs).toBe(85.71);
+    expect(result.requiredFailures).toEqual(['NO_EVAL']);
+    expect(result.passed).toBe(false);
+    expect(baselined.requiredFailures).toEqual([]);
+    expect(baselined.passed).toBe(true);
+  });
+
+  it('should refuse long patterns and cut off catastrophic backtracking', () => {
+    const detector = BUILT_IN_DETECTORS.find((d) => d.id === 'pattern');
+    const crs = new CRSCalculatorService();
+    const rulePack = {
+      name: 'acme/redos',
+      version: '1.0.0',
+      threshold: 100,
+      rules: [
+        {
+          id: 'NO_REDOS',
+          detector: 'pattern',
+          weight: 1,
+          required: true,
+          options: { pattern: '(a+)+$', absent: true },
+        },
+      ],
+    };
+    const startedAt = Date.now();
+
+    const result = crs.calculate(`${'a'.repeat(40)}!`, { rulePack });
+
+    expect(detector?.checkOptions?.({ pattern: 'a'.repeat(MAX_PATTERN_LENGTH + 1) })).toContain(
+      `at most ${MAX_PATTERN_LENGTH} characters`,
+    );
+    expect(result.rules[0].satisfied).toBe(false);
+    expect(result.passed).toBe(false);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it('should evaluate rules with detectors registered through DI', async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [CrsDetectorRegistry, CRSCalculatorService, AuditClientDetector],
+    }).compile();
+    await module.init();
+
+    const registry = module.get(CrsDetectorRegistry);
+    const crs = module.get(CRSCalculatorService);
+    const rulePack = {
+      name: 'acme/audit',
+      version: '1.0.0',
+      threshold: 100,
+      rules: [{ id: 'AUDIT_CLIENT', detector: 'acme-audit-client', weight: 1, required: true }],
+    };
+
+    expect(registry.check(rulePack.rules[0])).toBeUndefined();
+    expect(registry.check({ ...rulePack.rules[0], detector: 'missing' })).toContain(
+      "unknown detector 'missing'",
+    );
+    expect(crs.calculate('auditClient.record(event);', { rulePack }).passed).toBe(true);
+    expect(crs.calculate('logger.log(event);', { rulePack }).passed).toBe(false);
+    expect(() => registry.register(new AuditClientDetector())).toThrow('registered twice');
+  });
+});
@@ -0,0 +1,32 @@
+import { CrsRulePack } from './crs-rule.interface';
+
+/**
+ * Default CRS Rule Pack
+ *
+ * Purpose: The rules every repository is held to unless it selects another pack
+ * Constitutional Requirement: CRS ≥ 95% (Article II)
+ *
+ * Bump the version whenever a rule, weight or the threshold changes: reviews report the
+ * pack and version that produced their CRS.
+ */
+
+export const DEFAULT_RULE_PACK: CrsRulePack = {
+  name: 'vertice/default',
+  version: '1.0.0',
+  threshold: 95.0,
+  rules: [
+    { id: 'ZERO_TRUST_VALIDATION', detector: 'zero-trust-validation', weight: 1.0, required: true },
+    { id: 'ERROR_HANDLING', detector: 'error-handling', weight: 1.0, required: true },
+    { id: 'AUDIT_LOGGING', detector: 'audit-logging', weight: 1.0, required: true },
+    { id: 'TYPE_SAFETY', detector: 'type-safety', weight: 1.0, required: true },
+    {
+      id: 'CONSTITUTIONAL_DECORATOR',
+      detector: 'constitutional-decorator',
+      weight: 0.5,
+      required: false,
+    },
+    { id: 'DETER_AGENT_LAYERS', detector: 'deter-agent-layers', weight: 0.5, required: false },
+    { id: 'COMPLETE_TESTS', detector: 'tests', weight: 1.0, required: true },
+    { id: 'NO_PLACEHOLDERS', detector: 'no-placeholders', weight: 1.0, required: true },
+  ],
+};
@@ -0,0 +1,216 @@
+import { CrsRuleDefinition, CrsRuleOverride, CrsRulePack } from './crs-rule.interface';
+
+/**
+ * Rule Pack Parsing
+ *
+ * Purpose: Turn rule packs and repository rule lists from YAML into checked definitions
+ * Constitutional Requirement: P2 Validação Preventiva - malformed rules are reported, never applied
+ *
+ * Pack file (published by an organization in its `.github` repository):
+ *   name: acme/security
+ *   version: 1.2.0
+ *   threshold: 90
+ *   rules:
+ *     - { id: AUDIT_CLIENT, detector: pattern, weight: 1, required: true,
+ *         options: { pattern: 'auditClient\.' } }
+ *
+ * Repositories select a pack with a reference "<owner>/<name>[@<version>]"; the pack is read
+ * from `.vertice/rule-packs/<name>.yml` in the owner's `.github` repository.
+ *
+ * These checks are structural; whether a detector exists is the CrsDetectorRegistry's call.
+ */
+
+export const RULE_ID_PATTERN = /^[A-Za-z][A-Za-z0-9_-]{0,99}$/;
+
+export const RULE_PACK_REFERENCE_PATTERN =
+  /^([A-Za-z0-9-]+)\/([A-Za-z0-9._-]+)(?:@([A-Za-z0-9._-]+))?$/;
+
+export interface RulePackReference {
+  owner: string;
+  name: string;
+  /** Unset: whatever version the pack file declares */
+  version?: string;
+}
+
+export interface ParsedRulePack {
+  pack?: CrsRulePack;
+  errors: string[];
+}
+
+export interface ParsedRuleOverrides {
+  rules: CrsRuleOverride[];
+  errors: string[];
+}
+
+export function parseRulePackReference(reference: string): RulePackReference | undefined {
+  const match = RULE_PACK_REFERENCE_PATTERN.exec(reference.trim());
+
+  return match ? { owner: match[1], name: match[2], version: match[3] } : undefined;
+}
+
+/**
+ * Parse a rule pack document
+ */
+export function parseRulePack(raw: unknown): ParsedRulePack {
+  if (!isRecord(raw)) {
+    return { errors: ['Expected a mapping with name, version, threshold and rules'] };
+  }
+
+  const errors: string[] = [];
+
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+    errors.push('name must be a non-empty string');
+  }
+
+  if (typeof raw.version !== 'string' && typeof raw.version !== 'number') {
+    errors.push('version must be a string');
+  }
+
+  if (typeof raw.threshold !== 'number' || raw.threshold < 0 || raw.threshold > 100) {
+    errors.push('threshold must be a number between 0 and 100');
+  }
+
+  const parsed = parseRuleOverrides(raw.rules, 'rules');
+  const rules = parsed.rules.filter((rule): rule is CrsRuleDefinition => {
+    const missing = missingFields(rule);
+
+    if (missing.length > 0) {
+      errors.push(`Rule ${rule.id}: missing ${missing.join(', ')}`);
+    }
+
+    return missing.length === 0;
+  });
+
+  errors.push(...parsed.errors);
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    pack: {
+      name: String(raw.name).trim(),
+      version: String(raw.version),
+      threshold: raw.threshold as number,
+      rules,
+    },
+    errors,
+  };
+}
+
+/**
+ * Parse a list of rules; entries may be partial (overrides of rules the pack already has)
+ */
+export function parseRuleOverrides(raw: unknown, path: string): ParsedRuleOverrides {
+  if (!Array.isArray(raw)) {
+    return { rules: [], errors: [`${path} must be a list of rules`] };
+  }
+
+  const rules: CrsRuleOverride[] = [];
+  const errors: string[] = [];
+
+  raw.forEach((entry, index) => {
+    const at = `${path}[${index}]`;
+    const problems = checkRuleFields(entry);
+
+    if (problems.length > 0) {
+      errors.push(...problems.map((problem) => `${at}: ${problem}`));
+    } else if (rules.some((rule) => rule.id === (entry as CrsRuleOverride).id)) {
+      errors.push(`${at}: duplicate rule id '${(entry as CrsRuleOverride).id}'`);
+    } else {
+      rules.push(entry as CrsRuleOverride);
+    }
+  });
+
+  return { rules, errors };
+}
+
+/**
+ * Apply a repository's rules to a pack: rules with a known id override its fields,
+ * `enabled: false` drops it, and unknown ids must be complete definitions
+ */
+export function applyRuleOverrides(
+  pack: CrsRulePack,
+  overrides: CrsRuleOverride[],
+): { pack: CrsRulePack; errors: string[] } {
+  const rules = [...pack.rules];
+  const overridden: string[] = [];
+  const errors: string[] = [];
+
+  for (const { enabled, ...override } of overrides) {
+    const index = rules.findIndex((rule) => rule.id === override.id);
+    const merged = { ...rules[index], ...override } as CrsRuleDefinition;
+    const missing = missingFields(merged);
+
+    if (enabled === false) {
+      if (index >= 0) {
+        rules.splice(index, 1);
+        overridden.push(override.id);
+      }
+    } else if (missing.length > 0) {
+      errors.push(`Rule ${override.id}: not in ${pack.name}, so it needs ${missing.join(', ')}`);
+    } else {
+      rules.splice(index >= 0 ? index : rules.length, index >= 0 ? 1 : 0, merged);
+      overridden.push(override.id);
+    }
+  }
+
+  return {
+    pack: overridden.length > 0 ? { ...pack, rules, overridden } : pack,
+    errors,
+  };
+}
+
+/**
+ * Problems with one rule entry's fields (none: the entry is a valid override)
+ */
+export function checkRuleFields(entry: unknown): string[] {
+  if (!isRecord(entry)) {
+    return ['expected a mapping'];
+  }
+
+  const problems: string[] = [];
+  const known = ['id', 'name', 'detector', 'weight', 'required', 'options', 'enabled'];
+
+  if (typeof entry.id !== 'string' || !RULE_ID_PATTERN.test(entry.id)) {
+    problems.push('id must be a letter followed by up to 99 letters, digits, _ or -');
+  }
+
+  problems.push(
+    ...Object.keys(entry)
+      .filter((key) => !known.includes(key))
+      .map((key) => `unknown key '${key}'`),
+  );
+
+  if (entry.name !== undefined && typeof entry.name !== 'string') {
+    problems.push('name must be a string');
+  }
+
+  if (entry.detector !== undefined && typeof entry.detector !== 'string') {
+    problems.push('detector must be a string');
+  }
+
+  if (entry.weight !== undefined && (typeof entry.weight !== 'number' || entry.weight < 0)) {
+    problems.push('weight must be a number ≥ 0');
+  }
+
+  for (const key of ['required', 'enabled']) {
+    if (entry[key] !== undefined && typeof entry[key] !== 'boolean') {
+      problems.push(`${key} must be true or false`);
+    }
+  }
+
+  if (entry.options !== undefined && !isRecord(entry.options)) {
+    problems.push('options must be a mapping');
+  }
+
+  return problems;
+}
+
+function missingFields(rule: Partial<CrsRuleDefinition>): string[] {
+  return (['detector', 'weight', 'required'] as const).filter((key) => rule[key] === undefined);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
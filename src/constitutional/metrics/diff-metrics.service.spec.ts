@@ -0,0 +1,121 @@
+import { DiffMetricsService } from './diff-metrics.service';
+import { LEICalculatorService } from './lei-calculator.service';
+import { CRSCalculatorService } from './crs-calculator.service';
+import { FPCCalculatorService } from './fpc-calculator.service';
+import { fingerprint } from './suppressions';
+
+/**
+ * Diff Metrics Unit Tests
+ *
+ * Purpose: Verify metrics judge the changed hunks only, numbered as in the file
+ * Constitutional Requirement: Article II - Padrão Pagani (LEI < 1.0)
+ */
+
+describe('DiffMetricsService', () => {
+  const service = new DiffMetricsService(
+    new LEICalculatorService(),
+    new CRSCalculatorService(),
+    new FPCCalculatorService(),
+  );
+
+  it('should report introduced patterns per hunk with file line numbers', () => {
+    const patch = [
+      '@@ -1,2 +1,3 @@',
+      ' // TODO: pre-existing debt',
+      '+export const retries = 3;',
+      ' export const delay = 100;',
+      '@@ -40,3 +41,4 @@ export function retry() {',
+      ' export function backoff(attempt: number): number {',
+      '+  // FIXME: cap the delay',
+      '   return delay * 2 ** attempt;',
+      ' }',
+    ].join('\n');
+
+    const result = service.calculate([{ filename: 'src/retry.ts', status: 'modified', patch }]);
+    const [file] = result.files;
+
+    expect(result.addedLines).toBe(2);
+    expect(result.introduced).toEqual([
+      expect.objectContaining({
+        type: 'TODO_COMMENT',
+        filename: 'src/retry.ts',
+        line: 42,
+        hunk: '@@ -40,3 +41,4 @@',
+        range: expect.objectContaining({ start: { line: 42, column: 3 } }),
+      }),
+    ]);
+    expect(file.hunks.map((hunk) => [hunk.newStart, hunk.addedLines, hunk.lei])).toEqual([
+      [1, 1, 0],
+      [41, 1, 1000],
+    ]);
+    expect(file.lei).toBe(500);
+  });
+
+  it('should report resolved patterns and cancel lines that only moved', () => {
+    const patch = [
+      '@@ -1,4 +1,4 @@',
+      '-// TODO: drop the legacy path',
+      '-// FIXME: flaky on CI',
+      ' export const enabled = true;',
+      '+// FIXME: flaky on CI',
+      ' export const retries = 3;',
+    ].join('\n');
+
+    const result = service.calculate([{ filename: 'src/flags.ts', status: 'modified', patch }]);
+
+    expect(result.introduced).toEqual([]);
+    expect(result.resolved).toEqual([
+      expect.objectContaining({ line: 1, code: '// TODO: drop the legacy path' }),
+    ]);
+    expect(result.lei).toBe(0);
+  });
+
+  it('should count deleted files as resolved debt without making them features', () => {
+    const result = service.calculate([
+      {
+        filename: 'worker/legacy.py',
+        status: 'removed',
+        patch: '@@ -1,2 +0,0 @@\n-def run(job):\n-    pass',
+      },
+      {
+        filename: 'worker/run.py',
+        status: 'added',
+        patch: '@@ -0,0 +1,2 @@\n+def run(job):\n+    return job.execute()',
+      },
+    ]);
+
+    expect(result.resolved).toEqual([
+      expect.objectContaining({ type: 'EMPTY_FUNCTION', filename: 'worker/legacy.py', line: 1 }),
+    ]);
+    expect(result.introduced).toEqual([]);
+    expect(result.files.map((file) => file.language)).toEqual(['python', 'python']);
+    expect(result.fpc).toBe(100);
+  });
+
+  it("should suppress findings the repository's baseline lists", () => {
+    const code = '// TODO: replace the legacy client';
+    const baseline = {
+      version: 1 as const,
+      lei: [
+        {
+          fingerprint: fingerprint('src/client.ts', 'TODO_COMMENT', code),
+          file: 'src/client.ts',
+          type: 'TODO_COMMENT',
+          code,
+        },
+      ],
+      crs: [],
+    };
+
+    const result = service.calculate(
+      [{ filename: 'src/client.ts', status: 'modified', patch: `@@ -1,0 +1,1 @@\n+${code}` }],
+      { baseline },
+    );
+
+    expect(result.introduced).toEqual([]);
+    expect(result.suppressed).toEqual([
+      expect.objectContaining({ type: 'TODO_COMMENT', line: 1, suppressedBy: 'baseline' }),
+    ]);
+    expect(result.lei).toBe(0);
+  });
+});
@@ -0,0 +1,264 @@
+import { Injectable } from '@nestjs/common';
+import {
+  CodeFile,
+  LEICalculatorService,
+  LazyPattern,
+  SuppressedPattern,
+} from './lei-calculator.service';
+import { CRSCalculationResult, CRSCalculatorService, CRSContext } from './crs-calculator.service';
+import { FeatureDefinition, FPCCalculatorService } from './fpc-calculator.service';
+import { SourceLanguage } from './languages/language-pack.interface';
+import { detectLanguage } from './languages/language-packs';
+import { ConstitutionalBaseline } from './suppressions';
+import { DiffHunk, DiffLine, changedCount, parsePatch, sideText } from './unified-diff';
+
+/**
+ * Diff Metrics Service
+ *
+ * Purpose: Measure LEI, CRS and FPC on the hunks a change touches, not on whole files
+ * Constitutional Requirement: Article II - Padrão Pagani (a pull request answers for its own debt)
+ *
+ * Introduced: lazy patterns on added lines (new side of each hunk)
+ * Resolved: lazy patterns on removed lines (old side), including files the change deletes
+ * A line that is moved or re-indented with its pattern cancels out: same type, same code, same file.
+ * Suppressed: patterns on added lines that a `vertice-allow` comment or the context's baseline
+ * accepts; listed, not counted.
+ *
+ * LEI = introduced / added lines × 1000, per hunk, per file and overall
+ * CRS runs on the new side of hunks with additions, with the context's rule pack and threshold;
+ * FPC counts each changed file as a feature, complete when it introduces no lazy pattern.
+ */
+
+export interface FilePatch {
+  filename: string;
+  status: string;
+  patch?: string;
+}
+
+export interface DiffLazyPattern extends LazyPattern {
+  filename: string;
+  /** Header of the hunk the pattern was found in */
+  hunk: string;
+}
+
+export type DiffSuppressedPattern = DiffLazyPattern & SuppressedPattern;
+
+export interface HunkMetrics {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  addedLines: number;
+  removedLines: number;
+  lei: number;
+  introduced: DiffLazyPattern[];
+  resolved: DiffLazyPattern[];
+  suppressed: DiffSuppressedPattern[];
+}
+
+export interface FileDiffMetrics {
+  filename: string;
+  status: string;
+  language: SourceLanguage;
+  addedLines: number;
+  removedLines: number;
+  lei: number;
+  introduced: DiffLazyPattern[];
+  resolved: DiffLazyPattern[];
+  suppressed: DiffSuppressedPattern[];
+  hunks: HunkMetrics[];
+}
+
+export interface DiffMetricsResult {
+  lei: number;
+  crs: number;
+  crsThreshold: number;
+  /** CRS ≥ threshold and every required rule satisfied or suppressed */
+  crsPassed: boolean;
+  crsRequiredFailures: string[];
+  /** Rule pack and version the CRS was calculated with */
+  rulePack: CRSCalculationResult['rulePack'];
+  fpc: number;
+  addedLines: number;
+  removedLines: number;
+  introduced: DiffLazyPattern[];
+  resolved: DiffLazyPattern[];
+  suppressed: DiffSuppressedPattern[];
+  files: FileDiffMetrics[];
+}
+
+@Injectable()
+export class DiffMetricsService {
+  constructor(
+    private readonly leiCalculator: LEICalculatorService,
+    private readonly crsCalculator: CRSCalculatorService,
+    private readonly fpcCalculator: FPCCalculatorService,
+  ) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Measure the changed hunks of each file patch
+   */
+  calculate(patches: FilePatch[], context?: CRSContext): DiffMetricsResult {
+    const parsed = patches.map((file) => ({ file, hunks: parsePatch(file.patch) }));
+    const files = parsed.map(({ file, hunks }) => this.measureFile(file, hunks, context?.baseline));
+    const changed = files.filter((file) => file.status !== 'removed');
+
+    const addedLines = files.reduce((sum, file) => sum + file.addedLines, 0);
+    const introduced = files.flatMap((file) => file.introduced);
+
+    const changedCode: CodeFile[] = parsed
+      .filter(({ file }) => file.status !== 'removed')
+      .flatMap(({ file, hunks }) =>
+        hunks
+          .filter((hunk) => changedCount(hunk.after) > 0)
+          .map((hunk) => ({ fileName: file.filename, code: sideText(hunk.after) })),
+      );
+
+    const features: FeatureDefinition[] = changed.map((file) => ({
+      id: file.filename,
+      name: file.filename,
+      category: 'changed_files',
+      language: file.language,
+      required: true,
+      implemented: true,
+      completeness: file.introduced.length > 0 ? 50 : 100,
+    }));
+
+    const crs = this.crsCalculator.calculateFiles(changedCode, context);
+
+    return {
+      lei: this.leiCalculator.summarize(addedLines, introduced.length).lei,
+      crs: crs.crs,
+      crsThreshold: crs.threshold,
+      crsPassed: crs.passed,
+      crsRequiredFailures: crs.requiredFailures,
+      rulePack: crs.rulePack,
+      fpc: features.length > 0 ? this.fpcCalculator.calculate(features).fpc : 100,
+      addedLines,
+      removedLines: files.reduce((sum, file) => sum + file.removedLines, 0),
+      introduced,
+      resolved: files.flatMap((file) => file.resolved),
+      suppressed: files.flatMap((file) => file.suppressed),
+      files,
+    };
+  }
+
+  private measureFile(
+    file: FilePatch,
+    hunks: DiffHunk[],
+    baseline?: ConstitutionalBaseline,
+  ): FileDiffMetrics {
+    const found = hunks.map((hunk) => {
+      const after = this.findOnChangedLines(file.filename, hunk.header, hunk.after, baseline);
+      const before = this.findOnChangedLines(file.filename, hunk.header, hunk.before, baseline);
+
+      return {
+        hunk,
+        introduced: after.patterns,
+        suppressed: after.suppressed,
+        resolved: before.patterns,
+      };
+    });
+    const kept = cancelMoved(
+      found.flatMap((entry) => entry.introduced),
+      found.flatMap((entry) => entry.resolved),
+    );
+
+    const hunkMetrics = found.map(({ hunk, introduced, resolved, suppressed }) => {
+      const addedLines = changedCount(hunk.after);
+      const hunkIntroduced = introduced.filter((pattern) => kept.has(pattern));
+
+      return {
+        header: hunk.header,
+        oldStart: hunk.oldStart,
+        oldLines: hunk.oldLines,
+        newStart: hunk.newStart,
+        newLines: hunk.newLines,
+        addedLines,
+        removedLines: changedCount(hunk.before),
+        lei: this.leiCalculator.summarize(addedLines, hunkIntroduced.length).lei,
+        introduced: hunkIntroduced,
+        resolved: resolved.filter((pattern) => kept.has(pattern)),
+        suppressed,
+      };
+    });
+
+    const addedLines = hunkMetrics.reduce((sum, hunk) => sum + hunk.addedLines, 0);
+    const introduced = hunkMetrics.flatMap((hunk) => hunk.introduced);
+
+    return {
+      filename: file.filename,
+      status: file.status,
+      language: detectLanguage(file.filename),
+      addedLines,
+      removedLines: hunkMetrics.reduce((sum, hunk) => sum + hunk.removedLines, 0),
+      lei: this.leiCalculator.summarize(addedLines, introduced.length).lei,
+      introduced,
+      resolved: hunkMetrics.flatMap((hunk) => hunk.resolved),
+      suppressed: hunkMetrics.flatMap((hunk) => hunk.suppressed),
+      hunks: hunkMetrics,
+    };
+  }
+
+  /**
+   * Scan one side of a hunk (context included) and keep the findings on changed lines,
+   * renumbered to the file
+   */
+  private findOnChangedLines(
+    filename: string,
+    header: string,
+    lines: DiffLine[],
+    baseline?: ConstitutionalBaseline,
+  ): { patterns: DiffLazyPattern[]; suppressed: DiffSuppressedPattern[] } {
+    if (changedCount(lines) === 0) {
+      return { patterns: [], suppressed: [] };
+    }
+
+    const result = this.leiCalculator.calculate(sideText(lines), filename, baseline);
+    const relocate = <T extends LazyPattern>(patterns: T[]): (T & DiffLazyPattern)[] =>
+      patterns
+        .filter((pattern) => lines[pattern.line - 1]?.kind === 'changed')
+        .map((pattern) => {
+          const offset = lines[pattern.line - 1].line - pattern.line;
+
+          return {
+            ...pattern,
+            line: pattern.line + offset,
+            range: pattern.range && {
+              start: { ...pattern.range.start, line: pattern.range.start.line + offset },
+              end: { ...pattern.range.end, line: pattern.range.end.line + offset },
+            },
+            filename,
+            hunk: header,
+          };
+        });
+
+    return { patterns: relocate(result.patterns), suppressed: relocate(result.suppressed) };
+  }
+}
+
+/**
+ * Pair an introduced and a resolved pattern with the same type and code: the line moved
+ * Returns the patterns left unpaired
+ */
+function cancelMoved(
+  introduced: DiffLazyPattern[],
+  resolved: DiffLazyPattern[],
+): Set<DiffLazyPattern> {
+  const kept = new Set([...introduced, ...resolved]);
+  const key = (pattern: DiffLazyPattern): string => `${pattern.type}\n${pattern.code}`;
+
+  for (const added of introduced) {
+    const removed = resolved.find((pattern) => kept.has(pattern) && key(pattern) === key(added));
+
+    if (removed) {
+      kept.delete(added);
+      kept.delete(removed);
+    }
+  }
+
+  return kept;
+}
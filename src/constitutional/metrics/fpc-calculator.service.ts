@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { SourceLanguage } from './languages/language-pack.interface';
 
 /**
  * FPC (Feature Parity Completeness) Calculator Service
@@ -20,6 +21,8 @@ export interface FeatureDefinition {
   implemented: boolean;
   completeness: number;
   testCoverage?: number;
+  /** Language the feature is written in, for the language breakdown */
+  language?: SourceLanguage;
 }
 
 export interface FPCCalculationResult {
@@ -32,6 +35,8 @@ export interface FPCCalculationResult {
   passed: boolean;
   threshold: number;
   categoryBreakdown: Record<string, number>;
+  /** FPC of the features that declare a language */
+  languageBreakdown: Partial<Record<SourceLanguage, number>>;
 }
 
 @Injectable()
@@ -66,7 +71,8 @@ export class FPCCalculatorService {
 
     const fpc = (totalCompleteness / (features.length * 100)) * 100;
 
-    const categoryBreakdown = this.calculateCategoryBreakdown(features);
+    const categoryBreakdown = this.calculateBreakdown(features, (f) => f.category);
+    const languageBreakdown = this.calculateBreakdown(features, (f) => f.language);
 
     const passed = fpc >= this.THRESHOLD;
 
@@ -80,6 +86,7 @@ export class FPCCalculatorService {
       passed,
       threshold: this.THRESHOLD,
       categoryBreakdown,
+      languageBreakdown,
     };
   }
 
@@ -159,26 +166,33 @@ export class FPCCalculatorService {
   }
 
   /**
-   * Calculate category breakdown
+   * Calculate the FPC of each group (category, language); features without a key are left out
    */
-  private calculateCategoryBreakdown(
+  private calculateBreakdown(
     features: FeatureDefinition[],
+    keyOf: (feature: FeatureDefinition) => string | undefined,
   ): Record<string, number> {
     const breakdown: Record<string, { total: number; completeness: number }> = {};
 
     for (const feature of features) {
-      if (!breakdown[feature.category]) {
-        breakdown[feature.category] = { total: 0, completeness: 0 };
+      const key = keyOf(feature);
+
+      if (key === undefined) {
+        continue;
+      }
+
+      if (!breakdown[key]) {
+        breakdown[key] = { total: 0, completeness: 0 };
       }
 
-      breakdown[feature.category].total++;
-      breakdown[feature.category].completeness += feature.completeness;
+      breakdown[key].total++;
+      breakdown[key].completeness += feature.completeness;
     }
 
     const result: Record<string, number> = {};
 
-    for (const [category, data] of Object.entries(breakdown)) {
-      result[category] = parseFloat(
+    for (const [key, data] of Object.entries(breakdown)) {
+      result[key] = parseFloat(
         ((data.completeness / (data.total * 100)) * 100).toFixed(2),
       );
     }
@@ -200,6 +214,7 @@ export class FPCCalculatorService {
       passed: false,
       threshold: this.THRESHOLD,
       categoryBreakdown: {},
+      languageBreakdown: {},
     };
   }
 
@@ -290,6 +305,14 @@ export class FPCCalculatorService {
       lines.push('');
     }
 
+    if (Object.keys(result.languageBreakdown).length > 0) {
+      lines.push('Language Breakdown:');
+      for (const [language, score] of Object.entries(result.languageBreakdown)) {
+        lines.push(`  ${language}: ${(score ?? 0).toFixed(2)}%`);
+      }
+      lines.push('');
+    }
+
     const incompleteFeatures = result.features.filter(
       (f) => !f.implemented || f.completeness < 100,
     );
@@ -0,0 +1,59 @@
+import { LanguagePack } from './language-pack.interface';
+
+/**
+ * Go Pack
+ *
+ * Purpose: Lazy patterns and CRS idioms for Go
+ *
+ * `interface{}` and `struct{}` are skipped when looking for a function's opening brace,
+ * so `func f(v interface{}) {}` is one empty function, not an empty interface.
+ */
+
+const SIGNATURE = String.raw`(?:interface\{\}|struct\{\}|[^{\n])*`;
+
+export const GO_PACK: LanguagePack = {
+  language: 'go',
+  extensions: ['.go'],
+  syntax: { line: ['//'], block: ['/*', '*/'], strings: ['"', '`', "'"] },
+  directives: [{ pattern: /^(nolint\b|lint:ignore\b)/, type: 'LINT_DISABLE', severity: 'MEDIUM' }],
+  patterns: [
+    {
+      pattern: /\bpanic\(\s*["`]\s*(not\s+(yet\s+)?implemented|unimplemented)\b[^)]*\)/gi,
+      type: 'NOT_IMPLEMENTED',
+      severity: 'HIGH',
+    },
+    { pattern: /\bpanic\(\s*["`]\s*TODO\b[^)]*\)/gi, type: 'TODO_ERROR', severity: 'HIGH' },
+    {
+      pattern: new RegExp(String.raw`\bfunc\b${SIGNATURE}\{\s*\}`, 'g'),
+      type: 'EMPTY_FUNCTION',
+      severity: 'HIGH',
+      raw: true,
+    },
+    {
+      pattern: /\bif\s+err\s*!=\s*nil\s*\{\s*\}/g,
+      type: 'EMPTY_CATCH',
+      severity: 'MEDIUM',
+      raw: true,
+    },
+    { pattern: /\b_\s*=\s*err\b/g, type: 'EMPTY_CATCH', severity: 'MEDIUM' },
+  ],
+  crs: {
+    validation: [/validate/i, /validator/i, /binding:"[^"]*required/],
+    errorHandling: [
+      /\bif\s+err\s*!=\s*nil/,
+      /\berrors\.(New|Is|As|Join)\(/,
+      /\bfmt\.Errorf\(/,
+      /\brecover\(\)/,
+    ],
+    logging: [/\b(log|slog|logger|zap|logrus)\.\w+\(/i],
+    typeSafety: {
+      name: 'Static Types Without interface{}',
+      required: [],
+      forbidden: [/\binterface\{\}/],
+    },
+    placeholders: [
+      /\b(TODO|FIXME|HACK|XXX)\b/,
+      /\bpanic\(\s*["`]\s*(not\s+implemented|unimplemented)/i,
+    ],
+  },
+};
@@ -0,0 +1,81 @@
+import { LanguagePack } from './language-pack.interface';
+
+/**
+ * Java Pack
+ *
+ * Purpose: Lazy patterns and CRS idioms for Java
+ *
+ * An empty method is a name, a parameter list and `{}`; control statements and anonymous
+ * classes (`new Foo() {}`) share that shape and are excluded.
+ */
+
+const CONTROL = '(?:if|for|while|switch|catch|synchronized|try|else|do|return|new)\\b';
+
+export const JAVA_PACK: LanguagePack = {
+  language: 'java',
+  extensions: ['.java'],
+  syntax: { line: ['//'], block: ['/*', '*/'], strings: ['"""', '"', "'"] },
+  directives: [
+    {
+      pattern: /^(NOSONAR\b|CHECKSTYLE:\s*OFF|CHECKSTYLE\.OFF)/i,
+      type: 'LINT_DISABLE',
+      severity: 'MEDIUM',
+    },
+  ],
+  patterns: [
+    {
+      pattern:
+        /\bthrow\s+new\s+\w*Exception\(\s*"\s*(not\s+(yet\s+)?implemented|unimplemented)\b[^)]*\)/gi,
+      type: 'NOT_IMPLEMENTED',
+      severity: 'HIGH',
+    },
+    {
+      pattern: /\bthrow\s+new\s+UnsupportedOperationException\(\s*\)/g,
+      type: 'NOT_IMPLEMENTED',
+      severity: 'HIGH',
+    },
+    {
+      pattern: /\bthrow\s+new\s+\w*Exception\(\s*"\s*TODO\b[^)]*\)/gi,
+      type: 'TODO_ERROR',
+      severity: 'HIGH',
+    },
+    {
+      pattern: /\bcatch\s*\([^)]*\)\s*\{\s*\}/g,
+      type: 'EMPTY_CATCH',
+      severity: 'MEDIUM',
+      raw: true,
+    },
+    {
+      pattern: new RegExp(
+        String.raw`(?<!\bnew\s+)\b(?!${CONTROL})\w+\s*\([^()]*\)\s*(?:throws\s+[\w.,\s]+?)?\{\s*\}`,
+        'g',
+      ),
+      type: 'EMPTY_FUNCTION',
+      severity: 'HIGH',
+      raw: true,
+    },
+    { pattern: /@SuppressWarnings\b/g, type: 'LINT_DISABLE', severity: 'MEDIUM' },
+  ],
+  crs: {
+    validation: [
+      /validate/i,
+      /@(Valid|NotNull|NotBlank|NotEmpty|Size|Pattern)\b/,
+      /Objects\.requireNonNull\(/,
+    ],
+    errorHandling: [/\btry\s*\{/, /\bcatch\s*\(/, /\bthrows\s+\w+/, /\bthrow\s+new\s+\w+/],
+    logging: [
+      /\b(log|logger|LOG|LOGGER)\.(trace|debug|info|warn|error)\(/,
+      /\bLoggerFactory\b|@Slf4j\b/,
+    ],
+    typeSafety: {
+      name: 'Static Types Without Object Casts',
+      required: [],
+      forbidden: [/\(\s*Object\s*\)\s*\w/],
+    },
+    placeholders: [
+      /\b(TODO|FIXME|HACK|XXX)\b/,
+      /\bthrow\s+new\s+UnsupportedOperationException\(\s*\)/,
+      /"\s*not\s+implemented/i,
+    ],
+  },
+};
@@ -0,0 +1,89 @@
+/**
+ * Language Pack Interface
+ *
+ * Purpose: What LEI and CRS need to know about one programming language
+ * Constitutional Requirement: Article II - Padrão Pagani applies to every language the bot reviews
+ *
+ * A pack declares its comment syntax, the directives that silence tooling, the code shapes
+ * that betray a placeholder, and the idioms CRS looks for. Packs live in language-packs.ts.
+ */
+
+export type SourceLanguage = 'typescript' | 'javascript' | 'python' | 'go' | 'java' | 'unknown';
+
+export type PatternSeverity = 'CRITICAL' | 'HIGH' | 'MEDIUM';
+
+export interface CommentSyntax {
+  /** Line comment openers, e.g. `//` or `#` */
+  line: string[];
+  /** Block comment delimiters, e.g. ['/*', '*\/'] */
+  block?: [string, string];
+  /** String delimiters, longest first so `"""` wins over `"`; comments inside strings are ignored */
+  strings: string[];
+}
+
+/**
+ * A comment line starting with `pattern` (opener and whitespace stripped) is a finding
+ */
+export interface CommentDirective {
+  pattern: RegExp;
+  type: string;
+  severity: PatternSeverity;
+}
+
+/**
+ * A global regex over the source; `raw` matches with comments kept, so that a
+ * comment inside an empty block marks it intentional
+ */
+export interface CodePattern {
+  pattern: RegExp;
+  type: string;
+  severity: PatternSeverity;
+  raw?: boolean;
+}
+
+/**
+ * Offsets into the source; the calculator turns them into lines and ranges
+ */
+export interface PackFinding {
+  type: string;
+  severity: PatternSeverity;
+  start: number;
+  end: number;
+}
+
+export interface ScannedSource {
+  text: string;
+  /** `text` with comments blanked out (offsets and line breaks preserved) */
+  code: string;
+  comments: Array<{ start: number; end: number; text: string; block: boolean }>;
+}
+
+/**
+ * Idioms behind the language-sensitive CRS rules
+ */
+export interface CrsIdioms {
+  validation: RegExp[];
+  errorHandling: RegExp[];
+  logging: RegExp[];
+  typeSafety: {
+    name: string;
+    /** At least one must match; empty when the language is statically typed */
+    required: RegExp[];
+    forbidden: RegExp[];
+  };
+  placeholders: RegExp[];
+}
+
+export interface LanguagePack {
+  language: Exclude<SourceLanguage, 'unknown'>;
+  extensions: string[];
+  syntax: CommentSyntax;
+  directives: CommentDirective[];
+  /** Ignored when `ast` is set: the TypeScript AST finds those shapes instead */
+  patterns: CodePattern[];
+  /** Shapes a regex cannot express, e.g. Python's indentation-delimited `pass` bodies */
+  detect?(source: ScannedSource): PackFinding[];
+  /** Parse with the TypeScript compiler instead of matching patterns */
+  ast?: boolean;
+  crs: CrsIdioms;
+}
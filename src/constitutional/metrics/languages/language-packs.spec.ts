@@ -0,0 +1,79 @@
+import { CRSCalculatorService } from '../crs-calculator.service';
+import { LEICalculatorService } from '../lei-calculator.service';
+
+/**
+ * Language Pack Unit Tests
+ *
+ * Purpose: Verify LEI and CRS apply the idioms of each file's language
+ * Constitutional Requirement: Article II - Padrão Pagani (LEI < 1.0, CRS ≥ 95%)
+ */
+
+describe('Language packs', () => {
+  const lei = new LEICalculatorService();
+  const crs = new CRSCalculatorService();
+
+  const types = (code: string, fileName: string): string[] =>
+    lei.calculate(code, fileName).patterns.map((pattern) => pattern.type);
+
+  it('should flag pass-only bodies and type: ignore in Python, but not documented ones', () => {
+    const code = [
+      'def load(path):',
+      '    pass',
+      '',
+      'def close(self):',
+      '    # Nothing to release: the handle is borrowed',
+      '    pass',
+      '',
+      'try:',
+      '    value = int(raw)  # type: ignore',
+      'except ValueError:',
+      '    pass',
+    ].join('\n');
+
+    expect(types(code, 'loader.py')).toEqual(['EMPTY_FUNCTION', 'TYPE_IGNORE', 'EMPTY_CATCH']);
+  });
+
+  it('should flag unimplemented panics and swallowed errors in Go, not strings', () => {
+    const code = [
+      'func Sync(ctx context.Context) error {',
+      '\tpanic("unimplemented")',
+      '}',
+      '',
+      'func Close(v interface{}) {}',
+      '',
+      'var hint = "panic(\\"unimplemented\\")"',
+      'if err != nil {}',
+    ].join('\n');
+
+    expect(types(code, 'sync.go')).toEqual(['NOT_IMPLEMENTED', 'EMPTY_FUNCTION', 'EMPTY_CATCH']);
+  });
+
+  it('should break results down per language and skip files no pack understands', () => {
+    const files = [
+      { fileName: 'src/app.ts', code: 'export const ready = true;' },
+      { fileName: 'worker/job.py', code: 'def run(job):\n    pass' },
+      { fileName: 'README.md', code: '# Notes\n\nTODO: docs' },
+    ];
+
+    const leiResult = lei.calculateFiles(files);
+    const crsResult = crs.calculateFiles(files, { hasTests: true });
+
+    expect(leiResult.patterns).toEqual([
+      expect.objectContaining({ type: 'EMPTY_FUNCTION', file: 'worker/job.py', line: 1 }),
+    ]);
+    expect(Object.keys(leiResult.languageBreakdown).sort()).toEqual([
+      'python',
+      'typescript',
+      'unknown',
+    ]);
+    expect(leiResult.languageBreakdown.python).toEqual({
+      lei: 500,
+      totalLines: 2,
+      totalPatterns: 1,
+    });
+    expect(Object.keys(crsResult.languageBreakdown).sort()).toEqual(['python', 'typescript']);
+    expect(crsResult.rules.find((rule) => rule.id === 'TYPE_SAFETY')?.name).toBe(
+      'TypeScript Strict Mode / Type Hints',
+    );
+  });
+});
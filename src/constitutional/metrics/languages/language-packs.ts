@@ -0,0 +1,39 @@
+import { extname } from 'path';
+import { LanguagePack, SourceLanguage } from './language-pack.interface';
+import { JAVASCRIPT_PACK, TYPESCRIPT_PACK } from './typescript.pack';
+import { PYTHON_PACK } from './python.pack';
+import { GO_PACK } from './go.pack';
+import { JAVA_PACK } from './java.pack';
+
+/**
+ * Language Packs
+ *
+ * Purpose: Map file extensions to the pack LEI and CRS run with
+ *
+ * Files in other languages are counted (their lines appear in the breakdown) but not scanned.
+ */
+
+export const LANGUAGE_PACKS: LanguagePack[] = [
+  TYPESCRIPT_PACK,
+  JAVASCRIPT_PACK,
+  PYTHON_PACK,
+  GO_PACK,
+  JAVA_PACK,
+];
+
+export function detectLanguage(fileName: string): SourceLanguage {
+  const extension = extname(fileName).toLowerCase();
+
+  return LANGUAGE_PACKS.find((pack) => pack.extensions.includes(extension))?.language ?? 'unknown';
+}
+
+export function languagePack(language: SourceLanguage): LanguagePack | undefined {
+  return LANGUAGE_PACKS.find((pack) => pack.language === language);
+}
+
+/**
+ * Every extension some pack understands, for directory scans
+ */
+export function supportedExtensions(): string[] {
+  return LANGUAGE_PACKS.flatMap((pack) => pack.extensions);
+}
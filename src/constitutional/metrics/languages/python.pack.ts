@@ -0,0 +1,161 @@
+import {
+  LanguagePack,
+  PackFinding,
+  PatternSeverity,
+  ScannedSource,
+} from './language-pack.interface';
+
+/**
+ * Python Pack
+ *
+ * Purpose: Lazy patterns and CRS idioms for Python
+ *
+ * Blocks are delimited by indentation, so `pass`-only bodies are found line by line:
+ * a `def` or `except` header whose body is a lone `pass` (or `...`) and has no comment.
+ */
+
+const FUNCTION_HEADER = /^(\s*)(async\s+)?def\s/;
+const EXCEPT_HEADER = /^(\s*)except\b/;
+const EMPTY_STATEMENT = /^(pass|\.\.\.)$/;
+
+function indentation(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Column of the `:` that opens the block, skipping annotation colons inside brackets
+ */
+function blockColon(line: string, depth: { value: number }): number {
+  for (let column = 0; column < line.length; column++) {
+    const char = line[column];
+
+    if ('([{'.includes(char)) {
+      depth.value++;
+    } else if (')]}'.includes(char)) {
+      depth.value--;
+    } else if (char === ':' && depth.value === 0) {
+      return column;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Find headers matching `header` whose whole body is `pass`
+ */
+function passOnlyBodies(
+  source: ScannedSource,
+  header: RegExp,
+  type: string,
+  severity: PatternSeverity,
+): PackFinding[] {
+  const lines = source.code.split('\n');
+  const starts: number[] = [];
+  const findings: PackFinding[] = [];
+  let offset = 0;
+
+  for (const line of lines) {
+    starts.push(offset);
+    offset += line.length + 1;
+  }
+
+  for (let index = 0; index < lines.length; index++) {
+    if (!header.test(lines[index])) {
+      continue;
+    }
+
+    // Signatures may span lines: the header ends at the first top-level ':'
+    const depth = { value: 0 };
+    let last = index;
+    let colon = blockColon(lines[last], depth);
+
+    while (colon === -1 && last < lines.length - 1) {
+      colon = blockColon(lines[++last], depth);
+    }
+
+    if (colon === -1) {
+      continue;
+    }
+
+    const level = indentation(lines[index]);
+    const inline = lines[last].slice(colon + 1).trim();
+    const body: number[] = [];
+
+    for (let next = last + 1; next < lines.length && inline === ''; next++) {
+      if (lines[next].trim() === '') {
+        continue;
+      }
+      if (indentation(lines[next]) <= level) {
+        break;
+      }
+      body.push(next);
+    }
+
+    const statements = inline ? [inline] : body.map((line) => lines[line].trim());
+    const endLine = body.length > 0 ? body[body.length - 1] : last;
+    const start = starts[index] + level;
+    const end = starts[endLine] + lines[endLine].trimEnd().length;
+
+    // A comment anywhere in the block explains why it is empty
+    const explained = source.comments.some(
+      (comment) => comment.start >= start && comment.start <= end,
+    );
+
+    if (statements.length === 1 && EMPTY_STATEMENT.test(statements[0]) && !explained) {
+      findings.push({ type, severity, start, end });
+    }
+  }
+
+  return findings;
+}
+
+export const PYTHON_PACK: LanguagePack = {
+  language: 'python',
+  extensions: ['.py', '.pyi'],
+  syntax: { line: ['#'], strings: ['"""', "'''", '"', "'"] },
+  directives: [
+    { pattern: /^type:\s*ignore\b/, type: 'TYPE_IGNORE', severity: 'HIGH' },
+    {
+      pattern: /^(noqa\b|pylint:\s*disable|mypy:\s*ignore)/,
+      type: 'LINT_DISABLE',
+      severity: 'MEDIUM',
+    },
+  ],
+  patterns: [
+    {
+      pattern: /\braise\s+NotImplementedError\b(\(\s*\))?/g,
+      type: 'NOT_IMPLEMENTED',
+      severity: 'HIGH',
+    },
+    { pattern: /\bcast\(\s*Any\s*,/g, type: 'ANY_CAST', severity: 'MEDIUM' },
+  ],
+  detect: (source) => [
+    ...passOnlyBodies(source, FUNCTION_HEADER, 'EMPTY_FUNCTION', 'HIGH'),
+    ...passOnlyBodies(source, EXCEPT_HEADER, 'EMPTY_CATCH', 'MEDIUM'),
+  ],
+  crs: {
+    validation: [
+      /validate/i,
+      /validator/i,
+      /\b(pydantic|BaseModel|marshmallow)\b/,
+      /\bisinstance\(/,
+    ],
+    errorHandling: [/\btry\s*:/, /\bexcept\b/, /\braise\s+\w+/],
+    logging: [
+      /\blogging\.\w+/,
+      /\blogger\.\w+\(/i,
+      /\blog\.(debug|info|warning|error|exception)\(/,
+    ],
+    typeSafety: {
+      name: 'Type Hints',
+      required: [/\bdef\s+\w+\([^)]*\)\s*->/, /\bdef\s+\w+\([^)]*\w+\s*:\s*\w+/],
+      forbidden: [/\bAny\b/],
+    },
+    placeholders: [
+      /\b(TODO|FIXME|HACK|XXX)\b/,
+      /\braise\s+NotImplementedError\b/,
+      /#\s*type:\s*ignore/,
+    ],
+  },
+};
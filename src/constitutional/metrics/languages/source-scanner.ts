@@ -0,0 +1,123 @@
+import { CommentSyntax, ScannedSource } from './language-pack.interface';
+
+/**
+ * Source Scanner
+ *
+ * Purpose: Separate comments from code for languages without an AST parser here
+ * Constitutional Requirement: P3 Ceticismo Crítico (markers in strings are not findings)
+ *
+ * Strings are skipped, not interpreted: a single-character delimiter ends at the line break so
+ * the unbalanced quotes of a diff fragment cannot swallow the rest of the input.
+ */
+
+export function scanSource(text: string, syntax: CommentSyntax): ScannedSource {
+  const code = text.split('');
+  const comments: ScannedSource['comments'] = [];
+  let index = 0;
+
+  const blank = (start: number, end: number): void => {
+    for (let position = start; position < end; position++) {
+      if (code[position] !== '\n') {
+        code[position] = ' ';
+      }
+    }
+  };
+
+  while (index < text.length) {
+    const lineOpener = syntax.line.find((opener) => text.startsWith(opener, index));
+
+    if (lineOpener) {
+      const newline = text.indexOf('\n', index);
+      const end = newline === -1 ? text.length : newline;
+
+      comments.push({ start: index, end, text: text.slice(index, end), block: false });
+      blank(index, end);
+      index = end;
+      continue;
+    }
+
+    if (syntax.block && text.startsWith(syntax.block[0], index)) {
+      const close = text.indexOf(syntax.block[1], index + syntax.block[0].length);
+      const end = close === -1 ? text.length : close + syntax.block[1].length;
+
+      comments.push({ start: index, end, text: text.slice(index, end), block: true });
+      blank(index, end);
+      index = end;
+      continue;
+    }
+
+    const quote = syntax.strings.find((delimiter) => text.startsWith(delimiter, index));
+
+    index = quote ? stringEnd(text, index, quote) : index + 1;
+  }
+
+  return { text, code: code.join(''), comments };
+}
+
+function stringEnd(text: string, start: number, quote: string): number {
+  let index = start + quote.length;
+
+  while (index < text.length) {
+    if (text[index] === '\\' && quote !== '`') {
+      index += 2;
+    } else if (text.startsWith(quote, index)) {
+      return index + quote.length;
+    } else if (text[index] === '\n' && quote.length === 1 && quote !== '`') {
+      return index;
+    } else {
+      index++;
+    }
+  }
+
+  return text.length;
+}
+
+export interface SourceLocation {
+  line: number;
+  code: string;
+  range: {
+    start: { line: number; column: number };
+    end: { line: number; column: number };
+  };
+}
+
+/**
+ * 1-based line/column lookup by offset, plus the trimmed text of the starting line
+ */
+export function createLocator(text: string): (start: number, end: number) => SourceLocation {
+  const lineStarts = [0];
+
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\n') {
+      lineStarts.push(index + 1);
+    }
+  }
+
+  const position = (offset: number): { line: number; column: number } => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  return (start, end) => {
+    const from = position(start);
+    const lineEnd = text.indexOf('\n', lineStarts[from.line - 1]);
+
+    return {
+      line: from.line,
+      code: text.slice(lineStarts[from.line - 1], lineEnd === -1 ? text.length : lineEnd).trim(),
+      range: { start: from, end: position(end) },
+    };
+  };
+}
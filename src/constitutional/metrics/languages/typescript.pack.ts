@@ -0,0 +1,81 @@
+import { CommentDirective, CrsIdioms, LanguagePack } from './language-pack.interface';
+
+/**
+ * TypeScript and JavaScript Packs
+ *
+ * Purpose: Directives and CRS idioms for TS/JS; lazy shapes come from the TypeScript AST
+ */
+
+const DIRECTIVES: CommentDirective[] = [
+  { pattern: /^@ts-(ignore|nocheck)\b/, type: 'TS_IGNORE', severity: 'HIGH' },
+  { pattern: /^eslint-disable/, type: 'ESLINT_DISABLE', severity: 'MEDIUM' },
+];
+
+const SYNTAX = { line: ['//'], block: ['/*', '*/'] as [string, string], strings: ['"', "'", '`'] };
+
+const CRS_IDIOMS: Omit<CrsIdioms, 'typeSafety'> = {
+  validation: [
+    /validate/i,
+    /validator/i,
+    /ValidationPipe/i,
+    /Joi\.object/i,
+    /z\.object/i,
+    /@IsString|@IsNumber|@IsEmail/i,
+  ],
+  errorHandling: [
+    /try\s*\{/,
+    /catch\s*\(/,
+    /HttpException/i,
+    /@Catch/i,
+    /\.catch\(/,
+    /throw\s+new\s+\w+Error/,
+  ],
+  logging: [
+    /logger\./i,
+    /this\.logger/i,
+    /winston/i,
+    /@Logger/i,
+    /\.log\(/i,
+    /\.warn\(/i,
+    /\.error\(/i,
+  ],
+  placeholders: [
+    /TODO|FIXME|HACK|XXX/i,
+    /throw new Error\(['"]Not implemented['"]\)/i,
+    /\/\/\s*@ts-ignore/i,
+  ],
+};
+
+export const TYPESCRIPT_PACK: LanguagePack = {
+  language: 'typescript',
+  extensions: ['.ts', '.tsx', '.mts', '.cts'],
+  syntax: SYNTAX,
+  directives: DIRECTIVES,
+  patterns: [],
+  ast: true,
+  crs: {
+    ...CRS_IDIOMS,
+    typeSafety: {
+      name: 'TypeScript Strict Mode',
+      required: [/:\s*(string|number|boolean|Promise<\w+>|void)/],
+      forbidden: [/:\s*any/],
+    },
+  },
+};
+
+export const JAVASCRIPT_PACK: LanguagePack = {
+  language: 'javascript',
+  extensions: ['.js', '.jsx', '.mjs', '.cjs'],
+  syntax: SYNTAX,
+  directives: DIRECTIVES,
+  patterns: [],
+  ast: true,
+  crs: {
+    ...CRS_IDIOMS,
+    typeSafety: {
+      name: 'JSDoc Type Annotations',
+      required: [/@(param|returns?|type)\s*\{/],
+      forbidden: [/@(param|returns?|type)\s*\{\s*(\*|any)\s*\}/],
+    },
+  },
+};
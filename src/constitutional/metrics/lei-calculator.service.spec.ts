@@ -0,0 +1,77 @@
+import { LEICalculatorService } from './lei-calculator.service';
+
+/**
+ * LEI Calculator Unit Tests
+ *
+ * Purpose: Verify lazy patterns are found on the AST, not by matching lines
+ * Constitutional Requirement: Article II - Padrão Pagani (LEI < 1.0)
+ */
+
+describe('LEICalculatorService', () => {
+  const calculator = new LEICalculatorService();
+
+  const types = (code: string): string[] =>
+    calculator.calculate(code).patterns.map((pattern) => pattern.type);
+
+  it('should ignore markers inside strings and prose but flag them opening a comment', () => {
+    const code = [
+      "const hint = 'TODO: write the docs';",
+      '/** Runs the Verify-Fix-Execute loop */',
+      '// TODO: write the docs',
+      'const msg = `${a} // TODO not a comment`;',
+      'const pattern = /https?:\\/\\/ TODO/;',
+    ].join('\n');
+
+    const result = calculator.calculate(code);
+
+    expect(result.patterns).toEqual([
+      {
+        type: 'TODO_COMMENT',
+        severity: 'CRITICAL',
+        line: 3,
+        code: '// TODO: write the docs',
+        range: { start: { line: 3, column: 1 }, end: { line: 3, column: 24 } },
+      },
+    ]);
+    expect(result.lei).toBe(200);
+  });
+
+  it('should flag placeholders that span several lines', () => {
+    const code = [
+      'export function charge(amount: number): Receipt {',
+      '  throw new Error(',
+      "    'Not implemented',",
+      '  );',
+      '}',
+      'export function refund(amount: number): boolean {',
+      '  return false;',
+      '}',
+      'const receipt = payload as any;',
+    ].join('\n');
+
+    const patterns = calculator.calculate(code).patterns;
+
+    expect(patterns.map((pattern) => pattern.type)).toEqual([
+      'NOT_IMPLEMENTED',
+      'STUB_RETURN',
+      'ANY_CAST',
+    ]);
+    expect(patterns[0].range).toEqual({
+      start: { line: 2, column: 3 },
+      end: { line: 4, column: 5 },
+    });
+  });
+
+  it('should flag a constant return only when the function takes parameters', () => {
+    expect(types('const isValid = (x: number) => {\n  return true;\n};')).toEqual(['STUB_RETURN']);
+    expect(types('const isValid = (x: number) => {\n  return x > 0;\n};')).toEqual([]);
+    expect(types('function enabled(): boolean {\n  return true;\n}')).toEqual([]);
+  });
+
+  it('should tell empty functions and catch blocks from intentionally empty ones', () => {
+    expect(types('function save(): void {}')).toEqual(['EMPTY_FUNCTION']);
+    expect(types('try { run(); } catch {}')).toEqual(['EMPTY_CATCH']);
+    expect(types('function noop(): void {\n  // Called for its signature only\n}')).toEqual([]);
+    expect(types('class A {\n  constructor(private readonly b: B) {}\n}')).toEqual([]);
+  });
+});
@@ -1,4 +1,20 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
+import * as ts from 'typescript';
+import {
+  CommentDirective,
+  LanguagePack,
+  PackFinding,
+  ScannedSource,
+  SourceLanguage,
+} from './languages/language-pack.interface';
+import { detectLanguage, languagePack } from './languages/language-packs';
+import { createLocator, scanSource, SourceLocation } from './languages/source-scanner';
+import {
+  ConstitutionalBaseline,
+  fingerprint,
+  InlineSuppression,
+  parseAllowComment,
+} from './suppressions';
 
 /**
  * LEI (Lazy Execution Index) Calculator Service
@@ -8,14 +24,59 @@ import { Injectable, Logger } from '@nestjs/common';
  *
  * Formula: LEI = (total_lazy_patterns / total_lines_of_code) × 1000
  *
- * Detects: TODOs, FIXMEs, placeholders, stubs, mock data
+ * The language comes from the file extension (see languages/language-packs.ts).
+ * TypeScript and JavaScript are read on the TypeScript AST (string literals are never scanned):
+ * - Comments with TODOs, FIXMEs and similar markers, @ts-ignore and eslint-disable directives
+ * - Empty function bodies and empty catch blocks (a comment inside marks them intentional)
+ * - `throw new Error('not implemented')` (or a TODOs message), however many lines it spans
+ * - `as any` casts
+ * - Stubbed returns: a function that takes parameters but whose only statement returns a constant
+ *   literal (`(x: number) => { return true; }`)
+ * - Mock/placeholder/stub variables holding literal data
+ *
+ * Python, Go and Java use their pattern packs over the source with comments separated out
+ * (`# type: ignore`, `pass`-only bodies, `panic("unimplemented")`, ...). Markers in comments
+ * count the same in every language.
+ *
+ * Parsing is error tolerant, so diff fragments and partial files still produce findings.
+ *
+ * Patterns covered by a `vertice-allow` comment or by the baseline (see suppressions.ts) leave
+ * the LEI but are returned in `suppressed`.
  */
 
+export interface SourcePosition {
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
 export interface LazyPattern {
   type: string;
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM';
   line: number;
   code: string;
+  /** Range of the flagged node or comment */
+  range?: SourceRange;
+  /** Set by calculateFiles() */
+  file?: string;
+}
+
+export interface SuppressedPattern extends LazyPattern {
+  suppressedBy: 'inline' | 'baseline';
+  /** Justification of the vertice-allow comment */
+  reason?: string;
+}
+
+export interface LanguageLEI {
+  lei: number;
+  totalLines: number;
+  totalPatterns: number;
 }
 
 export interface LEICalculationResult {
@@ -23,101 +84,353 @@ export interface LEICalculationResult {
   totalLines: number;
   totalPatterns: number;
   patterns: LazyPattern[];
+  /** Not counted in the LEI */
+  suppressed: SuppressedPattern[];
   passed: boolean;
   threshold: number;
+  languageBreakdown: Partial<Record<SourceLanguage, LanguageLEI>>;
 }
 
+export interface CodeFile {
+  fileName: string;
+  code: string;
+}
+
+// Markers and directives count when they open a comment line, not when prose mentions them
+const COMMENT_LINE = /^\s*(?:\/\/+|\/\*+|\*+|#+)?\s*/;
+const COMMENT_MARKER = /^(TODO|FIXME|HACK|XXX|FIX|IMPLEMENT)\b/i;
+const NOT_IMPLEMENTED_MESSAGE = /^\s*(not\s+(yet\s+)?implemented|unimplemented)\b/i;
+const TODO_MESSAGE = /^\s*TODO\b/i;
+const MOCK_NAME = /^(mock|stub|placeholder|dummy|fake)_?(data|value|response|result)?$/i;
+
+type Locate = (start: number, end: number) => SourceLocation;
+type SourceComment = ScannedSource['comments'][number];
+
 @Injectable()
 export class LEICalculatorService {
-  // private readonly logger = new Logger(LEICalculatorService.name);
   private readonly THRESHOLD = 1.0;
 
   /**
    * Calculate LEI for given code
+   * `fileName` selects the language pack (and, for TS/JS, the parser dialect)
    */
-  calculate(code: string): LEICalculationResult {
-    const lines = code.split('\n');
-    const totalLines = lines.length;
-    const patterns = this.detectLazyPatterns(lines);
-    const totalPatterns = patterns.length;
+  calculate(
+    code: string,
+    fileName = 'input.ts',
+    baseline?: ConstitutionalBaseline,
+  ): LEICalculationResult {
+    const language = detectLanguage(fileName);
+    const totalLines = code.split('\n').length;
+    const detected = this.detectLazyPatterns(code, fileName, languagePack(language));
+    const { patterns, suppressed } = this.applySuppressions(detected, fileName, baseline);
 
-    const lei = totalLines > 0 ? (totalPatterns / totalLines) * 1000 : 0;
+    return this.buildResult(
+      totalLines,
+      patterns,
+      { [language]: this.summarize(totalLines, patterns.length) },
+      suppressed,
+    );
+  }
+
+  /**
+   * Calculate one LEI over several files, each scanned with its own language pack
+   */
+  calculateFiles(files: CodeFile[], baseline?: ConstitutionalBaseline): LEICalculationResult {
+    const patterns: LazyPattern[] = [];
+    const suppressed: SuppressedPattern[] = [];
+    const counts: Partial<Record<SourceLanguage, { lines: number; patterns: number }>> = {};
+    let totalLines = 0;
+
+    for (const file of files) {
+      const result = this.calculate(file.code, file.fileName, baseline);
+      const language = detectLanguage(file.fileName);
+      const count = (counts[language] ??= { lines: 0, patterns: 0 });
+
+      count.lines += result.totalLines;
+      count.patterns += result.totalPatterns;
+      totalLines += result.totalLines;
+      patterns.push(...result.patterns.map((pattern) => ({ ...pattern, file: file.fileName })));
+      suppressed.push(...result.suppressed.map((pattern) => ({ ...pattern, file: file.fileName })));
+    }
+
+    const languageBreakdown: LEICalculationResult['languageBreakdown'] = {};
+
+    for (const [language, count] of Object.entries(counts)) {
+      languageBreakdown[language as SourceLanguage] = this.summarize(count.lines, count.patterns);
+    }
+
+    return this.buildResult(totalLines, patterns, languageBreakdown, suppressed);
+  }
 
-    const passed = lei < this.THRESHOLD;
+  private buildResult(
+    totalLines: number,
+    patterns: LazyPattern[],
+    languageBreakdown: LEICalculationResult['languageBreakdown'],
+    suppressed: SuppressedPattern[] = [],
+  ): LEICalculationResult {
+    const { lei, totalPatterns } = this.summarize(totalLines, patterns.length);
 
     return {
-      lei: parseFloat(lei.toFixed(2)),
+      lei,
       totalLines,
       totalPatterns,
       patterns,
-      passed,
+      suppressed,
+      passed: lei < this.THRESHOLD,
       threshold: this.THRESHOLD,
+      languageBreakdown,
     };
   }
 
   /**
-   * Detect lazy execution patterns in code
+   * Build empty result when there is no code to measure
    */
-  private detectLazyPatterns(lines: string[]): LazyPattern[] {
-    const patterns: LazyPattern[] = [];
+  buildEmptyResult(): LEICalculationResult {
+    return this.buildResult(0, [], {});
+  }
+
+  /**
+   * LEI of `totalPatterns` findings over `totalLines` lines
+   */
+  summarize(totalLines: number, totalPatterns: number): LanguageLEI {
+    const lei = totalLines > 0 ? (totalPatterns / totalLines) * 1000 : 0;
+
+    return { lei: parseFloat(lei.toFixed(2)), totalLines, totalPatterns };
+  }
 
-    const lazyRegexes = [
-      {
-        regex: /\/\/\s*(TODO|FIXME|HACK|XXX|FIX|IMPLEMENT)/i,
-        type: 'TODO_COMMENT',
-        severity: 'CRITICAL' as const,
-      },
-      {
-        regex: /\/\*\s*(TODO|FIXME|HACK|XXX|FIX|IMPLEMENT)/i,
-        type: 'TODO_BLOCK',
-        severity: 'CRITICAL' as const,
-      },
-      {
-        regex: /#\s*(TODO|FIXME|HACK|XXX|FIX|IMPLEMENT)/i,
-        type: 'TODO_HASH',
-        severity: 'CRITICAL' as const,
-      },
-      {
-        regex: /throw new Error\(['"]Not implemented['"]\)/i,
-        type: 'NOT_IMPLEMENTED',
-        severity: 'HIGH' as const,
-      },
-      {
-        regex: /throw new Error\(['"]TODO['"]\)/i,
-        type: 'TODO_ERROR',
-        severity: 'HIGH' as const,
-      },
-      {
-        regex: /\/\/\s*@ts-ignore/i,
-        type: 'TS_IGNORE',
-        severity: 'HIGH' as const,
-      },
-      {
-        regex: /\/\/\s*eslint-disable/i,
-        type: 'ESLINT_DISABLE',
-        severity: 'MEDIUM' as const,
-      },
-      {
-        regex: /mock_data|placeholder|stub/i,
-        type: 'MOCK_PLACEHOLDER',
-        severity: 'HIGH' as const,
-      },
-    ];
-
-    lines.forEach((line, index) => {
-      for (const { regex, type, severity } of lazyRegexes) {
-        if (regex.test(line)) {
-          patterns.push({
-            type,
-            severity,
-            line: index + 1,
-            code: line.trim(),
-          });
-        }
+  /**
+   * Detect lazy execution patterns in code; languages without a pack are not scanned
+   */
+  private detectLazyPatterns(
+    code: string,
+    fileName: string,
+    pack: LanguagePack | undefined,
+  ): { patterns: LazyPattern[]; suppressions: InlineSuppression[] } {
+    if (!pack) {
+      return { patterns: [], suppressions: [] };
+    }
+
+    const locate = createLocator(code);
+    const { patterns, comments } = pack.ast
+      ? this.detectAstPatterns(code, fileName, pack, locate)
+      : this.detectPackPatterns(code, pack, locate);
+
+    return {
+      patterns: patterns.sort((a, b) => a.line - b.line),
+      suppressions: this.detectSuppressions(comments, locate),
+    };
+  }
+
+  /**
+   * Split off the patterns a justified `vertice-allow` comment or the baseline covers
+   */
+  private applySuppressions(
+    { patterns, suppressions }: { patterns: LazyPattern[]; suppressions: InlineSuppression[] },
+    fileName: string,
+    baseline?: ConstitutionalBaseline,
+  ): { patterns: LazyPattern[]; suppressed: SuppressedPattern[] } {
+    const remaining = new Map<string, number>();
+
+    for (const entry of baseline?.lei ?? []) {
+      remaining.set(entry.fingerprint, (remaining.get(entry.fingerprint) ?? 0) + 1);
+    }
+
+    const kept: LazyPattern[] = [];
+    const suppressed: SuppressedPattern[] = [];
+
+    for (const pattern of patterns) {
+      const allow = suppressions.find(
+        ({ type, lines }) => type === pattern.type && lines.includes(pattern.line),
+      );
+      const key = fingerprint(fileName, pattern.type, pattern.code);
+
+      if (allow) {
+        suppressed.push({ ...pattern, suppressedBy: 'inline', reason: allow.reason });
+      } else if ((remaining.get(key) ?? 0) > 0) {
+        remaining.set(key, (remaining.get(key) ?? 0) - 1);
+        suppressed.push({ ...pattern, suppressedBy: 'baseline' });
+      } else {
+        kept.push(pattern);
       }
+    }
+
+    return { patterns: kept, suppressed };
+  }
+
+  /**
+   * `vertice-allow` comments: each covers its own line and the next
+   */
+  private detectSuppressions(comments: SourceComment[], locate: Locate): InlineSuppression[] {
+    return comments.flatMap((comment) => {
+      const { line } = locate(comment.start, comment.end);
+
+      return comment.text.split('\n').flatMap((text, index) => {
+        const allow = parseAllowComment(text.replace(COMMENT_LINE, ''));
+
+        return allow ? [{ ...allow, lines: [line + index, line + index + 1] }] : [];
+      });
+    });
+  }
+
+  private detectAstPatterns(
+    code: string,
+    fileName: string,
+    pack: LanguagePack,
+    locate: Locate,
+  ): { patterns: LazyPattern[]; comments: SourceComment[] } {
+    const sourceFile = ts.createSourceFile(
+      fileName,
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      scriptKind(fileName),
+    );
+    const comments = scanComments(sourceFile);
+    const patterns = this.detectCommentPatterns(comments, pack.directives, locate);
+
+    const visit = (node: ts.Node): void => {
+      const pattern = this.detectNodePattern(node, sourceFile, locate);
+
+      if (pattern) {
+        patterns.push(pattern);
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+
+    return { patterns, comments };
+  }
+
+  /**
+   * Comments, pack patterns and the pack's own detector, on the comment-free view of the source
+   */
+  private detectPackPatterns(
+    code: string,
+    pack: LanguagePack,
+    locate: Locate,
+  ): { patterns: LazyPattern[]; comments: SourceComment[] } {
+    const source = scanSource(code, pack.syntax);
+    const findings: PackFinding[] = [];
+
+    for (const { pattern, type, severity, raw } of pack.patterns) {
+      for (const match of (raw ? source.text : source.code).matchAll(pattern)) {
+        const start = match.index ?? 0;
+        findings.push({ type, severity, start, end: start + match[0].length });
+      }
+    }
+
+    findings.push(...(pack.detect?.(source) ?? []));
+
+    const patterns = findings.map(({ type, severity, start, end }) => ({
+      type,
+      severity,
+      ...locate(start, end),
+    }));
+
+    return {
+      patterns: [
+        ...this.detectCommentPatterns(source.comments, pack.directives, locate),
+        ...patterns,
+      ],
+      comments: source.comments,
+    };
+  }
+
+  private detectCommentPatterns(
+    comments: SourceComment[],
+    directives: CommentDirective[],
+    locate: Locate,
+  ): LazyPattern[] {
+    return comments.flatMap((comment) => {
+      const finding = this.classifyComment(comment.text, comment.block, directives);
+
+      return finding ? [{ ...finding, ...locate(comment.start, comment.end) }] : [];
+    });
+  }
+
+  /**
+   * A directive of the language, or a marker, opening one of the comment's lines
+   */
+  private classifyComment(
+    text: string,
+    block: boolean,
+    directives: CommentDirective[],
+  ): Pick<LazyPattern, 'type' | 'severity'> | undefined {
+    const lines = text.split('\n').map((line) => line.replace(COMMENT_LINE, ''));
+    const directive = directives.find(({ pattern }) => lines.some((line) => pattern.test(line)));
+
+    if (directive) {
+      return { type: directive.type, severity: directive.severity };
+    }
+
+    if (lines.some((line) => COMMENT_MARKER.test(line))) {
+      return { type: block ? 'TODO_BLOCK' : 'TODO_COMMENT', severity: 'CRITICAL' };
+    }
+
+    return undefined;
+  }
+
+  private detectNodePattern(
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    locate: Locate,
+  ): LazyPattern | undefined {
+    const at = (
+      type: string,
+      severity: LazyPattern['severity'],
+      target: ts.Node = node,
+    ): LazyPattern => ({
+      type,
+      severity,
+      ...locate(target.getStart(sourceFile), target.getEnd()),
     });
 
-    return patterns;
+    if (ts.isThrowStatement(node) && node.expression) {
+      const message = errorMessage(node.expression);
+
+      if (message !== undefined && NOT_IMPLEMENTED_MESSAGE.test(message)) {
+        return at('NOT_IMPLEMENTED', 'HIGH');
+      }
+
+      if (message !== undefined && TODO_MESSAGE.test(message)) {
+        return at('TODO_ERROR', 'HIGH');
+      }
+    }
+
+    if (
+      (ts.isAsExpression(node) || ts.isTypeAssertionExpression(node)) &&
+      node.type.kind === ts.SyntaxKind.AnyKeyword
+    ) {
+      return at('ANY_CAST', 'MEDIUM');
+    }
+
+    if (ts.isCatchClause(node) && isEmptyBlock(node.block, sourceFile)) {
+      return at('EMPTY_CATCH', 'MEDIUM');
+    }
+
+    if (ts.isFunctionLike(node) && 'body' in node && node.body && ts.isBlock(node.body)) {
+      if (isEmptyBlock(node.body, sourceFile) && !hasParameterProperties(node)) {
+        return at('EMPTY_FUNCTION', 'HIGH');
+      }
+
+      if (isStubbedReturn(node, node.body)) {
+        return at('STUB_RETURN', 'HIGH', node.body.statements[0]);
+      }
+    }
+
+    if (
+      (ts.isVariableDeclaration(node) || ts.isPropertyDeclaration(node)) &&
+      ts.isIdentifier(node.name) &&
+      MOCK_NAME.test(node.name.text) &&
+      node.initializer !== undefined &&
+      isLiteralData(node.initializer)
+    ) {
+      return at('MOCK_PLACEHOLDER', 'HIGH', node.name);
+    }
+
+    return undefined;
   }
 
   /**
@@ -137,3 +450,144 @@ export class LEICalculatorService {
     };
   }
 }
+
+/**
+ * Comment trivia between the tokens of the AST, so markers inside strings, template literals,
+ * regular expressions and JSX text are ignored
+ */
+function scanComments(sourceFile: ts.SourceFile): SourceComment[] {
+  const { text } = sourceFile;
+  const comments = new Map<number, SourceComment>();
+
+  // Trailing: comments before the first line break; leading: the ones after it
+  const collect = (position: number): void => {
+    for (const range of [
+      ...(ts.getTrailingCommentRanges(text, position) ?? []),
+      ...(ts.getLeadingCommentRanges(text, position) ?? []),
+    ]) {
+      comments.set(range.pos, {
+        start: range.pos,
+        end: range.end,
+        text: text.slice(range.pos, range.end),
+        block: range.kind === ts.SyntaxKind.MultiLineCommentTrivia,
+      });
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    for (const child of node.getChildren(sourceFile)) {
+      // JSDoc is read from the trivia of the node it documents; JSX text has no trivia
+      if (ts.isJSDoc(child) || child.kind === ts.SyntaxKind.JsxText) {
+        continue;
+      }
+
+      collect(child.pos);
+      visit(child);
+    }
+  };
+
+  visit(sourceFile);
+
+  return [...comments.values()].sort((a, b) => a.start - b.start);
+}
+
+function scriptKind(fileName: string): ts.ScriptKind {
+  if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (/\.[cm]?js$/.test(fileName)) return ts.ScriptKind.JS;
+
+  return ts.ScriptKind.TS;
+}
+
+/**
+ * Message of `new Error('...')` / `Error('...')` (any *Error class), when it is a literal
+ */
+function errorMessage(expression: ts.Expression): string | undefined {
+  if (!ts.isNewExpression(expression) && !ts.isCallExpression(expression)) {
+    return undefined;
+  }
+
+  const [first] = expression.arguments ?? [];
+
+  if (!ts.isIdentifier(expression.expression) || !/Error$/.test(expression.expression.text)) {
+    return undefined;
+  }
+
+  return first && ts.isStringLiteralLike(first) ? first.text : undefined;
+}
+
+/**
+ * No statements and no comment explaining why
+ */
+function isEmptyBlock(block: ts.Block, sourceFile: ts.SourceFile): boolean {
+  if (block.statements.length > 0) {
+    return false;
+  }
+
+  const inner = sourceFile.text.slice(block.getStart(sourceFile) + 1, block.getEnd() - 1);
+
+  return inner.trim() === '';
+}
+
+/**
+ * `constructor(private readonly x: X) {}` does its work in the parameter list
+ */
+function hasParameterProperties(node: ts.SignatureDeclaration): boolean {
+  return (
+    ts.isConstructorDeclaration(node) &&
+    node.parameters.some(
+      (parameter) => ts.canHaveModifiers(parameter) && ts.getModifiers(parameter)?.length,
+    )
+  );
+}
+
+/**
+ * `(input) => { return null; }`: takes parameters, and its only statement returns a constant
+ * literal (which cannot use them)
+ */
+function isStubbedReturn(node: ts.SignatureDeclaration, body: ts.Block): boolean {
+  const [statement] = body.statements;
+
+  return (
+    body.statements.length === 1 &&
+    node.parameters.length > 0 &&
+    ts.isReturnStatement(statement) &&
+    statement.expression !== undefined &&
+    isConstantLiteral(statement.expression)
+  );
+}
+
+function isLiteralData(expression: ts.Expression): boolean {
+  return (
+    ts.isObjectLiteralExpression(expression) ||
+    ts.isArrayLiteralExpression(expression) ||
+    ts.isStringLiteralLike(expression) ||
+    ts.isNumericLiteral(expression)
+  );
+}
+
+function isConstantLiteral(expression: ts.Expression): boolean {
+  switch (expression.kind) {
+    case ts.SyntaxKind.NullKeyword:
+    case ts.SyntaxKind.TrueKeyword:
+    case ts.SyntaxKind.FalseKeyword:
+    case ts.SyntaxKind.NumericLiteral:
+    case ts.SyntaxKind.StringLiteral:
+    case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+      return true;
+  }
+
+  if (ts.isIdentifier(expression)) {
+    return expression.text === 'undefined';
+  }
+
+  if (ts.isArrayLiteralExpression(expression)) {
+    return expression.elements.length === 0;
+  }
+
+  if (ts.isObjectLiteralExpression(expression)) {
+    return expression.properties.length === 0;
+  }
+
+  return false;
+}
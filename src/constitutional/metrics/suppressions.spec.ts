@@ -0,0 +1,75 @@
+import { CRSCalculatorService } from './crs-calculator.service';
+import { LEICalculatorService } from './lei-calculator.service';
+import { fingerprint, parseBaseline } from './suppressions';
+
+/**
+ * Suppression Unit Tests
+ *
+ * Purpose: Verify accepted debt leaves the metrics but is still reported
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ */
+
+describe('Suppressions', () => {
+  const lei = new LEICalculatorService();
+  const crs = new CRSCalculatorService();
+
+  it('should honour a justified vertice-allow comment and ignore one without a reason', () => {
+    const code = [
+      '// vertice-allow: TODO_COMMENT tracked in #42',
+      '// TODO: split the parser',
+      'const raw = payload as any; // vertice-allow: ANY_CAST',
+    ].join('\n');
+
+    const result = lei.calculate(code, 'src/parser.ts');
+
+    expect(result.patterns.map((pattern) => pattern.type)).toEqual(['ANY_CAST']);
+    expect(result.suppressed).toEqual([
+      expect.objectContaining({
+        type: 'TODO_COMMENT',
+        line: 2,
+        suppressedBy: 'inline',
+        reason: 'tracked in #42',
+      }),
+    ]);
+    expect(result.totalPatterns).toBe(1);
+  });
+
+  it('should accept baseline patterns wherever they move, once per recorded occurrence', () => {
+    const code = ['', 'def load(path):', '    pass', '', 'def save(path):', '    pass'].join('\n');
+    const baseline = parseBaseline(
+      JSON.stringify({
+        version: 1,
+        lei: [
+          {
+            fingerprint: fingerprint('worker/io.py', 'EMPTY_FUNCTION', 'def load(path):'),
+            file: 'worker/io.py',
+            type: 'EMPTY_FUNCTION',
+            code: 'def load(path):',
+          },
+        ],
+        crs: [],
+      }),
+    );
+
+    const result = lei.calculate(code, 'worker/io.py', baseline);
+
+    expect(result.suppressed).toEqual([
+      expect.objectContaining({ line: 2, suppressedBy: 'baseline' }),
+    ]);
+    expect(result.patterns).toEqual([expect.objectContaining({ line: 5 })]);
+  });
+
+  it('should count baselined CRS rules towards the score and report them', () => {
+    const code = 'export function handle(input) {\n  return input;\n}';
+    const baseline = { version: 1 as const, lei: [], crs: ['ZERO_TRUST_VALIDATION'] };
+
+    const without = crs.calculate(code, { hasTests: true, hasErrorHandling: true });
+    const withBaseline = crs.calculate(code, { hasTests: true, hasErrorHandling: true, baseline });
+
+    expect(withBaseline.crs).toBeGreaterThan(without.crs);
+    expect(withBaseline.suppressedRules).toBe(1);
+    expect(withBaseline.rules.find((rule) => rule.id === 'ZERO_TRUST_VALIDATION')).toEqual(
+      expect.objectContaining({ satisfied: false, suppressed: true }),
+    );
+  });
+});
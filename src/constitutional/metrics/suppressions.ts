@@ -0,0 +1,100 @@
+import { createHash } from 'crypto';
+
+/**
+ * Suppressions
+ *
+ * Purpose: Accept known debt without hiding it
+ * Constitutional Requirement: P4 Rastreabilidade Total (every suppression is counted and reported)
+ *
+ * Baseline: `.vertice-baseline.json`, committed at the repository root. It holds fingerprints of
+ * existing LEI patterns (file, type and code, not the line, so unrelated edits keep them valid)
+ * and the ids of CRS rules that already fail. `pnpm lei:check --write-baseline` and
+ * `pnpm crs:check --write-baseline` record the current findings.
+ *
+ * Inline: a comment `vertice-allow: <TYPE> <reason>` covers patterns of that type on its own line
+ * and on the next one. The reason is required; without it the comment suppresses nothing.
+ */
+
+export const BASELINE_FILE = '.vertice-baseline.json';
+
+export interface BaselineEntry {
+  fingerprint: string;
+  file: string;
+  type: string;
+  /** The flagged line, for people reading the file */
+  code: string;
+}
+
+export interface ConstitutionalBaseline {
+  version: 1;
+  lei: BaselineEntry[];
+  /** Ids of CRS rules that fail today */
+  crs: string[];
+}
+
+export interface InlineSuppression {
+  type: string;
+  reason: string;
+  /** Lines the comment covers (1-based) */
+  lines: number[];
+}
+
+const ALLOW_COMMENT = /^vertice-allow:\s*([A-Z][A-Z_]*)\b\s*(.*?)\s*(?:\*\/)?\s*$/;
+
+export function emptyBaseline(): ConstitutionalBaseline {
+  return { version: 1, lei: [], crs: [] };
+}
+
+/**
+ * Fingerprint of a lazy pattern: stable while the flagged line is unchanged, wherever it moves
+ */
+export function fingerprint(file: string, type: string, code: string): string {
+  return createHash('sha256')
+    .update(`${file.replace(/\\/g, '/')}\n${type}\n${code.replace(/\s+/g, ' ').trim()}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export function parseBaseline(text: string): ConstitutionalBaseline {
+  const data: unknown = JSON.parse(text);
+
+  if (!isRecord(data) || data.version !== 1) {
+    throw new Error(`${BASELINE_FILE}: expected {"version": 1, "lei": [...], "crs": [...]}`);
+  }
+
+  const lei = Array.isArray(data.lei) ? data.lei : [];
+  const crs = Array.isArray(data.crs) ? data.crs : [];
+
+  return {
+    version: 1,
+    lei: lei.filter(
+      (entry): entry is BaselineEntry =>
+        isRecord(entry) &&
+        typeof entry.fingerprint === 'string' &&
+        typeof entry.file === 'string' &&
+        typeof entry.type === 'string',
+    ),
+    crs: crs.filter((rule): rule is string => typeof rule === 'string'),
+  };
+}
+
+export function serializeBaseline(baseline: ConstitutionalBaseline): string {
+  const lei = [...baseline.lei].sort(
+    (a, b) => a.file.localeCompare(b.file) || a.type.localeCompare(b.type),
+  );
+
+  return `${JSON.stringify({ ...baseline, lei, crs: [...baseline.crs].sort() }, null, 2)}\n`;
+}
+
+/**
+ * The `vertice-allow` suppression on one comment line (comment delimiters already stripped)
+ */
+export function parseAllowComment(line: string): Omit<InlineSuppression, 'lines'> | undefined {
+  const match = ALLOW_COMMENT.exec(line);
+
+  return match && match[2] ? { type: match[1], reason: match[2] } : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
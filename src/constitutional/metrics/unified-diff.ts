@@ -0,0 +1,85 @@
+/**
+ * Unified Diff
+ *
+ * Purpose: Split a GitHub file patch into hunks and the two sides of each hunk
+ * Constitutional Requirement: P3 Ceticismo Crítico (a change is judged on what it changes)
+ *
+ * Each side keeps the hunk's context lines, so a finding that needs its surroundings
+ * (an empty function whose braces are context) is still seen; `kind` tells which lines
+ * the pull request actually wrote or deleted.
+ */
+
+export interface DiffLine {
+  /** 1-based line number in the file this side belongs to */
+  line: number;
+  kind: 'context' | 'changed';
+  text: string;
+}
+
+export interface DiffHunk {
+  /** `@@ -1,2 +1,3 @@` */
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Context and removed lines, numbered in the old file */
+  before: DiffLine[];
+  /** Context and added lines, numbered in the new file */
+  after: DiffLine[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function parsePatch(patch?: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let hunk: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of patch?.split('\n') ?? []) {
+    const header = HUNK_HEADER.exec(line);
+
+    if (header) {
+      hunk = {
+        header: header[0],
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        before: [],
+        after: [],
+      };
+      hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      continue;
+    }
+
+    // "\ No newline at end of file" annotates the line before it
+    if (!hunk || line === '' || line.startsWith('\\')) {
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      hunk.after.push({ line: newLine++, kind: 'changed', text: line.slice(1) });
+    } else if (line.startsWith('-')) {
+      hunk.before.push({ line: oldLine++, kind: 'changed', text: line.slice(1) });
+    } else {
+      const text = line.slice(1);
+
+      hunk.before.push({ line: oldLine++, kind: 'context', text });
+      hunk.after.push({ line: newLine++, kind: 'context', text });
+    }
+  }
+
+  return hunks;
+}
+
+export function sideText(lines: DiffLine[]): string {
+  return lines.map((line) => line.text).join('\n');
+}
+
+export function changedCount(lines: DiffLine[]): number {
+  return lines.filter((line) => line.kind === 'changed').length;
+}
@@ -0,0 +1,39 @@
+import { NonceStore, NonceStoreDriver } from './nonce-store.interface';
+
+/**
+ * In-Memory Nonce Store
+ *
+ * Purpose: Replay protection for single-instance deployments and tests
+ * Limitation: Not shared across replicas and lost on restart
+ */
+
+export class InMemoryNonceStore implements NonceStore {
+  readonly driver: NonceStoreDriver = 'memory';
+  private readonly nonces = new Map<string, number>();
+
+  async remember(nonce: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const expiresAt = this.nonces.get(nonce);
+
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    this.nonces.set(nonce, now + ttlMs);
+    return true;
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+
+    for (const [nonce, expiresAt] of this.nonces.entries()) {
+      if (expiresAt <= now) {
+        this.nonces.delete(nonce);
+        purged++;
+      }
+    }
+
+    return purged;
+  }
+}
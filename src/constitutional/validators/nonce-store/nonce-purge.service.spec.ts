@@ -0,0 +1,57 @@
+import { ConfigService } from '@nestjs/config';
+import { NoncePurgeService } from './nonce-purge.service';
+import { InMemoryNonceStore } from './in-memory-nonce.store';
+
+/**
+ * Nonce Purge Service Unit Tests
+ *
+ * Purpose: Verify expired delivery ids are purged on a schedule that stops on shutdown
+ * Constitutional Requirement: Article III - Zero Trust
+ */
+
+describe('NoncePurgeService', () => {
+  const config = (values: Record<string, unknown>): ConfigService =>
+    ({
+      get: (key: string, defaultValue?: unknown) => values[key] ?? defaultValue,
+    }) as unknown as ConfigService;
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should purge expired nonces every interval until shutdown', async () => {
+    jest.useFakeTimers();
+    const store = new InMemoryNonceStore();
+    const purgeExpired = jest.spyOn(store, 'purgeExpired');
+    const service = new NoncePurgeService(store, config({ NONCE_PURGE_INTERVAL_MS: 1000 }));
+
+    await store.remember('delivery-1', 500);
+    await store.remember('delivery-2', 5000);
+    service.onApplicationBootstrap();
+
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+
+    expect(purgeExpired).toHaveBeenCalledTimes(1);
+    await expect(purgeExpired.mock.results[0].value).resolves.toBe(1);
+    expect(await store.remember('delivery-2', 5000)).toBe(false);
+
+    service.onApplicationShutdown();
+    jest.advanceTimersByTime(5000);
+
+    expect(purgeExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not schedule anything when the interval is 0 and survive store failures', async () => {
+    jest.useFakeTimers();
+    const store = new InMemoryNonceStore();
+    jest.spyOn(store, 'purgeExpired').mockRejectedValue(new Error('connection reset'));
+    const service = new NoncePurgeService(store, config({ NONCE_PURGE_INTERVAL_MS: 0 }));
+
+    service.onApplicationBootstrap();
+    jest.advanceTimersByTime(120000);
+
+    expect(store.purgeExpired).not.toHaveBeenCalled();
+    await expect(service.purge()).resolves.toBe(0);
+  });
+});
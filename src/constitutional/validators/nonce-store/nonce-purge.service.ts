@@ -0,0 +1,67 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NONCE_STORE, NonceStore } from './nonce-store.interface';
+
+/**
+ * Nonce Purge Service
+ *
+ * Purpose: Drop expired delivery ids so the nonce store stays bounded
+ * Constitutional Requirement: Article III - Zero Trust (replay protection without unbounded growth)
+ *
+ * Every NONCE_PURGE_INTERVAL_MS the store's purgeExpired() runs; 0 disables it.
+ * Redis expires its keys itself, so the purge is a no-op there.
+ */
+
+@Injectable()
+export class NoncePurgeService implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(NoncePurgeService.name);
+  private readonly intervalMs: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    @Inject(NONCE_STORE) private readonly nonceStore: NonceStore,
+    configService: ConfigService,
+  ) {
+    this.intervalMs = Number(configService.get<number>('NONCE_PURGE_INTERVAL_MS', 60000));
+  }
+
+  onApplicationBootstrap(): void {
+    if (this.intervalMs === 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.purge(), this.intervalMs);
+  }
+
+  onApplicationShutdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Remove expired nonces; a failure is logged and retried on the next tick
+   */
+  async purge(): Promise<number> {
+    try {
+      const purged = await this.nonceStore.purgeExpired();
+
+      if (purged > 0) {
+        this.logger.debug(`Purged ${purged} expired webhook nonces (${this.nonceStore.driver})`);
+      }
+
+      return purged;
+    } catch (error) {
+      this.logger.warn(
+        `Nonce purge failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Nonce Store Contract
+ *
+ * Purpose: Remember webhook delivery ids to reject replayed requests
+ * Constitutional Requirement: Article III - Zero Trust
+ *
+ * GitHub signatures carry no timestamp, so the X-GitHub-Delivery id is the
+ * only nonce available. Implementations must make `remember` atomic.
+ */
+
+export const NONCE_STORE = Symbol('NONCE_STORE');
+
+export type NonceStoreDriver = 'memory' | 'redis' | 'postgres';
+
+export interface NonceStore {
+  readonly driver: NonceStoreDriver;
+
+  /**
+   * Record a nonce for `ttlMs` milliseconds
+   * Returns false when the nonce was already recorded and has not expired
+   */
+  remember(nonce: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Remove expired nonces, returning how many were purged
+   */
+  purgeExpired(): Promise<number>;
+}
@@ -0,0 +1,46 @@
+import { FactoryProvider, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { NONCE_STORE, NonceStore, NonceStoreDriver } from './nonce-store.interface';
+import { InMemoryNonceStore } from './in-memory-nonce.store';
+import { RedisNonceStore } from './redis-nonce.store';
+import { PrismaNonceStore } from './prisma-nonce.store';
+
+/**
+ * Nonce Store Provider
+ *
+ * Purpose: Select the replay-protection backend from WEBHOOK_NONCE_STORE
+ * Drivers: memory (default), redis, postgres
+ */
+
+export function createNonceStore(config: ConfigService, prisma: PrismaService): NonceStore {
+  const logger = new Logger('NonceStore');
+  const driver = config.get<NonceStoreDriver>('WEBHOOK_NONCE_STORE', 'memory');
+
+  logger.log(`Webhook replay protection using ${driver} nonce store`);
+
+  switch (driver) {
+    case 'redis': {
+      const url = config.get<string>('REDIS_URL');
+      const redis = url
+        ? new Redis(url)
+        : new Redis({
+            host: config.get<string>('REDIS_HOST', 'localhost'),
+            port: Number(config.get<string>('REDIS_PORT', '6379')),
+            password: config.get<string>('REDIS_PASSWORD') || undefined,
+          });
+      return new RedisNonceStore(redis);
+    }
+    case 'postgres':
+      return new PrismaNonceStore(prisma);
+    default:
+      return new InMemoryNonceStore();
+  }
+}
+
+export const nonceStoreProvider: FactoryProvider<NonceStore> = {
+  provide: NONCE_STORE,
+  inject: [ConfigService, PrismaService],
+  useFactory: createNonceStore,
+};
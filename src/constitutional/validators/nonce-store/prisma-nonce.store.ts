@@ -0,0 +1,48 @@
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { NonceStore, NonceStoreDriver } from './nonce-store.interface';
+
+/**
+ * Postgres Nonce Store
+ *
+ * Purpose: Replay protection shared across replicas without Redis
+ * Atomicity: The primary key on webhook_nonces rejects concurrent inserts
+ */
+
+export class PrismaNonceStore implements NonceStore {
+  readonly driver: NonceStoreDriver = 'postgres';
+
+  constructor(private readonly prisma: PrismaService) {
+    // Connection owned by PrismaModule
+  }
+
+  async remember(nonce: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+
+    await this.prisma.webhookNonce.deleteMany({
+      where: { nonce, expiresAt: { lte: now } },
+    });
+
+    try {
+      await this.prisma.webhookNonce.create({
+        data: {
+          nonce,
+          expiresAt: new Date(now.getTime() + ttlMs),
+        },
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = await this.prisma.webhookNonce.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    return result.count;
+  }
+}
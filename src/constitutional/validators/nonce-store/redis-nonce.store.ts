@@ -0,0 +1,33 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { NonceStore, NonceStoreDriver } from './nonce-store.interface';
+
+/**
+ * Redis Nonce Store
+ *
+ * Purpose: Replay protection shared across replicas
+ * Atomicity: SET NX PX records the nonce and its expiry in a single command
+ */
+
+export class RedisNonceStore implements NonceStore, OnModuleDestroy {
+  readonly driver: NonceStoreDriver = 'redis';
+  private readonly KEY_PREFIX = 'vertice:webhook-nonce:';
+
+  constructor(private readonly redis: Redis) {
+    // Connection owned by the provider factory
+  }
+
+  async remember(nonce: string, ttlMs: number): Promise<boolean> {
+    const result = await this.redis.set(`${this.KEY_PREFIX}${nonce}`, '1', 'PX', ttlMs, 'NX');
+    return result === 'OK';
+  }
+
+  async purgeExpired(): Promise<number> {
+    // Redis expires keys itself
+    return 0;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.redis.quit();
+  }
+}
@@ -0,0 +1,39 @@
+import { RateLimitValidator } from './rate-limit.validator';
+
+/**
+ * Rate Limit Validator Unit Tests
+ *
+ * Purpose: Verify one installation cannot exhaust the global rate limit
+ * Constitutional Requirement: Article III - Zero Trust
+ */
+
+describe('RateLimitValidator', () => {
+  it("should cap an installation's limit at its share of the global limit", async () => {
+    const validator = new RateLimitValidator();
+    validator.updateLimitConfig('GLOBAL', { maxRequests: 10, windowMs: 60000 });
+
+    const results = [];
+    for (let i = 0; i < 8; i++) {
+      results.push(await validator.checkAllLimits({ installationId: 1, installationLimit: 100 }));
+    }
+
+    expect(results.filter((result) => result.allowed)).toHaveLength(5);
+    expect(results[5].violations).toEqual(['Installation 1 rate limit exceeded']);
+    expect(results[5].limits.global).toBeUndefined();
+    expect(validator.getStatistics().totalRequests).toBe(10);
+
+    const other = await validator.checkAllLimits({ installationId: 2 });
+    expect(other.allowed).toBe(true);
+    expect(other.limits.global.remaining).toBe(4);
+  });
+
+  it("should apply the installation's configured limit", async () => {
+    const validator = new RateLimitValidator();
+
+    await validator.checkAllLimits({ installationId: 7, installationLimit: 1 });
+    const second = await validator.checkAllLimits({ installationId: 7, installationLimit: 1 });
+
+    expect(second.allowed).toBe(false);
+    expect(second.violations).toEqual(['Installation 7 rate limit exceeded']);
+  });
+});
@@ -8,7 +8,12 @@ import { Injectable, Logger } from '@nestjs/common';
  * P2: Validação Preventiva - prevent abuse and resource exhaustion
  *
  * Implements: Token bucket algorithm with sliding window
- * Tracks: Per-sender, per-repository, and global rate limits
+ * Tracks: Per-sender, per-repository, per-installation (tenant), and global rate limits
+ *
+ * Tenant isolation: an installation's limit (Installation.rateLimitPerMinute, else the default)
+ * is capped at INSTALLATION_SHARE of the global limit, and the global limit is only charged
+ * for requests the sender, repository and installation limits let through - so one tenant
+ * can neither exhaust the global limit alone nor spend it on requests that are refused anyway.
  */
 
 export interface RateLimitConfig {
@@ -39,9 +44,13 @@ export class RateLimitValidator {
     GLOBAL: { maxRequests: 1000, windowMs: 60000 },
     PER_SENDER: { maxRequests: 100, windowMs: 60000 },
     PER_REPO: { maxRequests: 200, windowMs: 60000 },
+    PER_INSTALLATION: { maxRequests: 500, windowMs: 60000 },
     WEBHOOK: { maxRequests: 5000, windowMs: 3600000 },
   };
 
+  /** Largest fraction of the global limit a single installation may use */
+  private readonly INSTALLATION_SHARE = 0.5;
+
   /**
    * Check if request is within rate limit
    * Article III: Zero Trust - Enforce limits on all operations
@@ -129,6 +138,23 @@ export class RateLimitValidator {
     });
   }
 
+  /**
+   * Check per-installation rate limit
+   * The installation's configured limit applies, never more than its share of the global limit
+   */
+  async checkInstallationLimit(
+    installationId: number,
+    maxRequests: number = this.DEFAULT_LIMITS.PER_INSTALLATION.maxRequests,
+  ): Promise<RateLimitResult> {
+    const share = Math.floor(this.DEFAULT_LIMITS.GLOBAL.maxRequests * this.INSTALLATION_SHARE);
+
+    return this.checkRateLimit({
+      identifier: `installation:${installationId}`,
+      maxRequests: Math.min(maxRequests, share),
+      windowMs: this.DEFAULT_LIMITS.PER_INSTALLATION.windowMs,
+    });
+  }
+
   /**
    * Check webhook rate limit (higher threshold)
    */
@@ -142,10 +168,14 @@ export class RateLimitValidator {
 
   /**
    * Check all rate limits for a request
+   * Tenant-scoped limits come first; the global limit is only charged when they all pass
    */
   async checkAllLimits(request: {
     senderId?: string;
     repository?: string;
+    installationId?: number;
+    /** The installation's configured limit (Installation.rateLimitPerMinute) */
+    installationLimit?: number;
     deliveryId?: string;
   }): Promise<{
     allowed: boolean;
@@ -155,12 +185,6 @@ export class RateLimitValidator {
     const violations: string[] = [];
     const limits: Record<string, RateLimitResult> = {};
 
-    const globalLimit = await this.checkGlobalLimit('system');
-    limits.global = globalLimit;
-    if (!globalLimit.allowed) {
-      violations.push('Global rate limit exceeded');
-    }
-
     if (request.senderId) {
       const senderLimit = await this.checkSenderLimit(request.senderId);
       limits.sender = senderLimit;
@@ -177,6 +201,17 @@ export class RateLimitValidator {
       }
     }
 
+    if (request.installationId !== undefined) {
+      const installationLimit = await this.checkInstallationLimit(
+        request.installationId,
+        request.installationLimit,
+      );
+      limits.installation = installationLimit;
+      if (!installationLimit.allowed) {
+        violations.push(`Installation ${request.installationId} rate limit exceeded`);
+      }
+    }
+
     if (request.deliveryId) {
       const webhookLimit = await this.checkWebhookLimit(request.deliveryId);
       limits.webhook = webhookLimit;
@@ -185,6 +220,14 @@ export class RateLimitValidator {
       }
     }
 
+    if (violations.length === 0) {
+      const globalLimit = await this.checkGlobalLimit('system');
+      limits.global = globalLimit;
+      if (!globalLimit.allowed) {
+        violations.push('Global rate limit exceeded');
+      }
+    }
+
     return {
       allowed: violations.length === 0,
       violations,
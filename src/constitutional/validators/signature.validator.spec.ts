@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SignatureValidator } from './signature.validator';
+import { NONCE_STORE } from './nonce-store/nonce-store.interface';
+import { InMemoryNonceStore } from './nonce-store/in-memory-nonce.store';
+import { WebhookSecret } from './webhook-secret.resolver';
+import { MetricsService } from '../../observability/metrics/metrics.service';
+
+/**
+ * Signature Validator Unit Tests
+ *
+ * Purpose: Verify HMAC validation, secret rotation and delivery-id replay protection
+ * Constitutional Requirement: Article III - Zero Trust
+ */
+
+describe('SignatureValidator', () => {
+  let validator: SignatureValidator;
+  const secret = 'test-webhook-secret-12345';
+  const body = JSON.stringify({ action: 'opened' });
+  const metricsService = { recordWebhookSecretMatch: jest.fn() };
+
+  const buildRequest = (
+    deliveryId: string,
+    signature?: string,
+    secrets: WebhookSecret[] = [{ id: 'primary', secret, source: 'env' }],
+  ): { headers: Record<string, string | undefined>; body: string; secrets: WebhookSecret[] } => ({
+    headers: {
+      'x-hub-signature-256': signature ?? validator.generateTestSignature(body, secret),
+      'x-github-delivery': deliveryId,
+      'x-github-event': 'issues',
+    },
+    body,
+    secrets,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignatureValidator,
+        { provide: NONCE_STORE, useValue: new InMemoryNonceStore() },
+        { provide: MetricsService, useValue: metricsService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    validator = module.get<SignatureValidator>(SignatureValidator);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should accept a correctly signed first delivery', async () => {
+    const result = await validator.validateWebhookRequest(buildRequest('delivery-1'));
+
+    expect(result.valid).toBe(true);
+    expect(result.codes).toEqual([]);
+  });
+
+  it('should reject a reused delivery id with REPLAY_DETECTED', async () => {
+    await validator.validateWebhookRequest(buildRequest('delivery-1'));
+    const replay = await validator.validateWebhookRequest(buildRequest('delivery-1'));
+
+    expect(replay.valid).toBe(false);
+    expect(replay.codes).toEqual(['REPLAY_DETECTED']);
+  });
+
+  it('should not burn the nonce when the signature is invalid', async () => {
+    const forged = await validator.validateWebhookRequest(
+      buildRequest('delivery-2', `sha256=${'0'.repeat(64)}`),
+    );
+    const genuine = await validator.validateWebhookRequest(buildRequest('delivery-2'));
+
+    expect(forged.codes).toEqual(['SIGNATURE_MISMATCH']);
+    expect(genuine.valid).toBe(true);
+  });
+
+  it('should fail closed when the nonce store is unavailable', async () => {
+    jest
+      .spyOn(InMemoryNonceStore.prototype, 'remember')
+      .mockRejectedValueOnce(new Error('connection refused'));
+
+    const result = await validator.validateDeliveryNonce('delivery-3');
+
+    expect(result.valid).toBe(false);
+    expect(result.code).toBe('REPLAY_CHECK_FAILED');
+  });
+
+  describe('Secret rotation', () => {
+    const previous: WebhookSecret = { id: '2026-q2', secret: 'old-secret-abc', source: 'env' };
+    const current: WebhookSecret = { id: '2026-q3', secret, source: 'env' };
+
+    it('should accept a delivery signed with any active secret and record which matched', async () => {
+      const result = await validator.validateWebhookRequest(
+        buildRequest('delivery-4', undefined, [previous, current]),
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.secretId).toBe('2026-q3');
+      expect(metricsService.recordWebhookSecretMatch).toHaveBeenCalledWith('2026-q3', 'env');
+    });
+
+    it('should reject a delivery signed only with an expired secret', async () => {
+      const expired = { ...current, expiresAt: new Date(Date.now() - 1000) };
+
+      const result = await validator.validateWebhookRequest(
+        buildRequest('delivery-5', undefined, [previous, expired]),
+      );
+
+      expect(result.codes).toEqual(['SIGNATURE_MISMATCH']);
+      expect(metricsService.recordWebhookSecretMatch).not.toHaveBeenCalled();
+    });
+
+    it('should report NO_ACTIVE_SECRET when every secret has expired', async () => {
+      const expired = { ...current, expiresAt: new Date(Date.now() - 1000) };
+
+      const result = await validator.validateWebhookRequest(
+        buildRequest('delivery-6', undefined, [expired]),
+      );
+
+      expect(result.codes).toEqual(['NO_ACTIVE_SECRET']);
+    });
+  });
+});
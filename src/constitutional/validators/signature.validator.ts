@@ -1,5 +1,9 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { createHmac, timingSafeEqual } from 'crypto';
+import { NONCE_STORE, NonceStore } from './nonce-store/nonce-store.interface';
+import { WebhookSecret } from './webhook-secret.resolver';
+import { MetricsService } from '../../observability/metrics/metrics.service';
 
 /**
  * GitHub Webhook Signature Validator
@@ -10,13 +14,27 @@ import { createHmac, timingSafeEqual } from 'crypto';
  *
  * Security: Timing-safe comparison to prevent timing attacks
  * Algorithm: HMAC-SHA256 with webhook secret
+ * Replay: Delivery ids are remembered in a NonceStore for the replay window
+ * Rotation: Several secrets may be active at once; the matching one is recorded in metrics
  */
 
+export type SignatureViolationCode =
+  | 'MISSING_HEADERS'
+  | 'MISSING_SIGNATURE'
+  | 'SIGNATURE_INVALID'
+  | 'SIGNATURE_MISMATCH'
+  | 'NO_ACTIVE_SECRET'
+  | 'REPLAY_DETECTED'
+  | 'REPLAY_CHECK_FAILED';
+
 export interface SignatureValidationResult {
   valid: boolean;
   reason?: string;
+  code?: SignatureViolationCode;
   algorithm?: string;
   timestamp?: Date;
+  /** Id of the secret that produced a matching signature */
+  secretId?: string;
 }
 
 @Injectable()
@@ -24,6 +42,17 @@ export class SignatureValidator {
   private readonly logger = new Logger(SignatureValidator.name);
   private readonly SIGNATURE_HEADER = 'x-hub-signature-256';
   private readonly DELIVERY_HEADER = 'x-github-delivery';
+  private readonly replayWindowSeconds: number;
+
+  constructor(
+    @Inject(NONCE_STORE) private readonly nonceStore: NonceStore,
+    private readonly metricsService: MetricsService,
+    configService: ConfigService,
+  ) {
+    this.replayWindowSeconds = Number(
+      configService.get<number>('WEBHOOK_REPLAY_WINDOW_SECONDS', 300),
+    );
+  }
 
   /**
    * Validate GitHub webhook signature
@@ -40,6 +69,7 @@ export class SignatureValidator {
         return {
           valid: false,
           reason: 'Missing signature, secret, or payload',
+          code: 'MISSING_SIGNATURE',
         };
       }
 
@@ -49,6 +79,7 @@ export class SignatureValidator {
         return {
           valid: false,
           reason: 'Invalid signature format',
+          code: 'SIGNATURE_INVALID',
         };
       }
 
@@ -59,6 +90,7 @@ export class SignatureValidator {
         return {
           valid: false,
           reason: `Unsupported algorithm: ${algorithm}`,
+          code: 'SIGNATURE_INVALID',
           algorithm,
         };
       }
@@ -79,6 +111,7 @@ export class SignatureValidator {
       return {
         valid: isValid,
         reason: isValid ? undefined : 'Signature mismatch',
+        code: isValid ? undefined : 'SIGNATURE_MISMATCH',
         algorithm,
         timestamp: new Date(),
       };
@@ -89,8 +122,73 @@ export class SignatureValidator {
       return {
         valid: false,
         reason: 'Validation error occurred',
+        code: 'SIGNATURE_INVALID',
+      };
+    }
+  }
+
+  /**
+   * Validate a signature against every active secret
+   * Expired secrets are skipped; the first match wins
+   */
+  async validateSignatureWithSecrets(
+    payload: string | Buffer,
+    signature: string,
+    secrets: WebhookSecret[],
+  ): Promise<SignatureValidationResult> {
+    const now = Date.now();
+    const active = secrets.filter((s) => !s.expiresAt || s.expiresAt.getTime() > now);
+
+    if (active.length === 0) {
+      this.logger.error('No active webhook secret available for signature validation');
+      return {
+        valid: false,
+        reason: 'No active webhook secret configured',
+        code: 'NO_ACTIVE_SECRET',
+      };
+    }
+
+    const parsed = this.parseSignature(signature);
+
+    if (!parsed || parsed.algorithm !== 'sha256') {
+      return this.validateSignature(payload, signature, active[0].secret);
+    }
+
+    const match = active.find((candidate) =>
+      this.timingSafeCompare(
+        parsed.hash,
+        this.computeSignature(payload, candidate.secret, parsed.algorithm),
+      ),
+    );
+
+    if (!match) {
+      this.logger.error(
+        `Signature validation failed: no match among ${active.length} active secret(s)`,
+      );
+      await this.logSecurityEvent({
+        event: 'SIGNATURE_VALIDATION_FAILED',
+        reason: 'Hash mismatch',
+        timestamp: new Date(),
+        metadata: { secretsTried: active.map((s) => s.id) },
+      });
+
+      return {
+        valid: false,
+        reason: 'Signature mismatch',
+        code: 'SIGNATURE_MISMATCH',
+        algorithm: parsed.algorithm,
+        timestamp: new Date(),
       };
     }
+
+    this.metricsService.recordWebhookSecretMatch(match.id, match.source);
+
+    return {
+      valid: true,
+      algorithm: parsed.algorithm,
+      timestamp: new Date(),
+      secretId: match.id,
+    };
   }
 
   /**
@@ -235,55 +333,114 @@ export class SignatureValidator {
     }
   }
 
+  /**
+   * Reject delivery ids already seen within the replay window
+   * GitHub signatures carry no timestamp, so X-GitHub-Delivery is the only nonce.
+   * Redeliveries after the window pass and are deduplicated by WebhooksService.ingest
+   */
+  async validateDeliveryNonce(deliveryId: string): Promise<SignatureValidationResult> {
+    try {
+      const fresh = await this.nonceStore.remember(deliveryId, this.replayWindowSeconds * 1000);
+
+      if (fresh) {
+        return { valid: true, timestamp: new Date() };
+      }
+
+      await this.logSecurityEvent({
+        event: 'WEBHOOK_REPLAY_DETECTED',
+        reason: `Delivery ${deliveryId} reused within ${this.replayWindowSeconds}s replay window`,
+        timestamp: new Date(),
+        metadata: {
+          deliveryId,
+          windowSeconds: this.replayWindowSeconds,
+          store: this.nonceStore.driver,
+        },
+      });
+
+      return {
+        valid: false,
+        reason: `Replay detected: delivery ${deliveryId} already received`,
+        code: 'REPLAY_DETECTED',
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Replay check failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return {
+        valid: false,
+        reason: 'Replay protection unavailable',
+        code: 'REPLAY_CHECK_FAILED',
+      };
+    }
+  }
+
   /**
    * Validate complete GitHub webhook request
+   * The nonce is only recorded once the signature is authentic, so unsigned
+   * requests cannot burn delivery ids
    */
   async validateWebhookRequest(request: {
     headers: Record<string, string | undefined>;
     body: string | Buffer;
-    secret: string;
+    secrets: WebhookSecret[];
   }): Promise<{
     valid: boolean;
     errors: string[];
+    codes: SignatureViolationCode[];
     deliveryId?: string;
     eventType?: string;
+    secretId?: string;
   }> {
     const errors: string[] = [];
+    const codes: SignatureViolationCode[] = [];
 
     const headersValidation = this.validateHeaders(request.headers);
     if (!headersValidation.valid) {
       errors.push(...headersValidation.errors);
+      codes.push('MISSING_HEADERS');
     }
 
     const signature = this.extractSignature(request.headers);
     if (!signature) {
       errors.push('Missing or invalid signature');
+      codes.push('MISSING_SIGNATURE');
     }
 
     if (errors.length > 0) {
-      return { valid: false, errors };
+      return { valid: false, errors, codes };
     }
 
-    const signatureValidation = await this.validateSignature(
+    const signatureValidation = await this.validateSignatureWithSecrets(
       request.body,
       signature!,
-      request.secret,
+      request.secrets,
     );
 
+    const deliveryId = request.headers[this.DELIVERY_HEADER];
+    const eventType = request.headers['x-github-event'];
+
     if (!signatureValidation.valid) {
       errors.push(
         signatureValidation.reason || 'Signature validation failed',
       );
-    }
+      codes.push(signatureValidation.code ?? 'SIGNATURE_MISMATCH');
+    } else if (deliveryId) {
+      const nonceValidation = await this.validateDeliveryNonce(deliveryId);
 
-    const deliveryId = request.headers[this.DELIVERY_HEADER];
-    const eventType = request.headers['x-github-event'];
+      if (!nonceValidation.valid) {
+        errors.push(nonceValidation.reason || 'Replay check failed');
+        codes.push(nonceValidation.code ?? 'REPLAY_DETECTED');
+      }
+    }
 
     return {
       valid: errors.length === 0,
       errors,
+      codes,
       deliveryId,
       eventType,
+      secretId: signatureValidation.secretId,
     };
   }
 
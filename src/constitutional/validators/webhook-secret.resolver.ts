@@ -0,0 +1,146 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../prisma/prisma.service';
+
+/**
+ * Webhook Secret Resolver
+ *
+ * Purpose: Collect every secret a delivery may be signed with
+ * Constitutional Requirement: Article III - Zero Trust
+ *
+ * Sources (in order tried):
+ * - Per-repository secrets (RepositoryWebhookSecret rows), only for repositories of the
+ *   delivery's installation (or not yet owned by one)
+ * - GITHUB_WEBHOOK_SECRET as id "primary"
+ * - GITHUB_WEBHOOK_SECRETS, a JSON list of {"id", "secret", "expiresAt"?} for rotation
+ *
+ * Rotation: add the new secret, update the hook on GitHub, then set expiresAt on the old one
+ */
+
+export type WebhookSecretSource = 'env' | 'repository';
+
+export interface WebhookSecret {
+  id: string;
+  secret: string;
+  source: WebhookSecretSource;
+  expiresAt?: Date;
+}
+
+interface ConfiguredSecret {
+  id?: unknown;
+  secret?: unknown;
+  expiresAt?: unknown;
+}
+
+@Injectable()
+export class WebhookSecretResolver {
+  private readonly logger = new Logger(WebhookSecretResolver.name);
+  private readonly envSecrets: WebhookSecret[];
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    this.envSecrets = this.loadEnvSecrets(
+      configService.get<string>('GITHUB_WEBHOOK_SECRET'),
+      configService.get<string>('GITHUB_WEBHOOK_SECRETS'),
+    );
+  }
+
+  /**
+   * Resolve candidate secrets for a delivery
+   * The repository name comes from the unverified payload; it only selects
+   * which secrets to try, the HMAC still has to match one of them
+   */
+  async resolve(repositoryFullName?: string, installationId?: number): Promise<WebhookSecret[]> {
+    const repositorySecrets = repositoryFullName
+      ? await this.loadRepositorySecrets(repositoryFullName, installationId)
+      : [];
+
+    return [...repositorySecrets, ...this.envSecrets];
+  }
+
+  /**
+   * Load per-repository secrets, treating lookup failures as "none configured"
+   */
+  private async loadRepositorySecrets(
+    fullName: string,
+    installationId?: number,
+  ): Promise<WebhookSecret[]> {
+    const tenantScope =
+      installationId === undefined
+        ? {}
+        : {
+            OR: [
+              { installationId: null },
+              { installation: { githubInstallationId: installationId } },
+            ],
+          };
+
+    try {
+      const rows = await this.prisma.repositoryWebhookSecret.findMany({
+        where: { repository: { fullName, ...tenantScope } },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return rows.map((row) => ({
+        id: `${fullName}:${row.label}`,
+        secret: row.secret,
+        source: 'repository' as const,
+        expiresAt: row.expiresAt ?? undefined,
+      }));
+    } catch (error) {
+      this.logger.warn(
+        `Could not load webhook secrets for ${fullName}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Parse environment secrets
+   * A malformed GITHUB_WEBHOOK_SECRETS aborts startup rather than silently
+   * dropping the secrets GitHub is signing with
+   */
+  private loadEnvSecrets(primary?: string, rotation?: string): WebhookSecret[] {
+    const secrets: WebhookSecret[] = [];
+
+    if (primary) {
+      secrets.push({ id: 'primary', secret: primary, source: 'env' });
+    }
+
+    if (!rotation) {
+      return secrets;
+    }
+
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(rotation);
+    } catch {
+      throw new Error('GITHUB_WEBHOOK_SECRETS must be a JSON array');
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new Error('GITHUB_WEBHOOK_SECRETS must be a JSON array');
+    }
+
+    for (const entry of parsed as ConfiguredSecret[]) {
+      if (typeof entry?.id !== 'string' || typeof entry.secret !== 'string' || !entry.secret) {
+        throw new Error('GITHUB_WEBHOOK_SECRETS entries require string "id" and "secret"');
+      }
+
+      const expiresAt = typeof entry.expiresAt === 'string' ? new Date(entry.expiresAt) : undefined;
+
+      if (expiresAt && isNaN(expiresAt.getTime())) {
+        throw new Error(`GITHUB_WEBHOOK_SECRETS entry "${entry.id}" has an invalid expiresAt`);
+      }
+
+      secrets.push({ id: entry.id, secret: entry.secret, source: 'env', expiresAt });
+    }
+
+    this.logger.log(`Loaded ${secrets.length} webhook secret(s) from environment`);
+
+    return secrets;
+  }
+}
@@ -0,0 +1,101 @@
+import { ConfigService } from '@nestjs/config';
+import { Octokit } from '@octokit/rest';
+import { createVerify, generateKeyPairSync } from 'crypto';
+import { GitHubClientService } from './github-client.service';
+
+/**
+ * GitHub Client Service Unit Tests
+ *
+ * Purpose: Verify app JWT minting, installation token caching and PAT fallback
+ * Constitutional Requirement: Article III - Zero Trust
+ */
+
+describe('GitHubClientService', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  const createInstallationAccessToken = jest.fn();
+
+  const buildService = (env: Record<string, string>): GitHubClientService => {
+    const config = { get: jest.fn((key: string) => env[key]) } as unknown as ConfigService;
+    const service = new GitHubClientService(config);
+
+    jest
+      .spyOn(service as unknown as { createOctokit: (auth: string) => Octokit }, 'createOctokit')
+      .mockImplementation(
+        (auth: string) =>
+          ({ auth, rest: { apps: { createInstallationAccessToken } } }) as unknown as Octokit,
+      );
+
+    return service;
+  };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should mint an RS256 app JWT with backdated iat', () => {
+    const service = buildService({ GITHUB_APP_ID: '12345', GITHUB_APP_PRIVATE_KEY: privateKey });
+    const now = new Date('2026-01-01T00:00:00Z');
+
+    const [header, payload, signature] = service.createAppJwt(now).split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({
+      alg: 'RS256',
+      typ: 'JWT',
+    });
+    expect(claims).toEqual({
+      iat: now.getTime() / 1000 - 60,
+      exp: now.getTime() / 1000 + 540,
+      iss: '12345',
+    });
+    expect(
+      createVerify('RSA-SHA256')
+        .update(`${header}.${payload}`)
+        .verify(publicKey, signature, 'base64url'),
+    ).toBe(true);
+  });
+
+  it('should cache installation tokens until shortly before expiry', async () => {
+    const service = buildService({ GITHUB_APP_ID: '12345', GITHUB_APP_PRIVATE_KEY: privateKey });
+    createInstallationAccessToken.mockResolvedValue({
+      data: {
+        token: 'ghs_installation',
+        expires_at: new Date(Date.now() + 3600_000).toISOString(),
+      },
+    });
+
+    await service.getInstallationClient(42);
+    const client = await service.getInstallationClient(42);
+
+    expect(createInstallationAccessToken).toHaveBeenCalledTimes(1);
+    expect(createInstallationAccessToken).toHaveBeenCalledWith({ installation_id: 42 });
+    expect((client as unknown as { auth: string }).auth).toBe('ghs_installation');
+  });
+
+  it('should refresh a token inside the expiry margin', async () => {
+    const service = buildService({ GITHUB_APP_ID: '12345', GITHUB_APP_PRIVATE_KEY: privateKey });
+    createInstallationAccessToken.mockResolvedValue({
+      data: { token: 'ghs_short', expires_at: new Date(Date.now() + 60_000).toISOString() },
+    });
+
+    await service.getInstallationToken(42);
+    await service.getInstallationToken(42);
+
+    expect(createInstallationAccessToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to GITHUB_TOKEN without app credentials', async () => {
+    const service = buildService({ GITHUB_TOKEN: 'ghp_personal' });
+
+    const client = await service.getInstallationClient(42);
+
+    expect(service.getAuthMode()).toBe('token');
+    expect((client as unknown as { auth: string }).auth).toBe('ghp_personal');
+    expect(createInstallationAccessToken).not.toHaveBeenCalled();
+  });
+});
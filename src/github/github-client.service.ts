@@ -0,0 +1,203 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Octokit } from '@octokit/rest';
+import { createSign } from 'crypto';
+
+/**
+ * GitHub Client Service
+ *
+ * Purpose: Authenticated Octokit clients for every GitHub API call the bot makes
+ * Constitutional Requirement: Article III - Zero Trust (short-lived, per-installation credentials)
+ *
+ * Auth modes:
+ * - app: GITHUB_APP_ID + GITHUB_APP_PRIVATE_KEY → app JWT → installation access token
+ * - token: GITHUB_TOKEN personal access token (single-tenant / local development)
+ *
+ * Installation tokens live one hour; they are cached and refreshed shortly before expiry
+ */
+
+export type GitHubAuthMode = 'app' | 'token' | 'none';
+
+export interface InstallationToken {
+  token: string;
+  expiresAt: Date;
+}
+
+@Injectable()
+export class GitHubClientService {
+  private readonly logger = new Logger(GitHubClientService.name);
+  private readonly USER_AGENT = 'vertice-github-bot';
+  /** Refresh installation tokens this long before GitHub expires them */
+  private readonly TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+  /** App JWTs may live at most 10 minutes; stay under to tolerate clock drift */
+  private readonly JWT_TTL_SECONDS = 9 * 60;
+
+  private readonly appId?: string;
+  private readonly privateKey?: string;
+  private readonly personalToken?: string;
+  private readonly tokenCache = new Map<number, InstallationToken>();
+  private readonly pendingTokens = new Map<number, Promise<InstallationToken>>();
+
+  constructor(configService: ConfigService) {
+    this.appId = configService.get<string>('GITHUB_APP_ID') || undefined;
+    this.privateKey = this.normalizePrivateKey(configService.get<string>('GITHUB_APP_PRIVATE_KEY'));
+    this.personalToken = configService.get<string>('GITHUB_TOKEN') || undefined;
+
+    this.logger.log(`GitHub client using ${this.getAuthMode()} authentication`);
+  }
+
+  /**
+   * Which credentials the bot acts with
+   */
+  getAuthMode(): GitHubAuthMode {
+    if (this.appId && this.privateKey) {
+      return 'app';
+    }
+
+    return this.personalToken ? 'token' : 'none';
+  }
+
+  /**
+   * Client authenticated for an installation
+   * Without app credentials (or an installation id) falls back to GITHUB_TOKEN
+   */
+  async getInstallationClient(installationId?: number): Promise<Octokit> {
+    if (this.getAuthMode() === 'app' && installationId !== undefined) {
+      const { token } = await this.getInstallationToken(installationId);
+      return this.createOctokit(token);
+    }
+
+    return this.getTokenClient();
+  }
+
+  /**
+   * Client authenticated for a repository
+   * In app mode the installation is looked up when the caller does not know it
+   */
+  async getRepositoryClient(
+    owner: string,
+    repo: string,
+    installationId?: number,
+  ): Promise<Octokit> {
+    if (this.getAuthMode() !== 'app' || installationId !== undefined) {
+      return this.getInstallationClient(installationId);
+    }
+
+    const { data } = await this.getAppClient().rest.apps.getRepoInstallation({ owner, repo });
+
+    return this.getInstallationClient(data.id);
+  }
+
+  /**
+   * Client authenticated as the GitHub App itself (app JWT)
+   * Only app-level endpoints accept it, e.g. listing installations
+   */
+  getAppClient(): Octokit {
+    return this.createOctokit(this.createAppJwt());
+  }
+
+  /**
+   * Installation access token, served from cache until shortly before expiry
+   * Concurrent callers for the same installation share one exchange
+   */
+  async getInstallationToken(installationId: number): Promise<InstallationToken> {
+    const cached = this.tokenCache.get(installationId);
+
+    if (cached && cached.expiresAt.getTime() - this.TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached;
+    }
+
+    const pending = this.pendingTokens.get(installationId);
+
+    if (pending) {
+      return pending;
+    }
+
+    const exchange = this.exchangeInstallationToken(installationId).finally(() => {
+      this.pendingTokens.delete(installationId);
+    });
+
+    this.pendingTokens.set(installationId, exchange);
+
+    return exchange;
+  }
+
+  /**
+   * Drop a cached token, e.g. after GitHub rejected it with 401
+   */
+  invalidateInstallationToken(installationId: number): void {
+    this.tokenCache.delete(installationId);
+  }
+
+  /**
+   * Mint a GitHub App JWT (RS256)
+   * iat is backdated 60s as GitHub recommends for clock drift
+   */
+  createAppJwt(now: Date = new Date()): string {
+    if (!this.appId || !this.privateKey) {
+      throw new Error(
+        'GitHub App credentials not configured (GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY)',
+      );
+    }
+
+    const issuedAt = Math.floor(now.getTime() / 1000) - 60;
+    const header = this.base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const payload = this.base64Url(
+      JSON.stringify({ iat: issuedAt, exp: issuedAt + 60 + this.JWT_TTL_SECONDS, iss: this.appId }),
+    );
+
+    const signature = createSign('RSA-SHA256')
+      .update(`${header}.${payload}`)
+      .sign(this.privateKey, 'base64url');
+
+    return `${header}.${payload}.${signature}`;
+  }
+
+  /**
+   * Build an Octokit instance for the given credential
+   */
+  protected createOctokit(auth: string): Octokit {
+    return new Octokit({ auth, userAgent: this.USER_AGENT });
+  }
+
+  private getTokenClient(): Octokit {
+    if (!this.personalToken) {
+      throw new Error(
+        this.getAuthMode() === 'app'
+          ? 'GitHub App mode requires an installation id'
+          : 'No GitHub credentials configured (GITHUB_APP_ID/GITHUB_APP_PRIVATE_KEY or GITHUB_TOKEN)',
+      );
+    }
+
+    return this.createOctokit(this.personalToken);
+  }
+
+  private async exchangeInstallationToken(installationId: number): Promise<InstallationToken> {
+    const { data } = await this.getAppClient().rest.apps.createInstallationAccessToken({
+      installation_id: installationId,
+    });
+
+    const token: InstallationToken = {
+      token: data.token,
+      expiresAt: new Date(data.expires_at),
+    };
+
+    this.tokenCache.set(installationId, token);
+    this.logger.debug(
+      `Installation ${installationId} token refreshed (expires ${token.expiresAt.toISOString()})`,
+    );
+
+    return token;
+  }
+
+  /**
+   * Accept keys pasted with literal "\n" sequences (common in .env files)
+   */
+  private normalizePrivateKey(key?: string): string | undefined {
+    return key ? key.replace(/\\n/g, '\n') : undefined;
+  }
+
+  private base64Url(value: string): string {
+    return Buffer.from(value).toString('base64url');
+  }
+}
@@ -0,0 +1,18 @@
+import { Global, Module } from '@nestjs/common';
+import { GitHubClientService } from './github-client.service';
+
+/**
+ * GitHub Module
+ *
+ * Purpose: Authenticated GitHub API access
+ * Constitutional Requirement: Article III - Zero Trust
+ *
+ * Global: DETER-AGENT execution actions and webhook handlers all call GitHub
+ */
+
+@Global()
+@Module({
+  providers: [GitHubClientService],
+  exports: [GitHubClientService],
+})
+export class GitHubModule {}
@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { InstallationSyncService } from './installation-sync.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { JobQueueWorker } from '../queue/job-queue.worker';
+import { TenantService } from './tenant.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+/**
+ * Installation Sync Service Unit Tests
+ *
+ * Purpose: Verify installation webhooks and reconciliation keep Repository rows current
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ */
+
+describe('InstallationSyncService', () => {
+  let service: InstallationSyncService;
+
+  const paginate = jest.fn();
+  const octokit = {
+    paginate,
+    rest: { apps: { listInstallations: jest.fn(), listReposAccessibleToInstallation: jest.fn() } },
+  };
+  const githubClient = {
+    getAuthMode: jest.fn().mockReturnValue('app'),
+    getAppClient: jest.fn().mockReturnValue(octokit),
+    getInstallationClient: jest.fn().mockResolvedValue(octokit),
+  };
+  const configService = { get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue) };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InstallationSyncService,
+        TenantService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: GitHubClientService, useValue: githubClient },
+        { provide: JobQueueService, useValue: { enqueue: jest.fn() } },
+        { provide: JobQueueWorker, useValue: { registerHandler: jest.fn() } },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<InstallationSyncService>(InstallationSyncService);
+
+    mockPrismaService.installation.upsert.mockImplementation(({ where, update }) =>
+      Promise.resolve({
+        id: `inst-${where.githubInstallationId}`,
+        githubInstallationId: where.githubInstallationId,
+        accountLogin: 'test-owner',
+        isActive: update.isActive,
+      }),
+    );
+    mockPrismaService.repository.upsert.mockImplementation(({ where }) =>
+      Promise.resolve({ id: `id-${where.fullName}`, configurations: [] }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create repositories with a default configuration when the app is installed', async () => {
+    const result = await service.handleEvent('installation', {
+      action: 'created',
+      installation: { id: 42, account: { login: 'test-owner', type: 'Organization' } },
+      repositories: [{ full_name: 'test-owner/test-repo' }],
+    });
+
+    expect(result.activated).toEqual(['test-owner/test-repo']);
+    expect(mockPrismaService.installation.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { githubInstallationId: 42 },
+        create: expect.objectContaining({
+          accountLogin: 'test-owner',
+          accountType: 'Organization',
+        }),
+      }),
+    );
+    expect(mockPrismaService.repository.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { fullName: 'test-owner/test-repo' },
+        create: expect.objectContaining({
+          owner: 'test-owner',
+          name: 'test-repo',
+          htmlUrl: 'https://github.com/test-owner/test-repo',
+          installationId: 'inst-42',
+          isActive: true,
+        }),
+      }),
+    );
+    expect(mockPrismaService.botConfiguration.create).toHaveBeenCalledWith({
+      data: { repositoryId: 'id-test-owner/test-repo' },
+    });
+  });
+
+  it('should deactivate repositories removed from the installation', async () => {
+    const result = await service.handleEvent('installation_repositories', {
+      action: 'removed',
+      installation: { id: 42 },
+      repositories_added: [],
+      repositories_removed: [{ full_name: 'test-owner/old-repo' }],
+    });
+
+    expect(result.deactivated).toEqual(['test-owner/old-repo']);
+    expect(mockPrismaService.repository.updateMany).toHaveBeenCalledWith({
+      where: { fullName: { in: ['test-owner/old-repo'] } },
+      data: { isActive: false, lastSyncAt: expect.any(Date) },
+    });
+    expect(mockPrismaService.repository.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should deactivate active repositories no installation can access', async () => {
+    paginate
+      .mockResolvedValueOnce([
+        { id: 42, account: { login: 'test-owner' }, suspended_at: null },
+        { id: 43, account: { login: 'other-org' }, suspended_at: '2026-01-01T00:00:00Z' },
+      ])
+      .mockResolvedValueOnce([{ full_name: 'test-owner/test-repo' }]);
+    mockPrismaService.repository.findMany.mockResolvedValue([{ fullName: 'test-owner/gone' }]);
+
+    const result = await service.reconcile();
+
+    expect(githubClient.getInstallationClient).toHaveBeenCalledTimes(1);
+    expect(githubClient.getInstallationClient).toHaveBeenCalledWith(42);
+    expect(mockPrismaService.repository.findMany).toHaveBeenCalledWith({
+      where: { isActive: true, fullName: { notIn: ['test-owner/test-repo'] } },
+      select: { fullName: true },
+    });
+    expect(result).toEqual({
+      activated: ['test-owner/test-repo'],
+      deactivated: ['test-owner/gone'],
+      installations: 2,
+    });
+  });
+});
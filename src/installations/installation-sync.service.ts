@@ -0,0 +1,306 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { JobQueueWorker } from '../queue/job-queue.worker';
+import { InstallationAccount, Tenant, TenantService } from './tenant.service';
+
+/**
+ * Installation Sync Service
+ *
+ * Purpose: Keep Repository rows in step with the repositories the GitHub App can access
+ * Constitutional Requirement: P4 Rastreabilidade Total - lastSyncAt records when GitHub last confirmed access
+ *
+ * Webhooks:
+ * - installation created / unsuspend / new_permissions_accepted → activate the listed repositories
+ * - installation deleted / suspend → deactivate every repository of the installation
+ * - installation_repositories added / removed → activate / deactivate the listed repositories
+ *
+ * Reconciliation: every REPOSITORY_SYNC_INTERVAL_MS a job lists every installation and its
+ * repositories through the GitHub API, activates what it finds and deactivates the rest.
+ * Catches webhooks missed while the bot was down. App authentication only.
+ *
+ * Every event and reconciliation also records the Installation (tenant) row, which owns
+ * the repositories it grants. Installation events are authoritative: a repository moved
+ * to another installation changes owner.
+ *
+ * Rows are never deleted: deactivation keeps their analyses and configuration.
+ * Every activated repository gets a default BotConfiguration if it has none.
+ */
+
+export const INSTALLATION_RECONCILE_JOB = 'installation_reconcile';
+
+export const INSTALLATION_EVENTS = ['installation', 'installation_repositories'];
+
+export interface InstallationRepository {
+  full_name: string;
+}
+
+export interface InstallationSyncResult {
+  installationId?: number;
+  activated: string[];
+  deactivated: string[];
+}
+
+export interface ReconciliationResult extends InstallationSyncResult {
+  skipped?: string;
+  installations: number;
+}
+
+const ACTIVATING_ACTIONS = ['created', 'unsuspend', 'new_permissions_accepted'];
+const DEACTIVATING_ACTIONS = ['deleted', 'suspend'];
+
+@Injectable()
+export class InstallationSyncService
+  implements OnModuleInit, OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(InstallationSyncService.name);
+  private readonly intervalMs: number;
+  private readonly workerEnabled: boolean;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly githubClient: GitHubClientService,
+    private readonly jobQueue: JobQueueService,
+    private readonly worker: JobQueueWorker,
+    private readonly tenants: TenantService,
+    configService: ConfigService,
+  ) {
+    this.intervalMs = Number(configService.get<number>('REPOSITORY_SYNC_INTERVAL_MS', 21600000));
+    this.workerEnabled =
+      String(configService.get<string>('QUEUE_WORKER_ENABLED', 'true')) !== 'false';
+  }
+
+  onModuleInit(): void {
+    this.worker.registerHandler(INSTALLATION_RECONCILE_JOB, () => this.reconcile());
+  }
+
+  /**
+   * Schedule reconciliation on worker replicas; the first run happens at startup
+   */
+  onApplicationBootstrap(): void {
+    if (!this.workerEnabled || this.intervalMs === 0) {
+      return;
+    }
+
+    void this.scheduleReconciliation();
+    this.timer = setInterval(() => void this.scheduleReconciliation(), this.intervalMs);
+  }
+
+  onApplicationShutdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Whether an event type is handled here rather than by DETER-AGENT
+   */
+  handles(eventType: string): boolean {
+    return INSTALLATION_EVENTS.includes(eventType);
+  }
+
+  /**
+   * Apply an installation or installation_repositories webhook
+   */
+  async handleEvent(
+    eventType: string,
+    payload: Record<string, unknown>,
+  ): Promise<InstallationSyncResult> {
+    const installation = payload.installation as InstallationAccount | undefined;
+    const installationId = typeof installation?.id === 'number' ? installation.id : undefined;
+    const action = typeof payload.action === 'string' ? payload.action : '';
+    const result: InstallationSyncResult = { installationId, activated: [], deactivated: [] };
+
+    if (!installation || installationId === undefined) {
+      throw new Error(`${eventType} event has no installation id`);
+    }
+
+    const tenant = await this.tenants.register(
+      installation,
+      !(eventType === 'installation' && DEACTIVATING_ACTIONS.includes(action)),
+    );
+
+    if (eventType === 'installation') {
+      const repositories = this.readRepositories(payload.repositories);
+
+      if (ACTIVATING_ACTIONS.includes(action)) {
+        result.activated = await this.activateRepositories(tenant, repositories);
+      } else if (DEACTIVATING_ACTIONS.includes(action)) {
+        result.deactivated = await this.deactivateInstallation(tenant, repositories);
+      }
+    } else if (eventType === 'installation_repositories') {
+      result.activated = await this.activateRepositories(
+        tenant,
+        this.readRepositories(payload.repositories_added),
+      );
+      result.deactivated = await this.deactivateRepositories(
+        this.readRepositories(payload.repositories_removed).map((repo) => repo.full_name),
+      );
+    }
+
+    this.logger.log(
+      `${eventType}.${action} for installation ${installationId}: ${result.activated.length} activated, ${result.deactivated.length} deactivated`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Compare Repository rows with every installation's repositories on GitHub
+   * Deactivation only happens after every installation was listed successfully
+   */
+  async reconcile(): Promise<ReconciliationResult> {
+    if (this.githubClient.getAuthMode() !== 'app') {
+      this.logger.debug('Repository reconciliation skipped: requires GitHub App authentication');
+      return {
+        activated: [],
+        deactivated: [],
+        installations: 0,
+        skipped: 'GitHub App authentication not configured',
+      };
+    }
+
+    const appClient = this.githubClient.getAppClient();
+    const installations = await appClient.paginate(appClient.rest.apps.listInstallations, {
+      per_page: 100,
+    });
+    const seen = new Set<string>();
+    const activated: string[] = [];
+
+    for (const installation of installations) {
+      const tenant = await this.tenants.register(installation);
+
+      if (!tenant.isActive) {
+        continue;
+      }
+
+      const client = await this.githubClient.getInstallationClient(installation.id);
+      const repositories = await client.paginate(
+        client.rest.apps.listReposAccessibleToInstallation,
+        { per_page: 100 },
+      );
+
+      repositories.forEach((repo) => seen.add(repo.full_name));
+      activated.push(...(await this.activateRepositories(tenant, repositories)));
+    }
+
+    const stale = await this.prisma.repository.findMany({
+      where: { isActive: true, fullName: { notIn: [...seen] } },
+      select: { fullName: true },
+    });
+    const deactivated = await this.deactivateRepositories(stale.map((repo) => repo.fullName));
+
+    this.logger.log(
+      `Repository reconciliation: ${installations.length} installation(s), ${seen.size} repositories, ${deactivated.length} deactivated`,
+    );
+
+    return { activated, deactivated, installations: installations.length };
+  }
+
+  /**
+   * Enqueue a reconciliation unless one is already waiting or running
+   */
+  async scheduleReconciliation(): Promise<void> {
+    try {
+      const pending = await this.prisma.jobQueue.count({
+        where: { jobType: INSTALLATION_RECONCILE_JOB, status: { in: ['queued', 'processing'] } },
+      });
+
+      if (pending === 0) {
+        await this.jobQueue.enqueue(INSTALLATION_RECONCILE_JOB, {}, { maxAttempts: 1 });
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule repository reconciliation: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Create or reactivate repositories and give new ones a default BotConfiguration
+   * Returns the full names that were activated
+   */
+  private async activateRepositories(
+    tenant: Tenant,
+    repositories: InstallationRepository[],
+  ): Promise<string[]> {
+    const now = new Date();
+
+    for (const { full_name: fullName } of repositories) {
+      const [owner, name] = fullName.split('/');
+      const repository = await this.prisma.repository.upsert({
+        where: { fullName },
+        create: {
+          owner,
+          name,
+          fullName,
+          htmlUrl: `https://github.com/${fullName}`,
+          isActive: true,
+          installationId: tenant.id,
+          lastSyncAt: now,
+        },
+        update: { isActive: true, installationId: tenant.id, lastSyncAt: now },
+        include: { configurations: { select: { id: true } } },
+      });
+
+      if (repository.configurations.length === 0) {
+        await this.prisma.botConfiguration.create({ data: { repositoryId: repository.id } });
+      }
+    }
+
+    return repositories.map((repo) => repo.full_name);
+  }
+
+  /**
+   * Deactivate every repository of an installation, plus any listed in the payload
+   */
+  private async deactivateInstallation(
+    tenant: Tenant,
+    repositories: InstallationRepository[],
+  ): Promise<string[]> {
+    const rows = await this.prisma.repository.findMany({
+      where: { installationId: tenant.id, isActive: true },
+      select: { fullName: true },
+    });
+
+    return this.deactivateRepositories([
+      ...new Set([...rows.map((row) => row.fullName), ...repositories.map((r) => r.full_name)]),
+    ]);
+  }
+
+  private async deactivateRepositories(fullNames: string[]): Promise<string[]> {
+    if (fullNames.length === 0) {
+      return [];
+    }
+
+    await this.prisma.repository.updateMany({
+      where: { fullName: { in: fullNames } },
+      data: { isActive: false, lastSyncAt: new Date() },
+    });
+
+    return fullNames;
+  }
+
+  /**
+   * Repository list from a webhook payload (absent for "selected repositories" deletes)
+   */
+  private readRepositories(value: unknown): InstallationRepository[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    return value.filter(
+      (repo): repo is InstallationRepository =>
+        typeof (repo as { full_name?: unknown })?.full_name === 'string',
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { Global, Module } from '@nestjs/common';
+import { QueueModule } from '../queue/queue.module';
+import { InstallationSyncService } from './installation-sync.service';
+import { TenantService } from './tenant.service';
+
+/**
+ * Installations Module
+ *
+ * Purpose: GitHub App installations as tenants, and the repositories they own
+ * Constitutional Requirement: Article III - Zero Trust (tenant isolation)
+ *
+ * Global: TenantService scopes repository queries in every feature module
+ * Exports: TenantService, InstallationSyncService for the webhook pipeline
+ */
+
+@Global()
+@Module({
+  imports: [QueueModule],
+  providers: [TenantService, InstallationSyncService],
+  exports: [TenantService, InstallationSyncService],
+})
+export class InstallationsModule {}
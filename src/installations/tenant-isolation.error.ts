@@ -0,0 +1,15 @@
+/**
+ * Tenant Isolation Error
+ *
+ * Purpose: Stop a tenant from reading or writing another tenant's repository
+ * Constitutional Requirement: Article III - Zero Trust (tenants never share data)
+ */
+export class TenantIsolationError extends Error {
+  constructor(
+    readonly repository: string,
+    readonly tenantId: string,
+  ) {
+    super(`Repository ${repository} belongs to another installation`);
+    this.name = 'TenantIsolationError';
+  }
+}
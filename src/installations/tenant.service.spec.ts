@@ -0,0 +1,80 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Tenant, TenantService } from './tenant.service';
+import { TenantIsolationError } from './tenant-isolation.error';
+import { PrismaService } from '../prisma/prisma.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+/**
+ * Tenant Service Unit Tests
+ *
+ * Purpose: Verify repositories are claimed by, and isolated between, installations
+ * Constitutional Requirement: Article III - Zero Trust
+ */
+
+describe('TenantService', () => {
+  let service: TenantService;
+
+  const tenant: Tenant = {
+    id: 'inst-1',
+    githubInstallationId: 42,
+    accountLogin: 'test-owner',
+    isActive: true,
+  };
+  const identity = { owner: 'test-owner', name: 'test-repo', fullName: 'test-owner/test-repo' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [TenantService, { provide: PrismaService, useValue: mockPrismaService }],
+    }).compile();
+
+    service = module.get<TenantService>(TenantService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should claim a repository that no installation owns yet', async () => {
+    mockPrismaService.repository.upsert.mockResolvedValue({ id: 'repo-1', installationId: null });
+    mockPrismaService.repository.update.mockResolvedValue({
+      id: 'repo-1',
+      installationId: 'inst-1',
+    });
+
+    const repository = await service.upsertRepository(identity, tenant);
+
+    expect(repository.installationId).toBe('inst-1');
+    expect(mockPrismaService.repository.update).toHaveBeenCalledWith({
+      where: { id: 'repo-1' },
+      data: { installationId: 'inst-1' },
+    });
+  });
+
+  it("should refuse writes to another installation's repository", async () => {
+    mockPrismaService.repository.upsert.mockResolvedValue({
+      id: 'repo-1',
+      installationId: 'inst-2',
+    });
+
+    await expect(service.upsertRepository(identity, tenant)).rejects.toBeInstanceOf(
+      TenantIsolationError,
+    );
+    expect(mockPrismaService.repository.update).not.toHaveBeenCalled();
+  });
+
+  it('should register installations it has not seen when resolving an event', async () => {
+    mockPrismaService.installation.findUnique.mockResolvedValue(null);
+    mockPrismaService.installation.upsert.mockResolvedValue({
+      id: 'inst-1',
+      githubInstallationId: 42,
+      accountLogin: 'test-owner',
+      isActive: true,
+    });
+
+    await expect(service.resolve(42, 'test-owner')).resolves.toEqual(tenant);
+    await expect(service.resolve(undefined, 'test-owner')).resolves.toBeUndefined();
+    expect(service.scope(tenant)).toEqual({
+      OR: [{ installationId: 'inst-1' }, { installationId: null }],
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Installation, Prisma, Repository } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TenantIsolationError } from './tenant-isolation.error';
+
+/**
+ * Tenant Service
+ *
+ * Purpose: Resolve the Installation (tenant) an event belongs to and scope repository access to it
+ * Constitutional Requirement: Article III - Zero Trust (one deployment, isolated organizations)
+ *
+ * A tenant is a GitHub App installation. Repositories belong to at most one tenant:
+ * - rows without an owner (seeded, or created under token auth) are claimed on first use
+ * - rows owned by another tenant are invisible to reads and raise TenantIsolationError on writes
+ * Without a tenant (token auth, single organization) queries are unscoped.
+ */
+
+export interface Tenant {
+  /** Installation row id */
+  id: string;
+  githubInstallationId: number;
+  accountLogin: string;
+  isActive: boolean;
+  /** Webhook deliveries per minute (unset: the deployment default) */
+  rateLimitPerMinute?: number;
+  /** Model calls per UTC day (unset: LLM_DAILY_CALL_BUDGET) */
+  aiDailyCallBudget?: number;
+}
+
+export interface InstallationAccount {
+  id: number;
+  account?: { login?: string; type?: string } | null;
+  suspended_at?: string | null;
+}
+
+export interface RepositoryIdentity {
+  owner: string;
+  name: string;
+  fullName: string;
+}
+
+@Injectable()
+export class TenantService {
+  private readonly logger = new Logger(TenantService.name);
+
+  constructor(private readonly prisma: PrismaService) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Tenant for an event's installation id
+   * Installations created before the bot saw their `installation` event are registered here
+   */
+  async resolve(
+    githubInstallationId: number | undefined,
+    accountLogin: string,
+  ): Promise<Tenant | undefined> {
+    if (githubInstallationId === undefined) {
+      return undefined;
+    }
+
+    const existing = await this.prisma.installation.findUnique({
+      where: { githubInstallationId },
+    });
+
+    if (existing) {
+      return this.toTenant(existing);
+    }
+
+    return this.register({ id: githubInstallationId, account: { login: accountLogin } });
+  }
+
+  /**
+   * Tenant for an installation id, without registering unknown installations
+   */
+  async find(githubInstallationId: number): Promise<Tenant | undefined> {
+    const row = await this.prisma.installation.findUnique({ where: { githubInstallationId } });
+
+    return row ? this.toTenant(row) : undefined;
+  }
+
+  /**
+   * Create or update the Installation row from a webhook or API installation object
+   */
+  async register(installation: InstallationAccount, isActive = true): Promise<Tenant> {
+    const accountLogin = installation.account?.login;
+    const suspendedAt = installation.suspended_at ? new Date(installation.suspended_at) : null;
+    const data = {
+      isActive: isActive && !suspendedAt,
+      suspendedAt,
+      ...(accountLogin ? { accountLogin } : {}),
+      ...(installation.account?.type ? { accountType: installation.account.type } : {}),
+    };
+
+    const row = await this.prisma.installation.upsert({
+      where: { githubInstallationId: installation.id },
+      create: {
+        githubInstallationId: installation.id,
+        accountLogin: accountLogin ?? 'unknown',
+        ...data,
+      },
+      update: data,
+    });
+
+    return this.toTenant(row);
+  }
+
+  /**
+   * Filter that restricts repository queries to the tenant (and unclaimed rows)
+   */
+  scope(tenant?: Tenant): Prisma.RepositoryWhereInput {
+    return tenant ? { OR: [{ installationId: tenant.id }, { installationId: null }] } : {};
+  }
+
+  /**
+   * Repository row for a write on the tenant's behalf, created or claimed as needed
+   */
+  async upsertRepository(identity: RepositoryIdentity, tenant?: Tenant): Promise<Repository> {
+    const repository = await this.prisma.repository.upsert({
+      where: { fullName: identity.fullName },
+      create: {
+        owner: identity.owner,
+        name: identity.name,
+        fullName: identity.fullName,
+        htmlUrl: `https://github.com/${identity.fullName}`,
+        installationId: tenant?.id,
+      },
+      update: {},
+    });
+
+    if (!tenant || repository.installationId === tenant.id) {
+      return repository;
+    }
+
+    if (repository.installationId !== null) {
+      this.logger.warn(
+        `Tenant ${tenant.accountLogin} (${tenant.id}) denied access to ${identity.fullName}`,
+      );
+      throw new TenantIsolationError(identity.fullName, tenant.id);
+    }
+
+    return this.prisma.repository.update({
+      where: { id: repository.id },
+      data: { installationId: tenant.id },
+    });
+  }
+
+  private toTenant(row: Installation): Tenant {
+    return {
+      id: row.id,
+      githubInstallationId: row.githubInstallationId,
+      accountLogin: row.accountLogin,
+      isActive: row.isActive,
+      rateLimitPerMinute: row.rateLimitPerMinute ?? undefined,
+      aiDailyCallBudget: row.aiDailyCallBudget ?? undefined,
+    };
+  }
+}
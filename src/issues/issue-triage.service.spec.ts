@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ANALYSIS_COMMENT_MARKER, IssueRef, IssueTriageService } from './issue-triage.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { LlmService } from '../ai/llm.service';
+import { TenantService } from '../installations/tenant.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+/**
+ * Issue Triage Service Unit Tests
+ *
+ * Purpose: Verify model output normalization, label filtering and the single analysis comment
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ */
+
+describe('IssueTriageService', () => {
+  let service: IssueTriageService;
+
+  const issues = {
+    listLabelsForRepo: jest.fn(),
+    listComments: jest.fn(),
+    addLabels: jest.fn(),
+    createComment: jest.fn(),
+    updateComment: jest.fn(),
+  };
+  const paginate = jest.fn();
+  const octokit = { paginate, rest: { issues } };
+  const llm = { generateJson: jest.fn() };
+
+  const issue: IssueRef = {
+    owner: 'test-owner',
+    repo: 'test-repo',
+    number: 7,
+    title: 'Crash on startup',
+    body: 'The app crashes when started without a config file',
+    author: 'reporter',
+    installationId: 42,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IssueTriageService,
+        TenantService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: GitHubClientService,
+          useValue: { getRepositoryClient: jest.fn().mockResolvedValue(octokit) },
+        },
+        { provide: LlmService, useValue: llm },
+      ],
+    }).compile();
+
+    service = module.get<IssueTriageService>(IssueTriageService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should coerce unexpected model output into a valid analysis', async () => {
+    paginate.mockResolvedValue([{ name: 'bug' }]);
+    llm.generateJson.mockResolvedValue({
+      data: { classification: 'rant', priority: 'urgent', labels: ['bug', 3], confidence: 1.7 },
+      provider: 'gemini',
+      model: 'gemini-1.5-flash',
+      latencyMs: 120,
+    });
+
+    const analysis = await service.analyze(issue);
+
+    expect(analysis).toEqual({
+      classification: 'question',
+      priority: 'medium',
+      suggestedLabels: ['bug'],
+      confidence: 1,
+      summary: '',
+      model: 'gemini-1.5-flash',
+    });
+  });
+
+  it('should apply only labels that exist in the repository', async () => {
+    paginate.mockResolvedValue([{ name: 'Bug' }, { name: 'needs-triage' }]);
+
+    const result = await service.applyLabels(issue, ['bug', 'needs-triage', 'crash']);
+
+    expect(result).toEqual({ applied: ['Bug', 'needs-triage'], skipped: ['crash'] });
+    expect(issues.addLabels).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issue_number: 7,
+      labels: ['Bug', 'needs-triage'],
+    });
+  });
+
+  it('should update the existing analysis comment instead of posting another', async () => {
+    paginate.mockResolvedValue([
+      { id: 1, body: 'Thanks for the report' },
+      { id: 2, body: `${ANALYSIS_COMMENT_MARKER}\nold analysis` },
+    ]);
+
+    const result = await service.upsertAnalysisComment(issue, 'new analysis');
+
+    expect(result).toEqual({
+      commentId: 2,
+      previousBody: `${ANALYSIS_COMMENT_MARKER}\nold analysis`,
+    });
+    expect(issues.updateComment).toHaveBeenCalledWith(
+      expect.objectContaining({ comment_id: 2, body: `${ANALYSIS_COMMENT_MARKER}\nnew analysis` }),
+    );
+    expect(issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it('should post a new analysis comment on first analysis', async () => {
+    paginate.mockResolvedValue([]);
+    issues.createComment.mockResolvedValue({ data: { id: 99 } });
+
+    await expect(service.upsertAnalysisComment(issue, 'analysis')).resolves.toEqual({
+      commentId: 99,
+    });
+    expect(issues.updateComment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,308 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Octokit } from '@octokit/rest';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { Tenant, TenantService } from '../installations/tenant.service';
+import { LlmSelection, LlmService } from '../ai/llm.service';
+
+/**
+ * Issue Triage Service
+ *
+ * Purpose: AI issue analysis, labelling and the analysis comment
+ * Constitutional Requirement: P4 Rastreabilidade Total - every analysis is stored in IssueAnalysis
+ *
+ * Labels: only labels that already exist in the repository are applied
+ * Comment: one analysis comment per issue, found by a hidden marker and updated in place
+ */
+
+export type IssueClassification = 'bug' | 'feature' | 'question' | 'documentation';
+export type IssuePriority = 'critical' | 'high' | 'medium' | 'low';
+
+export interface IssueRef {
+  owner: string;
+  repo: string;
+  number: number;
+  title: string;
+  body: string;
+  author: string;
+  installationId?: number;
+  tenant?: Tenant;
+}
+
+export interface IssueTriageAnalysis {
+  classification: IssueClassification;
+  priority: IssuePriority;
+  suggestedLabels: string[];
+  confidence: number;
+  summary: string;
+  model: string;
+}
+
+export interface LabelApplication {
+  applied: string[];
+  skipped: string[];
+}
+
+export interface AnalysisCommentResult {
+  commentId: number;
+  /** Body of the comment before this update; unset when the comment was created */
+  previousBody?: string;
+}
+
+interface ModelTriageResponse {
+  classification?: unknown;
+  priority?: unknown;
+  labels?: unknown;
+  confidence?: unknown;
+  summary?: unknown;
+}
+
+export const ANALYSIS_COMMENT_MARKER = '<!-- vertice-bot:issue-analysis -->';
+
+const CLASSIFICATIONS: IssueClassification[] = ['bug', 'feature', 'question', 'documentation'];
+const PRIORITIES: IssuePriority[] = ['critical', 'high', 'medium', 'low'];
+const MAX_BODY_CHARS = 8000;
+
+@Injectable()
+export class IssueTriageService {
+  private readonly logger = new Logger(IssueTriageService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly githubClient: GitHubClientService,
+    private readonly tenants: TenantService,
+    private readonly llm: LlmService,
+  ) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Classify an issue, rate its priority and suggest labels
+   * Labels the repository actually has are offered to the model as candidates
+   */
+  async analyze(issue: IssueRef, selection: LlmSelection = {}): Promise<IssueTriageAnalysis> {
+    const repositoryLabels = await this.listRepositoryLabels(issue);
+
+    const { data, model: usedModel } = await this.llm.generateJson<ModelTriageResponse>(
+      this.buildPrompt(issue, repositoryLabels),
+      selection,
+    );
+
+    const analysis = this.normalize(data, usedModel);
+
+    this.logger.log(
+      `Issue ${issue.owner}/${issue.repo}#${issue.number} classified as ${analysis.classification} (${analysis.priority}, confidence ${analysis.confidence.toFixed(2)})`,
+    );
+
+    return analysis;
+  }
+
+  /**
+   * Add suggested labels that exist in the repository
+   */
+  async applyLabels(issue: IssueRef, suggested: string[]): Promise<LabelApplication> {
+    const existing = await this.listRepositoryLabels(issue);
+    const byLowerName = new Map(existing.map((name) => [name.toLowerCase(), name]));
+
+    const applied: string[] = [];
+    const skipped: string[] = [];
+
+    for (const label of suggested) {
+      const match = byLowerName.get(label.toLowerCase());
+
+      if (match && !applied.includes(match)) {
+        applied.push(match);
+      } else if (!match) {
+        skipped.push(label);
+      }
+    }
+
+    if (applied.length > 0) {
+      const client = await this.getClient(issue);
+
+      await client.rest.issues.addLabels({
+        owner: issue.owner,
+        repo: issue.repo,
+        issue_number: issue.number,
+        labels: applied,
+      });
+    }
+
+    if (skipped.length > 0) {
+      this.logger.debug(
+        `Skipped labels missing from ${issue.owner}/${issue.repo}: ${skipped.join(', ')}`,
+      );
+    }
+
+    return { applied, skipped };
+  }
+
+  /**
+   * Create the analysis comment, or update it if the bot already posted one
+   * Returns the comment id and, for an update, the body it replaced
+   */
+  async upsertAnalysisComment(issue: IssueRef, body: string): Promise<AnalysisCommentResult> {
+    const client = await this.getClient(issue);
+    const markedBody = `${ANALYSIS_COMMENT_MARKER}\n${body}`;
+
+    const comments = await client.paginate(client.rest.issues.listComments, {
+      owner: issue.owner,
+      repo: issue.repo,
+      issue_number: issue.number,
+      per_page: 100,
+    });
+
+    const previous = comments.find((comment) => comment.body?.includes(ANALYSIS_COMMENT_MARKER));
+
+    if (previous) {
+      await client.rest.issues.updateComment({
+        owner: issue.owner,
+        repo: issue.repo,
+        comment_id: previous.id,
+        body: markedBody,
+      });
+
+      return { commentId: previous.id, previousBody: previous.body ?? '' };
+    }
+
+    const { data } = await client.rest.issues.createComment({
+      owner: issue.owner,
+      repo: issue.repo,
+      issue_number: issue.number,
+      body: markedBody,
+    });
+
+    return { commentId: data.id };
+  }
+
+  /**
+   * Render the analysis comment body
+   */
+  renderComment(analysis: IssueTriageAnalysis, labels: LabelApplication): string {
+    const lines = [
+      '### 🤖 Vértice issue analysis',
+      '',
+      `**Classification:** ${analysis.classification}`,
+      `**Priority:** ${analysis.priority}`,
+      `**Confidence:** ${Math.round(analysis.confidence * 100)}%`,
+    ];
+
+    if (labels.applied.length > 0) {
+      lines.push(`**Labels applied:** ${labels.applied.map((l) => `\`${l}\``).join(', ')}`);
+    }
+
+    if (analysis.summary) {
+      lines.push('', analysis.summary);
+    }
+
+    lines.push(
+      '',
+      `<sub>Analyzed by ${analysis.model}. Edit the issue to request a new analysis.</sub>`,
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Persist the analysis as an IssueAnalysis row (one per issue, updated on re-analysis)
+   */
+  async recordAnalysis(
+    issue: IssueRef,
+    analysis: IssueTriageAnalysis,
+    processingTimeMs: number,
+  ): Promise<void> {
+    const fullName = `${issue.owner}/${issue.repo}`;
+
+    const repository = await this.tenants.upsertRepository(
+      { owner: issue.owner, name: issue.repo, fullName },
+      issue.tenant,
+    );
+
+    const data = {
+      title: issue.title,
+      body: issue.body,
+      author: issue.author,
+      classification: analysis.classification,
+      priority: analysis.priority,
+      suggestedLabels: analysis.suggestedLabels,
+      summary: analysis.summary,
+      confidence: analysis.confidence,
+      processedByModel: analysis.model,
+      processingTimeMs,
+      errorMessage: null,
+      isProcessed: true,
+      processingResult: 'success',
+    };
+
+    await this.prisma.issueAnalysis.upsert({
+      where: {
+        repositoryId_issueNumber: { repositoryId: repository.id, issueNumber: issue.number },
+      },
+      create: { repositoryId: repository.id, issueNumber: issue.number, ...data },
+      update: data,
+    });
+  }
+
+  private async listRepositoryLabels(issue: IssueRef): Promise<string[]> {
+    const client = await this.getClient(issue);
+
+    const labels = await client.paginate(client.rest.issues.listLabelsForRepo, {
+      owner: issue.owner,
+      repo: issue.repo,
+      per_page: 100,
+    });
+
+    return labels.map((label) => label.name);
+  }
+
+  private async getClient(issue: IssueRef): Promise<Octokit> {
+    return this.githubClient.getRepositoryClient(issue.owner, issue.repo, issue.installationId);
+  }
+
+  private buildPrompt(issue: IssueRef, repositoryLabels: string[]): string {
+    const body =
+      issue.body.length > MAX_BODY_CHARS
+        ? `${issue.body.slice(0, MAX_BODY_CHARS)}\n[truncated]`
+        : issue.body;
+
+    return [
+      'You triage GitHub issues. Respond with a single JSON object and nothing else:',
+      '{"classification": "bug" | "feature" | "question" | "documentation",',
+      ' "priority": "critical" | "high" | "medium" | "low",',
+      ' "labels": string[] (chosen only from the available labels),',
+      ' "confidence": number between 0 and 1,',
+      ' "summary": string (two or three sentences for maintainers)}',
+      '',
+      `Available labels: ${repositoryLabels.length > 0 ? repositoryLabels.join(', ') : '(none)'}`,
+      '',
+      `Repository: ${issue.owner}/${issue.repo}`,
+      `Title: ${issue.title}`,
+      'Body:',
+      body || '(empty)',
+    ].join('\n');
+  }
+
+  /**
+   * Coerce the model response into a valid analysis
+   */
+  private normalize(response: ModelTriageResponse, model: string): IssueTriageAnalysis {
+    const classification = CLASSIFICATIONS.includes(response.classification as IssueClassification)
+      ? (response.classification as IssueClassification)
+      : 'question';
+    const priority = PRIORITIES.includes(response.priority as IssuePriority)
+      ? (response.priority as IssuePriority)
+      : 'medium';
+    const confidence = typeof response.confidence === 'number' ? response.confidence : 0;
+
+    return {
+      classification,
+      priority,
+      suggestedLabels: Array.isArray(response.labels)
+        ? response.labels.filter((l): l is string => typeof l === 'string')
+        : [],
+      confidence: Math.min(1, Math.max(0, confidence)),
+      summary: typeof response.summary === 'string' ? response.summary.trim() : '',
+      model,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { IssueTriageService } from './issue-triage.service';
+
+/**
+ * Issues Module
+ *
+ * Purpose: Issue triage used by the DETER-AGENT execution layer
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ *
+ * Exports: IssueTriageService
+ */
+
+@Module({
+  providers: [IssueTriageService],
+  exports: [IssueTriageService],
+})
+export class IssuesModule {}
@@ -2,7 +2,7 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { AppModule } from './app.module';
 import { ConfigService } from '@nestjs/config';
-import { json, urlencoded } from 'express';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { WINSTON_MODULE_NEST_PROVIDER } from 'nest-winston';
 import {
   HttpExceptionFilter,
@@ -26,7 +26,7 @@ async function bootstrap(): Promise<void> {
 
   logger.log('🚀 Starting Vértice GitHub Bot...');
 
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: ['error', 'warn', 'log', 'debug', 'verbose'],
     rawBody: true,
   });
@@ -36,8 +36,9 @@ async function bootstrap(): Promise<void> {
 
   const configService = app.get(ConfigService);
 
-  app.use(json({ limit: '10mb' }));
-  app.use(urlencoded({ extended: true, limit: '10mb' }));
+  // Registered through Nest so `rawBody` keeps the exact bytes GitHub signed
+  app.useBodyParser('json', { limit: '10mb' });
+  app.useBodyParser('urlencoded', { extended: true, limit: '10mb' });
 
   app.useGlobalFilters(new AllExceptionsFilter(), new HttpExceptionFilter());
   app.useGlobalInterceptors(
@@ -76,8 +77,11 @@ async function bootstrap(): Promise<void> {
     ],
   });
 
+  // Lets the job queue worker finish its in-flight job on SIGTERM
+  app.enableShutdownHooks();
+
   app.setGlobalPrefix('api/v1', {
-    exclude: ['/health', '/metrics'],
+    exclude: ['/health', '/metrics', '/webhooks/github'],
   });
 
   const port = configService.get<number>('PORT', 3000);
@@ -90,6 +94,7 @@ async function bootstrap(): Promise<void> {
   logger.log(`✅ API Prefix: /api/v1`);
   logger.log(`✅ Health Check: http://localhost:${port}/health`);
   logger.log(`✅ Metrics: http://localhost:${port}/metrics`);
+  logger.log(`✅ Webhooks: http://localhost:${port}/webhooks/github`);
   logger.log('');
   logger.log('📜 Constitutional Compliance: ACTIVE');
   logger.log('🔒 Zero Trust: ENABLED');
@@ -40,6 +40,9 @@ export class MetricsService {
   private webhookProcessedCount = 0;
   private webhookErrorCount = 0;
   private webhookDuration: number[] = [];
+  private webhookDuplicateCount = 0;
+  private webhookSecretMatches: Map<string, number> = new Map();
+  private jobDeadLetterCount = 0;
 
   private constitutionalMetrics: ConstitutionalMetrics[] = [];
 
@@ -107,6 +110,53 @@ export class MetricsService {
     });
   }
 
+  /**
+   * Record a redelivered webhook that was short-circuited by idempotency
+   */
+  recordWebhookDuplicate(eventType: string): void {
+    this.webhookDuplicateCount++;
+
+    this.recordMetric({
+      name: 'webhooks_duplicate_total',
+      value: 1,
+      labels: {
+        event_type: eventType,
+      },
+    });
+  }
+
+  /**
+   * Record which webhook secret validated a delivery
+   * Lets operators confirm an old secret has stopped matching before removing it
+   */
+  recordWebhookSecretMatch(secretId: string, source: string): void {
+    this.webhookSecretMatches.set(secretId, (this.webhookSecretMatches.get(secretId) ?? 0) + 1);
+
+    this.recordMetric({
+      name: 'webhook_secret_matches_total',
+      value: 1,
+      labels: {
+        secret_id: secretId,
+        source,
+      },
+    });
+  }
+
+  /**
+   * Record a job moved to the dead-letter state
+   */
+  recordJobDeadLettered(jobType: string): void {
+    this.jobDeadLetterCount++;
+
+    this.recordMetric({
+      name: 'jobs_dead_lettered_total',
+      value: 1,
+      labels: {
+        job_type: jobType,
+      },
+    });
+  }
+
   /**
    * Record constitutional compliance metrics
    * Article II: Constitutional metrics must be tracked
@@ -224,6 +274,23 @@ export class MetricsService {
     lines.push(`webhook_errors_total ${this.webhookErrorCount}`);
     lines.push('');
 
+    lines.push('# HELP webhooks_duplicate_total Redelivered webhooks skipped by idempotency');
+    lines.push('# TYPE webhooks_duplicate_total counter');
+    lines.push(`webhooks_duplicate_total ${this.webhookDuplicateCount}`);
+    lines.push('');
+
+    lines.push('# HELP webhook_secret_matches_total Webhook signatures validated per secret');
+    lines.push('# TYPE webhook_secret_matches_total counter');
+    for (const [secretId, count] of this.webhookSecretMatches) {
+      lines.push(`webhook_secret_matches_total{secret_id="${secretId}"} ${count}`);
+    }
+    lines.push('');
+
+    lines.push('# HELP jobs_dead_lettered_total Jobs that exhausted retries or failed permanently');
+    lines.push('# TYPE jobs_dead_lettered_total counter');
+    lines.push(`jobs_dead_lettered_total ${this.jobDeadLetterCount}`);
+    lines.push('');
+
     if (this.constitutionalMetrics.length > 0) {
       const latest =
         this.constitutionalMetrics[this.constitutionalMetrics.length - 1];
@@ -318,6 +385,9 @@ export class MetricsService {
     this.webhookProcessedCount = 0;
     this.webhookErrorCount = 0;
     this.webhookDuration = [];
+    this.webhookDuplicateCount = 0;
+    this.webhookSecretMatches.clear();
+    this.jobDeadLetterCount = 0;
     this.constitutionalMetrics = [];
   }
 }
@@ -0,0 +1,169 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  PullRequestReview,
+  PullRequestReviewService,
+  PullRequestSnapshot,
+} from './pull-request-review.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { LlmService } from '../ai/llm.service';
+import { LEICalculatorService } from '../constitutional/metrics/lei-calculator.service';
+import { CRSCalculatorService } from '../constitutional/metrics/crs-calculator.service';
+import { FPCCalculatorService } from '../constitutional/metrics/fpc-calculator.service';
+import { DiffMetricsService } from '../constitutional/metrics/diff-metrics.service';
+import { TenantService } from '../installations/tenant.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+/**
+ * Pull Request Review Service Unit Tests
+ *
+ * Purpose: Verify diff-scoped metrics, review submission and PRAnalysis persistence
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ */
+
+describe('PullRequestReviewService', () => {
+  let service: PullRequestReviewService;
+
+  const pulls = { createReview: jest.fn() };
+  const octokit = { rest: { pulls } };
+  const ref = { owner: 'test-owner', repo: 'test-repo', number: 12, installationId: 42 };
+
+  const buildPullRequest = (files: PullRequestSnapshot['files']): PullRequestSnapshot => ({
+    number: 12,
+    title: 'Add retry helper',
+    body: '',
+    author: 'contributor',
+    headSha: 'abc1234def',
+    additions: 10,
+    deletions: 2,
+    changedFiles: files.length,
+    files,
+  });
+
+  const buildReview = (overrides: Partial<PullRequestReview> = {}): PullRequestReview => ({
+    pullRequest: buildPullRequest([]),
+    metrics: {
+      lei: 0,
+      crs: 100,
+      crsThreshold: 95,
+      crsPassed: true,
+      crsRequiredFailures: [],
+      rulePack: { name: 'vertice/default', version: '1.0.0' },
+      fpc: 100,
+      addedLines: 0,
+      lazyPatterns: [],
+      resolvedPatterns: [],
+      suppressedPatterns: [],
+      files: [],
+    },
+    qualityScore: 90,
+    securityIssues: [],
+    suggestions: [],
+    summary: 'Looks good',
+    confidence: 0.8,
+    model: 'gemini-1.5-flash',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PullRequestReviewService,
+        TenantService,
+        LEICalculatorService,
+        CRSCalculatorService,
+        FPCCalculatorService,
+        DiffMetricsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: GitHubClientService,
+          useValue: { getRepositoryClient: jest.fn().mockResolvedValue(octokit) },
+        },
+        { provide: LlmService, useValue: { generateJson: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<PullRequestReviewService>(PullRequestReviewService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should measure only the lines a pull request adds', () => {
+    const metrics = service.calculateMetrics(
+      buildPullRequest([
+        {
+          filename: 'src/retry.ts',
+          status: 'modified',
+          additions: 2,
+          deletions: 1,
+          patch:
+            '@@ -1,2 +1,3 @@\n-// TODO: old note\n+export const retries = 3;\n+// TODO: tune\n context',
+        },
+        {
+          filename: 'src/legacy.ts',
+          status: 'removed',
+          additions: 0,
+          deletions: 1,
+          patch: '@@ -1 +0,0 @@\n-// TODO: removed',
+        },
+      ]),
+    );
+
+    expect(metrics.addedLines).toBe(2);
+    expect(metrics.lazyPatterns).toEqual([
+      expect.objectContaining({ filename: 'src/retry.ts', type: 'TODO_COMMENT', line: 2 }),
+    ]);
+    expect(metrics.resolvedPatterns).toEqual([
+      expect.objectContaining({ filename: 'src/retry.ts', line: 1, hunk: '@@ -1,2 +1,3 @@' }),
+      expect.objectContaining({ filename: 'src/legacy.ts', line: 1 }),
+    ]);
+    expect(metrics.lei).toBe(500);
+    expect(metrics.fpc).toBe(50);
+  });
+
+  it('should request changes when security issues are found', async () => {
+    pulls.createReview.mockResolvedValue({ data: { id: 321 } });
+
+    const reviewId = await service.submitReview(
+      ref,
+      buildReview({ securityIssues: ['SQL built from request input'] }),
+      { maxLEI: 1 },
+    );
+
+    expect(reviewId).toBe(321);
+    expect(pulls.createReview).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pull_number: 12,
+        commit_id: 'abc1234def',
+        event: 'REQUEST_CHANGES',
+      }),
+    );
+  });
+
+  it('should comment without approving a clean pull request', async () => {
+    pulls.createReview.mockResolvedValue({ data: { id: 322 } });
+
+    await service.submitReview(ref, buildReview(), { maxLEI: 1 });
+
+    expect(pulls.createReview).toHaveBeenCalledWith(expect.objectContaining({ event: 'COMMENT' }));
+  });
+
+  it('should upsert one PRAnalysis row per pull request', async () => {
+    mockPrismaService.repository.upsert.mockResolvedValue({ id: 'repo-1' });
+
+    await service.recordReview(ref, buildReview(), 321, 1500);
+
+    expect(mockPrismaService.pRAnalysis.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { repositoryId_prNumber: { repositoryId: 'repo-1', prNumber: 12 } },
+        update: expect.objectContaining({
+          qualityScore: 90,
+          reviewCommentId: 321,
+          processingTimeMs: 1500,
+        }),
+      }),
+    );
+  });
+});
@@ -0,0 +1,447 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Octokit } from '@octokit/rest';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitHubClientService } from '../github/github-client.service';
+import { Tenant, TenantService } from '../installations/tenant.service';
+import { LlmSelection, LlmService } from '../ai/llm.service';
+import {
+  DiffLazyPattern,
+  DiffMetricsService,
+  DiffSuppressedPattern,
+  FileDiffMetrics,
+} from '../constitutional/metrics/diff-metrics.service';
+import { CRSCalculationResult, CRSContext } from '../constitutional/metrics/crs-calculator.service';
+
+/**
+ * Pull Request Review Service
+ *
+ * Purpose: Review the code a pull request changes and submit a GitHub review
+ * Constitutional Requirement: P4 Rastreabilidade Total - every review is stored in PRAnalysis
+ *
+ * Metrics: LEI, CRS and FPC run on the changed hunks of each patch, not on whole files, with the
+ * pattern pack of each file's language (TypeScript, JavaScript, Python, Go, Java); lazy patterns
+ * are reported as introduced or resolved, per file and per hunk; CRS uses the repository's rule
+ * pack and threshold (see RulePackService) and the review names the pack; findings the
+ * repository's `.vertice-baseline.json` lists are suppressed, not counted
+ * AI review: the diff and the metrics are sent to the model for a score, security issues and suggestions
+ * Review: REQUEST_CHANGES on security issues or LEI over the repository limit, COMMENT otherwise
+ * (the bot never approves)
+ */
+
+export interface PullRequestRef {
+  owner: string;
+  repo: string;
+  number: number;
+  installationId?: number;
+  tenant?: Tenant;
+}
+
+export interface ChangedFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+}
+
+export interface PullRequestSnapshot {
+  number: number;
+  title: string;
+  body: string;
+  author: string;
+  headSha: string;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  files: ChangedFile[];
+}
+
+export interface PullRequestMetrics {
+  lei: number;
+  crs: number;
+  crsThreshold: number;
+  crsPassed: boolean;
+  /** Required rules of the rule pack the changed code fails */
+  crsRequiredFailures: string[];
+  rulePack: CRSCalculationResult['rulePack'];
+  fpc: number;
+  addedLines: number;
+  /** Lazy patterns the pull request introduces */
+  lazyPatterns: DiffLazyPattern[];
+  /** Lazy patterns the pull request removes */
+  resolvedPatterns: DiffLazyPattern[];
+  /** Lazy patterns on added lines accepted by `vertice-allow` or the baseline (not in the LEI) */
+  suppressedPatterns: DiffSuppressedPattern[];
+  files: FileDiffMetrics[];
+}
+
+export interface PullRequestReview {
+  pullRequest: PullRequestSnapshot;
+  metrics: PullRequestMetrics;
+  qualityScore: number;
+  securityIssues: string[];
+  suggestions: string[];
+  summary: string;
+  confidence: number;
+  model: string;
+}
+
+export interface ReviewThresholds {
+  maxLEI: number;
+}
+
+interface ModelReviewResponse {
+  score?: unknown;
+  securityIssues?: unknown;
+  suggestions?: unknown;
+  summary?: unknown;
+  confidence?: unknown;
+}
+
+const MAX_DIFF_CHARS = 30000;
+const MAX_LISTED_PATTERNS = 10;
+const TEST_FILE_PATTERN = /(\.|\/)(spec|test)s?\.|__tests__\//i;
+
+@Injectable()
+export class PullRequestReviewService {
+  private readonly logger = new Logger(PullRequestReviewService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly githubClient: GitHubClientService,
+    private readonly tenants: TenantService,
+    private readonly llm: LlmService,
+    private readonly diffMetrics: DiffMetricsService,
+  ) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Fetch the pull request and its changed files (with patches)
+   */
+  async loadPullRequest(ref: PullRequestRef): Promise<PullRequestSnapshot> {
+    const client = await this.getClient(ref);
+
+    const { data: pr } = await client.rest.pulls.get({
+      owner: ref.owner,
+      repo: ref.repo,
+      pull_number: ref.number,
+    });
+
+    const files = await client.paginate(client.rest.pulls.listFiles, {
+      owner: ref.owner,
+      repo: ref.repo,
+      pull_number: ref.number,
+      per_page: 100,
+    });
+
+    return {
+      number: pr.number,
+      title: pr.title,
+      body: pr.body ?? '',
+      author: pr.user?.login ?? 'unknown',
+      headSha: pr.head.sha,
+      additions: pr.additions,
+      deletions: pr.deletions,
+      changedFiles: pr.changed_files,
+      files: files.map((file) => ({
+        filename: file.filename,
+        status: file.status,
+        additions: file.additions,
+        deletions: file.deletions,
+        patch: file.patch,
+      })),
+    };
+  }
+
+  /**
+   * Run LEI, CRS and FPC on the hunks the pull request changes
+   */
+  calculateMetrics(
+    pullRequest: PullRequestSnapshot,
+    crs?: Pick<CRSContext, 'rulePack' | 'threshold' | 'baseline'>,
+  ): PullRequestMetrics {
+    const hasTests = pullRequest.files.some((file) => TEST_FILE_PATTERN.test(file.filename));
+    const diff = this.diffMetrics.calculate(pullRequest.files, { ...crs, hasTests });
+
+    return {
+      lei: diff.lei,
+      crs: diff.crs,
+      crsThreshold: diff.crsThreshold,
+      crsPassed: diff.crsPassed,
+      crsRequiredFailures: diff.crsRequiredFailures,
+      rulePack: diff.rulePack,
+      fpc: diff.fpc,
+      addedLines: diff.addedLines,
+      lazyPatterns: diff.introduced,
+      resolvedPatterns: diff.resolved,
+      suppressedPatterns: diff.suppressed,
+      files: diff.files,
+    };
+  }
+
+  /**
+   * Review the diff with the model and combine its score with the constitutional metrics
+   */
+  async review(
+    pullRequest: PullRequestSnapshot,
+    metrics: PullRequestMetrics,
+    selection: LlmSelection = {},
+  ): Promise<PullRequestReview> {
+    const { data, model: usedModel } = await this.llm.generateJson<ModelReviewResponse>(
+      this.buildPrompt(pullRequest, metrics),
+      { ...selection, maxOutputTokens: 4096 },
+    );
+
+    const aiScore = this.clamp(typeof data.score === 'number' ? data.score : 0, 0, 100);
+    const metricScore =
+      metrics.crs * 0.5 + metrics.fpc * 0.2 + this.clamp(100 - metrics.lei * 10, 0, 100) * 0.3;
+
+    const review: PullRequestReview = {
+      pullRequest,
+      metrics,
+      qualityScore: parseFloat(((aiScore + metricScore) / 2).toFixed(2)),
+      securityIssues: this.toStringList(data.securityIssues),
+      suggestions: this.toStringList(data.suggestions),
+      summary: typeof data.summary === 'string' ? data.summary.trim() : '',
+      confidence: this.clamp(typeof data.confidence === 'number' ? data.confidence : 0, 0, 1),
+      model: usedModel,
+    };
+
+    this.logger.log(
+      `PR ${pullRequest.number} reviewed: quality ${review.qualityScore}, ${review.securityIssues.length} security issues (LEI ${metrics.lei}, CRS ${metrics.crs}%, FPC ${metrics.fpc}%)`,
+    );
+
+    return review;
+  }
+
+  /**
+   * Submit the review on the head commit
+   * Returns the GitHub review id
+   */
+  async submitReview(
+    ref: PullRequestRef,
+    review: PullRequestReview,
+    thresholds: ReviewThresholds,
+  ): Promise<number> {
+    const client = await this.getClient(ref);
+
+    const { data } = await client.rest.pulls.createReview({
+      owner: ref.owner,
+      repo: ref.repo,
+      pull_number: ref.number,
+      commit_id: review.pullRequest.headSha,
+      event: this.reviewEvent(review, thresholds),
+      body: this.renderReview(review, thresholds),
+    });
+
+    return data.id;
+  }
+
+  /**
+   * REQUEST_CHANGES on security issues or LEI over the limit; the bot never approves
+   */
+  reviewEvent(
+    review: PullRequestReview,
+    thresholds: ReviewThresholds,
+  ): 'REQUEST_CHANGES' | 'COMMENT' {
+    return review.securityIssues.length > 0 || review.metrics.lei >= thresholds.maxLEI
+      ? 'REQUEST_CHANGES'
+      : 'COMMENT';
+  }
+
+  /**
+   * Render the review body
+   */
+  renderReview(review: PullRequestReview, thresholds: ReviewThresholds): string {
+    const { metrics } = review;
+    const lines = [
+      '### 🤖 Vértice code review',
+      '',
+      `**Quality score:** ${review.qualityScore}/100`,
+      '',
+      '| Metric | Value |',
+      '| --- | --- |',
+      `| LEI | ${metrics.lei} ${metrics.lei < thresholds.maxLEI ? '✅' : '❌'} (max ${thresholds.maxLEI}) |`,
+      `| CRS | ${metrics.crs}% ${metrics.crsPassed ? '✅' : '❌'} (min ${metrics.crsThreshold}%, ${this.describeRulePack(metrics.rulePack)}${this.describeRequiredFailures(metrics)}) |`,
+      `| FPC | ${metrics.fpc}% |`,
+      `| Added lines | ${metrics.addedLines} |`,
+      `| Lazy patterns introduced / resolved | ${metrics.lazyPatterns.length} / ${metrics.resolvedPatterns.length} |`,
+      `| Lazy patterns suppressed | ${metrics.suppressedPatterns.length} |`,
+    ];
+
+    if (review.summary) {
+      lines.push('', review.summary);
+    }
+
+    if (review.securityIssues.length > 0) {
+      lines.push('', '#### Security issues', ...review.securityIssues.map((issue) => `- ${issue}`));
+    }
+
+    const regressed = metrics.files.filter(
+      (file) => file.introduced.length > 0 || file.resolved.length > 0,
+    );
+
+    if (regressed.length > 0) {
+      lines.push(
+        '',
+        '| File | Added lines | LEI | Introduced | Resolved |',
+        '| --- | --- | --- | --- | --- |',
+        ...regressed.map(
+          (file) =>
+            `| \`${file.filename}\` | ${file.addedLines} | ${file.lei} | ${file.introduced.length} | ${file.resolved.length} |`,
+        ),
+      );
+    }
+
+    this.renderPatterns(lines, 'Lazy execution patterns introduced', metrics.lazyPatterns);
+    this.renderPatterns(lines, 'Lazy execution patterns resolved', metrics.resolvedPatterns);
+    this.renderPatterns(lines, 'Lazy execution patterns suppressed', metrics.suppressedPatterns);
+
+    if (review.suggestions.length > 0) {
+      lines.push('', '#### Suggestions', ...review.suggestions.map((s) => `- ${s}`));
+    }
+
+    lines.push(
+      '',
+      `<sub>Reviewed by ${review.model} at ${review.pullRequest.headSha.slice(0, 7)}.</sub>`,
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Persist the review as a PRAnalysis row (one per pull request, updated on re-review)
+   */
+  async recordReview(
+    ref: PullRequestRef,
+    review: PullRequestReview,
+    reviewCommentId: number,
+    processingTimeMs: number,
+  ): Promise<void> {
+    const fullName = `${ref.owner}/${ref.repo}`;
+    const { pullRequest, metrics } = review;
+
+    const repository = await this.tenants.upsertRepository(
+      { owner: ref.owner, name: ref.repo, fullName },
+      ref.tenant,
+    );
+
+    const data = {
+      title: pullRequest.title,
+      body: pullRequest.body,
+      author: pullRequest.author,
+      filesChanged: pullRequest.changedFiles,
+      additions: pullRequest.additions,
+      deletions: pullRequest.deletions,
+      qualityScore: review.qualityScore,
+      securityIssues: review.securityIssues,
+      suggestions: review.suggestions,
+      summary: review.summary,
+      reviewLEI: metrics.lei,
+      reviewCRS: metrics.crs,
+      confidence: review.confidence,
+      processedByModel: review.model,
+      processingTimeMs,
+      errorMessage: null,
+      isProcessed: true,
+      processingResult: 'success',
+      reviewCommentId,
+    };
+
+    await this.prisma.pRAnalysis.upsert({
+      where: { repositoryId_prNumber: { repositoryId: repository.id, prNumber: ref.number } },
+      create: { repositoryId: repository.id, prNumber: ref.number, ...data },
+      update: data,
+    });
+  }
+
+  private async getClient(ref: PullRequestRef): Promise<Octokit> {
+    return this.githubClient.getRepositoryClient(ref.owner, ref.repo, ref.installationId);
+  }
+
+  /**
+   * e.g. "acme/security@1.2.0" or "vertice/default@1.0.0 + repository rules"
+   */
+  private describeRulePack(rulePack: PullRequestMetrics['rulePack']): string {
+    const name = `\`${rulePack.name}@${rulePack.version}\``;
+
+    return rulePack.overridden?.length ? `${name} + repository rules` : name;
+  }
+
+  private describeRequiredFailures(metrics: PullRequestMetrics): string {
+    const failing = metrics.crsRequiredFailures.map((id) => `\`${id}\``);
+
+    return failing.length > 0 ? `; required rules failing: ${failing.join(', ')}` : '';
+  }
+
+  /**
+   * List patterns as `file:line` in their hunk, so the author sees which lines regressed
+   * Suppressed patterns carry the justification of their vertice-allow comment
+   */
+  private renderPatterns(
+    lines: string[],
+    title: string,
+    patterns: (DiffLazyPattern & { reason?: string })[],
+  ): void {
+    if (patterns.length === 0) {
+      return;
+    }
+
+    lines.push(
+      '',
+      `#### ${title}`,
+      ...patterns
+        .slice(0, MAX_LISTED_PATTERNS)
+        .map(
+          (p) =>
+            `- \`${p.filename}:${p.line}\` (\`${p.hunk}\`) ${p.type}: \`${p.code}\`` +
+            (p.reason ? ` — ${p.reason}` : ''),
+        ),
+    );
+
+    if (patterns.length > MAX_LISTED_PATTERNS) {
+      lines.push(`- …and ${patterns.length - MAX_LISTED_PATTERNS} more`);
+    }
+  }
+
+  private buildPrompt(pullRequest: PullRequestSnapshot, metrics: PullRequestMetrics): string {
+    let diff = pullRequest.files
+      .filter((file) => file.patch)
+      .map((file) => `--- ${file.filename} (${file.status})\n${file.patch}`)
+      .join('\n\n');
+
+    if (diff.length > MAX_DIFF_CHARS) {
+      diff = `${diff.slice(0, MAX_DIFF_CHARS)}\n[diff truncated]`;
+    }
+
+    return [
+      'You review GitHub pull requests. Respond with a single JSON object and nothing else:',
+      '{"score": number between 0 and 100 (overall code quality of the change),',
+      ' "securityIssues": string[] (concrete vulnerabilities introduced by the diff, empty if none),',
+      ' "suggestions": string[] (actionable improvements, most important first, at most 10),',
+      ' "confidence": number between 0 and 1,',
+      ' "summary": string (two or three sentences for the author)}',
+      '',
+      `Static metrics on changed hunks: LEI ${metrics.lei}, CRS ${metrics.crs}%, FPC ${metrics.fpc}%`,
+      `Lazy patterns introduced: ${metrics.lazyPatterns.length}, resolved: ${metrics.resolvedPatterns.length}, suppressed: ${metrics.suppressedPatterns.length}`,
+      '',
+      `Title: ${pullRequest.title}`,
+      'Description:',
+      pullRequest.body || '(empty)',
+      '',
+      'Diff:',
+      diff || '(no textual changes)',
+    ].join('\n');
+  }
+
+  private toStringList(value: unknown): string[] {
+    return Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+      : [];
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+  }
+}
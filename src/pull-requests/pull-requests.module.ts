@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { PullRequestReviewService } from './pull-request-review.service';
+
+/**
+ * Pull Requests Module
+ *
+ * Purpose: Pull request review used by the DETER-AGENT execution layer
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ *
+ * Exports: PullRequestReviewService
+ */
+
+@Module({
+  providers: [PullRequestReviewService],
+  exports: [PullRequestReviewService],
+})
+export class PullRequestsModule {}
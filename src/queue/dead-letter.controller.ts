@@ -0,0 +1,92 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { JobQueue } from '@prisma/client';
+import { DeadLetterService } from './dead-letter.service';
+import { DeadLetterFilterDto, DeadLetterListQueryDto } from './dto/dead-letter-filter.dto';
+import { AdminTokenGuard } from '../common/guards/admin-token.guard';
+import { SkipConstitutionalCheck } from '../constitutional/constitutional.guard';
+
+/**
+ * Dead Letter Controller
+ *
+ * Purpose: Admin endpoints for jobs that exhausted their retries
+ * Constitutional Requirement: Article III - Zero Trust (admin token required)
+ *
+ * Endpoints (under /api/v1):
+ * - GET    /admin/jobs/dead-letter              - List (?jobType, ?repository, ?limit)
+ * - GET    /admin/jobs/dead-letter/:id          - Inspect, including diagnosis
+ * - POST   /admin/jobs/dead-letter/:id/requeue  - Requeue one job
+ * - POST   /admin/jobs/dead-letter/requeue      - Bulk requeue by jobType/repository
+ * - DELETE /admin/jobs/dead-letter/:id          - Purge one job
+ * - DELETE /admin/jobs/dead-letter              - Bulk purge by jobType/repository
+ */
+
+@Controller('admin/jobs/dead-letter')
+@SkipConstitutionalCheck()
+@UseGuards(AdminTokenGuard)
+export class DeadLetterController {
+  constructor(private readonly deadLetterService: DeadLetterService) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * List dead-lettered jobs
+   */
+  @Get()
+  async list(@Query() query: DeadLetterListQueryDto): Promise<JobQueue[]> {
+    return this.deadLetterService.list(query, query.limit);
+  }
+
+  /**
+   * Requeue every dead-lettered job matching the filter
+   */
+  @Post('requeue')
+  @HttpCode(HttpStatus.OK)
+  async requeueMany(@Body() filter: DeadLetterFilterDto): Promise<{ requeued: number }> {
+    return { requeued: await this.deadLetterService.requeueMany(filter) };
+  }
+
+  /**
+   * Inspect a dead-lettered job
+   */
+  @Get(':id')
+  async get(@Param('id') id: string): Promise<JobQueue> {
+    return this.deadLetterService.get(id);
+  }
+
+  /**
+   * Requeue a single dead-lettered job
+   */
+  @Post(':id/requeue')
+  @HttpCode(HttpStatus.OK)
+  async requeue(@Param('id') id: string): Promise<JobQueue> {
+    return this.deadLetterService.requeue(id);
+  }
+
+  /**
+   * Purge a single dead-lettered job
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async purge(@Param('id') id: string): Promise<void> {
+    await this.deadLetterService.purge(id);
+  }
+
+  /**
+   * Purge every dead-lettered job matching the filter
+   */
+  @Delete()
+  async purgeMany(@Query() filter: DeadLetterFilterDto): Promise<{ purged: number }> {
+    return { purged: await this.deadLetterService.purgeMany(filter) };
+  }
+}
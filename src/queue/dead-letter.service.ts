@@ -0,0 +1,136 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { JobQueue, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Dead Letter Service
+ *
+ * Purpose: Inspect, requeue and purge jobs in the dead-letter state
+ * Constitutional Requirement: P4 Rastreabilidade Total - failed work stays visible until an admin acts
+ *
+ * Requeue resets attempts so the job gets a full retry budget again
+ */
+
+export interface DeadLetterFilter {
+  jobType?: string;
+  /** "owner/name" */
+  repository?: string;
+}
+
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+
+  constructor(private readonly prisma: PrismaService) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * List dead-lettered jobs, most recent first
+   */
+  async list(filter: DeadLetterFilter, limit = 50): Promise<JobQueue[]> {
+    return this.prisma.jobQueue.findMany({
+      where: this.buildWhere(filter),
+      orderBy: { deadLetteredAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get a single dead-lettered job with its diagnosis
+   */
+  async get(id: string): Promise<JobQueue> {
+    const job = await this.prisma.jobQueue.findFirst({
+      where: { id, status: 'dead_letter' },
+    });
+
+    if (!job) {
+      throw new NotFoundException(`Dead-lettered job ${id} not found`);
+    }
+
+    return job;
+  }
+
+  /**
+   * Put one dead-lettered job back on the queue
+   */
+  async requeue(id: string): Promise<JobQueue> {
+    await this.get(id);
+
+    const job = await this.prisma.jobQueue.update({
+      where: { id },
+      data: this.requeueData(),
+    });
+
+    this.logger.log(`Dead-lettered job ${id} (${job.jobType}) requeued`);
+
+    return job;
+  }
+
+  /**
+   * Requeue every dead-lettered job matching the filter
+   * Returns the number of jobs requeued
+   */
+  async requeueMany(filter: DeadLetterFilter): Promise<number> {
+    const { count } = await this.prisma.jobQueue.updateMany({
+      where: this.buildWhere(filter),
+      data: this.requeueData(),
+    });
+
+    this.logger.log(`Requeued ${count} dead-lettered job(s) ${this.describe(filter)}`);
+
+    return count;
+  }
+
+  /**
+   * Permanently delete one dead-lettered job
+   */
+  async purge(id: string): Promise<void> {
+    await this.get(id);
+    await this.prisma.jobQueue.delete({ where: { id } });
+
+    this.logger.log(`Dead-lettered job ${id} purged`);
+  }
+
+  /**
+   * Permanently delete every dead-lettered job matching the filter
+   * Returns the number of jobs deleted
+   */
+  async purgeMany(filter: DeadLetterFilter): Promise<number> {
+    const { count } = await this.prisma.jobQueue.deleteMany({
+      where: this.buildWhere(filter),
+    });
+
+    this.logger.log(`Purged ${count} dead-lettered job(s) ${this.describe(filter)}`);
+
+    return count;
+  }
+
+  private buildWhere(filter: DeadLetterFilter): Prisma.JobQueueWhereInput {
+    return {
+      status: 'dead_letter',
+      ...(filter.jobType ? { jobType: filter.jobType } : {}),
+      ...(filter.repository ? { repository: filter.repository } : {}),
+    };
+  }
+
+  private requeueData(): Prisma.JobQueueUpdateManyMutationInput {
+    return {
+      status: 'queued',
+      attempts: 0,
+      scheduledFor: new Date(),
+      startedAt: null,
+      completedAt: null,
+      deadLetteredAt: null,
+    };
+  }
+
+  private describe(filter: DeadLetterFilter): string {
+    const parts = [
+      filter.jobType && `jobType=${filter.jobType}`,
+      filter.repository && `repository=${filter.repository}`,
+    ].filter(Boolean);
+
+    return parts.length > 0 ? `(${parts.join(', ')})` : '(all)';
+  }
+}
@@ -0,0 +1,28 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+
+/**
+ * Dead Letter Filter DTO
+ *
+ * Purpose: Validate filters for listing, requeueing and purging dead-lettered jobs
+ * Constitutional Requirement: P2 Validação Preventiva
+ */
+
+export class DeadLetterFilterDto {
+  @IsString()
+  @IsOptional()
+  jobType?: string;
+
+  @Matches(/^[\w.-]+\/[\w.-]+$/, { message: 'repository must be in "owner/name" format' })
+  @IsOptional()
+  repository?: string;
+}
+
+export class DeadLetterListQueryDto extends DeadLetterFilterDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  @IsOptional()
+  limit?: number;
+}
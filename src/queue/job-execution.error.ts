@@ -0,0 +1,26 @@
+import { ExecutionError } from '../constitutional/deter-agent/layer-4-execution';
+
+/**
+ * Job Execution Error
+ *
+ * Purpose: Carry ExecutionLayer diagnoses from a job handler to the queue
+ * Constitutional Requirement: P6 - diagnosis is kept, not flattened into a string
+ *
+ * Non-recoverable diagnoses send the job straight to the dead-letter state
+ */
+export class JobExecutionError extends Error {
+  constructor(
+    message: string,
+    readonly diagnoses: ExecutionError[],
+  ) {
+    super(message);
+    this.name = 'JobExecutionError';
+  }
+
+  /**
+   * Retrying only helps when every failed action was diagnosed as recoverable
+   */
+  get recoverable(): boolean {
+    return this.diagnoses.every((d) => d.recoverable);
+  }
+}
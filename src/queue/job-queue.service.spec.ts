@@ -0,0 +1,131 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JobQueue } from '@prisma/client';
+import { JobQueueService } from './job-queue.service';
+import { JobExecutionError } from './job-execution.error';
+import { PrismaService } from '../prisma/prisma.service';
+import { MetricsService } from '../observability/metrics/metrics.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+/**
+ * Job Queue Service Unit Tests
+ *
+ * Purpose: Verify claim ordering, retry backoff and dead-lettering
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ */
+
+describe('JobQueueService', () => {
+  let service: JobQueueService;
+  const metricsService = { recordJobDeadLettered: jest.fn() };
+
+  const buildJob = (overrides: Partial<JobQueue> = {}): JobQueue => ({
+    id: 'job-1',
+    jobType: 'webhook_delivery',
+    data: { deliveryRecordId: 'record-1' },
+    priority: 0,
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: 3,
+    repository: 'test-owner/test-repo',
+    result: null,
+    errorMessage: null,
+    diagnosis: null,
+    scheduledFor: new Date(),
+    startedAt: null,
+    completedAt: null,
+    deadLetteredAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobQueueService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: MetricsService, useValue: metricsService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<JobQueueService>(JobQueueService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should claim by priority then scheduledFor and count the attempt', async () => {
+    mockPrismaService.jobQueue.findFirst.mockResolvedValue(buildJob());
+    mockPrismaService.jobQueue.updateMany.mockResolvedValue({ count: 1 });
+
+    const job = await service.claimNext(['webhook_delivery']);
+
+    expect(mockPrismaService.jobQueue.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        orderBy: [{ priority: 'desc' }, { scheduledFor: 'asc' }],
+      }),
+    );
+    expect(job?.status).toBe('processing');
+    expect(job?.attempts).toBe(1);
+  });
+
+  it('should return null when another worker claimed the job first', async () => {
+    mockPrismaService.jobQueue.findFirst.mockResolvedValue(buildJob());
+    mockPrismaService.jobQueue.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.claimNext()).resolves.toBeNull();
+  });
+
+  it('should requeue with exponential backoff while attempts remain', async () => {
+    const before = Date.now();
+
+    const status = await service.fail(buildJob({ attempts: 2 }), 'boom');
+
+    const { data } = mockPrismaService.jobQueue.update.mock.calls[0][0];
+    expect(status).toBe('queued');
+    expect(data.status).toBe('queued');
+    expect(data.errorMessage).toBe('boom');
+    expect(data.scheduledFor.getTime()).toBeGreaterThanOrEqual(before + 6000);
+  });
+
+  it('should dead-letter once maxAttempts is reached', async () => {
+    const status = await service.fail(buildJob({ attempts: 3 }), new Error('boom'));
+
+    expect(status).toBe('dead_letter');
+    expect(mockPrismaService.jobQueue.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: expect.objectContaining({
+        status: 'dead_letter',
+        errorMessage: 'boom',
+        deadLetteredAt: expect.any(Date),
+      }),
+    });
+    expect(metricsService.recordJobDeadLettered).toHaveBeenCalledWith('webhook_delivery');
+  });
+
+  it('should dead-letter a non-recoverable failure immediately with its diagnosis', async () => {
+    const diagnosis = {
+      action: 'post-analysis-comment',
+      attempt: 1,
+      error: 'Error: 404 not found',
+      diagnosis: 'Resource not found',
+      recoverable: false,
+    };
+
+    const status = await service.fail(
+      buildJob({ attempts: 1 }),
+      new JobExecutionError('Failed actions: post-analysis-comment', [diagnosis]),
+    );
+
+    expect(status).toBe('dead_letter');
+    expect(mockPrismaService.jobQueue.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: expect.objectContaining({ status: 'dead_letter', diagnosis: [diagnosis] }),
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JobQueue, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MetricsService } from '../observability/metrics/metrics.service';
+import { JobExecutionError } from './job-execution.error';
+
+/**
+ * Job Queue Service
+ *
+ * Purpose: Durable job queue on the JobQueue table
+ * Constitutional Requirement: P4 Rastreabilidade Total - every job and attempt is persisted
+ *
+ * Ordering: highest priority first, then earliest scheduledFor
+ * Claiming: a conditional status update, so two workers never run the same job
+ * Retries: exponential backoff (QUEUE_BACKOFF_DELAY * 2^(attempt - 1)) until maxAttempts
+ * Dead letter: exhausted or non-recoverable jobs keep their diagnosis for admin review
+ */
+
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'dead_letter';
+
+export interface EnqueueOptions {
+  /** Higher number = claimed sooner */
+  priority?: number;
+  maxAttempts?: number;
+  scheduledFor?: Date;
+  /** "owner/name" the job acts on, used to filter dead-lettered jobs */
+  repository?: string;
+}
+
+@Injectable()
+export class JobQueueService {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly defaultAttempts: number;
+  private readonly backoffDelayMs: number;
+  private readonly leaseTimeoutMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly metricsService: MetricsService,
+    configService: ConfigService,
+  ) {
+    this.defaultAttempts = Number(configService.get<number>('QUEUE_DEFAULT_ATTEMPTS', 3));
+    this.backoffDelayMs = Number(configService.get<number>('QUEUE_BACKOFF_DELAY', 3000));
+    this.leaseTimeoutMs = Number(configService.get<number>('QUEUE_LEASE_TIMEOUT_MS', 300000));
+  }
+
+  /**
+   * Persist a new job
+   */
+  async enqueue(
+    jobType: string,
+    data: Record<string, unknown>,
+    options: EnqueueOptions = {},
+  ): Promise<JobQueue> {
+    const job = await this.prisma.jobQueue.create({
+      data: {
+        jobType,
+        data: data as Prisma.InputJsonValue,
+        priority: options.priority ?? 0,
+        maxAttempts: options.maxAttempts ?? this.defaultAttempts,
+        scheduledFor: options.scheduledFor ?? new Date(),
+        repository: options.repository,
+      },
+    });
+
+    this.logger.debug(`Job ${job.id} enqueued: ${jobType} (priority ${job.priority})`);
+
+    return job;
+  }
+
+  /**
+   * Claim the next runnable job
+   * Jobs stuck in "processing" past the lease timeout (worker crashed) are claimable again
+   */
+  async claimNext(jobTypes?: string[]): Promise<JobQueue | null> {
+    const now = new Date();
+    const runnable: Prisma.JobQueueWhereInput = {
+      ...(jobTypes ? { jobType: { in: jobTypes } } : {}),
+      OR: [
+        { status: 'queued', scheduledFor: { lte: now } },
+        { status: 'processing', startedAt: { lt: new Date(now.getTime() - this.leaseTimeoutMs) } },
+      ],
+    };
+
+    const candidate = await this.prisma.jobQueue.findFirst({
+      where: runnable,
+      orderBy: [{ priority: 'desc' }, { scheduledFor: 'asc' }],
+    });
+
+    if (!candidate) {
+      return null;
+    }
+
+    const claimed = await this.prisma.jobQueue.updateMany({
+      where: { id: candidate.id, status: candidate.status, updatedAt: candidate.updatedAt },
+      data: {
+        status: 'processing',
+        attempts: { increment: 1 },
+        startedAt: now,
+      },
+    });
+
+    if (claimed.count === 0) {
+      // Another worker won the race; the next poll picks a different job
+      return null;
+    }
+
+    return {
+      ...candidate,
+      status: 'processing',
+      attempts: candidate.attempts + 1,
+      startedAt: now,
+    };
+  }
+
+  /**
+   * Mark a job as completed with its result
+   */
+  async complete(id: string, result: unknown): Promise<void> {
+    await this.prisma.jobQueue.update({
+      where: { id },
+      data: {
+        status: 'completed',
+        result: (result ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+        errorMessage: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Record a failed attempt, requeueing with backoff until maxAttempts
+   * Returns the job's new status
+   */
+  async fail(job: JobQueue, error: unknown): Promise<JobStatus> {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (!this.willRetry(job, error)) {
+      await this.deadLetter(job, error, errorMessage);
+      return 'dead_letter';
+    }
+
+    const delayMs = this.getBackoffDelay(job.attempts);
+
+    await this.prisma.jobQueue.update({
+      where: { id: job.id },
+      data: {
+        status: 'queued',
+        errorMessage,
+        scheduledFor: new Date(Date.now() + delayMs),
+      },
+    });
+
+    this.logger.warn(
+      `Job ${job.id} (${job.jobType}) attempt ${job.attempts}/${job.maxAttempts} failed, retrying in ${delayMs}ms: ${errorMessage}`,
+    );
+
+    return 'queued';
+  }
+
+  /**
+   * Whether a failed attempt will be retried
+   * Handlers use this to tell a transient failure from the final one
+   */
+  willRetry(job: Pick<JobQueue, 'attempts' | 'maxAttempts'>, error: unknown): boolean {
+    if (error instanceof JobExecutionError && !error.recoverable) {
+      return false;
+    }
+
+    return job.attempts < job.maxAttempts;
+  }
+
+  /**
+   * Move a job to the dead-letter state with its final diagnosis
+   */
+  private async deadLetter(job: JobQueue, error: unknown, errorMessage: string): Promise<void> {
+    const diagnosis = error instanceof JobExecutionError ? error.diagnoses : undefined;
+
+    await this.prisma.jobQueue.update({
+      where: { id: job.id },
+      data: {
+        status: 'dead_letter',
+        errorMessage,
+        diagnosis: diagnosis ? (diagnosis as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+        completedAt: new Date(),
+        deadLetteredAt: new Date(),
+      },
+    });
+
+    this.metricsService.recordJobDeadLettered(job.jobType);
+
+    this.logger.error(
+      `Job ${job.id} (${job.jobType}) dead-lettered after ${job.attempts}/${job.maxAttempts} attempt(s): ${errorMessage}`,
+    );
+  }
+
+  /**
+   * Exponential backoff for the given attempt number (1-based)
+   */
+  getBackoffDelay(attempt: number): number {
+    return this.backoffDelayMs * 2 ** Math.max(0, attempt - 1);
+  }
+}
@@ -0,0 +1,127 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JobQueue } from '@prisma/client';
+import { JobQueueService } from './job-queue.service';
+
+/**
+ * Job Queue Worker
+ *
+ * Purpose: Poll the JobQueue table and run registered handlers
+ * Constitutional Requirement: P4 Rastreabilidade Total - outcomes are written back to the job row
+ *
+ * Handlers: registered per jobType by the owning module (e.g. WebhooksService)
+ * Polling: starts after bootstrap so every handler is registered; stops on shutdown
+ * Set QUEUE_WORKER_ENABLED to "false" on API-only replicas
+ */
+
+export type JobHandler = (data: Record<string, unknown>, job: JobQueue) => Promise<unknown>;
+
+@Injectable()
+export class JobQueueWorker implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(JobQueueWorker.name);
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly pollIntervalMs: number;
+  private readonly enabled: boolean;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private current?: Promise<void>;
+
+  constructor(
+    private readonly jobQueue: JobQueueService,
+    configService: ConfigService,
+  ) {
+    this.pollIntervalMs = Number(configService.get<number>('QUEUE_POLL_INTERVAL_MS', 1000));
+    this.enabled = String(configService.get<string>('QUEUE_WORKER_ENABLED', 'true')) !== 'false';
+  }
+
+  /**
+   * Register the handler for a job type
+   */
+  registerHandler(jobType: string, handler: JobHandler): void {
+    if (this.handlers.has(jobType)) {
+      throw new Error(`Job handler already registered for ${jobType}`);
+    }
+
+    this.handlers.set(jobType, handler);
+  }
+
+  onApplicationBootstrap(): void {
+    if (!this.enabled) {
+      this.logger.log('Job queue worker disabled by configuration');
+      return;
+    }
+
+    this.running = true;
+    this.logger.log(
+      `Job queue worker started (${[...this.handlers.keys()].join(', ') || 'no handlers'})`,
+    );
+    this.scheduleNext(0);
+  }
+
+  /**
+   * Stop polling and let the in-flight job finish
+   */
+  async onApplicationShutdown(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    await this.current;
+  }
+
+  /**
+   * Claim and run a single job; false when nothing was runnable
+   */
+  async runNext(): Promise<boolean> {
+    const job = await this.jobQueue.claimNext([...this.handlers.keys()]);
+
+    if (!job) {
+      return false;
+    }
+
+    const handler = this.handlers.get(job.jobType);
+
+    if (!handler) {
+      await this.jobQueue.fail(job, `No handler registered for ${job.jobType}`);
+      return true;
+    }
+
+    try {
+      const result = await handler(job.data as Record<string, unknown>, job);
+      await this.jobQueue.complete(job.id, result);
+    } catch (error) {
+      await this.jobQueue.fail(job, error);
+    }
+
+    return true;
+  }
+
+  private scheduleNext(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.current = this.poll();
+    }, delayMs);
+  }
+
+  /**
+   * Run jobs back to back until nothing is runnable, then wait for the next tick
+   */
+  private async poll(): Promise<void> {
+    try {
+      while (this.running && (await this.runNext())) {
+        // Keep draining while jobs are available
+      }
+    } catch (error) {
+      this.logger.error(
+        `Job queue poll failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    this.scheduleNext(this.pollIntervalMs);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { JobQueueService } from './job-queue.service';
+import { JobQueueWorker } from './job-queue.worker';
+import { DeadLetterService } from './dead-letter.service';
+import { DeadLetterController } from './dead-letter.controller';
+
+/**
+ * Queue Module
+ *
+ * Purpose: Durable background processing on the JobQueue table
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ *
+ * Controllers: Dead-letter admin endpoints
+ * Exports: JobQueueService for producers, JobQueueWorker for handler registration
+ */
+
+@Module({
+  controllers: [DeadLetterController],
+  providers: [JobQueueService, JobQueueWorker, DeadLetterService],
+  exports: [JobQueueService, JobQueueWorker],
+})
+export class QueueModule {}
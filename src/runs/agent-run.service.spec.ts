@@ -0,0 +1,81 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AgentRunService } from './agent-run.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { DeterAgentInput } from '../constitutional/deter-agent/deter-agent.orchestrator';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+/**
+ * Agent Run Service Unit Tests
+ *
+ * Purpose: Verify DETER-AGENT runs and their transitions are persisted in order
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ */
+
+describe('AgentRunService', () => {
+  let service: AgentRunService;
+
+  const input: DeterAgentInput = {
+    eventType: 'issues',
+    payload: {},
+    repository: { owner: 'test-owner', name: 'test-repo', fullName: 'test-owner/test-repo' },
+    deliveryRecordId: 'delivery-1',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AgentRunService, { provide: PrismaService, useValue: mockPrismaService }],
+    }).compile();
+
+    service = module.get<AgentRunService>(AgentRunService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should link the run to its delivery and number transitions in order', async () => {
+    mockPrismaService.agentRun.create.mockResolvedValue({ id: 'run-1' });
+
+    const runId = await service.start(input);
+    await service.recordTransition(runId, { type: 'INITIALIZE', timestamp: new Date() });
+    await service.recordTransition(runId, {
+      type: 'ERROR',
+      action: 'classify-issue',
+      timestamp: new Date(),
+      metadata: { error: 'LLM unavailable' },
+    });
+
+    expect(runId).toBe('run-1');
+    expect(mockPrismaService.agentRun.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ webhookDeliveryId: 'delivery-1', status: 'running' }),
+    });
+    expect(
+      mockPrismaService.agentRunTransition.create.mock.calls.map(([{ data }]) => [
+        data.sequence,
+        data.type,
+      ]),
+    ).toEqual([
+      [0, 'INITIALIZE'],
+      [1, 'ERROR'],
+    ]);
+  });
+
+  it('should not fail the run when it cannot be persisted', async () => {
+    mockPrismaService.agentRun.create.mockRejectedValue(new Error('database unavailable'));
+
+    const runId = await service.start(input);
+    await service.recordTransition(runId, { type: 'INITIALIZE', timestamp: new Date() });
+    await service.fail(runId, new Error('boom'), {});
+
+    expect(runId).toBeUndefined();
+    expect(mockPrismaService.agentRunTransition.create).not.toHaveBeenCalled();
+    expect(mockPrismaService.agentRun.update).not.toHaveBeenCalled();
+  });
+
+  it('should throw NotFoundException for an unknown run', async () => {
+    mockPrismaService.agentRun.findUnique.mockResolvedValue(null);
+
+    await expect(service.get('missing')).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,246 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { AgentRun, AgentRunTransition, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  DeterAgentInput,
+  DeterAgentResult,
+  LayerTimings,
+} from '../constitutional/deter-agent/deter-agent.orchestrator';
+import { StateTransition } from '../constitutional/deter-agent/layer-3-state';
+import { ExecutionResult } from '../constitutional/deter-agent/layer-4-execution';
+
+/**
+ * Agent Run Service
+ *
+ * Purpose: Persist every DETER-AGENT run with its state transitions
+ * Constitutional Requirement: P4 Rastreabilidade Total - why the bot did something is answerable after the fact
+ *
+ * A run is written when the orchestrator starts, gains one AgentRunTransition per
+ * StateManagementLayer transition, and is closed with the per-layer results and timings.
+ *
+ * A run paused for approval is closed as awaiting_approval and reopened when it resumes;
+ * the resumed actions append to the same timeline. A failed transactional run whose
+ * changes were undone closes as rolled_back; the outcomes are in layers.execution.rollback.
+ *
+ * Persistence is best-effort: a database failure is logged and never fails the run itself.
+ */
+
+export type AgentRunStatus =
+  | 'running'
+  | 'awaiting_approval'
+  | 'succeeded'
+  | 'failed'
+  | 'rolled_back'
+  | 'error';
+
+export interface AgentRunTimeline extends AgentRun {
+  transitions: AgentRunTransition[];
+}
+
+export interface AgentRunFilter {
+  /** X-GitHub-Delivery id of the triggering webhook */
+  deliveryId?: string;
+  /** "owner/name" */
+  repository?: string;
+}
+
+@Injectable()
+export class AgentRunService {
+  private readonly logger = new Logger(AgentRunService.name);
+  /** Next transition sequence number of each run in progress */
+  private readonly sequences = new Map<string, number>();
+
+  constructor(private readonly prisma: PrismaService) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Record the start of a run
+   * Returns undefined when the row could not be written
+   */
+  async start(input: DeterAgentInput): Promise<string | undefined> {
+    try {
+      const run = await this.prisma.agentRun.create({
+        data: {
+          webhookDeliveryId: input.deliveryRecordId,
+          installationId: input.tenant?.id,
+          eventType: input.eventType,
+          repository: input.repository.fullName,
+          status: 'running',
+        },
+      });
+
+      this.sequences.set(run.id, 0);
+
+      return run.id;
+    } catch (error) {
+      this.logger.warn(
+        `Could not record agent run for ${input.repository.fullName}: ${this.describe(error)}`,
+      );
+
+      return undefined;
+    }
+  }
+
+  /**
+   * Append a state transition to a run
+   * The from/to snapshots are not stored: the run keeps the layer results instead
+   */
+  async recordTransition(runId: string | undefined, transition: StateTransition): Promise<void> {
+    if (!runId) {
+      return;
+    }
+
+    const sequence = this.sequences.get(runId) ?? 0;
+    this.sequences.set(runId, sequence + 1);
+
+    try {
+      await this.prisma.agentRunTransition.create({
+        data: {
+          runId,
+          sequence,
+          type: transition.type,
+          action: transition.action,
+          metadata: this.toJson(transition.metadata),
+          occurredAt: transition.timestamp,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Could not record ${transition.type} transition of run ${runId}: ${this.describe(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Close a run that produced a result (successful or not)
+   */
+  async finish(
+    runId: string | undefined,
+    result: DeterAgentResult,
+    timings: LayerTimings,
+  ): Promise<void> {
+    await this.close(runId, {
+      status: this.statusOf(result.layers.execution, result.success),
+      layers: this.toJson(result.layers),
+      layerTimings: this.toJson(timings),
+      qualityScore: result.qualityMetrics.overallScore,
+      durationMs: result.totalExecutionTimeMs,
+    });
+  }
+
+  /**
+   * Mark a paused run as running again and continue its transition sequence
+   */
+  async reopen(runId: string | undefined): Promise<void> {
+    if (!runId) {
+      return;
+    }
+
+    try {
+      const transitions = await this.prisma.agentRunTransition.count({ where: { runId } });
+
+      this.sequences.set(runId, transitions);
+
+      await this.prisma.agentRun.update({
+        where: { id: runId },
+        data: { status: 'running', completedAt: null },
+      });
+    } catch (error) {
+      this.logger.warn(`Could not reopen agent run ${runId}: ${this.describe(error)}`);
+    }
+  }
+
+  /**
+   * Close a resumed run with the outcome of the actions it ran after the approval
+   */
+  async finishResumed(runId: string | undefined, execution: ExecutionResult): Promise<void> {
+    await this.close(runId, { status: this.statusOf(execution, execution.success) });
+  }
+
+  /**
+   * Close a run that threw before producing a result
+   */
+  async fail(runId: string | undefined, error: unknown, timings: LayerTimings): Promise<void> {
+    await this.close(runId, {
+      status: 'error',
+      error: this.describe(error),
+      layerTimings: this.toJson(timings),
+    });
+  }
+
+  /**
+   * Get a run with its transitions in order
+   */
+  async get(id: string): Promise<AgentRunTimeline> {
+    const run = await this.prisma.agentRun.findUnique({
+      where: { id },
+      include: { transitions: { orderBy: { sequence: 'asc' } } },
+    });
+
+    if (!run) {
+      throw new NotFoundException(`Agent run ${id} not found`);
+    }
+
+    return run;
+  }
+
+  /**
+   * List runs, most recent first
+   */
+  async list(filter: AgentRunFilter, limit = 50): Promise<AgentRun[]> {
+    return this.prisma.agentRun.findMany({
+      where: {
+        ...(filter.repository ? { repository: filter.repository } : {}),
+        ...(filter.deliveryId ? { webhookDelivery: { gitHubDeliveryId: filter.deliveryId } } : {}),
+      },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  private async close(
+    runId: string | undefined,
+    data: Prisma.AgentRunUpdateInput & { status: AgentRunStatus },
+  ): Promise<void> {
+    if (!runId) {
+      return;
+    }
+
+    this.sequences.delete(runId);
+
+    try {
+      await this.prisma.agentRun.update({
+        where: { id: runId },
+        data: { ...data, completedAt: new Date() },
+      });
+    } catch (error) {
+      this.logger.warn(`Could not close agent run ${runId}: ${this.describe(error)}`);
+    }
+  }
+
+  private statusOf(execution: ExecutionResult, success: boolean): AgentRunStatus {
+    if (execution.pendingApproval) {
+      return 'awaiting_approval';
+    }
+
+    if (execution.rollback?.length) {
+      return 'rolled_back';
+    }
+
+    return success ? 'succeeded' : 'failed';
+  }
+
+  /**
+   * Round-trip through JSON so Dates and class instances become plain JSON values
+   */
+  private toJson(value: unknown): Prisma.InputJsonValue | undefined {
+    return value === undefined
+      ? undefined
+      : (JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue);
+  }
+
+  private describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
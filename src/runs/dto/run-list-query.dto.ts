@@ -0,0 +1,26 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+
+/**
+ * Run List Query DTO
+ *
+ * Purpose: Validate filters for listing DETER-AGENT runs
+ * Constitutional Requirement: P2 Validação Preventiva
+ */
+
+export class RunListQueryDto {
+  @IsString()
+  @IsOptional()
+  deliveryId?: string;
+
+  @Matches(/^[\w.-]+\/[\w.-]+$/, { message: 'repository must be in "owner/name" format' })
+  @IsOptional()
+  repository?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  @IsOptional()
+  limit?: number;
+}
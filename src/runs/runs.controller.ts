@@ -0,0 +1,42 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { AgentRun } from '@prisma/client';
+import { AgentRunService, AgentRunTimeline } from './agent-run.service';
+import { RunListQueryDto } from './dto/run-list-query.dto';
+import { AdminTokenGuard } from '../common/guards/admin-token.guard';
+import { SkipConstitutionalCheck } from '../constitutional/constitutional.guard';
+
+/**
+ * Runs Controller
+ *
+ * Purpose: Inspect persisted DETER-AGENT runs
+ * Constitutional Requirement: Article III - Zero Trust (admin token required)
+ *
+ * Endpoints (under /api/v1):
+ * - GET /runs      - List (?deliveryId, ?repository, ?limit)
+ * - GET /runs/:id  - Layer results, timings and every state transition in order
+ */
+
+@Controller('runs')
+@SkipConstitutionalCheck()
+@UseGuards(AdminTokenGuard)
+export class RunsController {
+  constructor(private readonly agentRuns: AgentRunService) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * List runs, most recent first
+   */
+  @Get()
+  async list(@Query() query: RunListQueryDto): Promise<AgentRun[]> {
+    return this.agentRuns.list(query, query.limit);
+  }
+
+  /**
+   * Full timeline of a run
+   */
+  @Get(':id')
+  async get(@Param('id') id: string): Promise<AgentRunTimeline> {
+    return this.agentRuns.get(id);
+  }
+}
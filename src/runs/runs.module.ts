@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { AgentRunService } from './agent-run.service';
+import { RunsController } from './runs.controller';
+
+/**
+ * Runs Module
+ *
+ * Purpose: Persisted history of DETER-AGENT runs
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ *
+ * Controllers: Run inspection admin endpoints
+ * Exports: AgentRunService for the orchestrator and state layer
+ */
+
+@Module({
+  controllers: [RunsController],
+  providers: [AgentRunService],
+  exports: [AgentRunService],
+})
+export class RunsModule {}
@@ -0,0 +1,33 @@
+import { Controller, HttpCode, HttpStatus, Param, Post, UseGuards } from '@nestjs/common';
+import { WebhooksService, WebhookIngestionResult } from './webhooks.service';
+import { AdminTokenGuard } from '../common/guards/admin-token.guard';
+import { SkipConstitutionalCheck } from '../constitutional/constitutional.guard';
+
+/**
+ * Webhook Deliveries Controller
+ *
+ * Purpose: Admin endpoints for stored GitHub deliveries
+ * Constitutional Requirement: Article III - Zero Trust (admin token required)
+ *
+ * Endpoints (under /api/v1):
+ * - POST /admin/deliveries/:id/reprocess - Re-run a delivery by X-GitHub-Delivery id
+ *   (409 while its job is still queued or processing)
+ */
+
+@Controller('admin/deliveries')
+@SkipConstitutionalCheck()
+@UseGuards(AdminTokenGuard)
+export class WebhookDeliveriesController {
+  constructor(private readonly webhooksService: WebhooksService) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Reset a delivery and enqueue it again
+   */
+  @Post(':id/reprocess')
+  @HttpCode(HttpStatus.OK)
+  async reprocess(@Param('id') id: string): Promise<WebhookIngestionResult> {
+    return this.webhooksService.reprocess(id);
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { WebhooksService, WebhookIngestionResult } from './webhooks.service';
+
+/**
+ * Webhooks Controller
+ *
+ * Purpose: Front door for GitHub webhook deliveries
+ * Constitutional Requirement: Article III - Zero Trust
+ *
+ * Endpoints:
+ * - POST /webhooks/github - Receive GitHub events (202: persisted and queued)
+ *
+ * Reprocessing a stored delivery is admin-only: POST /admin/deliveries/:id/reprocess
+ */
+
+@Controller('webhooks')
+export class WebhooksController {
+  private readonly logger = new Logger(WebhooksController.name);
+
+  constructor(private readonly webhooksService: WebhooksService) {
+    // NestJS dependency injection
+  }
+
+  /**
+   * Receive GitHub webhook delivery
+   * Redeliveries of a known X-GitHub-Delivery id return the prior outcome
+   * DETER-AGENT runs on the job queue worker, after the response is sent
+   */
+  @Post('github')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async receiveGitHubWebhook(
+    @Req() request: Request,
+    @Headers('x-github-delivery') deliveryId: string | undefined,
+    @Headers('x-github-event') eventType: string | undefined,
+    @Headers('x-hub-signature-256') signature256: string | undefined,
+    @Headers('x-hub-signature') signature: string | undefined,
+    @Body() payload: Record<string, unknown>,
+  ): Promise<WebhookIngestionResult> {
+    if (!deliveryId || !eventType) {
+      throw new BadRequestException('Missing x-github-delivery or x-github-event header');
+    }
+
+    this.logger.debug(`Webhook received: ${eventType} (${deliveryId})`);
+
+    return this.webhooksService.ingest({
+      deliveryId,
+      eventType,
+      signature: signature256 || signature || '',
+      payload,
+      validation: request.constitutionalValidation,
+    });
+  }
+}
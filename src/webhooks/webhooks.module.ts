@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookDeliveriesController } from './webhook-deliveries.controller';
+import { WebhooksService } from './webhooks.service';
+import { QueueModule } from '../queue/queue.module';
+import { InstallationsModule } from '../installations/installations.module';
+
+/**
+ * Webhooks Module
+ *
+ * Purpose: Receive, persist and queue GitHub webhook deliveries
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ *
+ * Controllers: GitHub webhook endpoint, admin delivery reprocessing
+ * Exports: Webhooks service for ingestion from other modules
+ */
+
+@Module({
+  imports: [QueueModule, InstallationsModule],
+  controllers: [WebhooksController, WebhookDeliveriesController],
+  providers: [WebhooksService],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,375 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { WebhooksService } from './webhooks.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MetricsService } from '../observability/metrics/metrics.service';
+import { ConstitutionalService } from '../constitutional/constitutional.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { JobQueueWorker } from '../queue/job-queue.worker';
+import { JobExecutionError } from '../queue/job-execution.error';
+import { InstallationSyncService } from '../installations/installation-sync.service';
+import { TenantService } from '../installations/tenant.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+import { createWebhookPayload } from '../../test/factories/webhook.factory';
+
+/**
+ * Webhooks Service Unit Tests
+ *
+ * Purpose: Verify every delivery is persisted, queued and routed to DETER-AGENT
+ * Constitutional Requirement: P4 Rastreabilidade Total
+ */
+
+describe('WebhooksService', () => {
+  let service: WebhooksService;
+  const constitutionalService = { executeDeterAgent: jest.fn() };
+  const metricsService = {
+    recordWebhookProcessing: jest.fn(),
+    recordWebhookDuplicate: jest.fn(),
+  };
+  const jobQueue = { enqueue: jest.fn(), willRetry: jest.fn() };
+  const worker = { registerHandler: jest.fn() };
+  const installationSync = {
+    handles: (eventType: string): boolean => eventType.startsWith('installation'),
+    handleEvent: jest.fn(),
+  };
+  const tenants = { resolve: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConstitutionalService, useValue: constitutionalService },
+        { provide: MetricsService, useValue: metricsService },
+        { provide: JobQueueService, useValue: jobQueue },
+        { provide: JobQueueWorker, useValue: worker },
+        { provide: InstallationSyncService, useValue: installationSync },
+        { provide: TenantService, useValue: tenants },
+      ],
+    }).compile();
+
+    service = module.get<WebhooksService>(WebhooksService);
+
+    mockPrismaService.webhookDelivery.findUnique.mockResolvedValue(null);
+    mockPrismaService.webhookDelivery.create.mockResolvedValue({ id: 'record-1' });
+    mockPrismaService.webhookDelivery.update.mockResolvedValue({ id: 'record-1' });
+    jobQueue.enqueue.mockResolvedValue({ id: 'job-1' });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should persist the delivery and enqueue it without running DETER-AGENT', async () => {
+    const result = await service.ingest({
+      deliveryId: 'delivery-1',
+      eventType: 'issues',
+      signature: 'sha256=abc',
+      payload: createWebhookPayload(),
+    });
+
+    expect(mockPrismaService.webhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        gitHubDeliveryId: 'delivery-1',
+        eventType: 'issues',
+        action: 'opened',
+        signature: 'sha256=abc',
+        verified: false,
+      }),
+    });
+    expect(jobQueue.enqueue).toHaveBeenCalledWith(
+      'webhook_delivery',
+      { deliveryRecordId: 'record-1' },
+      { repository: 'test-owner/test-repo' },
+    );
+    expect(constitutionalService.executeDeterAgent).not.toHaveBeenCalled();
+    expect(result.status).toBe('queued');
+    expect(result.jobId).toBe('job-1');
+  });
+
+  it('should skip DETER-AGENT for ping events', async () => {
+    const result = await service.ingest({
+      deliveryId: 'delivery-2',
+      eventType: 'ping',
+      signature: 'sha256=abc',
+      payload: { zen: 'Keep it logically awesome.' },
+    });
+
+    expect(result.status).toBe('skipped');
+    expect(jobQueue.enqueue).not.toHaveBeenCalled();
+    expect(mockPrismaService.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'record-1' },
+      data: expect.objectContaining({ errorMessage: null }),
+    });
+  });
+
+  describe('processDelivery', () => {
+    const stored = {
+      id: 'record-1',
+      gitHubDeliveryId: 'delivery-1',
+      eventType: 'issues',
+      signature: 'sha256=abc',
+      payload: createWebhookPayload(),
+    };
+
+    beforeEach(() => {
+      mockPrismaService.webhookDelivery.findUnique.mockResolvedValue(stored);
+    });
+
+    it('should run DETER-AGENT on the stored payload and mark it processed', async () => {
+      constitutionalService.executeDeterAgent.mockResolvedValue({
+        success: true,
+        layers: { constitutional: { violations: [] }, execution: { results: [] } },
+      });
+
+      const result = await service.processDelivery(
+        { deliveryRecordId: 'record-1' },
+        { attempts: 1, maxAttempts: 3 },
+      );
+
+      expect(constitutionalService.executeDeterAgent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'issues',
+          senderId: 'test-user',
+          repository: { owner: 'test-owner', name: 'test-repo', fullName: 'test-owner/test-repo' },
+        }),
+      );
+      expect(result.status).toBe('processed');
+      expect(mockPrismaService.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'record-1' },
+        data: expect.objectContaining({ processedAt: expect.any(Date), errorMessage: null }),
+      });
+      expect(metricsService.recordWebhookProcessing).toHaveBeenCalledWith(
+        expect.any(Number),
+        'issues',
+        true,
+      );
+    });
+
+    it('should hand installation events to the installation sync instead of DETER-AGENT', async () => {
+      mockPrismaService.webhookDelivery.findUnique.mockResolvedValue({
+        ...stored,
+        eventType: 'installation_repositories',
+        payload: { action: 'added', installation: { id: 42 }, repositories_added: [] },
+      });
+      installationSync.handleEvent.mockResolvedValue({
+        installationId: 42,
+        activated: ['test-owner/new-repo'],
+        deactivated: [],
+      });
+
+      const result = await service.processDelivery(
+        { deliveryRecordId: 'record-1' },
+        { attempts: 1, maxAttempts: 3 },
+      );
+
+      expect(installationSync.handleEvent).toHaveBeenCalledWith(
+        'installation_repositories',
+        expect.objectContaining({ action: 'added' }),
+      );
+      expect(constitutionalService.executeDeterAgent).not.toHaveBeenCalled();
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: 'processed',
+          reason: '1 repositories activated, 0 deactivated',
+        }),
+      );
+    });
+
+    it('should not run DETER-AGENT for a suspended installation', async () => {
+      mockPrismaService.webhookDelivery.findUnique.mockResolvedValue({
+        ...stored,
+        payload: { ...createWebhookPayload(), installation: { id: 42 } },
+      });
+      tenants.resolve.mockResolvedValueOnce({
+        id: 'inst-1',
+        githubInstallationId: 42,
+        accountLogin: 'test-owner',
+        isActive: false,
+      });
+
+      const result = await service.processDelivery(
+        { deliveryRecordId: 'record-1' },
+        { attempts: 1, maxAttempts: 3 },
+      );
+
+      expect(tenants.resolve).toHaveBeenCalledWith(42, 'test-owner');
+      expect(constitutionalService.executeDeterAgent).not.toHaveBeenCalled();
+      expect(result.reason).toBe('Installation 42 is suspended or uninstalled');
+    });
+
+    it('should throw failed actions with their diagnoses for the dead-letter record', async () => {
+      const diagnosis = {
+        action: 'post-analysis-comment',
+        attempt: 2,
+        error: 'Error: 404 not found',
+        diagnosis: 'Resource not found',
+        recoverable: false,
+      };
+      constitutionalService.executeDeterAgent.mockResolvedValue({
+        success: false,
+        layers: {
+          constitutional: { violations: [] },
+          execution: {
+            results: [
+              {
+                actionName: 'post-analysis-comment',
+                success: false,
+                error: 'Error: 404 not found',
+                diagnosis,
+              },
+            ],
+          },
+        },
+      });
+      jobQueue.willRetry.mockReturnValue(false);
+
+      const error = await service
+        .processDelivery({ deliveryRecordId: 'record-1' }, { attempts: 1, maxAttempts: 3 })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(JobExecutionError);
+      expect((error as JobExecutionError).diagnoses).toEqual([diagnosis]);
+      expect(mockPrismaService.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'record-1' },
+        data: expect.objectContaining({ processedAt: expect.any(Date) }),
+      });
+    });
+
+    it('should leave the delivery in progress while retries remain', async () => {
+      constitutionalService.executeDeterAgent.mockRejectedValue(new Error('boom'));
+      jobQueue.willRetry.mockReturnValue(true);
+
+      await expect(
+        service.processDelivery({ deliveryRecordId: 'record-1' }, { attempts: 1, maxAttempts: 3 }),
+      ).rejects.toThrow('boom');
+
+      expect(mockPrismaService.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'record-1' },
+        data: { errorMessage: 'boom' },
+      });
+    });
+
+    it('should mark the delivery failed on the final attempt', async () => {
+      constitutionalService.executeDeterAgent.mockRejectedValue(new Error('boom'));
+      jobQueue.willRetry.mockReturnValue(false);
+
+      await expect(
+        service.processDelivery({ deliveryRecordId: 'record-1' }, { attempts: 3, maxAttempts: 3 }),
+      ).rejects.toThrow('boom');
+
+      expect(mockPrismaService.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'record-1' },
+        data: expect.objectContaining({ processedAt: expect.any(Date), errorMessage: 'boom' }),
+      });
+    });
+  });
+
+  describe('Idempotency', () => {
+    const processed = {
+      id: 'record-9',
+      processedAt: new Date(),
+      errorMessage: null,
+    };
+
+    it('should return the prior outcome for a redelivered id', async () => {
+      mockPrismaService.webhookDelivery.findUnique.mockResolvedValue(processed);
+
+      const result = await service.ingest({
+        deliveryId: 'delivery-1',
+        eventType: 'issues',
+        signature: 'sha256=abc',
+        payload: createWebhookPayload(),
+      });
+
+      expect(result.status).toBe('duplicate');
+      expect(result.previousOutcome).toBe('processed');
+      expect(result.recordId).toBe('record-9');
+      expect(mockPrismaService.webhookDelivery.create).not.toHaveBeenCalled();
+      expect(jobQueue.enqueue).not.toHaveBeenCalled();
+      expect(metricsService.recordWebhookDuplicate).toHaveBeenCalledWith('issues');
+    });
+
+    it('should report a failed prior outcome with its error', async () => {
+      mockPrismaService.webhookDelivery.findUnique.mockResolvedValue({
+        ...processed,
+        errorMessage: 'Failed actions: post-analysis-comment',
+      });
+
+      const result = await service.ingest({
+        deliveryId: 'delivery-1',
+        eventType: 'issues',
+        signature: 'sha256=abc',
+        payload: createWebhookPayload(),
+      });
+
+      expect(result.previousOutcome).toBe('failed');
+      expect(result.reason).toBe('Failed actions: post-analysis-comment');
+    });
+
+    it('should not reset or enqueue a redelivered id', async () => {
+      mockPrismaService.webhookDelivery.findUnique.mockResolvedValue(processed);
+
+      await service.ingest({
+        deliveryId: 'delivery-1',
+        eventType: 'issues',
+        signature: 'sha256=abc',
+        payload: createWebhookPayload(),
+      });
+
+      expect(mockPrismaService.webhookDelivery.update).not.toHaveBeenCalled();
+      expect(jobQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Reprocessing', () => {
+    const stored = {
+      id: 'record-9',
+      gitHubDeliveryId: 'delivery-1',
+      eventType: 'issues',
+      action: 'opened',
+      signature: 'sha256=abc',
+      payload: createWebhookPayload(),
+      processedAt: new Date(),
+      errorMessage: 'Failed actions: post-analysis-comment',
+    };
+
+    it('should reset the delivery and enqueue it again', async () => {
+      mockPrismaService.webhookDelivery.findUnique.mockResolvedValue(stored);
+      mockPrismaService.jobQueue.count.mockResolvedValue(0);
+
+      const result = await service.reprocess('delivery-1');
+
+      expect(result.status).toBe('queued');
+      expect(mockPrismaService.jobQueue.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          status: { in: ['queued', 'processing'] },
+          data: { path: ['deliveryRecordId'], equals: 'record-9' },
+        }),
+      });
+      expect(mockPrismaService.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'record-9' },
+        data: { processedAt: null, errorMessage: null },
+      });
+      expect(jobQueue.enqueue).toHaveBeenCalledWith(
+        'webhook_delivery',
+        { deliveryRecordId: 'record-9' },
+        { repository: 'test-owner/test-repo' },
+      );
+    });
+
+    it('should refuse while the delivery job is still queued or processing', async () => {
+      mockPrismaService.webhookDelivery.findUnique.mockResolvedValue(stored);
+      mockPrismaService.jobQueue.count.mockResolvedValue(1);
+
+      await expect(service.reprocess('delivery-1')).rejects.toThrow(ConflictException);
+
+      expect(mockPrismaService.webhookDelivery.update).not.toHaveBeenCalled();
+      expect(jobQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown delivery id', async () => {
+      await expect(service.reprocess('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,539 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { JobQueue, Prisma, WebhookDelivery } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MetricsService } from '../observability/metrics/metrics.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { JobQueueWorker } from '../queue/job-queue.worker';
+import { JobExecutionError } from '../queue/job-execution.error';
+import {
+  ConstitutionalService,
+  ConstitutionalValidation,
+} from '../constitutional/constitutional.service';
+import {
+  DeterAgentInput,
+  DeterAgentResult,
+} from '../constitutional/deter-agent/deter-agent.orchestrator';
+import { ExecutionError } from '../constitutional/deter-agent/layer-4-execution';
+import { InstallationSyncService } from '../installations/installation-sync.service';
+import { TenantService } from '../installations/tenant.service';
+
+/**
+ * Webhooks Service
+ *
+ * Purpose: Persist every GitHub delivery and hand it to the DETER-AGENT pipeline
+ * Constitutional Requirement: P4 Rastreabilidade Total - every delivery is recorded
+ * Article III: Zero Trust - only deliveries validated by ConstitutionalGuard arrive here
+ *
+ * Flow: WebhookDelivery row → JobQueue job → (worker) DETER-AGENT → processedAt/errorMessage
+ * Installation events carry no repository and go to InstallationSyncService instead of DETER-AGENT
+ * Tenancy: each run is bound to the delivery's installation; suspended installations are skipped
+ * Idempotency: X-GitHub-Delivery is unique; redeliveries return the prior outcome
+ * Reprocessing: only through the admin endpoint, and never while the delivery's job is active
+ * Latency: GitHub times deliveries out after 10s, so the request only persists and enqueues
+ */
+
+export const WEBHOOK_DELIVERY_JOB = 'webhook_delivery';
+
+export interface WebhookDeliveryJobData {
+  deliveryRecordId: string;
+}
+
+export interface WebhookIngestionRequest {
+  deliveryId: string;
+  eventType: string;
+  signature: string;
+  payload: Record<string, unknown>;
+  validation?: ConstitutionalValidation;
+}
+
+export type DeliveryOutcome = 'processed' | 'failed' | 'in_progress';
+
+export interface WebhookIngestionResult {
+  deliveryId: string;
+  recordId: string;
+  eventType: string;
+  action?: string;
+  status: 'queued' | 'skipped' | 'duplicate';
+  jobId?: string;
+  previousOutcome?: DeliveryOutcome;
+  reason?: string;
+  processingTimeMs: number;
+}
+
+export interface WebhookProcessingResult {
+  deliveryId: string;
+  status: 'processed' | 'failed';
+  success: boolean;
+  reason?: string;
+  /** AgentRun recorded for the DETER-AGENT run, see GET /runs/:id */
+  runId?: string;
+  processingTimeMs: number;
+}
+
+@Injectable()
+export class WebhooksService implements OnModuleInit {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly constitutionalService: ConstitutionalService,
+    private readonly metricsService: MetricsService,
+    private readonly jobQueue: JobQueueService,
+    private readonly worker: JobQueueWorker,
+    private readonly installationSync: InstallationSyncService,
+    private readonly tenants: TenantService,
+  ) {
+    // NestJS dependency injection
+  }
+
+  onModuleInit(): void {
+    this.worker.registerHandler(WEBHOOK_DELIVERY_JOB, (data, job) =>
+      this.processDelivery(data as unknown as WebhookDeliveryJobData, job),
+    );
+  }
+
+  /**
+   * Persist a delivery and enqueue it for DETER-AGENT
+   * P4: Rastreabilidade Total - the row is written before any processing
+   */
+  async ingest(request: WebhookIngestionRequest): Promise<WebhookIngestionResult> {
+    const startTime = Date.now();
+    const action = this.extractAction(request.payload);
+
+    const existing = await this.findDelivery(request.deliveryId);
+
+    if (existing) {
+      return this.buildDuplicateResult(request, existing, action, startTime);
+    }
+
+    let delivery: WebhookDelivery;
+
+    try {
+      delivery = await this.createDelivery(request, action);
+    } catch (error) {
+      // A concurrent redelivery may have inserted the same id between lookup and insert
+      const winner = this.isUniqueViolation(error)
+        ? await this.findDelivery(request.deliveryId)
+        : null;
+
+      if (!winner) {
+        throw error;
+      }
+
+      return this.buildDuplicateResult(request, winner, action, startTime);
+    }
+
+    this.logger.log(
+      `Delivery ${request.deliveryId} persisted: ${request.eventType}${action ? `.${action}` : ''}`,
+    );
+
+    return this.dispatchDelivery(request, delivery.id, action, startTime);
+  }
+
+  /**
+   * Re-run an already stored delivery (admin only)
+   * Refused while a job for the delivery is still queued or processing, so a
+   * delivery never has two jobs in flight
+   */
+  async reprocess(deliveryId: string): Promise<WebhookIngestionResult> {
+    const startTime = Date.now();
+    const delivery = await this.findDelivery(deliveryId);
+
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${deliveryId} not found`);
+    }
+
+    const activeJobs = await this.prisma.jobQueue.count({
+      where: {
+        jobType: WEBHOOK_DELIVERY_JOB,
+        status: { in: ['queued', 'processing'] },
+        data: { path: ['deliveryRecordId'], equals: delivery.id },
+      },
+    });
+
+    if (activeJobs > 0) {
+      throw new ConflictException(`Webhook delivery ${deliveryId} is still queued or processing`);
+    }
+
+    await this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { processedAt: null, errorMessage: null },
+    });
+
+    const action = delivery.action ?? undefined;
+
+    this.logger.log(
+      `Delivery ${deliveryId} reprocessing: ${delivery.eventType}${action ? `.${action}` : ''}`,
+    );
+
+    return this.dispatchDelivery(
+      {
+        deliveryId,
+        eventType: delivery.eventType,
+        signature: delivery.signature,
+        payload: delivery.payload as Record<string, unknown>,
+      },
+      delivery.id,
+      action,
+      startTime,
+    );
+  }
+
+  /**
+   * Run DETER-AGENT for a queued delivery (JobQueue handler)
+   * Thrown errors are retried by the queue; the delivery is only marked processed
+   * once it succeeds or the job is dead-lettered. Failed actions are thrown as a
+   * JobExecutionError so their ExecutionLayer diagnoses reach the dead-letter record
+   */
+  async processDelivery(
+    data: WebhookDeliveryJobData,
+    job: Pick<JobQueue, 'attempts' | 'maxAttempts'>,
+  ): Promise<WebhookProcessingResult> {
+    const startTime = Date.now();
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id: data.deliveryRecordId },
+    });
+
+    if (!delivery) {
+      throw new Error(`Webhook delivery ${data.deliveryRecordId} not found`);
+    }
+
+    const payload = delivery.payload as Record<string, unknown>;
+    const input = this.buildDeterAgentInput(delivery.eventType, payload, delivery.signature);
+
+    if (!input && !this.installationSync.handles(delivery.eventType)) {
+      await this.markProcessed(delivery.id);
+
+      return {
+        deliveryId: delivery.gitHubDeliveryId,
+        status: 'processed',
+        success: true,
+        reason: 'Event has no repository context',
+        processingTimeMs: Date.now() - startTime,
+      };
+    }
+
+    try {
+      if (!input) {
+        const sync = await this.installationSync.handleEvent(delivery.eventType, payload);
+
+        await this.markProcessed(delivery.id);
+        this.metricsService.recordWebhookProcessing(
+          Date.now() - startTime,
+          delivery.eventType,
+          true,
+        );
+
+        return {
+          deliveryId: delivery.gitHubDeliveryId,
+          status: 'processed',
+          success: true,
+          reason: `${sync.activated.length} repositories activated, ${sync.deactivated.length} deactivated`,
+          processingTimeMs: Date.now() - startTime,
+        };
+      }
+
+      input.tenant = await this.tenants.resolve(input.installationId, input.repository.owner);
+
+      if (input.tenant && !input.tenant.isActive) {
+        await this.markProcessed(delivery.id);
+
+        return {
+          deliveryId: delivery.gitHubDeliveryId,
+          status: 'processed',
+          success: true,
+          reason: `Installation ${input.tenant.githubInstallationId} is suspended or uninstalled`,
+          processingTimeMs: Date.now() - startTime,
+        };
+      }
+
+      input.deliveryRecordId = delivery.id;
+
+      const result = await this.constitutionalService.executeDeterAgent(input);
+      const failure = result.success ? undefined : this.summarizeFailure(result);
+
+      if (failure && result.layers.constitutional.violations.length === 0) {
+        throw new JobExecutionError(failure, this.collectDiagnoses(result));
+      }
+
+      await this.markProcessed(delivery.id, failure);
+
+      this.metricsService.recordWebhookProcessing(
+        Date.now() - startTime,
+        delivery.eventType,
+        result.success,
+      );
+
+      return {
+        deliveryId: delivery.gitHubDeliveryId,
+        status: result.success ? 'processed' : 'failed',
+        success: result.success,
+        reason: failure,
+        runId: result.runId,
+        processingTimeMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const finalAttempt = !this.jobQueue.willRetry(job, error);
+
+      this.logger.error(
+        `Delivery ${delivery.gitHubDeliveryId} processing failed (attempt ${job.attempts}/${job.maxAttempts}): ${message}`,
+      );
+
+      if (finalAttempt) {
+        await this.markProcessed(delivery.id, message);
+      } else {
+        await this.prisma.webhookDelivery.update({
+          where: { id: delivery.id },
+          data: { errorMessage: message },
+        });
+      }
+
+      this.metricsService.recordWebhookProcessing(
+        Date.now() - startTime,
+        delivery.eventType,
+        false,
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Look up a delivery by its X-GitHub-Delivery id
+   */
+  private async findDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    return this.prisma.webhookDelivery.findUnique({
+      where: { gitHubDeliveryId: deliveryId },
+    });
+  }
+
+  /**
+   * Enqueue a stored delivery, or mark it skipped when nothing will handle it
+   */
+  private async dispatchDelivery(
+    request: WebhookIngestionRequest,
+    recordId: string,
+    action: string | undefined,
+    startTime: number,
+  ): Promise<WebhookIngestionResult> {
+    const input = this.buildDeterAgentInput(request.eventType, request.payload, request.signature);
+
+    if (!input && !this.installationSync.handles(request.eventType)) {
+      const reason =
+        request.eventType === 'ping'
+          ? 'Ping event acknowledged'
+          : 'Event has no repository context';
+
+      await this.markProcessed(recordId);
+
+      return this.buildResult(request, recordId, action, startTime, {
+        status: 'skipped',
+        reason,
+      });
+    }
+
+    let job: JobQueue;
+
+    try {
+      job = await this.jobQueue.enqueue(
+        WEBHOOK_DELIVERY_JOB,
+        { deliveryRecordId: recordId } satisfies WebhookDeliveryJobData,
+        { repository: input?.repository.fullName },
+      );
+    } catch (error) {
+      // Without a job the row would look in-progress forever; record it as failed
+      // so a redelivery reports it and the admin reprocess endpoint can retry
+      const message = error instanceof Error ? error.message : String(error);
+      await this.markProcessed(recordId, `Failed to enqueue: ${message}`);
+      throw error;
+    }
+
+    return this.buildResult(request, recordId, action, startTime, {
+      status: 'queued',
+      jobId: job.id,
+    });
+  }
+
+  /**
+   * Insert a new delivery row
+   */
+  private async createDelivery(
+    request: WebhookIngestionRequest,
+    action: string | undefined,
+  ): Promise<WebhookDelivery> {
+    return this.prisma.webhookDelivery.create({
+      data: {
+        gitHubDeliveryId: request.deliveryId,
+        eventType: request.eventType,
+        action,
+        payload: request.payload as Prisma.InputJsonValue,
+        signature: request.signature,
+        verified: request.validation?.valid ?? false,
+        constitutionalCRS: request.validation?.metrics.crs.crs,
+        lazyExecutionIndex: request.validation?.metrics.lei.lei,
+      },
+    });
+  }
+
+  /**
+   * Check for Prisma unique constraint violation (P2002)
+   */
+  private isUniqueViolation(error: unknown): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+  }
+
+  /**
+   * Derive the outcome of a previously stored delivery
+   */
+  private getDeliveryOutcome(delivery: WebhookDelivery): DeliveryOutcome {
+    if (!delivery.processedAt) {
+      return 'in_progress';
+    }
+
+    return delivery.errorMessage ? 'failed' : 'processed';
+  }
+
+  /**
+   * Short-circuit a redelivery without re-running DETER-AGENT actions
+   */
+  private buildDuplicateResult(
+    request: WebhookIngestionRequest,
+    delivery: WebhookDelivery,
+    action: string | undefined,
+    startTime: number,
+  ): WebhookIngestionResult {
+    const previousOutcome = this.getDeliveryOutcome(delivery);
+
+    this.logger.log(
+      `Duplicate delivery ${request.deliveryId} ignored (previous outcome: ${previousOutcome})`,
+    );
+
+    this.metricsService.recordWebhookDuplicate(request.eventType);
+
+    return this.buildResult(request, delivery.id, action, startTime, {
+      status: 'duplicate',
+      previousOutcome,
+      reason: delivery.errorMessage ?? undefined,
+    });
+  }
+
+  /**
+   * Build DETER-AGENT input from payload
+   * Returns undefined for events that carry no repository (ping, org-level events)
+   */
+  private buildDeterAgentInput(
+    eventType: string,
+    payload: Record<string, unknown>,
+    signature: string,
+  ): DeterAgentInput | undefined {
+    if (eventType === 'ping') {
+      return undefined;
+    }
+
+    const repository = payload.repository as Record<string, unknown> | undefined;
+
+    if (!repository || typeof repository.full_name !== 'string') {
+      return undefined;
+    }
+
+    const fullName = repository.full_name;
+    const [owner, name] = fullName.split('/');
+    const sender = payload.sender as Record<string, unknown> | undefined;
+    const installation = payload.installation as Record<string, unknown> | undefined;
+
+    return {
+      eventType,
+      payload,
+      signature,
+      senderId: typeof sender?.login === 'string' ? sender.login : undefined,
+      installationId: typeof installation?.id === 'number' ? installation.id : undefined,
+      repository: {
+        owner,
+        name,
+        fullName,
+      },
+    };
+  }
+
+  /**
+   * Extract action from payload (e.g., "opened", "synchronize")
+   */
+  private extractAction(payload: Record<string, unknown>): string | undefined {
+    return typeof payload.action === 'string' ? payload.action : undefined;
+  }
+
+  /**
+   * Summarize a failed DETER-AGENT run for the delivery record
+   */
+  private summarizeFailure(result: DeterAgentResult): string {
+    const violations = result.layers.constitutional.violations;
+
+    if (violations.length > 0) {
+      return `Constitutional violations: ${violations.join(', ')}`;
+    }
+
+    const failedActions = result.layers.execution.results
+      .filter((r) => !r.success)
+      .map((r) => `${r.actionName}: ${r.error ?? 'unknown error'}`);
+
+    return `Failed actions: ${failedActions.join('; ')}`;
+  }
+
+  /**
+   * Collect ExecutionLayer diagnoses for every failed action
+   */
+  private collectDiagnoses(result: DeterAgentResult): ExecutionError[] {
+    return result.layers.execution.results
+      .filter((r) => !r.success)
+      .map(
+        (r) =>
+          r.diagnosis ?? {
+            action: r.actionName,
+            attempt: r.attemptsRequired,
+            error: r.error ?? 'unknown error',
+            diagnosis: 'No diagnosis recorded',
+            recoverable: true,
+          },
+      );
+  }
+
+  /**
+   * Mark delivery as processed, recording the error if any
+   */
+  private async markProcessed(id: string, errorMessage?: string): Promise<void> {
+    await this.prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        processedAt: new Date(),
+        errorMessage: errorMessage ?? null,
+      },
+    });
+  }
+
+  /**
+   * Build ingestion result
+   */
+  private buildResult(
+    request: WebhookIngestionRequest,
+    recordId: string,
+    action: string | undefined,
+    startTime: number,
+    outcome: Pick<WebhookIngestionResult, 'status' | 'reason' | 'jobId' | 'previousOutcome'>,
+  ): WebhookIngestionResult {
+    return {
+      deliveryId: request.deliveryId,
+      recordId,
+      eventType: request.eventType,
+      action,
+      ...outcome,
+      processingTimeMs: Date.now() - startTime,
+    };
+  }
+}